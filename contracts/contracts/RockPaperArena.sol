@@ -6,21 +6,58 @@ pragma solidity ^0.8.27;
  * @notice Encrypted Rock Paper Scissors game using FHE
  * @dev Implements three modules: MatchQueue, EncryptedMoveBook, PayoutVault
  *
- * Game Rules:
+ * Game Rules (classic):
  * - Rock (0) beats Scissors (2)
  * - Paper (1) beats Rock (0)
  * - Scissors (2) beats Paper (1)
  *
+ * Rock-Paper-Scissors-Lizard-Spock adds:
+ * - Rock (0) crushes Lizard (3), Paper (1) disproves Spock (4)
+ * - Scissors (2) decapitates Lizard (3), Lizard (3) eats Paper (1) and poisons Spock (4)
+ * - Spock (4) smashes Scissors (2) and vaporizes Rock (0)
+ *
  * Security Model:
  * - Fail-closed: All operations fail safely
  * - FHE encryption: Moves remain encrypted until reveal
  * - ACL management: Proper permission handling
+ * - Confidential stakes: ERC-7984 amounts stay encrypted and the pot is settled homomorphically
+ * - Series: best-of-N matches replay the commit/reveal loop until one player wins a majority of rounds
+ * - Invites: challenges addressed to one opponent stay out of the public queue
+ * - Invite codes: link-shared challenges joinable by whoever holds the secret code
+ * - Move validation: an out-of-range encrypted move loses without being revealed
+ * - Auto-settle: optionally, the second commitment settles the match without requestReveal
+ * - Abort: joined players can mutually abort, and player2 can leave before any move is committed
+ * - One-step play: a challenge can be created or accepted with the move committed in the same transaction
+ * - Managed matches: a registered manager contract (the tournament bracket) can pair two players
+ *   and is notified of the outcome
+ * - Matchmaking: a registered matchmaker contract pairs players from its queue into regular matches
+ * - Rule sets: each match picks a variant, resolved homomorphically from a packed "beats" table
+ * - Ratings: every completed match moves both players' Elo ratings, with a provisional K-factor
+ *   for new accounts
+ * - Seasons: the owner can roll over to a new season; stats and ratings restart from scratch while
+ *   past seasons stay readable
+ * - Private stats: players in privacy mode have their wins and losses counted homomorphically by a
+ *   registered stats contract instead of in the public PlayerStats. This is cosmetic: the result
+ *   itself is still decrypted and emitted publicly, so it hides totals, not matches
+ * - Gasless moves: a registered forwarder contract submits moves players signed with EIP-712, so a
+ *   relayer can pay the gas
  */
 
-import {FHE, euint8, externalEuint8, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {FHE, euint8, euint64, externalEuint8, externalEuint64, ebool} from "@fhevm/solidity/lib/FHE.sol";
 import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC7984} from "@openzeppelin/confidential-contracts/interfaces/IERC7984.sol";
+import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {SafeERC20} from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {MessageHashUtils} from "@openzeppelin/contracts/utils/cryptography/MessageHashUtils.sol";
+import {IMatchManager} from "./interfaces/IMatchManager.sol";
+import {IMoveForwarder} from "./interfaces/IMoveForwarder.sol";
+import {IPrivateStats} from "./interfaces/IPrivateStats.sol";
 
 contract RockPaperArena is ZamaEthereumConfig {
+    using SafeERC20 for IERC20;
+
     /* ========== STATE VARIABLES ========== */
 
     /// @notice Match states enum
@@ -29,14 +66,23 @@ contract RockPaperArena is ZamaEthereumConfig {
         Waiting,        // 1: Waiting for player 2
         BothCommitted,  // 2: Both players committed
         Revealed,       // 3: Winner determined
-        Cancelled       // 4: Match cancelled
+        Cancelled,      // 4: Match cancelled
+        Decrypting      // 5: Result awaiting public decryption
     }
 
-    /// @notice Gesture enum (Rock=0, Paper=1, Scissors=2)
+    /// @notice Gesture enum (Rock=0, Paper=1, Scissors=2, Lizard=3, Spock=4)
     enum Gesture {
         Rock,      // 0
         Paper,     // 1
-        Scissors   // 2
+        Scissors,  // 2
+        Lizard,    // 3 (RPSLS only)
+        Spock      // 4 (RPSLS only)
+    }
+
+    /// @notice Rule set variants
+    enum RuleSet {
+        Classic,    // 0: Rock Paper Scissors
+        LizardSpock // 1: Rock Paper Scissors Lizard Spock
     }
 
     /// @notice Match data structure
@@ -46,11 +92,35 @@ contract RockPaperArena is ZamaEthereumConfig {
         address player2;           // Second player (challenger)
         euint8 move1;             // Encrypted move of player1
         euint8 move2;             // Encrypted move of player2
+        euint8 result;            // Encrypted outcome (0=Draw, 1=Player1, 2=Player2)
         bool player1Committed;    // Has player1 committed move?
         bool player2Committed;    // Has player2 committed move?
         uint256 createdAt;        // Timestamp of match creation
+        uint256 commitDeadline;   // Deadline for both moves (set when player2 joins)
         MatchState state;         // Current match state
         address winner;           // Winner address (after reveal)
+        uint256 stake;            // Wager escrowed by each player
+        address stakeToken;       // ERC-20 wager token (address(0) for ETH)
+        address confidentialToken; // ERC-7984 token for encrypted stakes (address(0) if none)
+        euint64 encryptedStake1;  // Encrypted amount escrowed by player1
+        euint64 encryptedStake2;  // Encrypted amount escrowed by player2
+        uint8 bestOf;             // Series length (1 for a single round)
+        uint8 roundsPlayed;       // Rounds decrypted so far
+        uint8 score1;             // Rounds won by player1
+        uint8 score2;             // Rounds won by player2
+        address invitedOpponent;  // Only player allowed to join (address(0) for an open match)
+        address inviteCodeSigner; // Address of the secret invite code key (address(0) if none)
+        address abortRequestedBy; // Player waiting for the opponent to confirm an abort (address(0) if none)
+        address manager;          // Contract notified when the match ends (address(0) for player-created matches)
+        RuleSet ruleSet;          // Gestures and "beats" relation used to settle rounds
+    }
+
+    /// @notice Moves and outcome of one decrypted round
+    struct Round {
+        euint8 move1;             // Encrypted move of player1
+        euint8 move2;             // Encrypted move of player2
+        euint8 result;            // Encrypted round outcome
+        uint8 outcome;            // Decrypted round outcome (0=Draw, 1=Player1, 2=Player2)
     }
 
     /// @notice Player statistics
@@ -60,325 +130,1537 @@ contract RockPaperArena is ZamaEthereumConfig {
         uint256 draws;          // Total draws
         uint256 totalMatches;   // Total matches played
         uint256 currentStreak;  // Current win streak
+        uint256 bestStreak;     // Longest win streak achieved
+        uint256 abandoned;      // Matches left or forfeited by not committing
+        uint256 rating;         // Elo rating (0 until the first completed match, read as INITIAL_RATING)
     }
 
+    /// @notice Elo rating changes applied when a match completed
+    struct RatingChange {
+        int128 delta1;            // Rating change of player1
+        int128 delta2;            // Rating change of player2
+    }
+
+    /* ========== CONSTANTS ========== */
+
+    /// @notice Time both players have to commit their moves after player2 joins
+    uint256 public constant COMMIT_WINDOW = 10 minutes;
+
+    /// @notice Longest supported best-of-N series
+    uint8 public constant MAX_SERIES_LENGTH = 7;
+
+    /// @notice Most unfinished matches a player can be part of at once
+    uint256 public constant MAX_ACTIVE_MATCHES = 5;
+
+    /// @notice Classic "beats" table: bit (a * 3 + b) is set when gesture a beats gesture b
+    uint32 internal constant CLASSIC_BEATS = 0x8C;
+
+    /// @notice RPSLS "beats" table: bit (a * 5 + b) is set when gesture a beats gesture b
+    uint32 internal constant LIZARD_SPOCK_BEATS = 0x592A2C;
+
+    /// @notice Rating of a player before their first completed match
+    uint256 public constant INITIAL_RATING = 1200;
+
+    /// @notice Lowest rating a player can drop to
+    uint256 public constant RATING_FLOOR = 100;
+
+    /// @notice Number of completed matches played with the provisional K-factor
+    uint256 public constant PROVISIONAL_MATCHES = 30;
+
+    /// @notice K-factor for provisional players, so new accounts converge quickly
+    uint256 public constant PROVISIONAL_K_FACTOR = 40;
+
+    /// @notice K-factor once a player is established
+    uint256 public constant K_FACTOR = 20;
+
+    /// @notice Expected score (per mille) of the higher-rated player at 50-point rating gaps
+    ///         from 0 to 800, packed 12 bits each: 1000 / (1 + 10^(-gap / 400))
+    uint256 internal constant EXPECTED_SCORES = 0x3de3db3d73d13c93c03b33a238d3723513282f82bf28023b1f4;
+
+    /// @notice Whether the second commitment settles the round and requests decryption itself
+    bool public immutable autoSettle;
+
+    /// @notice Account allowed to register the match manager and start new seasons
+    address public immutable owner;
+
     /* ========== STORAGE ========== */
 
     /// @notice Match ID counter
     uint256 public matchCounter;
 
-    /// @notice Mapping of match ID to Match struct
-    mapping(uint256 => Match) public matches;
+    /// @notice Contract allowed to open matches between two players (the tournament bracket)
+    address public matchManager;
+
+    /// @notice Matchmaking contract allowed to pair queued players (RockPaperMatchmaker)
+    address public matchmaker;
+
+    /// @notice Contract keeping encrypted win/loss counters of players in privacy mode (RockPaperPrivateStats)
+    address public privateStats;
+
+    /// @notice Forwarder whose per-player proxies may submit moves signed by players (RockPaperForwarder)
+    address public moveForwarder;
+
+    /// @notice Mapping of match ID to Match struct (read through getMatch; too wide for a public getter)
+    mapping(uint256 => Match) internal matches;
+
+    /// @notice Mapping of match ID to round number (1-based) to the decrypted round
+    mapping(uint256 => mapping(uint256 => Round)) internal rounds;
+
+    /// @notice Season whose standings completed matches are recorded in (starts at 1)
+    uint256 public currentSeason;
+
+    /// @notice Mapping of season to player address to their stats in that season
+    mapping(uint256 => mapping(address => PlayerStats)) internal seasonStats;
+
+    /// @notice Mapping of season to the players who completed a match in it
+    mapping(uint256 => address[]) internal seasonPlayers;
 
-    /// @notice Mapping of player address to their stats
-    mapping(address => PlayerStats) public playerStats;
+    /// @notice Mapping of match ID to the rating changes applied when it completed
+    mapping(uint256 => RatingChange) public ratingChanges;
 
-    /// @notice Mapping of player address to their active match ID (0 if none)
-    mapping(address => uint256) public playerActiveMatch;
+    /// @notice Mapping of player address to the IDs of their unfinished matches (at most MAX_ACTIVE_MATCHES)
+    mapping(address => uint256[]) internal activeMatches;
 
     /// @notice Array of pending match IDs waiting for player 2
     uint256[] public pendingMatches;
 
+    /// @notice Mapping of player address to match IDs they were invited to and have not answered
+    mapping(address => uint256[]) internal playerInvites;
+
+    /// @notice Position of a listed match in its pending or invites array, plus one (0 if not listed)
+    mapping(uint256 => uint256) internal listedIndex;
+
+    /// @notice Whether a match was opened by the matchmaker for two queued players
+    mapping(uint256 => bool) public queuedMatches;
+
+    /// @notice Mapping of player address to every match ID they created or joined, oldest first
+    mapping(address => uint256[]) internal playerMatches;
+
+    /// @notice Mapping of player address to ETH credited and not yet withdrawn
+    mapping(address => uint256) public pendingRewards;
+
+    /// @notice Mapping of player address to ERC-20 token to amount credited and not yet withdrawn
+    mapping(address => mapping(address => uint256)) public pendingTokenRewards;
+
+    /// @notice Mapping of player address to ERC-7984 token to encrypted amount credited and not yet withdrawn
+    mapping(address => mapping(address => euint64)) public confidentialRewards;
+
     /* ========== EVENTS ========== */
 
     event MatchCreated(uint256 indexed matchId, address indexed player1);
     event MatchJoined(uint256 indexed matchId, address indexed player2);
+    event MatchInvited(uint256 indexed matchId, address indexed player1, address indexed opponent);
     event MoveCommitted(uint256 indexed matchId, address indexed player);
     event MatchRevealed(uint256 indexed matchId, address winner, uint8 result);
     event MatchCancelled(uint256 indexed matchId);
+    event MatchDecryptionRequested(uint256 indexed matchId, bytes32 resultHandle);
+    event MatchForfeited(uint256 indexed matchId, address indexed winner);
+    event AbortRequested(uint256 indexed matchId, address indexed player);
+    event MatchLeft(uint256 indexed matchId, address indexed player2);
+    event RoundCompleted(uint256 indexed matchId, uint8 round, uint8 result, uint8 score1, uint8 score2);
+    event RewardsCredited(uint256 indexed matchId, address indexed player, address token, uint256 amount);
+    event RewardsClaimed(address indexed player, address indexed token, uint256 amount);
+    event ConfidentialRewardsCredited(uint256 indexed matchId, address indexed player, address token);
+    event ConfidentialRewardsClaimed(address indexed player, address indexed token);
+    event StatsUpdated(
+        address indexed player,
+        uint256 wins,
+        uint256 losses,
+        uint256 draws,
+        uint256 currentStreak,
+        uint256 bestStreak
+    );
+    event SeasonStarted(uint256 indexed season);
+    event RatingsUpdated(
+        uint256 indexed matchId,
+        address indexed player1,
+        address indexed player2,
+        uint256 rating1,
+        uint256 rating2,
+        int256 delta1,
+        int256 delta2
+    );
 
     /* ========== ERRORS ========== */
 
-    error AlreadyInMatch();
+    error TooManyActiveMatches();
     error InvalidMatchId();
     error MatchNotWaiting();
     error UnauthorizedPlayer();
     error MoveAlreadyCommitted();
     error MatchNotReady();
-    error InvalidGesture();
+    error DeadlineNotReached();
+    error DeadlinePassed();
+    error StakeMismatch();
+    error InvalidStake();
+    error NoRewards();
+    error TransferFailed();
+    error InvalidSeriesLength();
+    error InvalidOpponent();
+    error NotInvited();
+    error InvalidInviteCode();
+    error NoAbortRequest();
+    error UnauthorizedManager();
+    error NotOwner();
 
     /* ========== CONSTRUCTOR ========== */
 
-    constructor() {
+    /**
+     * @param autoSettle_ Settle rounds inside submitMove once both moves are in
+     */
+    constructor(bool autoSettle_) {
         // Initialize match counter (starts at 1)
         matchCounter = 1;
+        currentSeason = 1;
+        autoSettle = autoSettle_;
+        owner = msg.sender;
     }
 
     /* ========== MODULE 1: MATCH QUEUE ========== */
 
     /**
      * @notice Create a new match and wait for opponent
-     * @dev Player1 creates match without committing move yet
+     * @dev Player1 creates match without committing move yet; msg.value is escrowed as the stake
+     * @return matchId The created match ID
+     */
+    function createChallenge() external payable returns (uint256 matchId) {
+        return _createMatch(address(0), msg.value, address(0), address(0));
+    }
+
+    /**
+     * @notice Create a private match that only `opponent` can join
+     * @dev The match is listed in the opponent's invites instead of the public pending queue;
+     *      msg.value is escrowed as the stake
+     * @param opponent The only player allowed to accept the challenge
      * @return matchId The created match ID
      */
-    function createChallenge() external returns (uint256 matchId) {
-        // Check player is not already in a match
-        if (playerActiveMatch[msg.sender] != 0) {
-            revert AlreadyInMatch();
+    function createChallengeFor(address opponent) external payable returns (uint256 matchId) {
+        if (opponent == address(0) || opponent == msg.sender) {
+            revert InvalidOpponent();
         }
 
-        // Create new match
-        matchId = matchCounter++;
-        Match storage newMatch = matches[matchId];
+        return _createMatch(address(0), msg.value, opponent, address(0));
+    }
 
-        newMatch.matchId = matchId;
-        newMatch.player1 = msg.sender;
-        newMatch.state = MatchState.Waiting;
-        newMatch.createdAt = block.timestamp;
+    /**
+     * @notice Create a private match joinable by whoever holds a secret invite code
+     * @dev The code is a random private key shared off-chain; only its address (the hash of its
+     *      public key) is registered. Joiners prove the code with a signature bound to their own
+     *      address, so a code seen in the mempool cannot be replayed. msg.value is escrowed as the stake.
+     * @param codeSigner Address derived from the secret invite code
+     * @return matchId The created match ID
+     */
+    function createChallengeWithCode(address codeSigner) external payable returns (uint256 matchId) {
+        if (codeSigner == address(0)) {
+            revert InvalidInviteCode();
+        }
 
-        // Mark player as in active match
-        playerActiveMatch[msg.sender] = matchId;
+        return _createMatch(address(0), msg.value, address(0), codeSigner);
+    }
 
-        // Add to pending matches
-        pendingMatches.push(matchId);
+    /**
+     * @notice Create a new match and commit player1's encrypted move in the same transaction
+     * @dev msg.value is escrowed as the stake; the move is stored exactly as with submitMove
+     * @param encryptedMove The encrypted move (externalEuint8)
+     * @param inputProof The zero-knowledge proof for the encrypted input
+     * @return matchId The created match ID
+     */
+    function createChallengeWithMove(
+        externalEuint8 encryptedMove,
+        bytes calldata inputProof
+    ) external payable returns (uint256 matchId) {
+        matchId = _createMatch(address(0), msg.value, address(0), address(0));
 
-        emit MatchCreated(matchId, msg.sender);
+        _commitMove(matchId, msg.sender, FHE.fromExternal(encryptedMove, inputProof));
 
         return matchId;
     }
 
     /**
-     * @notice Join an existing match as player2
-     * @param matchId The match ID to join
+     * @notice Create a best-of-N series and wait for opponent
+     * @dev Rounds are replayed until one player wins a majority; msg.value is escrowed as the stake
+     * @param bestOf Series length (3, 5 or 7)
+     * @return matchId The created match ID
      */
-    function acceptChallenge(uint256 matchId) external {
-        // Validate match exists
-        if (matchId == 0 || matchId >= matchCounter) {
-            revert InvalidMatchId();
+    function createSeriesChallenge(uint8 bestOf) external payable returns (uint256 matchId) {
+        if (bestOf == 1) {
+            revert InvalidSeriesLength();
         }
+        _requireSeriesLength(bestOf);
 
-        Match storage gameMatch = matches[matchId];
+        matchId = _createMatch(address(0), msg.value, address(0), address(0));
+        matches[matchId].bestOf = bestOf;
 
-        // Check match is waiting for player2
-        if (gameMatch.state != MatchState.Waiting) {
-            revert MatchNotWaiting();
-        }
+        return matchId;
+    }
+
+    /**
+     * @notice Create a match played under a rule set variant and wait for opponent
+     * @dev msg.value is escrowed as the stake
+     * @param ruleSet The variant both players commit gestures for
+     * @param bestOf Series length (1, 3, 5 or 7)
+     * @return matchId The created match ID
+     */
+    function createVariantChallenge(RuleSet ruleSet, uint8 bestOf) external payable returns (uint256 matchId) {
+        _requireSeriesLength(bestOf);
+
+        matchId = _createMatch(address(0), msg.value, address(0), address(0));
+        matches[matchId].bestOf = bestOf;
+        matches[matchId].ruleSet = ruleSet;
+
+        return matchId;
+    }
+
+    /**
+     * @notice Register the contract allowed to open managed matches
+     * @dev Callable once, by the owner
+     * @param manager The match manager contract
+     */
+    function setMatchManager(address manager) external {
+        _requireRegistrable(matchManager, manager);
+
+        matchManager = manager;
+    }
 
-        // Check player is not already in a match
-        if (playerActiveMatch[msg.sender] != 0) {
-            revert AlreadyInMatch();
+    /**
+     * @notice Archive the current season's standings and start a new season
+     * @dev Past seasons stay readable through getSeasonStats. Matches still in progress are
+     *      recorded in the season in which they complete.
+     */
+    function startNewSeason() external {
+        if (msg.sender != owner) {
+            revert NotOwner();
         }
 
-        // Cannot join own match
-        if (gameMatch.player1 == msg.sender) {
-            revert UnauthorizedPlayer();
+        uint256 season = ++currentSeason;
+
+        emit SeasonStarted(season);
+    }
+
+    /**
+     * @notice Open a joined match between two players on behalf of the match manager
+     * @dev The match has no stake and is never listed. A drawn single round is replayed so the
+     *      manager always gets a winner, and the manager is notified through IMatchManager when
+     *      the match is decided or voided
+     * @param player1 First player
+     * @param player2 Second player
+     * @param bestOf Series length (1, 3, 5 or 7)
+     * @return matchId The created match ID
+     */
+    function createManagedMatch(
+        address player1,
+        address player2,
+        uint8 bestOf
+    ) external returns (uint256 matchId) {
+        if (msg.sender != matchManager) {
+            revert UnauthorizedManager();
+        }
+        if (player1 == address(0) || player2 == address(0) || player1 == player2) {
+            revert InvalidOpponent();
         }
+        _requireSeriesLength(bestOf);
 
-        // Set player2
-        gameMatch.player2 = msg.sender;
-        playerActiveMatch[msg.sender] = matchId;
+        return _createJoinedMatch(player1, player2, bestOf, msg.sender);
+    }
 
-        // Remove from pending matches
-        _removePendingMatch(matchId);
+    /**
+     * @notice Register the contract allowed to pair players from its matchmaking queue
+     * @dev Callable once, by the owner
+     * @param matchmaker_ The matchmaking contract
+     */
+    function setMatchmaker(address matchmaker_) external {
+        _requireRegistrable(matchmaker, matchmaker_);
 
-        emit MatchJoined(matchId, msg.sender);
+        matchmaker = matchmaker_;
     }
 
     /**
-     * @notice Cancel a match (only player1 can cancel before player2 joins)
-     * @param matchId The match ID to cancel
+     * @notice Register the contract that keeps the encrypted stats of players in privacy mode
+     * @dev Callable once, by the owner
+     * @param privateStats_ The private stats contract
      */
-    function cancelMatch(uint256 matchId) external {
-        Match storage gameMatch = matches[matchId];
+    function setPrivateStats(address privateStats_) external {
+        _requireRegistrable(privateStats, privateStats_);
 
-        // Only player1 can cancel
-        if (gameMatch.player1 != msg.sender) {
-            revert UnauthorizedPlayer();
+        privateStats = privateStats_;
+    }
+
+    /**
+     * @notice Register the contract that submits moves on behalf of the players who signed them
+     * @dev Callable once, by the owner
+     * @param moveForwarder_ The forwarder contract
+     */
+    function setMoveForwarder(address moveForwarder_) external {
+        _requireRegistrable(moveForwarder, moveForwarder_);
+
+        moveForwarder = moveForwarder_;
+    }
+
+    /**
+     * @notice Open a joined match between two queued players on behalf of the matchmaker
+     * @dev A free, classic best-of-1 match that then plays like any player-created match,
+     *      except that player2 cannot leave it
+     * @param player1 Player who waited in the queue
+     * @param player2 Player who was paired with them
+     * @return matchId The created match ID
+     */
+    function createQueuedMatch(address player1, address player2) external returns (uint256 matchId) {
+        if (msg.sender != matchmaker) {
+            revert UnauthorizedManager();
         }
 
-        // Can only cancel waiting matches
-        if (gameMatch.state != MatchState.Waiting) {
-            revert MatchNotWaiting();
+        matchId = _createJoinedMatch(player1, player2, 1, address(0));
+        queuedMatches[matchId] = true;
+    }
+
+    /**
+     * @notice Create a new match wagering an ERC-20 token
+     * @dev The stake is pulled from player1, so the arena must be approved for `stake` first
+     * @param token The ERC-20 token to wager
+     * @param stake Amount each player must escrow
+     * @return matchId The created match ID
+     */
+    function createTokenChallenge(address token, uint256 stake) external returns (uint256 matchId) {
+        if (token == address(0) || stake == 0) {
+            revert InvalidStake();
         }
 
-        // Update state
-        gameMatch.state = MatchState.Cancelled;
-        playerActiveMatch[msg.sender] = 0;
+        matchId = _createMatch(token, stake, address(0), address(0));
 
-        // Remove from pending matches
-        _removePendingMatch(matchId);
+        IERC20(token).safeTransferFrom(msg.sender, address(this), stake);
 
-        emit MatchCancelled(matchId);
+        return matchId;
     }
 
-    /* ========== MODULE 2: ENCRYPTED MOVE BOOK ========== */
+    /**
+     * @notice Join an existing match as player2
+     * @param matchId The match ID to join
+     * @dev msg.value must match the stake escrowed by player1
+     */
+    function acceptChallenge(uint256 matchId) external payable {
+        _joinPlainMatch(matchId);
+    }
 
     /**
-     * @notice Submit encrypted move for a match
-     * @param matchId The match ID
+     * @notice Join an existing match as player2 and commit the encrypted move in the same transaction
+     * @param matchId The match ID to join
      * @param encryptedMove The encrypted move (externalEuint8)
      * @param inputProof The zero-knowledge proof for the encrypted input
+     * @dev msg.value must match the stake escrowed by player1. If player1 already committed,
+     *      the match moves to BothCommitted (and settles when auto-settle is enabled)
      */
-    function submitMove(
+    function acceptChallengeWithMove(
         uint256 matchId,
         externalEuint8 encryptedMove,
         bytes calldata inputProof
-    ) external {
-        Match storage gameMatch = matches[matchId];
-
-        // Validate player is in this match
-        bool isPlayer1 = gameMatch.player1 == msg.sender;
-        bool isPlayer2 = gameMatch.player2 == msg.sender;
+    ) external payable {
+        _joinPlainMatch(matchId);
 
-        if (!isPlayer1 && !isPlayer2) {
-            revert UnauthorizedPlayer();
-        }
+        _commitMove(matchId, msg.sender, FHE.fromExternal(encryptedMove, inputProof));
+    }
 
-        // Check if move already committed
-        if (isPlayer1 && gameMatch.player1Committed) {
-            revert MoveAlreadyCommitted();
-        }
-        if (isPlayer2 && gameMatch.player2Committed) {
-            revert MoveAlreadyCommitted();
+    /**
+     * @notice Join a code-protected match as player2
+     * @param matchId The match ID to join
+     * @param codeSignature Signature by the invite code key over getInviteCodeDigest(matchId, msg.sender)
+     * @dev msg.value must match the stake escrowed by player1
+     */
+    function acceptChallengeWithCode(uint256 matchId, bytes calldata codeSignature) external payable {
+        address codeSigner = matches[matchId].inviteCodeSigner;
+        if (codeSigner == address(0)) {
+            revert InvalidInviteCode();
         }
 
-        // Import encrypted move from external
-        euint8 move = FHE.fromExternal(encryptedMove, inputProof);
-
-        // Authorize contract to access the encrypted value
-        FHE.allowThis(move);
-
-        // Store encrypted move
-        if (isPlayer1) {
-            gameMatch.move1 = move;
-            gameMatch.player1Committed = true;
-            emit MoveCommitted(matchId, msg.sender);
-        } else {
-            gameMatch.move2 = move;
-            gameMatch.player2Committed = true;
-            emit MoveCommitted(matchId, msg.sender);
+        bytes32 digest = MessageHashUtils.toEthSignedMessageHash(getInviteCodeDigest(matchId, msg.sender));
+        (address recovered, ECDSA.RecoverError recoverError, ) = ECDSA.tryRecover(digest, codeSignature);
+        if (recoverError != ECDSA.RecoverError.NoError || recovered != codeSigner) {
+            revert InvalidInviteCode();
         }
 
-        // Check if both players have committed
-        if (gameMatch.player1Committed && gameMatch.player2Committed) {
-            gameMatch.state = MatchState.BothCommitted;
-        }
+        _joinMatch(matchId);
     }
 
     /**
-     * @notice Lock move (prevent further changes)
-     * @dev Called automatically when both moves are submitted
-     * @param matchId The match ID
+     * @notice Join an ERC-20 match, approving the stake with an EIP-2612 permit in the same transaction
+     * @param matchId The match ID to join
+     * @param deadline Permit expiry timestamp
+     * @param v Permit signature v
+     * @param r Permit signature r
+     * @param s Permit signature s
+     * @dev A failed permit is ignored so a front-run permit cannot block the join;
+     *      the transfer still reverts if the allowance is missing
      */
-    function lockMove(uint256 matchId) external view returns (bool) {
+    function acceptChallengeWithPermit(
+        uint256 matchId,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
         Match storage gameMatch = matches[matchId];
-        return gameMatch.state == MatchState.BothCommitted;
-    }
+        if (gameMatch.stakeToken == address(0)) {
+            revert InvalidStake();
+        }
 
-    /* ========== MODULE 3: PAYOUT VAULT & REVEAL ========== */
+        try
+            IERC20Permit(gameMatch.stakeToken).permit(msg.sender, address(this), gameMatch.stake, deadline, v, r, s)
+        {} catch {} // solhint-disable-line no-empty-blocks
+
+        _joinMatch(matchId);
+    }
 
     /**
-     * @notice Reveal match outcome (determine winner)
-     * @param matchId The match ID
-     * @dev Uses homomorphic operations to determine winner without decryption
+     * @notice Create a new match wagering an encrypted amount of an ERC-7984 token
+     * @dev The arena must be an operator of player1's balance. If the balance is too low the
+     *      token transfers zero, which becomes the stake player2 has to match.
+     * @param token The ERC-7984 confidential token to wager
+     * @param encryptedStake The encrypted stake amount
+     * @param inputProof The zero-knowledge proof for the encrypted input
+     * @return matchId The created match ID
      */
-    function requestReveal(uint256 matchId) external {
-        Match storage gameMatch = matches[matchId];
-
-        // Check both moves committed
-        if (gameMatch.state != MatchState.BothCommitted) {
-            revert MatchNotReady();
+    function createConfidentialChallenge(
+        address token,
+        externalEuint64 encryptedStake,
+        bytes calldata inputProof
+    ) external returns (uint256 matchId) {
+        if (token == address(0)) {
+            revert InvalidStake();
         }
 
-        // Only players in match can request reveal
-        if (msg.sender != gameMatch.player1 && msg.sender != gameMatch.player2) {
-            revert UnauthorizedPlayer();
-        }
+        matchId = _createMatch(address(0), 0, address(0), address(0));
+        Match storage newMatch = matches[matchId];
+        newMatch.confidentialToken = token;
 
-        // Determine winner using FHE operations
-        _settleMatch(matchId);
+        euint64 stake = FHE.fromExternal(encryptedStake, inputProof);
+        newMatch.encryptedStake1 = _pullConfidentialStake(token, stake);
+
+        return matchId;
     }
 
     /**
-     * @notice Internal function to settle match and determine winner
-     * @param matchId The match ID
+     * @notice Join a confidential match, matching player1's stake up to an encrypted cap
+     * @dev If player1's stake exceeds the cap (or player2's balance) nothing is pulled and both
+     *      stakes are simply returned at settlement. Player2's own stake (and token balance) tells
+     *      them player1's stake, so confidential matches cannot be left once joined
+     * @param matchId The match ID to join
+     * @param encryptedMaxStake The most player2 is willing to stake, encrypted
+     * @param inputProof The zero-knowledge proof for the encrypted input
      */
-    function _settleMatch(uint256 matchId) internal {
+    function acceptConfidentialChallenge(
+        uint256 matchId,
+        externalEuint64 encryptedMaxStake,
+        bytes calldata inputProof
+    ) external {
         Match storage gameMatch = matches[matchId];
+        address token = gameMatch.confidentialToken;
+        if (token == address(0)) {
+            revert InvalidStake();
+        }
 
-        euint8 move1 = gameMatch.move1;
-        euint8 move2 = gameMatch.move2;
+        _joinMatch(matchId);
 
-        // Rock=0, Paper=1, Scissors=2
-        // Winner logic (homomorphic truth table):
-        // - If moves are equal: Draw (0)
-        // - Rock (0) beats Scissors (2)
-        // - Paper (1) beats Rock (0)
-        // - Scissors (2) beats Paper (1)
+        euint64 maxStake = FHE.fromExternal(encryptedMaxStake, inputProof);
+        euint64 stake1 = gameMatch.encryptedStake1;
+        euint64 amount = FHE.select(FHE.le(stake1, maxStake), stake1, FHE.asEuint64(0));
 
-        // Check if draw (move1 == move2)
-        ebool isDraw = FHE.eq(move1, move2);
+        euint64 stake2 = _pullConfidentialStake(token, amount);
+        gameMatch.encryptedStake2 = stake2;
 
-        // Check if player1 wins
-        // Case 1: move1=0 (Rock) && move2=2 (Scissors)
-        ebool p1WinCase1 = FHE.and(FHE.eq(move1, FHE.asEuint8(0)), FHE.eq(move2, FHE.asEuint8(2)));
+        FHE.allow(stake2, gameMatch.player1);
+    }
 
-        // Case 2: move1=1 (Paper) && move2=0 (Rock)
-        ebool p1WinCase2 = FHE.and(FHE.eq(move1, FHE.asEuint8(1)), FHE.eq(move2, FHE.asEuint8(0)));
+    /**
+     * @notice Open a new match in Waiting state with msg.sender as player1
+     * @param token The wager token (address(0) for ETH)
+     * @param stake Amount each player must escrow
+     * @param opponent The invited opponent (address(0) for an open match)
+     * @param codeSigner Address of the secret invite code key (address(0) if none)
+     * @return matchId The created match ID
+     */
+    function _createMatch(
+        address token,
+        uint256 stake,
+        address opponent,
+        address codeSigner
+    ) internal returns (uint256 matchId) {
+        // Create new match
+        matchId = matchCounter++;
+        Match storage newMatch = matches[matchId];
 
-        // Case 3: move1=2 (Scissors) && move2=1 (Paper)
-        ebool p1WinCase3 = FHE.and(FHE.eq(move1, FHE.asEuint8(2)), FHE.eq(move2, FHE.asEuint8(1)));
+        newMatch.matchId = matchId;
+        newMatch.player1 = msg.sender;
+        newMatch.state = MatchState.Waiting;
+        newMatch.createdAt = block.timestamp;
+        newMatch.stake = stake;
+        newMatch.stakeToken = token;
+        newMatch.bestOf = 1;
+        newMatch.invitedOpponent = opponent;
+        newMatch.inviteCodeSigner = codeSigner;
 
-        // Combine all player1 win cases
-        ebool p1Wins = FHE.or(FHE.or(p1WinCase1, p1WinCase2), p1WinCase3);
+        // Mark match as active for player1
+        _addActiveMatch(msg.sender, matchId);
 
-        // Result encoding: 0=Draw, 1=Player1 wins, 2=Player2 wins
-        euint8 result = FHE.select(
-            isDraw,
-            FHE.asEuint8(0), // Draw
-            FHE.select(p1Wins, FHE.asEuint8(1), FHE.asEuint8(2)) // P1 wins or P2 wins
-        );
+        emit MatchCreated(matchId, msg.sender);
 
-        // Allow this contract to access result
-        FHE.allowThis(result);
+        _listMatch(matchId);
+        if (opponent != address(0)) {
+            emit MatchInvited(matchId, msg.sender, opponent);
+        }
 
-        // Update match state
-        gameMatch.state = MatchState.Revealed;
+        return matchId;
+    }
 
-        // Clear active match for both players
-        playerActiveMatch[gameMatch.player1] = 0;
-        playerActiveMatch[gameMatch.player2] = 0;
+    /**
+     * @notice Join a match that needs neither an encrypted stake cap nor an invite code
+     * @param matchId The match ID to join
+     */
+    function _joinPlainMatch(uint256 matchId) internal {
+        // Confidential matches must be joined with an encrypted stake cap
+        if (matches[matchId].confidentialToken != address(0)) {
+            revert InvalidStake();
+        }
 
-        // Note: In production, use Gateway callback to decrypt result
-        // For this implementation, we emit event with encrypted result
-        emit MatchRevealed(matchId, address(0), 0);
+        // Code-protected matches must be joined with proof of the code
+        if (matches[matchId].inviteCodeSigner != address(0)) {
+            revert InvalidInviteCode();
+        }
 
-        // Update stats (simplified - in production use Gateway callback)
-        _updateStats(matchId, result);
+        _joinMatch(matchId);
     }
 
     /**
-     * @notice Update player statistics
+     * @notice Join a match as player2 and escrow the matching stake
+     * @param matchId The match ID to join
+     */
+    function _joinMatch(uint256 matchId) internal {
+        // Validate match exists
+        if (matchId == 0 || matchId >= matchCounter) {
+            revert InvalidMatchId();
+        }
+
+        Match storage gameMatch = matches[matchId];
+
+        // Check match is waiting for player2
+        if (gameMatch.state != MatchState.Waiting || gameMatch.player2 != address(0)) {
+            revert MatchNotWaiting();
+        }
+
+        // Cannot join own match
+        if (gameMatch.player1 == msg.sender) {
+            revert UnauthorizedPlayer();
+        }
+
+        // Private matches can only be joined by the invited opponent
+        if (gameMatch.invitedOpponent != address(0) && gameMatch.invitedOpponent != msg.sender) {
+            revert NotInvited();
+        }
+
+        // Joiner must match the creator's stake in the same currency
+        uint256 expectedValue = gameMatch.stakeToken == address(0) ? gameMatch.stake : 0;
+        if (msg.value != expectedValue) {
+            revert StakeMismatch();
+        }
+
+        // Set player2 and start the commit window
+        gameMatch.player2 = msg.sender;
+        gameMatch.commitDeadline = block.timestamp + COMMIT_WINDOW;
+        _addActiveMatch(msg.sender, matchId);
+
+        // Remove from pending matches
+        _removePendingMatch(matchId);
+
+        emit MatchJoined(matchId, msg.sender);
+
+        if (gameMatch.stakeToken != address(0)) {
+            IERC20(gameMatch.stakeToken).safeTransferFrom(msg.sender, address(this), gameMatch.stake);
+        }
+    }
+
+    /**
+     * @notice Cancel a match (only player1 can cancel before player2 joins)
+     * @param matchId The match ID to cancel
+     */
+    function cancelMatch(uint256 matchId) external {
+        Match storage gameMatch = matches[matchId];
+
+        // Only player1 can cancel
+        if (gameMatch.player1 != msg.sender) {
+            revert UnauthorizedPlayer();
+        }
+
+        // Can only cancel waiting matches
+        if (gameMatch.state != MatchState.Waiting || gameMatch.player2 != address(0)) {
+            revert MatchNotWaiting();
+        }
+
+        // Update state
+        gameMatch.state = MatchState.Cancelled;
+        _removeActiveMatch(msg.sender, matchId);
+
+        // Refund player1's stake
+        _creditReward(matchId, msg.sender, gameMatch.stake);
+        _refundConfidentialStakes(matchId);
+
+        // Remove from pending matches
+        _removePendingMatch(matchId);
+
+        emit MatchCancelled(matchId);
+    }
+
+    /**
+     * @notice Ask the opponent to abort a joined match
+     * @param matchId The match ID
+     * @dev The match keeps running until the opponent calls confirmAbort
+     */
+    function requestAbort(uint256 matchId) external {
+        Match storage gameMatch = matches[matchId];
+
+        _requireAbortable(gameMatch);
+
+        gameMatch.abortRequestedBy = msg.sender;
+
+        emit AbortRequested(matchId, msg.sender);
+    }
+
+    /**
+     * @notice Accept the opponent's abort request, cancelling the match and refunding both stakes
+     * @param matchId The match ID
+     */
+    function confirmAbort(uint256 matchId) external {
+        Match storage gameMatch = matches[matchId];
+
+        _requireAbortable(gameMatch);
+
+        if (gameMatch.abortRequestedBy == address(0) || gameMatch.abortRequestedBy == msg.sender) {
+            revert NoAbortRequest();
+        }
+
+        _voidMatch(matchId);
+    }
+
+    /**
+     * @notice Leave a joined match before any move is committed
+     * @param matchId The match ID
+     * @dev Only player2 can leave, and not from managed or queued matches, which were never
+     *      published, nor from confidential matches, whose stake they have learned by joining.
+     *      Their stake is refunded, the match returns to the list it was published in, and the
+     *      exit is recorded in their abandonment count
+     */
+    function leaveMatch(uint256 matchId) external {
+        Match storage gameMatch = matches[matchId];
+
+        if (
+            gameMatch.player2 != msg.sender ||
+            gameMatch.manager != address(0) ||
+            gameMatch.confidentialToken != address(0) ||
+            queuedMatches[matchId]
+        ) {
+            revert UnauthorizedPlayer();
+        }
+
+        if (gameMatch.state != MatchState.Waiting || gameMatch.roundsPlayed != 0) {
+            revert MatchNotWaiting();
+        }
+
+        if (gameMatch.player1Committed || gameMatch.player2Committed) {
+            revert MoveAlreadyCommitted();
+        }
+
+        _creditReward(matchId, msg.sender, gameMatch.stake);
+
+        gameMatch.player2 = address(0);
+        gameMatch.commitDeadline = 0;
+        gameMatch.abortRequestedBy = address(0);
+        _removeActiveMatch(msg.sender, matchId);
+        _stats(msg.sender).abandoned++;
+
+        _listMatch(matchId);
+
+        emit MatchLeft(matchId, msg.sender);
+    }
+
+    /**
+     * @notice Cancel a joined match, release both players and refund both stakes
+     * @param matchId The match ID
+     */
+    function _voidMatch(uint256 matchId) internal {
+        Match storage gameMatch = matches[matchId];
+
+        gameMatch.state = MatchState.Cancelled;
+        gameMatch.commitDeadline = 0;
+        _removeActiveMatch(gameMatch.player1, matchId);
+        _removeActiveMatch(gameMatch.player2, matchId);
+
+        _creditReward(matchId, gameMatch.player1, gameMatch.stake);
+        _creditReward(matchId, gameMatch.player2, gameMatch.stake);
+        _refundConfidentialStakes(matchId);
+
+        emit MatchCancelled(matchId);
+
+        _notifyManager(matchId);
+    }
+
+    /**
+     * @notice Check that msg.sender is a player of a joined match that has not reached decryption
+     * @param gameMatch The match
+     */
+    function _requireAbortable(Match storage gameMatch) internal view {
+        _requirePlayer(gameMatch);
+
+        bool joined = gameMatch.player2 != address(0);
+        bool running = gameMatch.state == MatchState.Waiting || gameMatch.state == MatchState.BothCommitted;
+        if (!joined || !running) {
+            revert MatchNotWaiting();
+        }
+    }
+
+    /**
+     * @notice Check that msg.sender is one of the two players of a match
+     * @param gameMatch The match
+     */
+    function _requirePlayer(Match storage gameMatch) internal view {
+        if (msg.sender != gameMatch.player1 && msg.sender != gameMatch.player2) {
+            revert UnauthorizedPlayer();
+        }
+    }
+
+    /**
+     * @notice Pull an encrypted stake from msg.sender into escrow
+     * @param token The ERC-7984 token
+     * @param amount The encrypted amount to pull
+     * @return transferred The encrypted amount actually transferred (zero if the balance was too low)
+     */
+    function _pullConfidentialStake(address token, euint64 amount) internal returns (euint64 transferred) {
+        FHE.allowTransient(amount, token);
+        transferred = IERC7984(token).confidentialTransferFrom(msg.sender, address(this), amount);
+
+        FHE.allowThis(transferred);
+        FHE.allow(transferred, msg.sender);
+    }
+
+    /* ========== MODULE 2: ENCRYPTED MOVE BOOK ========== */
+
+    /**
+     * @notice Submit encrypted move for a match
+     * @param matchId The match ID
+     * @param encryptedMove The encrypted move (externalEuint8)
+     * @param inputProof The zero-knowledge proof for the encrypted input
+     * @dev Any euint8 is accepted; out-of-range moves are penalized at settlement
+     */
+    function submitMove(
+        uint256 matchId,
+        externalEuint8 encryptedMove,
+        bytes calldata inputProof
+    ) external {
+        _submitMove(matchId, msg.sender, encryptedMove, inputProof);
+    }
+
+    /**
+     * @notice Submit a move on behalf of a player who signed it
+     * @dev Only the player's move proxy, through which the forwarder submits moves once it has
+     *      checked the player's EIP-712 signature. The input proof must have been created for
+     *      that proxy, as it is the caller importing the move, so it cannot be used for anybody else
+     * @param player The player whose move it is
+     * @param matchId The match ID
+     * @param encryptedMove Encrypted move handle
+     * @param inputProof Zero-knowledge proof for the encrypted input
+     */
+    function submitMoveFor(
+        address player,
+        uint256 matchId,
+        externalEuint8 encryptedMove,
+        bytes calldata inputProof
+    ) external {
+        if (moveForwarder == address(0) || msg.sender != IMoveForwarder(moveForwarder).proxyOf(player)) {
+            revert UnauthorizedManager();
+        }
+
+        _submitMove(matchId, player, encryptedMove, inputProof);
+    }
+
+    /**
+     * @notice Check that a player may commit a move and import it
+     * @param matchId The match ID
+     * @param player The player committing
+     * @param encryptedMove Encrypted move handle
+     * @param inputProof Zero-knowledge proof for the encrypted input
+     */
+    function _submitMove(
+        uint256 matchId,
+        address player,
+        externalEuint8 encryptedMove,
+        bytes calldata inputProof
+    ) internal {
+        Match storage gameMatch = matches[matchId];
+
+        // Validate player is in this match
+        bool isPlayer1 = gameMatch.player1 == player;
+        bool isPlayer2 = gameMatch.player2 == player;
+
+        if (!isPlayer1 && !isPlayer2) {
+            revert UnauthorizedPlayer();
+        }
+
+        // Only joined matches still collecting moves accept them (not cancelled or decided ones)
+        if (gameMatch.state != MatchState.Waiting || gameMatch.player2 == address(0)) {
+            revert MatchNotWaiting();
+        }
+
+        // Check if move already committed
+        if ((isPlayer1 && gameMatch.player1Committed) || (isPlayer2 && gameMatch.player2Committed)) {
+            revert MoveAlreadyCommitted();
+        }
+
+        // Check commit window has not expired
+        if (gameMatch.commitDeadline != 0 && block.timestamp > gameMatch.commitDeadline) {
+            revert DeadlinePassed();
+        }
+
+        _commitMove(matchId, player, FHE.fromExternal(encryptedMove, inputProof));
+    }
+
+    /**
+     * @notice Store a player's imported move and advance the match once both moves are in
+     * @param matchId The match ID
+     * @param player The player committing
+     * @param move The imported encrypted move
+     * @dev Callers must have checked that the player has not committed yet
+     */
+    function _commitMove(uint256 matchId, address player, euint8 move) internal {
+        Match storage gameMatch = matches[matchId];
+        bool isPlayer1 = gameMatch.player1 == player;
+
+        // Authorize contract to access the encrypted value, and the player to decrypt their own move
+        FHE.allowThis(move);
+        FHE.allow(move, player);
+
+        // Store encrypted move
+        if (isPlayer1) {
+            gameMatch.move1 = move;
+            gameMatch.player1Committed = true;
+        } else {
+            gameMatch.move2 = move;
+            gameMatch.player2Committed = true;
+        }
+        emit MoveCommitted(matchId, player);
+
+        // Check if both players have committed
+        if (gameMatch.player1Committed && gameMatch.player2Committed) {
+            gameMatch.state = MatchState.BothCommitted;
+
+            // Skip the separate requestReveal transaction when auto-settle is enabled
+            if (autoSettle) {
+                _settleMatch(matchId);
+            }
+        }
+    }
+
+    /**
+     * @notice Lock move (prevent further changes)
+     * @dev Called automatically when both moves are submitted
+     * @param matchId The match ID
+     */
+    function lockMove(uint256 matchId) external view returns (bool) {
+        Match storage gameMatch = matches[matchId];
+        return gameMatch.state == MatchState.BothCommitted;
+    }
+
+    /**
+     * @notice Resolve a match whose commit deadline passed without both moves
+     * @param matchId The match ID
+     * @dev The player who committed wins by forfeit (the whole series, if any);
+     *      if neither committed the match is voided
+     */
+    function claimTimeout(uint256 matchId) external {
+        Match storage gameMatch = matches[matchId];
+
+        // Only joined matches still collecting moves can time out
+        if (gameMatch.state != MatchState.Waiting || gameMatch.player2 == address(0)) {
+            revert MatchNotWaiting();
+        }
+
+        // Only players in match can claim
+        _requirePlayer(gameMatch);
+
+        if (block.timestamp <= gameMatch.commitDeadline) {
+            revert DeadlineNotReached();
+        }
+
+        if (gameMatch.player1Committed) {
+            _forfeit(matchId, 1);
+        } else if (gameMatch.player2Committed) {
+            _forfeit(matchId, 2);
+        } else {
+            // Neither player committed: void the match, refund both stakes and count it against both
+            _stats(gameMatch.player1).abandoned++;
+            _stats(gameMatch.player2).abandoned++;
+            _voidMatch(matchId);
+        }
+    }
+
+    /**
+     * @notice Award a match to the only player who committed before the deadline
+     * @param matchId The match ID
+     * @param result The forfeit result (1=Player1, 2=Player2)
+     */
+    function _forfeit(uint256 matchId, uint8 result) internal {
+        // The player who let the commit window run out is counted as having abandoned the match
+        address quitter = result == 1 ? matches[matchId].player2 : matches[matchId].player1;
+        _stats(quitter).abandoned++;
+
+        euint8 encryptedResult = FHE.asEuint8(result);
+        if (matches[matchId].confidentialToken != address(0)) {
+            _settleConfidentialPot(matchId, encryptedResult);
+        }
+
+        _completeMatch(matchId, result, encryptedResult);
+
+        emit MatchForfeited(matchId, matches[matchId].winner);
+    }
+
+    /* ========== MODULE 3: PAYOUT VAULT & REVEAL ========== */
+
+    /**
+     * @notice Reveal match outcome (determine winner)
+     * @param matchId The match ID
+     * @dev Uses homomorphic operations to compute the encrypted result, then marks it
+     *      publicly decryptable. The winner is recorded once finalizeReveal() is called
+     *      with the KMS decryption proof. Only needed when autoSettle is off.
+     */
+    function requestReveal(uint256 matchId) external {
+        Match storage gameMatch = matches[matchId];
+
+        // Check both moves committed
+        if (gameMatch.state != MatchState.BothCommitted) {
+            revert MatchNotReady();
+        }
+
+        // Only players in match can request reveal
+        _requirePlayer(gameMatch);
+
+        // Determine winner using FHE operations
+        _settleMatch(matchId);
+    }
+
+    /**
+     * @notice Internal function to settle match and determine winner
+     * @param matchId The match ID
+     */
+    function _settleMatch(uint256 matchId) internal {
+        Match storage gameMatch = matches[matchId];
+
+        euint8 move1 = gameMatch.move1;
+        euint8 move2 = gameMatch.move2;
+        (uint8 gestureCount, uint32 beats) = getRuleSet(gameMatch.ruleSet);
+
+        // Winner logic (homomorphic table lookup):
+        // - If moves are equal: Draw (0)
+        // - Player1 wins if bit (move1 * gestureCount + move2) of the "beats" table is set
+        // - Otherwise player2 wins
+
+        // Check if draw (move1 == move2)
+        ebool isDraw = FHE.eq(move1, move2);
+
+        // Shift the table right by the encrypted pair index and read the lowest bit
+        euint8 pairIndex = FHE.add(FHE.mul(move1, gestureCount), move2);
+        ebool p1Wins = FHE.ne(FHE.and(FHE.shr(FHE.asEuint32(beats), pairIndex), uint32(1)), uint32(0));
+
+        // Result encoding: 0=Draw, 1=Player1 wins, 2=Player2 wins
+        euint8 outcome = FHE.select(
+            isDraw,
+            FHE.asEuint8(0), // Draw
+            FHE.select(p1Wins, FHE.asEuint8(1), FHE.asEuint8(2)) // P1 wins or P2 wins
+        );
+
+        // Moves outside the rule set lose; if both are invalid the round is a draw
+        euint8 result = _applyMoveValidity(outcome, move1, move2, gestureCount - 1);
+
+        // Allow this contract to access result and let anyone request its decryption
+        FHE.allowThis(result);
+        FHE.makePubliclyDecryptable(result);
+
+        // Store result and wait for the KMS decryption proof
+        gameMatch.result = result;
+        gameMatch.state = MatchState.Decrypting;
+
+        // Encrypted stakes are paid out from the encrypted result, without waiting for decryption
+        if (gameMatch.confidentialToken != address(0)) {
+            _settleConfidentialPot(matchId, result);
+        }
+
+        emit MatchDecryptionRequested(matchId, FHE.toBytes32(result));
+    }
+
+    /**
+     * @notice Override an outcome when either encrypted move is out of range
+     * @param outcome The truth-table result assuming both moves are valid
+     * @param move1 Encrypted move of player1
+     * @param move2 Encrypted move of player2
+     * @param maxGesture Highest gesture of the match's rule set
+     * @return The result with invalid moves counted as a loss for their submitter
+     * @dev Validity is checked homomorphically, so an invalid move is never revealed
+     */
+    function _applyMoveValidity(
+        euint8 outcome,
+        euint8 move1,
+        euint8 move2,
+        uint8 maxGesture
+    ) internal returns (euint8) {
+        ebool valid1 = FHE.le(move1, maxGesture);
+        ebool valid2 = FHE.le(move2, maxGesture);
+
+        return FHE.select(
+            valid1,
+            FHE.select(valid2, outcome, FHE.asEuint8(1)), // Only player2 cheated: player1 wins
+            FHE.select(valid2, FHE.asEuint8(2), FHE.asEuint8(0)) // Player1 cheated: player2 wins, or draw
+        );
+    }
+
+    /**
+     * @notice Finalize a match with the publicly decrypted result
+     * @param matchId The match ID
+     * @param abiEncodedResult ABI-encoded cleartext result returned by the relayer
+     * @param decryptionProof KMS signatures proving the cleartext matches the handle
+     * @dev Anyone may submit the proof; it is verified against the stored result handle
+     */
+    function finalizeReveal(
+        uint256 matchId,
+        bytes calldata abiEncodedResult,
+        bytes calldata decryptionProof
+    ) external {
+        Match storage gameMatch = matches[matchId];
+
+        // Check result is awaiting decryption
+        if (gameMatch.state != MatchState.Decrypting) {
+            revert MatchNotReady();
+        }
+
+        // Verify KMS signatures over the decrypted result
+        bytes32[] memory handles = new bytes32[](1);
+        handles[0] = FHE.toBytes32(gameMatch.result);
+        FHE.checkSignatures(handles, abiEncodedResult, decryptionProof);
+
+        uint8 result = abi.decode(abiEncodedResult, (uint8));
+
+        // Series matches go back to collecting moves until a player holds a majority
+        bool seriesOver;
+        (seriesOver, result) = _recordRound(matchId, result);
+        if (!seriesOver) {
+            return;
+        }
+
+        _completeMatch(matchId, result, gameMatch.result);
+
+        emit MatchRevealed(matchId, gameMatch.winner, result);
+    }
+
+    /**
+     * @notice Archive a decrypted round and tally it into the series score
+     * @param matchId The match ID
+     * @param result The round result (0=Draw, 1=Player1, 2=Player2)
+     * @return seriesOver Whether the match is decided
+     * @return matchResult The overall result once decided (0=Draw, 1=Player1, 2=Player2)
+     * @dev Drawn rounds do not count towards either score. An undecided series starts
+     *      the next round with a fresh commit window.
+     */
+    function _recordRound(uint256 matchId, uint8 result) internal returns (bool seriesOver, uint8 matchResult) {
+        Match storage gameMatch = matches[matchId];
+
+        uint8 round = ++gameMatch.roundsPlayed;
+        rounds[matchId][round] = Round({
+            move1: gameMatch.move1,
+            move2: gameMatch.move2,
+            result: gameMatch.result,
+            outcome: result
+        });
+
+        if (result == 1) {
+            gameMatch.score1++;
+        } else if (result == 2) {
+            gameMatch.score2++;
+        }
+
+        emit RoundCompleted(matchId, round, result, gameMatch.score1, gameMatch.score2);
+
+        // Managed matches need a winner, so a drawn single round is replayed like a series round
+        if (gameMatch.bestOf <= 1 && (result != 0 || gameMatch.manager == address(0))) {
+            return (true, result);
+        }
+
+        uint8 majority = gameMatch.bestOf / 2 + 1;
+        if (gameMatch.score1 >= majority) {
+            return (true, 1);
+        }
+        if (gameMatch.score2 >= majority) {
+            return (true, 2);
+        }
+
+        // Reopen the match for the next round's moves
+        gameMatch.player1Committed = false;
+        gameMatch.player2Committed = false;
+        gameMatch.commitDeadline = block.timestamp + COMMIT_WINDOW;
+        gameMatch.state = MatchState.Waiting;
+
+        return (false, result);
+    }
+
+    /**
+     * @notice Record the outcome of a match and release both players
+     * @param matchId The match ID
+     * @param result The match result (0=Draw, 1=Player1, 2=Player2)
+     * @param encryptedResult The same result as an encrypted value, for private stats
+     */
+    function _completeMatch(uint256 matchId, uint8 result, euint8 encryptedResult) internal {
+        Match storage gameMatch = matches[matchId];
+
+        // Result encoding: 0=Draw, 1=Player1 wins, 2=Player2 wins
+        if (result == 1) {
+            gameMatch.winner = gameMatch.player1;
+        } else if (result == 2) {
+            gameMatch.winner = gameMatch.player2;
+        }
+
+        // Update match state
+        gameMatch.state = MatchState.Revealed;
+
+        // Release the match from both players' active sets
+        _removeActiveMatch(gameMatch.player1, matchId);
+        _removeActiveMatch(gameMatch.player2, matchId);
+
+        _updateStats(matchId, result, encryptedResult);
+        _distributePot(matchId);
+        _notifyManager(matchId);
+    }
+
+    /**
+     * @notice Report the end of a managed match to its manager
+     * @param matchId The match ID
+     */
+    function _notifyManager(uint256 matchId) internal {
+        address manager = matches[matchId].manager;
+        if (manager != address(0)) {
+            IMatchManager(manager).onMatchEnded(matchId, matches[matchId].winner);
+        }
+    }
+
+    /**
+     * @notice Credit the escrowed pot of a completed match
+     * @param matchId The match ID
+     * @dev The winner takes both stakes; on a draw each player gets their stake back
+     */
+    function _distributePot(uint256 matchId) internal {
+        Match storage gameMatch = matches[matchId];
+        uint256 stake = gameMatch.stake;
+
+        if (gameMatch.winner != address(0)) {
+            _creditReward(matchId, gameMatch.winner, stake * 2);
+        } else {
+            _creditReward(matchId, gameMatch.player1, stake);
+            _creditReward(matchId, gameMatch.player2, stake);
+        }
+    }
+
+    /**
+     * @notice Credit the encrypted pot of a confidential match
+     * @param matchId The match ID
+     * @param result The encrypted match result (0=Draw, 1=Player1, 2=Player2)
+     * @dev The winner takes both stakes only if player2 matched player1's amount;
+     *      on a draw or an unmatched stake each player gets their own stake back
+     */
+    function _settleConfidentialPot(uint256 matchId, euint8 result) internal {
+        Match storage gameMatch = matches[matchId];
+        euint64 stake1 = gameMatch.encryptedStake1;
+        euint64 stake2 = gameMatch.encryptedStake2;
+        euint64 pot = FHE.add(stake1, stake2);
+        euint64 zero = FHE.asEuint64(0);
+
+        ebool funded = FHE.eq(stake1, stake2);
+        ebool p1Takes = FHE.and(funded, FHE.eq(result, FHE.asEuint8(1)));
+        ebool p2Takes = FHE.and(funded, FHE.eq(result, FHE.asEuint8(2)));
+
+        euint64 payout1 = FHE.select(p1Takes, pot, FHE.select(p2Takes, zero, stake1));
+        euint64 payout2 = FHE.select(p2Takes, pot, FHE.select(p1Takes, zero, stake2));
+
+        _creditConfidentialReward(matchId, gameMatch.player1, payout1);
+        _creditConfidentialReward(matchId, gameMatch.player2, payout2);
+    }
+
+    /**
+     * @notice Return escrowed encrypted stakes of a cancelled or voided match
+     * @param matchId The match ID
+     */
+    function _refundConfidentialStakes(uint256 matchId) internal {
+        Match storage gameMatch = matches[matchId];
+        if (gameMatch.confidentialToken == address(0)) {
+            return;
+        }
+
+        _creditConfidentialReward(matchId, gameMatch.player1, gameMatch.encryptedStake1);
+        if (gameMatch.player2 != address(0)) {
+            _creditConfidentialReward(matchId, gameMatch.player2, gameMatch.encryptedStake2);
+        }
+    }
+
+    /**
+     * @notice Add an encrypted amount to a player's withdrawable confidential balance
+     * @param matchId The match the funds come from
+     * @param player The player address
+     * @param amount Encrypted amount in token units
+     */
+    function _creditConfidentialReward(uint256 matchId, address player, euint64 amount) internal {
+        address token = matches[matchId].confidentialToken;
+        euint64 balance = FHE.add(confidentialRewards[player][token], amount);
+
+        FHE.allowThis(balance);
+        FHE.allow(balance, player);
+        confidentialRewards[player][token] = balance;
+
+        emit ConfidentialRewardsCredited(matchId, player, token);
+    }
+
+    /**
+     * @notice Credit a match's wager currency to a player's withdrawable balance
+     * @param matchId The match the funds come from
+     * @param player The player address
+     * @param amount Amount in wei or token units
+     */
+    function _creditReward(uint256 matchId, address player, uint256 amount) internal {
+        if (amount == 0) {
+            return;
+        }
+
+        address token = matches[matchId].stakeToken;
+        if (token == address(0)) {
+            pendingRewards[player] += amount;
+        } else {
+            pendingTokenRewards[player][token] += amount;
+        }
+
+        emit RewardsCredited(matchId, player, token, amount);
+    }
+
+    /**
+     * @notice Update player statistics
      * @param matchId The match ID
      * @param result The match result (0=Draw, 1=Player1, 2=Player2)
+     * @param encryptedResult The same result as an encrypted value, for private stats
+     * @dev Wins, losses and streaks of players in privacy mode are only counted by the private
+     *      stats contract; their draws, match count and rating stay public, as does `result`
      */
-    function _updateStats(uint256 matchId, euint8 result) internal {
+    function _updateStats(uint256 matchId, uint8 result, euint8 encryptedResult) internal {
         Match storage gameMatch = matches[matchId];
+        address player1 = gameMatch.player1;
+        address player2 = gameMatch.player2;
+
+        // Ratings use the match counts from before this match to pick the K-factor
+        _updateRatings(matchId, result);
 
         // Increment total matches for both players
-        playerStats[gameMatch.player1].totalMatches++;
-        playerStats[gameMatch.player2].totalMatches++;
+        _countMatch(player1);
+        _countMatch(player2);
+
+        bool private1;
+        bool private2;
+        if (privateStats != address(0)) {
+            FHE.allowTransient(encryptedResult, privateStats);
+            (private1, private2) = IPrivateStats(privateStats).recordResult(player1, player2, encryptedResult);
+        }
+
+        if (result == 1) {
+            _recordDecided(player1, player2, private1, private2);
+        } else if (result == 2) {
+            _recordDecided(player2, player1, private2, private1);
+        } else {
+            // A draw breaks both win streaks
+            _stats(player1).draws++;
+            _stats(player2).draws++;
+            _updateStreak(player1, false);
+            _updateStreak(player2, false);
+        }
+
+        _emitStatsUpdated(player1);
+        _emitStatsUpdated(player2);
+    }
+
+    /**
+     * @notice Count a won match in the public stats of players who keep them public
+     * @param winner The winning player
+     * @param loser The losing player
+     * @param winnerPrivate Whether the winner is in privacy mode
+     * @param loserPrivate Whether the loser is in privacy mode
+     */
+    function _recordDecided(address winner, address loser, bool winnerPrivate, bool loserPrivate) internal {
+        if (!winnerPrivate) {
+            _stats(winner).wins++;
+            _updateStreak(winner, true);
+        }
+        if (!loserPrivate) {
+            _stats(loser).losses++;
+            _updateStreak(loser, false);
+        }
+    }
+
+    /**
+     * @notice Count a completed match, listing the player in the season's standings on their first
+     * @param player The player address
+     */
+    function _countMatch(address player) internal {
+        PlayerStats storage stats = _stats(player);
+        if (stats.totalMatches == 0) {
+            seasonPlayers[currentSeason].push(player);
+        }
+        stats.totalMatches++;
+    }
+
+    /**
+     * @notice Move both players' Elo ratings towards the match result
+     * @param matchId The match ID
+     * @param result The match result (0=Draw, 1=Player1, 2=Player2)
+     */
+    function _updateRatings(uint256 matchId, uint8 result) internal {
+        Match storage gameMatch = matches[matchId];
+        uint256 rating1 = ratingOf(gameMatch.player1);
+        uint256 rating2 = ratingOf(gameMatch.player2);
+
+        // Player1's actual minus expected score, in per mille (a win scores 1000, a draw 500)
+        int256 score1 = result == 1 ? int256(1000) : result == 2 ? int256(0) : int256(500);
+        int256 surprise1 = score1 - int256(_expectedScore(rating1, rating2));
+
+        int256 delta1 = _applyRating(gameMatch.player1, rating1, surprise1);
+        int256 delta2 = _applyRating(gameMatch.player2, rating2, -surprise1);
+
+        ratingChanges[matchId] = RatingChange(int128(delta1), int128(delta2));
+
+        emit RatingsUpdated(
+            matchId,
+            gameMatch.player1,
+            gameMatch.player2,
+            _stats(gameMatch.player1).rating,
+            _stats(gameMatch.player2).rating,
+            delta1,
+            delta2
+        );
+    }
+
+    /**
+     * @notice Store a player's new rating
+     * @param player The player address
+     * @param rating The player's rating before the match
+     * @param surprise Actual minus expected score, in per mille
+     * @return delta The applied rating change
+     */
+    function _applyRating(address player, uint256 rating, int256 surprise) internal returns (int256 delta) {
+        uint256 kFactor = _stats(player).totalMatches < PROVISIONAL_MATCHES ? PROVISIONAL_K_FACTOR : K_FACTOR;
+        delta = (int256(kFactor) * surprise) / 1000;
+
+        if (int256(rating) + delta < int256(RATING_FLOOR)) {
+            delta = int256(RATING_FLOOR) - int256(rating);
+        }
+
+        _stats(player).rating = uint256(int256(rating) + delta);
+    }
+
+    /**
+     * @notice Expected score of a player against an opponent
+     * @param rating The player's rating
+     * @param opponentRating The opponent's rating
+     * @return Expected score in per mille, interpolated from EXPECTED_SCORES (gaps beyond 800 are capped)
+     */
+    function _expectedScore(uint256 rating, uint256 opponentRating) internal pure returns (uint256) {
+        uint256 gap = rating > opponentRating ? rating - opponentRating : opponentRating - rating;
+        uint256 step = gap >= 800 ? 16 : gap / 50;
+        uint256 expected = (EXPECTED_SCORES >> (step * 12)) & 0xFFF;
+
+        // Interpolate linearly towards the next 50-point gap
+        if (step < 16) {
+            uint256 next = (EXPECTED_SCORES >> ((step + 1) * 12)) & 0xFFF;
+            expected += ((next - expected) * (gap % 50)) / 50;
+        }
+
+        return rating >= opponentRating ? expected : 1000 - expected;
+    }
+
+    /**
+     * @notice Update win streak after a decrypted result
+     * @param player The player address
+     * @param won Whether the player won the match
+     */
+    function _updateStreak(address player, bool won) internal {
+        PlayerStats storage stats = _stats(player);
+
+        if (!won) {
+            stats.currentStreak = 0;
+            return;
+        }
+
+        stats.currentStreak++;
+        if (stats.currentStreak > stats.bestStreak) {
+            stats.bestStreak = stats.currentStreak;
+        }
+    }
+
+    /**
+     * @notice Emit the latest statistics for a player
+     * @param player The player address
+     */
+    function _emitStatsUpdated(address player) internal {
+        PlayerStats storage stats = _stats(player);
+        emit StatsUpdated(player, stats.wins, stats.losses, stats.draws, stats.currentStreak, stats.bestStreak);
+    }
+
+    /**
+     * @notice Withdraw all ETH credited from stakes, winnings and refunds
+     * @dev Pull-based: the balance is cleared before the transfer
+     */
+    function claimRewards() external {
+        uint256 amount = pendingRewards[msg.sender];
+        if (amount == 0) {
+            revert NoRewards();
+        }
+
+        pendingRewards[msg.sender] = 0;
 
-        // Note: Stats update requires Gateway callback for actual decryption
-        // This is a simplified version for demonstration
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+
+        emit RewardsClaimed(msg.sender, address(0), amount);
     }
 
     /**
-     * @notice Claim rewards (placeholder for future token rewards)
-     * @dev To be implemented with token integration
+     * @notice Withdraw all of an ERC-20 token credited from stakes, winnings and refunds
+     * @param token The ERC-20 token to withdraw
      */
-    function claimRewards() external pure {
-        // Placeholder for future implementation
-        revert("Not implemented");
+    function claimTokenRewards(address token) external {
+        uint256 amount = pendingTokenRewards[msg.sender][token];
+        if (amount == 0) {
+            revert NoRewards();
+        }
+
+        pendingTokenRewards[msg.sender][token] = 0;
+
+        IERC20(token).safeTransfer(msg.sender, amount);
+
+        emit RewardsClaimed(msg.sender, token, amount);
     }
 
     /**
-     * @notice Update win streak (placeholder)
-     * @dev To be implemented with Gateway callback
+     * @notice Withdraw the encrypted balance credited in an ERC-7984 token
+     * @param token The ERC-7984 token to withdraw
      */
-    function updateStreak(address /*player*/, bool /*won*/) external pure {
-        // Placeholder for future implementation
-        revert("Not implemented");
+    function claimConfidentialRewards(address token) external {
+        euint64 amount = confidentialRewards[msg.sender][token];
+        if (!FHE.isInitialized(amount)) {
+            revert NoRewards();
+        }
+
+        confidentialRewards[msg.sender][token] = euint64.wrap(0);
+
+        FHE.allowTransient(amount, token);
+        IERC7984(token).confidentialTransfer(msg.sender, amount);
+
+        emit ConfidentialRewardsClaimed(msg.sender, token);
     }
 
     /* ========== VIEW FUNCTIONS ========== */
@@ -391,6 +1673,65 @@ contract RockPaperArena is ZamaEthereumConfig {
         return pendingMatches;
     }
 
+    /**
+     * @notice Get the unfinished matches a player is part of
+     * @param player The player address
+     * @return Array of match IDs, in no particular order
+     */
+    function getActiveMatches(address player) external view returns (uint256[] memory) {
+        return activeMatches[player];
+    }
+
+    /**
+     * @notice Get a page of pending matches
+     * @param offset Index of the first match to return
+     * @param limit Maximum number of matches to return
+     * @return page Pending match IDs from `offset`
+     * @return total Number of pending matches, to know when the last page is reached
+     */
+    function getPendingMatchesPage(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        return _page(pendingMatches, offset, limit);
+    }
+
+    /**
+     * @notice Get a page of the matches a player created or joined, oldest first
+     * @dev Includes matches the player later cancelled or left
+     * @param player The player address
+     * @param offset Index of the first match to return
+     * @param limit Maximum number of matches to return
+     * @return page Match IDs from `offset`
+     * @return total Number of matches the player took part in
+     */
+    function getPlayerMatches(
+        address player,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory page, uint256 total) {
+        return _page(playerMatches[player], offset, limit);
+    }
+
+    /**
+     * @notice Get the private matches a player has been invited to
+     * @param player The invited player
+     * @return Array of match IDs still waiting for the player to join
+     */
+    function getInvites(address player) external view returns (uint256[] memory) {
+        return playerInvites[player];
+    }
+
+    /**
+     * @notice Get the message a joiner must have signed with the invite code key
+     * @param matchId The match ID
+     * @param joiner The player joining the match
+     * @return The digest, signed as an EIP-191 personal message
+     */
+    function getInviteCodeDigest(uint256 matchId, address joiner) public view returns (bytes32) {
+        return keccak256(abi.encode(address(this), block.chainid, matchId, joiner));
+    }
+
     /**
      * @notice Get match details
      * @param matchId The match ID
@@ -401,29 +1742,230 @@ contract RockPaperArena is ZamaEthereumConfig {
     }
 
     /**
-     * @notice Get player statistics
+     * @notice Get a decrypted round of a match
+     * @param matchId The match ID
+     * @param round The round number (1-based)
+     * @return Round struct
+     */
+    function getRound(uint256 matchId, uint256 round) external view returns (Round memory) {
+        return rounds[matchId][round];
+    }
+
+    /**
+     * @notice Get player statistics for the current season
      * @param player The player address
-     * @return PlayerStats struct
+     * @return PlayerStats struct, with the rating of unrated players reported as INITIAL_RATING
      */
     function getPlayerStats(address player) external view returns (PlayerStats memory) {
-        return playerStats[player];
+        return getSeasonStats(currentSeason, player);
+    }
+
+    /**
+     * @notice Get player statistics for a season
+     * @param season The season number
+     * @param player The player address
+     * @return stats PlayerStats struct, with the rating of unrated players reported as INITIAL_RATING
+     */
+    function getSeasonStats(uint256 season, address player) public view returns (PlayerStats memory stats) {
+        stats = seasonStats[season][player];
+        if (stats.rating == 0) {
+            stats.rating = INITIAL_RATING;
+        }
+    }
+
+    /**
+     * @notice Get the players who completed at least one match in a season
+     * @param season The season number
+     * @return Array of player addresses, in order of their first completed match
+     */
+    function getSeasonPlayers(uint256 season) external view returns (address[] memory) {
+        return seasonPlayers[season];
+    }
+
+    /**
+     * @notice Get a player's Elo rating in the current season
+     * @param player The player address
+     * @return The rating, INITIAL_RATING for players without a completed match this season
+     */
+    function ratingOf(address player) public view returns (uint256) {
+        uint256 rating = _stats(player).rating;
+        return rating == 0 ? INITIAL_RATING : rating;
+    }
+
+    /**
+     * @notice Open a match that both players have already joined
+     * @param player1 First player
+     * @param player2 Second player
+     * @param bestOf Series length
+     * @param manager Contract notified of the outcome (address(0) if none)
+     * @return matchId The created match ID
+     */
+    function _createJoinedMatch(
+        address player1,
+        address player2,
+        uint8 bestOf,
+        address manager
+    ) internal returns (uint256 matchId) {
+        matchId = matchCounter++;
+        Match storage newMatch = matches[matchId];
+
+        newMatch.matchId = matchId;
+        newMatch.player1 = player1;
+        newMatch.player2 = player2;
+        newMatch.state = MatchState.Waiting;
+        newMatch.createdAt = block.timestamp;
+        newMatch.commitDeadline = block.timestamp + COMMIT_WINDOW;
+        newMatch.bestOf = bestOf;
+        newMatch.manager = manager;
+
+        _addActiveMatch(player1, matchId);
+        _addActiveMatch(player2, matchId);
+
+        emit MatchCreated(matchId, player1);
+        emit MatchJoined(matchId, player2);
+
+        return matchId;
+    }
+
+    /**
+     * @notice Record a new match in a player's active set and history
+     * @param player The player
+     * @param matchId The match ID
+     */
+    function _addActiveMatch(address player, uint256 matchId) internal {
+        if (activeMatches[player].length >= MAX_ACTIVE_MATCHES) {
+            revert TooManyActiveMatches();
+        }
+
+        activeMatches[player].push(matchId);
+        playerMatches[player].push(matchId);
+    }
+
+    /**
+     * @notice Drop a finished, cancelled or left match from a player's active set
+     * @param player The player
+     * @param matchId The match ID
+     */
+    function _removeActiveMatch(address player, uint256 matchId) internal {
+        uint256[] storage list = activeMatches[player];
+
+        // The set holds at most MAX_ACTIVE_MATCHES entries
+        uint256 length = list.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (list[i] == matchId) {
+                list[i] = list[length - 1];
+                list.pop();
+                return;
+            }
+        }
+    }
+
+    /**
+     * @notice Copy a window of a stored ID list
+     * @param list The stored list
+     * @param offset Index of the first ID to copy
+     * @param limit Maximum number of IDs to copy
+     * @return page The IDs in the window (empty when offset is past the end)
+     * @return total Length of the whole list
+     */
+    function _page(
+        uint256[] storage list,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (uint256[] memory page, uint256 total) {
+        total = list.length;
+        if (offset >= total) {
+            return (new uint256[](0), total);
+        }
+
+        uint256 end = offset + limit > total ? total : offset + limit;
+        page = new uint256[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            page[i - offset] = list[i];
+        }
+    }
+
+    /**
+     * @notice Current season stats of a player
+     * @param player The player address
+     */
+    function _stats(address player) internal view returns (PlayerStats storage) {
+        return seasonStats[currentSeason][player];
+    }
+
+    /**
+     * @notice Get the gestures and "beats" relation of a rule set
+     * @param ruleSet The rule set variant
+     * @return gestureCount Number of valid gestures (0..gestureCount-1)
+     * @return beats Packed table; bit (a * gestureCount + b) is set when gesture a beats gesture b
+     */
+    function getRuleSet(RuleSet ruleSet) public pure returns (uint8 gestureCount, uint32 beats) {
+        if (ruleSet == RuleSet.LizardSpock) {
+            return (5, LIZARD_SPOCK_BEATS);
+        }
+        return (3, CLASSIC_BEATS);
     }
 
     /* ========== INTERNAL HELPER FUNCTIONS ========== */
 
     /**
-     * @notice Remove match from pending matches array
+     * @notice Check that a series length is 1, 3, 5 or 7
+     * @param bestOf The series length
+     */
+    function _requireSeriesLength(uint8 bestOf) internal pure {
+        if (bestOf == 0 || bestOf > MAX_SERIES_LENGTH || bestOf % 2 == 0) {
+            revert InvalidSeriesLength();
+        }
+    }
+
+    /**
+     * @notice Check that the owner is registering a helper contract for the first time
+     * @param current The currently registered contract
+     * @param candidate The contract to register
+     */
+    function _requireRegistrable(address current, address candidate) internal view {
+        if (msg.sender != owner || current != address(0) || candidate == address(0)) {
+            revert UnauthorizedManager();
+        }
+    }
+
+    /**
+     * @notice Publish a waiting match in the pending matches array, or in the opponent's invites if private
+     * @param matchId The match ID to list
+     */
+    function _listMatch(uint256 matchId) internal {
+        address opponent = matches[matchId].invitedOpponent;
+
+        // Open matches are listed publicly, invites only for the invited opponent;
+        // code-protected matches are only reachable through the shared link
+        if (opponent != address(0)) {
+            playerInvites[opponent].push(matchId);
+            listedIndex[matchId] = playerInvites[opponent].length;
+        } else if (matches[matchId].inviteCodeSigner == address(0)) {
+            pendingMatches.push(matchId);
+            listedIndex[matchId] = pendingMatches.length;
+        }
+    }
+
+    /**
+     * @notice Remove match from pending matches array, or from the opponent's invites if private
      * @param matchId The match ID to remove
      */
     function _removePendingMatch(uint256 matchId) internal {
-        uint256 length = pendingMatches.length;
-        for (uint256 i = 0; i < length; i++) {
-            if (pendingMatches[i] == matchId) {
-                // Move last element to current position and pop
-                pendingMatches[i] = pendingMatches[length - 1];
-                pendingMatches.pop();
-                break;
-            }
+        // Code-protected matches are never listed, and removed matches no longer are
+        uint256 index = listedIndex[matchId];
+        if (index == 0) {
+            return;
         }
+
+        address opponent = matches[matchId].invitedOpponent;
+        uint256[] storage list = opponent == address(0) ? pendingMatches : playerInvites[opponent];
+
+        // Move last element to the freed position and pop
+        uint256 lastMatchId = list[list.length - 1];
+        list[index - 1] = lastMatchId;
+        listedIndex[lastMatchId] = index;
+        list.pop();
+        delete listedIndex[matchId];
     }
 }
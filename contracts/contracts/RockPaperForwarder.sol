@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title RockPaperForwarder
+ * @notice Gasless move submission for RockPaperArena: players sign, any relayer pays
+ * @dev Must be registered as the arena's move forwarder (RockPaperArena.setMoveForwarder)
+ *
+ * Flow:
+ * - The player encrypts their move for their own move proxy (proxyOf), a RockPaperMoveProxy this
+ *   contract deploys per player on first use: the input proof names the proxy as the user, since it
+ *   is the caller importing the move into the arena
+ * - They sign an EIP-712 SubmitMove message over the match ID, handle, input proof, their current
+ *   nonce and a deadline, and hand everything to a relayer
+ * - The relayer calls submitMoveBySig and pays the gas; the arena stores the move as the player's
+ *
+ * Replay protection:
+ * - Each signature consumes the player's nonce, and expires at its deadline
+ * - Input proofs only verify for the player's own proxy, so an opponent who copies a handle and proof
+ *   from a pending relayed transaction cannot submit them as their own move, even ahead of it
+ * - Each encrypted move handle is accepted only once, so a signed move cannot be relayed again
+ */
+
+import {externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import {ECDSA} from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import {Nonces} from "@openzeppelin/contracts/utils/Nonces.sol";
+import {RockPaperArena} from "./RockPaperArena.sol";
+import {RockPaperMoveProxy} from "./RockPaperMoveProxy.sol";
+import {IMoveForwarder} from "./interfaces/IMoveForwarder.sol";
+
+contract RockPaperForwarder is EIP712, Nonces, IMoveForwarder {
+    /* ========== CONSTANTS ========== */
+
+    /// @notice Arena the moves are submitted to
+    RockPaperArena public immutable arena;
+
+    /// @notice EIP-712 type of a signed move (the input proof is signed as its keccak256 hash)
+    bytes32 public constant SUBMIT_MOVE_TYPEHASH =
+        keccak256("SubmitMove(uint256 matchId,bytes32 handle,bytes inputProof,uint256 nonce,uint256 deadline)");
+
+    /* ========== STORAGE ========== */
+
+    /// @notice Whether an encrypted move handle has already been submitted
+    mapping(bytes32 => bool) public usedHandles;
+
+    /* ========== EVENTS ========== */
+
+    event MoveRelayed(uint256 indexed matchId, address indexed player, address indexed relayer);
+
+    /* ========== ERRORS ========== */
+
+    error SignatureExpired();
+    error InvalidSignature();
+    error HandleAlreadyUsed();
+
+    /* ========== CONSTRUCTOR ========== */
+
+    constructor(RockPaperArena arena_) EIP712("RockPaperForwarder", "1") {
+        arena = arena_;
+    }
+
+    /* ========== META-TRANSACTIONS ========== */
+
+    /**
+     * @notice Submit a move a player signed
+     * @param player The player who signed the move
+     * @param matchId The match ID
+     * @param encryptedMove Encrypted move handle, created for the player's proxy
+     * @param inputProof Zero-knowledge proof for the encrypted input
+     * @param deadline Timestamp after which the signature is no longer accepted
+     * @param signature The player's EIP-712 SubmitMove signature
+     */
+    function submitMoveBySig(
+        address player,
+        uint256 matchId,
+        externalEuint8 encryptedMove,
+        bytes calldata inputProof,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        if (block.timestamp > deadline) {
+            revert SignatureExpired();
+        }
+
+        bytes32 handle = externalEuint8.unwrap(encryptedMove);
+        bytes32 structHash = keccak256(
+            abi.encode(
+                SUBMIT_MOVE_TYPEHASH,
+                matchId,
+                handle,
+                keccak256(inputProof),
+                _useNonce(player),
+                deadline
+            )
+        );
+        if (ECDSA.recover(_hashTypedDataV4(structHash), signature) != player) {
+            revert InvalidSignature();
+        }
+
+        if (usedHandles[handle]) {
+            revert HandleAlreadyUsed();
+        }
+        usedHandles[handle] = true;
+
+        address proxy = proxyOf(player);
+        if (proxy.code.length == 0) {
+            new RockPaperMoveProxy{salt: _proxySalt(player)}(arena, player);
+        }
+        RockPaperMoveProxy(proxy).submitMove(matchId, encryptedMove, inputProof);
+
+        emit MoveRelayed(matchId, player, msg.sender);
+    }
+
+    /* ========== VIEW FUNCTIONS ========== */
+
+    /**
+     * @notice Get the move proxy a player encrypts their relayed moves for
+     * @dev The proxy is deployed with CREATE2 when the player's first move is relayed
+     * @param player The player address
+     * @return The address of the player's RockPaperMoveProxy
+     */
+    function proxyOf(address player) public view returns (address) {
+        bytes32 initCodeHash = keccak256(
+            abi.encodePacked(type(RockPaperMoveProxy).creationCode, abi.encode(arena, player))
+        );
+        return address(
+            uint160(uint256(keccak256(abi.encodePacked(bytes1(0xff), address(this), _proxySalt(player), initCodeHash))))
+        );
+    }
+
+    /**
+     * @notice Get the EIP-712 domain separator signed moves are bound to
+     */
+    // solhint-disable-next-line func-name-mixedcase
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /* ========== INTERNAL HELPER FUNCTIONS ========== */
+
+    /**
+     * @notice CREATE2 salt of a player's move proxy
+     * @param player The player address
+     * @return The salt
+     */
+    function _proxySalt(address player) internal pure returns (bytes32) {
+        return bytes32(uint256(uint160(player)));
+    }
+}
@@ -0,0 +1,311 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title RockPaperMatchmaker
+ * @notice Rating-band matchmaking queue for RockPaperArena
+ * @dev Must be registered as the arena's matchmaker (RockPaperArena.setMatchmaker)
+ *
+ * Flow:
+ * - A player calls joinQueue; if somebody within rating range is already waiting, the oldest
+ *   such player is paired with them in a new arena match right away
+ * - Otherwise the player waits in the queue until a later joinQueue pairs them, or leaves it
+ * - Paired matches are free, classic best-of-1 arena matches played like any other
+ *
+ * Rating window:
+ * - Two players are in range when their arena rating gap is within the wider of their windows
+ * - A window starts at BASE_RATING_WINDOW and grows by WINDOW_GROWTH every
+ *   WINDOW_GROWTH_INTERVAL spent waiting, so nobody waits forever for an exact peer
+ * - Nothing pairs players in the background: waiting players are only matched when somebody
+ *   calls joinQueue or retryQueue. Two waiting players whose windows have come to overlap stay
+ *   queued until one of them retries, so the lobby polls getQueueStatus and calls retryQueue
+ *   by itself once it reports a zero expected wait
+ *
+ * Queue layout:
+ * - Players are appended to `queue`; leaving or being paired empties their entry instead of
+ *   shifting the array, and `queueHead` skips past the emptied entries at the front
+ * - Lookups only check the MAX_QUEUE_SCAN entries from `queueHead`, so joining costs the same
+ *   however long the queue grows. Players further back are reached as the front is paired,
+ *   which the widening windows of the oldest players guarantee
+ */
+
+import {RockPaperArena} from "./RockPaperArena.sol";
+
+contract RockPaperMatchmaker {
+    /* ========== CONSTANTS ========== */
+
+    /// @notice Arena the queued players are paired in
+    RockPaperArena public immutable arena;
+
+    /// @notice Rating gap accepted as soon as a player joins the queue
+    uint256 public constant BASE_RATING_WINDOW = 50;
+
+    /// @notice Extra rating gap accepted per interval spent waiting
+    uint256 public constant WINDOW_GROWTH = 25;
+
+    /// @notice Waiting time after which a window grows by WINDOW_GROWTH
+    uint256 public constant WINDOW_GROWTH_INTERVAL = 1 minutes;
+
+    /// @notice Queue entries checked per lookup, counted from queueHead
+    uint256 public constant MAX_QUEUE_SCAN = 20;
+
+    /* ========== STORAGE ========== */
+
+    /// @notice Queued players, oldest first (address(0) once they left or were paired)
+    address[] internal queue;
+
+    /// @notice Index of the oldest entry that may still be waiting
+    uint256 public queueHead;
+
+    /// @notice Position of a waiting player in the queue, plus one (0 if not queued)
+    mapping(address => uint256) internal queueIndex;
+
+    /// @notice When a waiting player joined the queue (0 if not queued)
+    mapping(address => uint256) public queuedAt;
+
+    /* ========== EVENTS ========== */
+
+    event QueueJoined(address indexed player);
+    event QueueLeft(address indexed player);
+    event QueueMatched(uint256 indexed matchId, address indexed player1, address indexed player2);
+
+    /* ========== ERRORS ========== */
+
+    error AlreadyQueued();
+    error NotQueued();
+    error TooManyActiveMatches();
+
+    /* ========== CONSTRUCTOR ========== */
+
+    constructor(RockPaperArena arena_) {
+        arena = arena_;
+    }
+
+    /* ========== QUEUE ========== */
+
+    /**
+     * @notice Get paired with the oldest waiting player in rating range, or wait in the queue
+     * @dev Waiting players who have since filled all their arena match slots are dropped
+     *      from the queue when reached
+     * @return matchId The arena match ID (0 if the caller was queued)
+     */
+    function joinQueue() external returns (uint256 matchId) {
+        if (queueIndex[msg.sender] != 0) {
+            revert AlreadyQueued();
+        }
+        if (!_hasFreeSlot(msg.sender)) {
+            revert TooManyActiveMatches();
+        }
+
+        address opponent = _findOpponent(msg.sender, BASE_RATING_WINDOW);
+        if (opponent != address(0)) {
+            return _pair(opponent, msg.sender);
+        }
+
+        queue.push(msg.sender);
+        queueIndex[msg.sender] = queue.length;
+        queuedAt[msg.sender] = block.timestamp;
+
+        emit QueueJoined(msg.sender);
+        return 0;
+    }
+
+    /**
+     * @notice Look for an opponent again with the caller's widened rating window
+     * @dev The caller stays queued if nobody is in range yet. Widening alone never pairs anybody,
+     *      so clients call this whenever getQueueStatus reports a zero expected wait. Either of
+     *      two overlapping players may call it; the other is then no longer queued
+     * @return matchId The arena match ID (0 if the caller is still waiting)
+     */
+    function retryQueue() external returns (uint256 matchId) {
+        if (queueIndex[msg.sender] == 0) {
+            revert NotQueued();
+        }
+
+        address opponent = _findOpponent(msg.sender, ratingWindow(msg.sender));
+        if (opponent == address(0)) {
+            return 0;
+        }
+
+        _dequeue(msg.sender);
+        return _pair(opponent, msg.sender);
+    }
+
+    /**
+     * @notice Stop waiting in the queue
+     */
+    function leaveQueue() external {
+        if (queueIndex[msg.sender] == 0) {
+            revert NotQueued();
+        }
+
+        _dequeue(msg.sender);
+
+        emit QueueLeft(msg.sender);
+    }
+
+    /* ========== VIEW FUNCTIONS ========== */
+
+    /**
+     * @notice Get a player's place in the queue
+     * @dev Entries beyond the first MAX_QUEUE_SCAN are counted as waiting, so the position is
+     *      an upper bound for players further back
+     * @param player The player address
+     * @return Number of players waiting ahead of them plus one (0 if not queued)
+     */
+    function getQueuePosition(address player) external view returns (uint256) {
+        uint256 index = queueIndex[player];
+        if (index == 0) {
+            return 0;
+        }
+
+        uint256 end = _scanEnd();
+        uint256 ahead = index - 1;
+        uint256 position = ahead > end ? ahead - end + 1 : 1;
+        for (uint256 i = queueHead; i < ahead && i < end; i++) {
+            if (queue[i] != address(0)) {
+                position++;
+            }
+        }
+        return position;
+    }
+
+    /**
+     * @notice Get the rating gap a player currently accepts
+     * @param player The player address
+     * @return The window, BASE_RATING_WINDOW for players who are not queued
+     */
+    function ratingWindow(address player) public view returns (uint256) {
+        uint256 since = queuedAt[player];
+        if (since == 0) {
+            return BASE_RATING_WINDOW;
+        }
+        return BASE_RATING_WINDOW + ((block.timestamp - since) / WINDOW_GROWTH_INTERVAL) * WINDOW_GROWTH;
+    }
+
+    /**
+     * @notice Get a player's rating window and how long until somebody waiting is in range
+     * @dev For players who are not queued, the wait is estimated as if they joined now. Only the
+     *      first MAX_QUEUE_SCAN entries are considered, as they are the ones lookups pair with
+     * @param player The player address
+     * @return window The rating gap the player currently accepts
+     * @return expectedWait Seconds until a waiting player is in range (0 if one already is,
+     *         type(uint256).max if nobody else is waiting)
+     */
+    function getQueueStatus(address player) external view returns (uint256 window, uint256 expectedWait) {
+        window = ratingWindow(player);
+        expectedWait = type(uint256).max;
+
+        uint256 rating = arena.ratingOf(player);
+        uint256 since = queuedAt[player] == 0 ? block.timestamp : queuedAt[player];
+        uint256 end = _scanEnd();
+        for (uint256 i = queueHead; i < end && expectedWait != 0; i++) {
+            address waiting = queue[i];
+            if (waiting == address(0) || waiting == player) {
+                continue;
+            }
+
+            // Intervals either window needs to cover the gap, counted from the earlier join
+            uint256 gap = _ratingGap(rating, waiting);
+            uint256 intervals = gap <= BASE_RATING_WINDOW
+                ? 0
+                : (gap - BASE_RATING_WINDOW + WINDOW_GROWTH - 1) / WINDOW_GROWTH;
+            uint256 earliest = queuedAt[waiting] < since ? queuedAt[waiting] : since;
+            uint256 inRangeAt = earliest + intervals * WINDOW_GROWTH_INTERVAL;
+
+            uint256 wait = inRangeAt > block.timestamp ? inRangeAt - block.timestamp : 0;
+            if (wait < expectedWait) {
+                expectedWait = wait;
+            }
+        }
+    }
+
+    /* ========== INTERNAL HELPER FUNCTIONS ========== */
+
+    /**
+     * @notice Find the oldest waiting player in rating range of a player
+     * @dev Checks the first MAX_QUEUE_SCAN entries and drops waiting players without a free
+     *      match slot on the way
+     * @param player The player looking for an opponent
+     * @param window The rating gap the player accepts
+     * @return The opponent (address(0) if nobody is in range)
+     */
+    function _findOpponent(address player, uint256 window) internal returns (address) {
+        uint256 rating = arena.ratingOf(player);
+        uint256 end = _scanEnd();
+        for (uint256 i = queueHead; i < end; i++) {
+            address waiting = queue[i];
+            if (waiting == address(0) || waiting == player) {
+                continue;
+            }
+
+            if (!_hasFreeSlot(waiting)) {
+                _dequeue(waiting);
+                emit QueueLeft(waiting);
+                continue;
+            }
+
+            uint256 waitingWindow = ratingWindow(waiting);
+            if (_ratingGap(rating, waiting) <= (window > waitingWindow ? window : waitingWindow)) {
+                return waiting;
+            }
+        }
+        return address(0);
+    }
+
+    /**
+     * @notice End of the queue entries a lookup checks
+     * @return queueHead + MAX_QUEUE_SCAN, or the queue length if that is shorter
+     */
+    function _scanEnd() internal view returns (uint256) {
+        uint256 end = queueHead + MAX_QUEUE_SCAN;
+        return end < queue.length ? end : queue.length;
+    }
+
+    /**
+     * @notice Take a waiting player off the queue and open their arena match
+     * @param waiting The waiting player, seated as player1
+     * @param player The player who found them, seated as player2
+     * @return matchId The arena match ID
+     */
+    function _pair(address waiting, address player) internal returns (uint256 matchId) {
+        _dequeue(waiting);
+        matchId = arena.createQueuedMatch(waiting, player);
+        emit QueueMatched(matchId, waiting, player);
+    }
+
+    /**
+     * @notice Rating gap between a rating and a player's arena rating
+     * @param rating The first rating
+     * @param player The player to compare with
+     */
+    function _ratingGap(uint256 rating, address player) internal view returns (uint256) {
+        uint256 other = arena.ratingOf(player);
+        return rating > other ? rating - other : other - rating;
+    }
+
+    /**
+     * @notice Check that a player can take part in one more arena match
+     * @param player The player address
+     */
+    function _hasFreeSlot(address player) internal view returns (bool) {
+        return arena.getActiveMatches(player).length < arena.MAX_ACTIVE_MATCHES();
+    }
+
+    /**
+     * @notice Empty a player's queue entry and move the head past emptied entries
+     * @param player The queued player
+     */
+    function _dequeue(address player) internal {
+        delete queue[queueIndex[player] - 1];
+        delete queueIndex[player];
+        delete queuedAt[player];
+
+        uint256 head = queueHead;
+        uint256 length = queue.length;
+        while (head < length && queue[head] == address(0)) {
+            head++;
+        }
+        queueHead = head;
+    }
+}
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {externalEuint8} from "@fhevm/solidity/lib/FHE.sol";
+import {RockPaperArena} from "./RockPaperArena.sol";
+
+/**
+ * @title RockPaperMoveProxy
+ * @notice Imports relayed moves into RockPaperArena for a single player
+ * @dev Deployed by RockPaperForwarder at a deterministic address per player. Players encrypt their
+ *      relayed moves for this contract, so an input proof cannot be imported for anybody else
+ */
+contract RockPaperMoveProxy {
+    /// @notice Forwarder that checked the player's signature
+    address public immutable forwarder;
+
+    /// @notice Arena the moves are submitted to
+    RockPaperArena public immutable arena;
+
+    /// @notice Player whose moves this proxy submits
+    address public immutable player;
+
+    error NotForwarder();
+
+    constructor(RockPaperArena arena_, address player_) {
+        forwarder = msg.sender;
+        arena = arena_;
+        player = player_;
+    }
+
+    /**
+     * @notice Submit a move the forwarder has verified for the player
+     * @param matchId The match ID
+     * @param encryptedMove Encrypted move handle, created for this contract
+     * @param inputProof Zero-knowledge proof for the encrypted input
+     */
+    function submitMove(uint256 matchId, externalEuint8 encryptedMove, bytes calldata inputProof) external {
+        if (msg.sender != forwarder) {
+            revert NotForwarder();
+        }
+
+        arena.submitMoveFor(player, matchId, encryptedMove, inputProof);
+    }
+}
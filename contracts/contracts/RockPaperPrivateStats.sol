@@ -0,0 +1,196 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title RockPaperPrivateStats
+ * @notice Encrypted win/loss records for RockPaperArena players in privacy mode
+ * @dev Must be registered as the arena's private stats contract (RockPaperArena.setPrivateStats)
+ *
+ * Privacy mode is cosmetic. It keeps a player's win/loss totals off the public PlayerStats and
+ * leaderboard, but every result it counts is public anyway, so anybody can rebuild the record.
+ * Do not present it to players as a privacy feature.
+ *
+ * Flow:
+ * - A player turns on privacy mode; from then on the arena leaves their wins, losses and streaks
+ *   out of the public PlayerStats
+ * - Every completed match hands this contract the encrypted result, and the counters of players in
+ *   privacy mode are updated homomorphically, readable by nobody but the player
+ * - publishStats makes the player's counters publicly decryptable, e.g. for the leaderboard;
+ *   counters updated later stay public too
+ *
+ * What stays public (all of it enough to recount the hidden totals):
+ * - Every match result: the arena publicly decrypts it and emits the winner in MatchRevealed
+ * - Rating changes, draws and match counts, which stay in PlayerStats and the arena's events
+ * - Counters are kept per arena season, like the public stats
+ */
+
+import {FHE, euint8, euint32, ebool} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {RockPaperArena} from "./RockPaperArena.sol";
+import {IPrivateStats} from "./interfaces/IPrivateStats.sol";
+
+contract RockPaperPrivateStats is IPrivateStats, ZamaEthereumConfig {
+    /* ========== STATE VARIABLES ========== */
+
+    /// @notice Encrypted record of a player in one season
+    struct PrivateRecord {
+        euint32 wins;       // Encrypted wins
+        euint32 losses;     // Encrypted losses
+    }
+
+    /* ========== CONSTANTS ========== */
+
+    /// @notice Arena whose results are counted
+    RockPaperArena public immutable arena;
+
+    /* ========== STORAGE ========== */
+
+    /// @notice Whether a player's wins and losses are kept private
+    mapping(address => bool) public privacyMode;
+
+    /// @notice Whether a player made their encrypted counters publicly decryptable
+    mapping(address => bool) public published;
+
+    /// @notice Season => player => encrypted record
+    mapping(uint256 => mapping(address => PrivateRecord)) internal records;
+
+    /* ========== EVENTS ========== */
+
+    event PrivacyModeChanged(address indexed player, bool enabled);
+    event StatsPublished(address indexed player);
+
+    /* ========== ERRORS ========== */
+
+    error NotArena();
+    error PrivacyModeOff();
+
+    /* ========== CONSTRUCTOR ========== */
+
+    constructor(RockPaperArena arena_) {
+        arena = arena_;
+    }
+
+    /* ========== PLAYER FUNCTIONS ========== */
+
+    /**
+     * @notice Turn privacy mode on or off
+     * @dev Only matches completed while privacy mode is on are counted privately; turning it off
+     *      makes later wins and losses public again without touching the encrypted counters
+     * @param enabled Whether to keep wins and losses private
+     */
+    function setPrivacyMode(bool enabled) external {
+        privacyMode[msg.sender] = enabled;
+
+        // Start the season's counters at zero so they can be decrypted before the first match
+        if (enabled) {
+            PrivateRecord storage record = records[arena.currentSeason()][msg.sender];
+            if (!FHE.isInitialized(record.wins)) {
+                _store(record, msg.sender, FHE.asEuint32(0), FHE.asEuint32(0));
+            }
+        }
+
+        emit PrivacyModeChanged(msg.sender, enabled);
+    }
+
+    /**
+     * @notice Make the caller's encrypted counters publicly decryptable
+     * @dev Irreversible: counters updated afterwards are published as well
+     */
+    function publishStats() external {
+        if (!privacyMode[msg.sender]) {
+            revert PrivacyModeOff();
+        }
+
+        published[msg.sender] = true;
+
+        PrivateRecord storage record = records[arena.currentSeason()][msg.sender];
+        if (FHE.isInitialized(record.wins)) {
+            FHE.makePubliclyDecryptable(record.wins);
+            FHE.makePubliclyDecryptable(record.losses);
+        } else {
+            _store(record, msg.sender, FHE.asEuint32(0), FHE.asEuint32(0));
+        }
+
+        emit StatsPublished(msg.sender);
+    }
+
+    /* ========== ARENA CALLBACK ========== */
+
+    /**
+     * @inheritdoc IPrivateStats
+     */
+    function recordResult(
+        address player1,
+        address player2,
+        euint8 result
+    ) external returns (bool private1, bool private2) {
+        if (msg.sender != address(arena)) {
+            revert NotArena();
+        }
+
+        uint256 season = arena.currentSeason();
+        private1 = privacyMode[player1];
+        private2 = privacyMode[player2];
+
+        if (private1) {
+            _count(records[season][player1], player1, FHE.eq(result, 1), FHE.eq(result, 2));
+        }
+        if (private2) {
+            _count(records[season][player2], player2, FHE.eq(result, 2), FHE.eq(result, 1));
+        }
+    }
+
+    /* ========== VIEW FUNCTIONS ========== */
+
+    /**
+     * @notice Get a player's encrypted record in a season
+     * @param season The season number
+     * @param player The player address
+     * @return wins Encrypted wins (uninitialized if the player never used privacy mode that season)
+     * @return losses Encrypted losses
+     */
+    function getPrivateStats(uint256 season, address player) external view returns (euint32 wins, euint32 losses) {
+        PrivateRecord storage record = records[season][player];
+        return (record.wins, record.losses);
+    }
+
+    /* ========== INTERNAL HELPER FUNCTIONS ========== */
+
+    /**
+     * @notice Add an encrypted match outcome to a record
+     * @param record The player's record
+     * @param player The player address
+     * @param won Whether the player won
+     * @param lost Whether the player lost
+     */
+    function _count(PrivateRecord storage record, address player, ebool won, ebool lost) internal {
+        _store(
+            record,
+            player,
+            FHE.add(record.wins, FHE.asEuint32(won)),
+            FHE.add(record.losses, FHE.asEuint32(lost))
+        );
+    }
+
+    /**
+     * @notice Store new counters, decryptable by the player and by anyone once published
+     * @param record The player's record
+     * @param player The player address
+     * @param wins The new encrypted wins
+     * @param losses The new encrypted losses
+     */
+    function _store(PrivateRecord storage record, address player, euint32 wins, euint32 losses) internal {
+        record.wins = wins;
+        record.losses = losses;
+
+        FHE.allowThis(wins);
+        FHE.allowThis(losses);
+        FHE.allow(wins, player);
+        FHE.allow(losses, player);
+
+        if (published[player]) {
+            FHE.makePubliclyDecryptable(wins);
+            FHE.makePubliclyDecryptable(losses);
+        }
+    }
+}
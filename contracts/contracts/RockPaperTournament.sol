@@ -0,0 +1,526 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title RockPaperTournament
+ * @notice Single-elimination brackets played through RockPaperArena's encrypted match flow
+ * @dev Must be registered as the arena's match manager (RockPaperArena.setMatchManager)
+ *
+ * Flow:
+ * - An organizer opens a bracket of 4, 8 or 16 players with an entry fee and an optional sponsor pot
+ * - Players register by paying the entry fee; the bracket starts when the last seat is taken
+ * - Each pairing is opened as a managed arena match (commit, reveal and timeouts work as usual)
+ * - The arena reports every result; winners advance and the next pairing opens automatically
+ * - The prize pool (fees + sponsor pot) is credited to the champion and runner-up
+ *
+ * Bracket layout:
+ * - Bracket matches are stored round by round: the first round uses indices 0..size/2-1,
+ *   and the winner of match i plays in match size/2 + i/2. The final is match size-2
+ * - A voided arena match (neither player committed, or a mutual abort) eliminates both
+ *   players; their next opponent advances on a walkover
+ * - A pairing that cannot open because a player has no free arena match slot can be retried with
+ *   startMatch; once START_WINDOW has passed, claimWalkover advances the player who is able to play
+ */
+
+import {RockPaperArena} from "./RockPaperArena.sol";
+import {IMatchManager} from "./interfaces/IMatchManager.sol";
+
+contract RockPaperTournament is IMatchManager {
+    /* ========== STATE VARIABLES ========== */
+
+    /// @notice Tournament lifecycle states
+    enum TournamentState {
+        None,           // 0: Tournament doesn't exist
+        Registration,   // 1: Waiting for players
+        Running,        // 2: Bracket in progress
+        Completed,      // 3: Champion decided and prizes credited
+        Cancelled       // 4: Cancelled during registration, fees refunded
+    }
+
+    /// @notice Tournament data
+    struct Tournament {
+        uint256 tournamentId;   // Unique tournament identifier
+        address organizer;      // Account that opened the bracket
+        uint8 size;             // Number of players (4, 8 or 16)
+        uint8 bestOf;           // Series length of every bracket match
+        uint256 entryFee;       // Wei paid by each player to register
+        uint256 prizePool;      // Entry fees plus the sponsor pot
+        TournamentState state;  // Current state
+        uint256 createdAt;      // Creation timestamp
+        address champion;       // Winner of the final (address(0) until completed)
+        address runnerUp;       // Loser of the final (address(0) until completed)
+    }
+
+    /// @notice One pairing of the bracket
+    struct BracketMatch {
+        address player1;        // Upper slot
+        address player2;        // Lower slot
+        uint256 arenaMatchId;   // Arena match (0 until opened)
+        address winner;         // Advancing player (address(0) if both were eliminated)
+        bool decided;           // Whether the pairing has been resolved
+        uint256 startDeadline;  // When a walkover can be claimed (0 unless the match could not open)
+    }
+
+    /// @notice Bracket position of an arena match
+    struct BracketRef {
+        uint256 tournamentId;
+        uint256 index;
+    }
+
+    /* ========== CONSTANTS ========== */
+
+    /// @notice Largest supported bracket
+    uint8 public constant MAX_BRACKET_SIZE = 16;
+
+    /// @notice Time a pairing that could not open waits for both players to free a match slot
+    uint256 public constant START_WINDOW = 1 hours;
+
+    /// @notice Share of the prize pool credited to the champion, in basis points (the runner-up gets the rest)
+    uint256 public constant CHAMPION_SHARE_BPS = 7000;
+
+    /// @notice Arena the bracket matches are played in
+    RockPaperArena public immutable arena;
+
+    /* ========== STORAGE ========== */
+
+    /// @notice Tournament ID counter
+    uint256 public tournamentCounter;
+
+    /// @notice Mapping of tournament ID to Tournament struct
+    mapping(uint256 => Tournament) internal tournaments;
+
+    /// @notice Mapping of tournament ID to registered players, in registration (seeding) order
+    mapping(uint256 => address[]) internal entrants;
+
+    /// @notice Mapping of tournament ID to player to whether they registered
+    mapping(uint256 => mapping(address => bool)) public isRegistered;
+
+    /// @notice Mapping of tournament ID to bracket index to pairing
+    mapping(uint256 => mapping(uint256 => BracketMatch)) internal bracket;
+
+    /// @notice Mapping of arena match ID to its bracket position
+    mapping(uint256 => BracketRef) public bracketRefs;
+
+    /// @notice Withdrawable wei per account from prizes and refunds
+    mapping(address => uint256) public pendingPrizes;
+
+    /* ========== EVENTS ========== */
+
+    event TournamentCreated(
+        uint256 indexed tournamentId,
+        address indexed organizer,
+        uint8 size,
+        uint256 entryFee,
+        uint256 sponsorPot
+    );
+    event PlayerRegistered(uint256 indexed tournamentId, address indexed player);
+    event TournamentStarted(uint256 indexed tournamentId);
+    event BracketMatchOpened(uint256 indexed tournamentId, uint256 index, uint256 indexed arenaMatchId);
+    event BracketMatchDecided(uint256 indexed tournamentId, uint256 index, address winner);
+    event TournamentCompleted(uint256 indexed tournamentId, address indexed champion, address runnerUp);
+    event TournamentCancelled(uint256 indexed tournamentId);
+    event PrizesClaimed(address indexed account, uint256 amount);
+
+    /* ========== ERRORS ========== */
+
+    error InvalidBracketSize();
+    error InvalidTournamentId();
+    error InvalidSeriesLength();
+    error RegistrationClosed();
+    error AlreadyRegistered();
+    error EntryFeeMismatch();
+    error NotOrganizer();
+    error NotArena();
+    error MatchNotReady();
+    error DeadlineNotReached();
+    error NoRewards();
+    error TransferFailed();
+
+    /* ========== CONSTRUCTOR ========== */
+
+    constructor(RockPaperArena arena_) {
+        arena = arena_;
+    }
+
+    /* ========== REGISTRATION ========== */
+
+    /**
+     * @notice Open a new bracket for registration
+     * @dev msg.value is added to the prize pool as a sponsor pot
+     * @param size Number of players (4, 8 or 16)
+     * @param entryFee Wei each player pays to register
+     * @param bestOf Series length of every bracket match (1, 3, 5 or 7)
+     * @return tournamentId The created tournament ID
+     */
+    function createTournament(
+        uint8 size,
+        uint256 entryFee,
+        uint8 bestOf
+    ) external payable returns (uint256 tournamentId) {
+        if (size < 4 || size > MAX_BRACKET_SIZE || (size & (size - 1)) != 0) {
+            revert InvalidBracketSize();
+        }
+        if (bestOf == 0 || bestOf > arena.MAX_SERIES_LENGTH() || bestOf % 2 == 0) {
+            revert InvalidSeriesLength();
+        }
+
+        tournamentId = ++tournamentCounter;
+        Tournament storage tournament = tournaments[tournamentId];
+
+        tournament.tournamentId = tournamentId;
+        tournament.organizer = msg.sender;
+        tournament.size = size;
+        tournament.bestOf = bestOf;
+        tournament.entryFee = entryFee;
+        tournament.prizePool = msg.value;
+        tournament.state = TournamentState.Registration;
+        tournament.createdAt = block.timestamp;
+
+        emit TournamentCreated(tournamentId, msg.sender, size, entryFee, msg.value);
+
+        return tournamentId;
+    }
+
+    /**
+     * @notice Take a seat in a bracket
+     * @dev msg.value must equal the entry fee. Taking the last seat starts the bracket
+     *      and opens the first-round arena matches
+     * @param tournamentId The tournament ID
+     */
+    function register(uint256 tournamentId) external payable {
+        Tournament storage tournament = tournaments[tournamentId];
+
+        if (tournament.state != TournamentState.Registration) {
+            revert RegistrationClosed();
+        }
+        if (isRegistered[tournamentId][msg.sender]) {
+            revert AlreadyRegistered();
+        }
+        if (msg.value != tournament.entryFee) {
+            revert EntryFeeMismatch();
+        }
+
+        isRegistered[tournamentId][msg.sender] = true;
+        entrants[tournamentId].push(msg.sender);
+        tournament.prizePool += msg.value;
+
+        emit PlayerRegistered(tournamentId, msg.sender);
+
+        if (entrants[tournamentId].length == tournament.size) {
+            _startTournament(tournamentId);
+        }
+    }
+
+    /**
+     * @notice Cancel a bracket that has not filled up yet
+     * @dev Entry fees and the sponsor pot are credited back for withdrawal
+     * @param tournamentId The tournament ID
+     */
+    function cancelTournament(uint256 tournamentId) external {
+        Tournament storage tournament = tournaments[tournamentId];
+
+        if (tournament.organizer != msg.sender) {
+            revert NotOrganizer();
+        }
+        if (tournament.state != TournamentState.Registration) {
+            revert RegistrationClosed();
+        }
+
+        tournament.state = TournamentState.Cancelled;
+
+        address[] storage players = entrants[tournamentId];
+        uint256 length = players.length;
+        for (uint256 i = 0; i < length; i++) {
+            pendingPrizes[players[i]] += tournament.entryFee;
+        }
+        pendingPrizes[msg.sender] += tournament.prizePool - tournament.entryFee * length;
+        tournament.prizePool = 0;
+
+        emit TournamentCancelled(tournamentId);
+    }
+
+    /* ========== BRACKET ========== */
+
+    /**
+     * @notice Open the arena match of a pairing whose players are both known
+     * @dev Pairings open automatically; this retries one that could not open because
+     *      a player already had the maximum number of active arena matches
+     * @param tournamentId The tournament ID
+     * @param index Bracket index of the pairing
+     */
+    function startMatch(uint256 tournamentId, uint256 index) external {
+        BracketMatch storage pairing = bracket[tournamentId][index];
+
+        if (
+            tournaments[tournamentId].state != TournamentState.Running ||
+            index >= uint256(tournaments[tournamentId].size) - 1 ||
+            pairing.decided ||
+            pairing.arenaMatchId != 0 ||
+            pairing.player1 == address(0) ||
+            pairing.player2 == address(0)
+        ) {
+            revert MatchNotReady();
+        }
+
+        uint256 arenaMatchId = arena.createManagedMatch(
+            pairing.player1,
+            pairing.player2,
+            tournaments[tournamentId].bestOf
+        );
+        _linkMatch(tournamentId, index, arenaMatchId);
+    }
+
+    /**
+     * @notice Resolve a pairing that could not open before its start deadline
+     * @dev Players still without a free arena match slot are eliminated, so the other player
+     *      advances (or nobody, if neither can play). Pairings both players can play are
+     *      opened with startMatch instead
+     * @param tournamentId The tournament ID
+     * @param index Bracket index of the pairing
+     */
+    function claimWalkover(uint256 tournamentId, uint256 index) external {
+        BracketMatch storage pairing = bracket[tournamentId][index];
+
+        if (pairing.startDeadline == 0 || pairing.decided || pairing.arenaMatchId != 0) {
+            revert MatchNotReady();
+        }
+        if (block.timestamp < pairing.startDeadline) {
+            revert DeadlineNotReached();
+        }
+
+        bool canPlay1 = _hasFreeSlot(pairing.player1);
+        bool canPlay2 = _hasFreeSlot(pairing.player2);
+        if (canPlay1 && canPlay2) {
+            revert MatchNotReady();
+        }
+
+        _decide(tournamentId, index, canPlay1 ? pairing.player1 : canPlay2 ? pairing.player2 : address(0));
+    }
+
+    /**
+     * @notice Advance the winner of a finished bracket match
+     * @dev Only the arena calls this, from the transaction that decides or voids the match
+     * @param matchId The arena match ID
+     * @param winner The winner, or address(0) if the match was voided
+     */
+    function onMatchEnded(uint256 matchId, address winner) external {
+        if (msg.sender != address(arena)) {
+            revert NotArena();
+        }
+
+        BracketRef memory ref = bracketRefs[matchId];
+        if (ref.tournamentId == 0) {
+            revert InvalidTournamentId();
+        }
+
+        _decide(ref.tournamentId, ref.index, winner);
+    }
+
+    /* ========== REWARDS ========== */
+
+    /**
+     * @notice Withdraw all wei credited from prizes and refunds
+     * @dev Pull-based: the balance is cleared before the transfer
+     */
+    function claimPrizes() external {
+        uint256 amount = pendingPrizes[msg.sender];
+        if (amount == 0) {
+            revert NoRewards();
+        }
+
+        pendingPrizes[msg.sender] = 0;
+
+        (bool success, ) = payable(msg.sender).call{value: amount}("");
+        if (!success) {
+            revert TransferFailed();
+        }
+
+        emit PrizesClaimed(msg.sender, amount);
+    }
+
+    /* ========== VIEW FUNCTIONS ========== */
+
+    /**
+     * @notice Get tournament details
+     * @param tournamentId The tournament ID
+     * @return Tournament struct
+     */
+    function getTournament(uint256 tournamentId) external view returns (Tournament memory) {
+        return tournaments[tournamentId];
+    }
+
+    /**
+     * @notice Get the registered players in seeding order
+     * @param tournamentId The tournament ID
+     * @return Array of player addresses
+     */
+    function getEntrants(uint256 tournamentId) external view returns (address[] memory) {
+        return entrants[tournamentId];
+    }
+
+    /**
+     * @notice Get every pairing of a bracket, round by round
+     * @param tournamentId The tournament ID
+     * @return pairings Array of size - 1 pairings (empty for unknown tournaments)
+     */
+    function getBracket(uint256 tournamentId) external view returns (BracketMatch[] memory pairings) {
+        uint256 size = tournaments[tournamentId].size;
+        if (size == 0) {
+            return pairings;
+        }
+
+        pairings = new BracketMatch[](size - 1);
+        for (uint256 i = 0; i < size - 1; i++) {
+            pairings[i] = bracket[tournamentId][i];
+        }
+    }
+
+    /* ========== INTERNAL HELPER FUNCTIONS ========== */
+
+    /**
+     * @notice Seed the first round in registration order and open its arena matches
+     * @param tournamentId The tournament ID
+     */
+    function _startTournament(uint256 tournamentId) internal {
+        tournaments[tournamentId].state = TournamentState.Running;
+
+        emit TournamentStarted(tournamentId);
+
+        address[] storage players = entrants[tournamentId];
+        uint256 firstRound = players.length / 2;
+        for (uint256 i = 0; i < firstRound; i++) {
+            BracketMatch storage pairing = bracket[tournamentId][i];
+            pairing.player1 = players[2 * i];
+            pairing.player2 = players[2 * i + 1];
+
+            _tryOpenMatch(tournamentId, i);
+        }
+    }
+
+    /**
+     * @notice Open a pairing's arena match, leaving it for startMatch or claimWalkover if a player
+     *         has no free match slot
+     * @dev Any other arena error is bubbled up rather than leaving the pairing stranded
+     * @param tournamentId The tournament ID
+     * @param index Bracket index of the pairing
+     */
+    function _tryOpenMatch(uint256 tournamentId, uint256 index) internal {
+        BracketMatch storage pairing = bracket[tournamentId][index];
+
+        try arena.createManagedMatch(pairing.player1, pairing.player2, tournaments[tournamentId].bestOf) returns (
+            uint256 arenaMatchId
+        ) {
+            _linkMatch(tournamentId, index, arenaMatchId);
+        } catch (bytes memory reason) {
+            if (bytes4(reason) != RockPaperArena.TooManyActiveMatches.selector) {
+                // solhint-disable-next-line no-inline-assembly
+                assembly {
+                    revert(add(reason, 32), mload(reason))
+                }
+            }
+            pairing.startDeadline = block.timestamp + START_WINDOW;
+        }
+    }
+
+    /**
+     * @notice Check that a player can take part in one more arena match
+     * @param player The player address
+     * @return Whether the player is below the arena's active match limit
+     */
+    function _hasFreeSlot(address player) internal view returns (bool) {
+        return arena.getActiveMatches(player).length < arena.MAX_ACTIVE_MATCHES();
+    }
+
+    /**
+     * @notice Remember which pairing an arena match belongs to
+     * @param tournamentId The tournament ID
+     * @param index Bracket index of the pairing
+     * @param arenaMatchId The arena match ID
+     */
+    function _linkMatch(uint256 tournamentId, uint256 index, uint256 arenaMatchId) internal {
+        bracket[tournamentId][index].arenaMatchId = arenaMatchId;
+        bracketRefs[arenaMatchId] = BracketRef({tournamentId: tournamentId, index: index});
+
+        emit BracketMatchOpened(tournamentId, index, arenaMatchId);
+    }
+
+    /**
+     * @notice Resolve a pairing and move its winner into the next round
+     * @dev When the other feeder pairing is already resolved, the next pairing opens, or is
+     *      resolved right away as a walkover if a slot stayed empty
+     * @param tournamentId The tournament ID
+     * @param index Bracket index of the pairing
+     * @param winner The advancing player (address(0) if both were eliminated)
+     */
+    function _decide(uint256 tournamentId, uint256 index, address winner) internal {
+        BracketMatch storage pairing = bracket[tournamentId][index];
+        pairing.winner = winner;
+        pairing.decided = true;
+
+        emit BracketMatchDecided(tournamentId, index, winner);
+
+        uint256 size = tournaments[tournamentId].size;
+        if (index == size - 2) {
+            _completeTournament(tournamentId, pairing);
+            return;
+        }
+
+        uint256 next = size / 2 + index / 2;
+        if (index % 2 == 0) {
+            bracket[tournamentId][next].player1 = winner;
+        } else {
+            bracket[tournamentId][next].player2 = winner;
+        }
+
+        BracketMatch storage sibling = bracket[tournamentId][index ^ 1];
+        if (!sibling.decided) {
+            return;
+        }
+
+        BracketMatch storage nextPairing = bracket[tournamentId][next];
+        if (nextPairing.player1 == address(0) || nextPairing.player2 == address(0)) {
+            // Walkover: whoever is left advances (or nobody, if both slots are empty)
+            _decide(
+                tournamentId,
+                next,
+                nextPairing.player1 == address(0) ? nextPairing.player2 : nextPairing.player1
+            );
+        } else {
+            _tryOpenMatch(tournamentId, next);
+        }
+    }
+
+    /**
+     * @notice Record the podium and credit the prize pool
+     * @dev Without a runner-up the champion takes the whole pool; without a champion
+     *      the pool goes back to the organizer
+     * @param tournamentId The tournament ID
+     * @param finalMatch The decided final pairing
+     */
+    function _completeTournament(uint256 tournamentId, BracketMatch storage finalMatch) internal {
+        Tournament storage tournament = tournaments[tournamentId];
+
+        address champion = finalMatch.winner;
+        address runnerUp;
+        if (champion != address(0)) {
+            runnerUp = finalMatch.player1 == champion ? finalMatch.player2 : finalMatch.player1;
+        }
+
+        tournament.state = TournamentState.Completed;
+        tournament.champion = champion;
+        tournament.runnerUp = runnerUp;
+
+        uint256 pool = tournament.prizePool;
+        if (champion == address(0)) {
+            pendingPrizes[tournament.organizer] += pool;
+        } else if (runnerUp == address(0)) {
+            pendingPrizes[champion] += pool;
+        } else {
+            uint256 championPrize = (pool * CHAMPION_SHARE_BPS) / 10_000;
+            pendingPrizes[champion] += championPrize;
+            pendingPrizes[runnerUp] += pool - championPrize;
+        }
+
+        emit TournamentCompleted(tournamentId, champion, runnerUp);
+    }
+}
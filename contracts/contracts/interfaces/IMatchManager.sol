@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title IMatchManager
+ * @notice Callback interface for contracts that open matches through RockPaperArena.createManagedMatch
+ */
+interface IMatchManager {
+    /**
+     * @notice Called by the arena when a managed match is decided or voided
+     * @param matchId The arena match ID
+     * @param winner The winner, or address(0) if the match was voided
+     */
+    function onMatchEnded(uint256 matchId, address winner) external;
+}
@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title IMoveForwarder
+ * @notice Interface of the contract registered through RockPaperArena.setMoveForwarder
+ */
+interface IMoveForwarder {
+    /**
+     * @notice Get the only address allowed to submit moves on behalf of a player
+     * @param player The player address
+     * @return The player's move proxy (whether or not it is deployed yet)
+     */
+    function proxyOf(address player) external view returns (address);
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {euint8} from "@fhevm/solidity/lib/FHE.sol";
+
+/**
+ * @title IPrivateStats
+ * @notice Callback interface for the contract registered through RockPaperArena.setPrivateStats
+ */
+interface IPrivateStats {
+    /**
+     * @notice Called by the arena when a match is completed, with transient access to the result
+     * @param player1 First player of the match
+     * @param player2 Second player of the match
+     * @param result The encrypted match result (0=Draw, 1=Player1, 2=Player2)
+     * @return private1 Whether player1's wins and losses are kept out of the public stats
+     * @return private2 Whether player2's wins and losses are kept out of the public stats
+     */
+    function recordResult(
+        address player1,
+        address player2,
+        euint8 result
+    ) external returns (bool private1, bool private2);
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {FHE} from "@fhevm/solidity/lib/FHE.sol";
+import {ZamaEthereumConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {ERC7984} from "@openzeppelin/confidential-contracts/token/ERC7984/ERC7984.sol";
+
+/**
+ * @title MockConfidentialToken
+ * @notice ERC-7984 confidential token used to test encrypted stakes
+ * @dev Anyone can mint; for local testing only
+ */
+contract MockConfidentialToken is ZamaEthereumConfig, ERC7984 {
+    constructor() ERC7984("Mock Confidential Token", "MCT", "") {}
+
+    /**
+     * @notice Mint tokens to an address
+     * @param to Recipient address
+     * @param amount Cleartext amount to mint
+     */
+    function mint(address to, uint64 amount) external {
+        _mint(to, FHE.asEuint64(amount));
+    }
+}
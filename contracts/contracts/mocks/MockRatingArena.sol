@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+/**
+ * @title MockRatingArena
+ * @notice Stand-in for the arena calls RockPaperMatchmaker makes, with settable ratings
+ * @dev Lets tests queue players far apart in rating without playing matches; for local testing only
+ */
+contract MockRatingArena {
+    /// @notice Same limit as RockPaperArena; mock players never have active matches
+    uint256 public constant MAX_ACTIVE_MATCHES = 5;
+
+    /// @notice Rating of each player
+    mapping(address => uint256) public ratingOf;
+
+    /// @notice Number of queued matches opened
+    uint256 public matchCount;
+
+    /**
+     * @notice Set a player's rating
+     * @param player The player address
+     * @param rating The rating
+     */
+    function setRating(address player, uint256 rating) external {
+        ratingOf[player] = rating;
+    }
+
+    /**
+     * @notice Get a player's active matches (always none)
+     * @return An empty list
+     */
+    function getActiveMatches(address) external pure returns (uint256[] memory) {
+        return new uint256[](0);
+    }
+
+    /**
+     * @notice Open a queued match
+     * @return The new match ID
+     */
+    function createQueuedMatch(address, address) external returns (uint256) {
+        return ++matchCount;
+    }
+}
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.27;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+/**
+ * @title MockWagerToken
+ * @notice ERC-20 with EIP-2612 permit used to test token-staked matches
+ * @dev Anyone can mint; for local testing only
+ */
+contract MockWagerToken is ERC20, ERC20Permit {
+    constructor() ERC20("Mock Wager Token", "MWT") ERC20Permit("Mock Wager Token") {}
+
+    /**
+     * @notice Mint tokens to an address
+     * @param to Recipient address
+     * @param amount Amount to mint
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
@@ -7,10 +7,84 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
 
   const deployedRockPaperArena = await deploy("RockPaperArena", {
     from: deployer,
+    // AUTO_SETTLE=true settles rounds inside submitMove, skipping the requestReveal transaction
+    args: [process.env.AUTO_SETTLE === "true"],
     log: true,
   });
 
   console.log(`RockPaperArena contract deployed at: `, deployedRockPaperArena.address);
+
+  const deployedRockPaperTournament = await deploy("RockPaperTournament", {
+    from: deployer,
+    args: [deployedRockPaperArena.address],
+    log: true,
+  });
+
+  console.log(`RockPaperTournament contract deployed at: `, deployedRockPaperTournament.address);
+
+  // Bracket matches are opened by the tournament contract on the players' behalf
+  if (deployedRockPaperArena.newlyDeployed) {
+    await hre.deployments.execute(
+      "RockPaperArena",
+      { from: deployer, log: true },
+      "setMatchManager",
+      deployedRockPaperTournament.address
+    );
+  }
+
+  const deployedRockPaperMatchmaker = await deploy("RockPaperMatchmaker", {
+    from: deployer,
+    args: [deployedRockPaperArena.address],
+    log: true,
+  });
+
+  console.log(`RockPaperMatchmaker contract deployed at: `, deployedRockPaperMatchmaker.address);
+
+  // Quick matches are opened by the matchmaker when it pairs two queued players
+  if (deployedRockPaperArena.newlyDeployed) {
+    await hre.deployments.execute(
+      "RockPaperArena",
+      { from: deployer, log: true },
+      "setMatchmaker",
+      deployedRockPaperMatchmaker.address
+    );
+  }
+
+  const deployedRockPaperPrivateStats = await deploy("RockPaperPrivateStats", {
+    from: deployer,
+    args: [deployedRockPaperArena.address],
+    log: true,
+  });
+
+  console.log(`RockPaperPrivateStats contract deployed at: `, deployedRockPaperPrivateStats.address);
+
+  // Wins and losses of players in privacy mode are counted by the private stats contract
+  if (deployedRockPaperArena.newlyDeployed) {
+    await hre.deployments.execute(
+      "RockPaperArena",
+      { from: deployer, log: true },
+      "setPrivateStats",
+      deployedRockPaperPrivateStats.address
+    );
+  }
+
+  const deployedRockPaperForwarder = await deploy("RockPaperForwarder", {
+    from: deployer,
+    args: [deployedRockPaperArena.address],
+    log: true,
+  });
+
+  console.log(`RockPaperForwarder contract deployed at: `, deployedRockPaperForwarder.address);
+
+  // Signed moves are submitted through the forwarder by a relayer paying the gas
+  if (deployedRockPaperArena.newlyDeployed) {
+    await hre.deployments.execute(
+      "RockPaperArena",
+      { from: deployer, log: true },
+      "setMoveForwarder",
+      deployedRockPaperForwarder.address
+    );
+  }
 };
 
 export default func;
@@ -26,8 +26,12 @@ async function main() {
 
   // Deploy RockPaperArena
   console.log('📦 Deploying RockPaperArena contract...');
+  // AUTO_SETTLE=true settles rounds inside submitMove, skipping the requestReveal transaction
+  const autoSettle = process.env.AUTO_SETTLE === 'true';
+  console.log('⚙️  Auto-settle:', autoSettle);
+
   const RockPaperArena = await hre.ethers.getContractFactory('RockPaperArena');
-  const contract = await RockPaperArena.deploy();
+  const contract = await RockPaperArena.deploy(autoSettle);
 
   await contract.waitForDeployment();
   const contractAddress = await contract.getAddress();
@@ -39,11 +43,68 @@ async function main() {
   await contract.deploymentTransaction().wait(5);
   console.log('✅ Deployment confirmed!\n');
 
+  // Deploy RockPaperTournament and let it open bracket matches in the arena
+  console.log('\n📦 Deploying RockPaperTournament contract...');
+  const RockPaperTournament = await hre.ethers.getContractFactory('RockPaperTournament');
+  const tournament = await RockPaperTournament.deploy(contractAddress);
+
+  await tournament.waitForDeployment();
+  const tournamentAddress = await tournament.getAddress();
+
+  console.log('✅ RockPaperTournament deployed to:', tournamentAddress);
+
+  await (await contract.setMatchManager(tournamentAddress)).wait();
+  console.log('✅ Tournament registered as match manager');
+
+  // Deploy RockPaperMatchmaker and let it pair queued players in the arena
+  console.log('\n📦 Deploying RockPaperMatchmaker contract...');
+  const RockPaperMatchmaker = await hre.ethers.getContractFactory('RockPaperMatchmaker');
+  const matchmaker = await RockPaperMatchmaker.deploy(contractAddress);
+
+  await matchmaker.waitForDeployment();
+  const matchmakerAddress = await matchmaker.getAddress();
+
+  console.log('✅ RockPaperMatchmaker deployed to:', matchmakerAddress);
+
+  await (await contract.setMatchmaker(matchmakerAddress)).wait();
+  console.log('✅ Matchmaker registered');
+
+  // Deploy RockPaperPrivateStats and let it count the records of players in privacy mode
+  console.log('\n📦 Deploying RockPaperPrivateStats contract...');
+  const RockPaperPrivateStats = await hre.ethers.getContractFactory('RockPaperPrivateStats');
+  const privateStats = await RockPaperPrivateStats.deploy(contractAddress);
+
+  await privateStats.waitForDeployment();
+  const privateStatsAddress = await privateStats.getAddress();
+
+  console.log('✅ RockPaperPrivateStats deployed to:', privateStatsAddress);
+
+  await (await contract.setPrivateStats(privateStatsAddress)).wait();
+  console.log('✅ Private stats registered');
+
+  // Deploy RockPaperForwarder and let it submit moves players signed for a relayer
+  console.log('\n📦 Deploying RockPaperForwarder contract...');
+  const RockPaperForwarder = await hre.ethers.getContractFactory('RockPaperForwarder');
+  const forwarder = await RockPaperForwarder.deploy(contractAddress);
+
+  await forwarder.waitForDeployment();
+  const forwarderAddress = await forwarder.getAddress();
+
+  console.log('✅ RockPaperForwarder deployed to:', forwarderAddress);
+
+  await (await contract.setMoveForwarder(forwarderAddress)).wait();
+  console.log('✅ Move forwarder registered');
+
   // Save deployment info
   const deploymentInfo = {
     contractName: 'RockPaperArena',
     contractAddress: contractAddress,
+    tournamentAddress,
+    matchmakerAddress,
+    privateStatsAddress,
+    forwarderAddress,
     deployer: deployer.address,
+    autoSettle,
     network: hre.network.name,
     chainId: (await hre.ethers.provider.getNetwork()).chainId.toString(),
     deployedAt: new Date().toISOString(),
@@ -84,14 +145,58 @@ async function main() {
     envContent += `\nVITE_CONTRACT_ADDRESS=${contractAddress}\n`;
   }
 
+  // Update or add TOURNAMENT_ADDRESS
+  if (envContent.includes('VITE_TOURNAMENT_ADDRESS=')) {
+    envContent = envContent.replace(
+      /VITE_TOURNAMENT_ADDRESS=.*/,
+      `VITE_TOURNAMENT_ADDRESS=${tournamentAddress}`
+    );
+  } else {
+    envContent += `VITE_TOURNAMENT_ADDRESS=${tournamentAddress}\n`;
+  }
+
+  // Update or add MATCHMAKER_ADDRESS
+  if (envContent.includes('VITE_MATCHMAKER_ADDRESS=')) {
+    envContent = envContent.replace(
+      /VITE_MATCHMAKER_ADDRESS=.*/,
+      `VITE_MATCHMAKER_ADDRESS=${matchmakerAddress}`
+    );
+  } else {
+    envContent += `VITE_MATCHMAKER_ADDRESS=${matchmakerAddress}\n`;
+  }
+
+  // Update or add PRIVATE_STATS_ADDRESS
+  if (envContent.includes('VITE_PRIVATE_STATS_ADDRESS=')) {
+    envContent = envContent.replace(
+      /VITE_PRIVATE_STATS_ADDRESS=.*/,
+      `VITE_PRIVATE_STATS_ADDRESS=${privateStatsAddress}`
+    );
+  } else {
+    envContent += `VITE_PRIVATE_STATS_ADDRESS=${privateStatsAddress}\n`;
+  }
+
+  // Update or add FORWARDER_ADDRESS
+  if (envContent.includes('VITE_FORWARDER_ADDRESS=')) {
+    envContent = envContent.replace(
+      /VITE_FORWARDER_ADDRESS=.*/,
+      `VITE_FORWARDER_ADDRESS=${forwarderAddress}`
+    );
+  } else {
+    envContent += `VITE_FORWARDER_ADDRESS=${forwarderAddress}\n`;
+  }
+
   fs.writeFileSync(envPath, envContent);
-  console.log('✅ Updated .env file with contract address\n');
+  console.log('✅ Updated .env file with contract addresses\n');
 
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   console.log('🎉 Deployment Summary:');
   console.log('━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
   console.log('Contract:', deploymentInfo.contractName);
   console.log('Address:', deploymentInfo.contractAddress);
+  console.log('Tournament:', deploymentInfo.tournamentAddress);
+  console.log('Matchmaker:', deploymentInfo.matchmakerAddress);
+  console.log('Private stats:', deploymentInfo.privateStatsAddress);
+  console.log('Forwarder:', deploymentInfo.forwarderAddress);
   console.log('Network:', deploymentInfo.network);
   console.log('Chain ID:', deploymentInfo.chainId);
   console.log('Deployer:', deploymentInfo.deployer);
@@ -8,13 +8,17 @@
 const fs = require('fs');
 const path = require('path');
 
-async function main() {
-  console.log('\n📦 Exporting contract ABI...\n');
+// Contracts the frontend talks to
+const CONTRACTS = ['RockPaperArena', 'RockPaperTournament', 'RockPaperMatchmaker', 'RockPaperPrivateStats', 'RockPaperForwarder'];
 
+/**
+ * Write the ABI of one compiled contract as JSON and as a TypeScript module
+ */
+function exportContract(contractName, frontendContractsDir) {
   // Read compiled contract artifact
   const artifactPath = path.join(
     __dirname,
-    '../artifacts/contracts/RockPaperArena.sol/RockPaperArena.json'
+    `../artifacts/contracts/${contractName}.sol/${contractName}.json`
   );
 
   if (!fs.existsSync(artifactPath)) {
@@ -27,43 +31,51 @@ async function main() {
 
   // Create ABI export object
   const abiExport = {
-    contractName: 'RockPaperArena',
+    contractName,
     abi: artifact.abi,
     bytecode: artifact.bytecode,
     exportedAt: new Date().toISOString(),
   };
 
-  // Export to frontend src/contracts directory
-  const frontendContractsDir = path.join(__dirname, '../../src/contracts');
-
-  if (!fs.existsSync(frontendContractsDir)) {
-    fs.mkdirSync(frontendContractsDir, { recursive: true });
-  }
-
   // Save as JSON
-  const jsonPath = path.join(frontendContractsDir, 'RockPaperArena.json');
+  const jsonPath = path.join(frontendContractsDir, `${contractName}.json`);
   fs.writeFileSync(jsonPath, JSON.stringify(abiExport, null, 2));
 
   console.log('✅ ABI exported to:', jsonPath);
 
   // Save as TypeScript module
   const tsContent = `/**
- * RockPaperArena Contract ABI
+ * ${contractName} Contract ABI
  * Auto-generated from compiled contract
  * Do not edit manually
  */
 
-export const RockPaperArenaABI = ${JSON.stringify(artifact.abi, null, 2)} as const;
+export const ${contractName}ABI = ${JSON.stringify(artifact.abi, null, 2)} as const;
 
-export const RockPaperArenaBytecode = '${artifact.bytecode}' as const;
+export const ${contractName}Bytecode = '${artifact.bytecode}' as const;
 
-export type RockPaperArenaABI = typeof RockPaperArenaABI;
+export type ${contractName}ABI = typeof ${contractName}ABI;
 `;
 
-  const tsPath = path.join(frontendContractsDir, 'RockPaperArena.ts');
+  const tsPath = path.join(frontendContractsDir, `${contractName}.ts`);
   fs.writeFileSync(tsPath, tsContent);
 
   console.log('✅ TypeScript ABI exported to:', tsPath);
+}
+
+async function main() {
+  console.log('\n📦 Exporting contract ABI...\n');
+
+  // Export to frontend src/contracts directory
+  const frontendContractsDir = path.join(__dirname, '../../src/contracts');
+
+  if (!fs.existsSync(frontendContractsDir)) {
+    fs.mkdirSync(frontendContractsDir, { recursive: true });
+  }
+
+  for (const contractName of CONTRACTS) {
+    exportContract(contractName, frontendContractsDir);
+  }
 
   // Read deployment info if exists
   const deploymentPath = path.join(__dirname, '../deployments/latest-sepolia.json');
@@ -0,0 +1,128 @@
+/**
+ * Local relayer for gasless moves
+ *
+ * Accepts moves players signed with EIP-712 (see RockPaperForwarder) and
+ * submits them through the forwarder, paying the gas from the relayer wallet.
+ *
+ * Environment:
+ * - RELAYER_PRIVATE_KEY (falls back to PRIVATE_KEY): wallet paying the gas
+ * - VITE_SEPOLIA_RPC_URL: RPC endpoint
+ * - VITE_FORWARDER_ADDRESS: forwarder contract (defaults to deployments/latest-sepolia.json)
+ * - RELAYER_PORT: HTTP port (default 8787)
+ *
+ * Endpoints:
+ * - GET  /health       relayer and forwarder addresses
+ * - POST /submit-move  { player, matchId, handle, inputProof, deadline, signature } => { hash }
+ */
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const { ethers } = require('ethers');
+
+require('dotenv').config({ path: path.join(__dirname, '../../.env') });
+
+const FORWARDER_ABI = [
+  'function submitMoveBySig(address player, uint256 matchId, bytes32 encryptedMove, bytes inputProof, uint256 deadline, bytes signature)',
+];
+
+// Requests larger than this are rejected (input proofs are a few hundred bytes)
+const MAX_BODY_SIZE = 64 * 1024;
+
+function loadForwarderAddress() {
+  if (process.env.VITE_FORWARDER_ADDRESS) {
+    return process.env.VITE_FORWARDER_ADDRESS;
+  }
+
+  const latestPath = path.join(__dirname, '../deployments/latest-sepolia.json');
+  if (fs.existsSync(latestPath)) {
+    return JSON.parse(fs.readFileSync(latestPath, 'utf8')).forwarderAddress;
+  }
+
+  return undefined;
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+      }
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+async function main() {
+  const privateKey = process.env.RELAYER_PRIVATE_KEY || process.env.PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error('❌ Set RELAYER_PRIVATE_KEY (or PRIVATE_KEY) to the wallet paying for relayed moves');
+  }
+
+  const forwarderAddress = loadForwarderAddress();
+  if (!forwarderAddress) {
+    throw new Error('❌ Forwarder address not found. Set VITE_FORWARDER_ADDRESS or deploy first');
+  }
+
+  const rpcUrl = process.env.VITE_SEPOLIA_RPC_URL || 'https://ethereum-sepolia-rpc.publicnode.com';
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const wallet = new ethers.Wallet(privateKey, provider);
+  const forwarder = new ethers.Contract(forwarderAddress, FORWARDER_ABI, wallet);
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      return send(res, 204, {});
+    }
+
+    if (req.method === 'GET' && (req.url === '/' || req.url === '/health')) {
+      return send(res, 200, { relayer: wallet.address, forwarder: forwarderAddress });
+    }
+
+    if (req.method !== 'POST' || req.url !== '/submit-move') {
+      return send(res, 404, { error: 'Not found' });
+    }
+
+    try {
+      const { player, matchId, handle, inputProof, deadline, signature } = JSON.parse(await readBody(req));
+      const args = [player, BigInt(matchId), handle, inputProof, BigInt(deadline), signature];
+
+      // Simulate first so invalid signatures and moves are rejected without spending gas
+      await forwarder.submitMoveBySig.staticCall(...args);
+
+      const tx = await forwarder.submitMoveBySig(...args);
+      console.log(`📨 Relayed move for match #${matchId} by ${player}: ${tx.hash}`);
+
+      return send(res, 200, { hash: tx.hash });
+    } catch (error) {
+      console.error('❌ Relay failed:', error.shortMessage || error.message);
+      return send(res, 400, { error: error.shortMessage || error.message });
+    }
+  });
+
+  const port = Number(process.env.RELAYER_PORT || 8787);
+  server.listen(port, () => {
+    console.log('\n🛰️  Gasless move relayer');
+    console.log('Relayer:', wallet.address);
+    console.log('Forwarder:', forwarderAddress);
+    console.log(`Listening on http://localhost:${port}\n`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -40,10 +40,42 @@ async function main() {
     // Verify contract
     await hre.run('verify:verify', {
       address: contractAddress,
-      constructorArguments: [], // RockPaperArena has no constructor arguments
+      constructorArguments: [deploymentInfo.autoSettle ?? false],
       contract: 'contracts/RockPaperArena.sol:RockPaperArena',
     });
 
+    if (deploymentInfo.tournamentAddress) {
+      await hre.run('verify:verify', {
+        address: deploymentInfo.tournamentAddress,
+        constructorArguments: [contractAddress],
+        contract: 'contracts/RockPaperTournament.sol:RockPaperTournament',
+      });
+    }
+
+    if (deploymentInfo.matchmakerAddress) {
+      await hre.run('verify:verify', {
+        address: deploymentInfo.matchmakerAddress,
+        constructorArguments: [contractAddress],
+        contract: 'contracts/RockPaperMatchmaker.sol:RockPaperMatchmaker',
+      });
+    }
+
+    if (deploymentInfo.privateStatsAddress) {
+      await hre.run('verify:verify', {
+        address: deploymentInfo.privateStatsAddress,
+        constructorArguments: [contractAddress],
+        contract: 'contracts/RockPaperPrivateStats.sol:RockPaperPrivateStats',
+      });
+    }
+
+    if (deploymentInfo.forwarderAddress) {
+      await hre.run('verify:verify', {
+        address: deploymentInfo.forwarderAddress,
+        constructorArguments: [contractAddress],
+        contract: 'contracts/RockPaperForwarder.sol:RockPaperForwarder',
+      });
+    }
+
     console.log('✅ Contract verified successfully!\n');
 
     // Update deployment info with verification status
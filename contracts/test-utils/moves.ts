@@ -0,0 +1,52 @@
+/**
+ * Move Helpers for Testing
+ *
+ * Provides the arena gestures and encrypted move submission shared by the
+ * test suites of contracts built on RockPaperArena.
+ *
+ * @module test-utils/moves
+ */
+
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { RockPaperArena } from "../types";
+
+/**
+ * Arena gestures (classic rules use the first three)
+ */
+export enum Gesture {
+  Rock = 0,
+  Paper = 1,
+  Scissors = 2,
+  Lizard = 3,
+  Spock = 4,
+}
+
+/**
+ * Commit an encrypted gesture for the player at `seat` (0-based)
+ *
+ * Fixture players start at the first signer after the owner, so `players[seat]`
+ * encrypts with `instances.player<seat + 1>` from createInstances.
+ *
+ * @param arena - Arena the match is played in
+ * @param instances - FHE instances from createInstances
+ * @param players - Fixture players
+ * @param seat - Index of the submitting player in `players`
+ * @param matchId - The match ID
+ * @param gesture - The gesture to commit
+ * @returns The submitMove transaction
+ */
+export async function commit(
+  arena: RockPaperArena,
+  instances: { [key: string]: any },
+  players: HardhatEthersSigner[],
+  seat: number,
+  matchId: bigint,
+  gesture: Gesture
+) {
+  const player = players[seat];
+  const input = instances[`player${seat + 1}`].createEncryptedInput(await arena.getAddress(), player.address);
+  input.add8(gesture);
+  const encryptedMove = await input.encrypt();
+
+  return arena.connect(player).submitMove(matchId, encryptedMove.handles[0], encryptedMove.inputProof);
+}
@@ -20,7 +20,7 @@ describe('RockPaperArena', function () {
     [owner, player1, player2, player3] = await ethers.getSigners();
 
     const RockPaperArena = await ethers.getContractFactory('RockPaperArena');
-    rockPaperArena = await RockPaperArena.deploy();
+    rockPaperArena = await RockPaperArena.deploy(false);
     await rockPaperArena.waitForDeployment();
   });
 
@@ -61,15 +61,18 @@ describe('RockPaperArena', function () {
         expect(pendingMatches[0]).to.equal(1n);
 
         // Check player active match
-        expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(1);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([1n]);
       });
 
-      it('Should revert if player already in a match', async function () {
-        await rockPaperArena.connect(player1).createChallenge();
+      it('Should revert once the player holds the maximum number of active matches', async function () {
+        const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+        for (let i = 0n; i < maxActive; i++) {
+          await rockPaperArena.connect(player1).createChallenge();
+        }
 
         await expect(rockPaperArena.connect(player1).createChallenge()).to.be.revertedWithCustomError(
           rockPaperArena,
-          'AlreadyInMatch'
+          'TooManyActiveMatches'
         );
       });
 
@@ -112,7 +115,7 @@ describe('RockPaperArena', function () {
         expect(pendingMatches.length).to.equal(0);
 
         // Check player2 active match
-        expect(await rockPaperArena.playerActiveMatch(player2.address)).to.equal(1);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([1n]);
       });
 
       it('Should revert if match does not exist', async function () {
@@ -121,12 +124,15 @@ describe('RockPaperArena', function () {
         ).to.be.revertedWithCustomError(rockPaperArena, 'InvalidMatchId');
       });
 
-      it('Should revert if player already in a match', async function () {
-        await rockPaperArena.connect(player2).createChallenge();
+      it('Should revert once the joiner holds the maximum number of active matches', async function () {
+        const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+        for (let i = 0n; i < maxActive; i++) {
+          await rockPaperArena.connect(player2).createChallenge();
+        }
 
         await expect(
           rockPaperArena.connect(player2).acceptChallenge(1)
-        ).to.be.revertedWithCustomError(rockPaperArena, 'AlreadyInMatch');
+        ).to.be.revertedWithCustomError(rockPaperArena, 'TooManyActiveMatches');
       });
 
       it('Should revert if player1 tries to join own match', async function () {
@@ -165,7 +171,7 @@ describe('RockPaperArena', function () {
         expect(pendingMatches.length).to.equal(0);
 
         // Check player1 no longer in active match
-        expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(0);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([]);
       });
 
       it('Should revert if non-player1 tries to cancel', async function () {
@@ -216,10 +222,6 @@ describe('RockPaperArena', function () {
     it('Should have claimRewards function', async function () {
       expect(rockPaperArena.claimRewards).to.be.a('function');
     });
-
-    it('Should have updateStreak function', async function () {
-      expect(rockPaperArena.updateStreak).to.be.a('function');
-    });
   });
 
   describe('View Functions', function () {
@@ -13,9 +13,12 @@
  */
 
 import { expect } from "chai";
-import { ethers } from "hardhat";
-import { RockPaperArena } from "../types";
+import { ethers, fhevm } from "hardhat";
+import { HDNodeWallet } from "ethers";
+import { MockConfidentialToken, MockConfidentialToken__factory, MockWagerToken, MockWagerToken__factory, RockPaperArena } from "../types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { createInstances, createInstance } from "../test-utils/instance";
 import { getSigners, initSigners } from "../test-utils/signers";
 import { deployRockPaperArenaFixture } from "./fixtures/RockPaperArena.fixture";
@@ -33,6 +36,14 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
     Rock = 0,
     Paper = 1,
     Scissors = 2,
+    Lizard = 3,
+    Spock = 4,
+  }
+
+  // Rule set variants enum
+  enum RuleSet {
+    Classic = 0,
+    LizardSpock = 1,
   }
 
   // Match states enum
@@ -42,6 +53,7 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
     BothCommitted = 2,
     Revealed = 3,
     Cancelled = 4,
+    Decrypting = 5,
   }
 
   before(async function () {
@@ -64,6 +76,19 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
     instances = await createInstances(contractAddress, ethers, this.signers);
   });
 
+  /**
+   * Publicly decrypt a match result and submit the KMS proof
+   */
+  async function finalizeReveal(matchId: number) {
+    const match = await rockPaperArena.getMatch(matchId);
+    const decrypted = await fhevm.publicDecrypt([match.result]);
+    return rockPaperArena.finalizeReveal(
+      matchId,
+      decrypted.abiEncodedClearValues,
+      decrypted.decryptionProof
+    );
+  }
+
   /* ========================================
    * UNIT TESTS - DEPLOYMENT & INITIALIZATION
    * ======================================== */
@@ -79,8 +104,8 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
     });
 
     it("Should have no active matches for players initially", async function () {
-      expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(0n);
-      expect(await rockPaperArena.playerActiveMatch(player2.address)).to.equal(0n);
+      expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([]);
+      expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([]);
     });
 
     it("Should initialize player stats to zero", async function () {
@@ -90,6 +115,7 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
       expect(stats.draws).to.equal(0n);
       expect(stats.totalMatches).to.equal(0n);
       expect(stats.currentStreak).to.equal(0n);
+      expect(stats.bestStreak).to.equal(0n);
     });
   });
 
@@ -128,7 +154,7 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
         expect(pendingMatches[0]).to.equal(1n);
 
         // Verify player active match set
-        expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(1n);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([1n]);
       });
 
       it("Should emit MatchCreated event with correct parameters", async function () {
@@ -137,12 +163,15 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
           .withArgs(1n, player1.address);
       });
 
-      it("Should revert if player already in a match", async function () {
-        await rockPaperArena.connect(player1).createChallenge();
+      it("Should revert once the player holds the maximum number of active matches", async function () {
+        const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+        for (let i = 0n; i < maxActive; i++) {
+          await rockPaperArena.connect(player1).createChallenge();
+        }
 
         await expect(
           rockPaperArena.connect(player1).createChallenge()
-        ).to.be.revertedWithCustomError(rockPaperArena, "AlreadyInMatch");
+        ).to.be.revertedWithCustomError(rockPaperArena, "TooManyActiveMatches");
       });
 
       it("Should allow multiple players to create matches simultaneously", async function () {
@@ -218,7 +247,7 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
 
       it("Should set player2 active match", async function () {
         await rockPaperArena.connect(player2).acceptChallenge(1);
-        expect(await rockPaperArena.playerActiveMatch(player2.address)).to.equal(1n);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([1n]);
       });
 
       it("Should revert if match does not exist", async function () {
@@ -233,12 +262,15 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
         ).to.be.revertedWithCustomError(rockPaperArena, "InvalidMatchId");
       });
 
-      it("Should revert if player already in a match", async function () {
-        await rockPaperArena.connect(player2).createChallenge();
+      it("Should revert once the joiner holds the maximum number of active matches", async function () {
+        const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+        for (let i = 0n; i < maxActive; i++) {
+          await rockPaperArena.connect(player2).createChallenge();
+        }
 
         await expect(
           rockPaperArena.connect(player2).acceptChallenge(1)
-        ).to.be.revertedWithCustomError(rockPaperArena, "AlreadyInMatch");
+        ).to.be.revertedWithCustomError(rockPaperArena, "TooManyActiveMatches");
       });
 
       it("Should revert if player1 tries to join own match", async function () {
@@ -309,7 +341,7 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
 
       it("Should clear player1 active match", async function () {
         await rockPaperArena.connect(player1).cancelMatch(1);
-        expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(0n);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([]);
       });
 
       it("Should remove match from pending matches", async function () {
@@ -336,210 +368,1258 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
         await rockPaperArena.connect(player1).cancelMatch(1);
         await rockPaperArena.connect(player1).createChallenge();
 
-        expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(2n);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([2n]);
       });
     });
-  });
 
-  /* ========================================
-   * UNIT TESTS - MODULE 2: ENCRYPTED MOVE BOOK
-   * ======================================== */
+    describe("2.4 Stakes", function () {
+      const stake = ethers.parseEther("1");
 
-  describe("3. Module 2: Encrypted Move Book", function () {
-    beforeEach(async function () {
-      // Setup: Create and join a match
-      await rockPaperArena.connect(player1).createChallenge();
-      await rockPaperArena.connect(player2).acceptChallenge(1);
-    });
+      beforeEach(async function () {
+        await rockPaperArena.connect(player1).createChallenge({ value: stake });
+      });
 
-    describe("3.1 submitMove() - Structure Tests", function () {
-      it("Should have submitMove function", async function () {
-        expect(rockPaperArena.submitMove).to.be.a("function");
+      it("Should record the creator's stake in escrow", async function () {
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.stake).to.equal(stake);
+        expect(await ethers.provider.getBalance(await rockPaperArena.getAddress())).to.equal(stake);
       });
 
-      it("Should track player1 commitment state", async function () {
-        let match = await rockPaperArena.getMatch(1);
-        expect(match.player1Committed).to.equal(false);
+      it("Should revert if joiner does not match the stake", async function () {
+        await expect(
+          rockPaperArena.connect(player2).acceptChallenge(1, { value: stake / 2n })
+        ).to.be.revertedWithCustomError(rockPaperArena, "StakeMismatch");
+
+        await expect(
+          rockPaperArena.connect(player2).acceptChallenge(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "StakeMismatch");
       });
 
-      it("Should track player2 commitment state", async function () {
-        let match = await rockPaperArena.getMatch(1);
-        expect(match.player2Committed).to.equal(false);
+      it("Should escrow both stakes when player2 joins", async function () {
+        await rockPaperArena.connect(player2).acceptChallenge(1, { value: stake });
+        expect(await ethers.provider.getBalance(await rockPaperArena.getAddress())).to.equal(stake * 2n);
       });
 
-      it("Should revert if unauthorized player tries to submit move", async function () {
-        const instance = instances.player3;
-        const input = instance.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player3.address
+      it("Should credit the stake back when player1 cancels", async function () {
+        await expect(rockPaperArena.connect(player1).cancelMatch(1))
+          .to.emit(rockPaperArena, "RewardsCredited")
+          .withArgs(1n, player1.address, ethers.ZeroAddress, stake);
+
+        expect(await rockPaperArena.pendingRewards(player1.address)).to.equal(stake);
+      });
+
+      it("Should refund both stakes when a match is voided", async function () {
+        await rockPaperArena.connect(player2).acceptChallenge(1, { value: stake });
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+        await rockPaperArena.connect(player1).claimTimeout(1);
+
+        expect(await rockPaperArena.pendingRewards(player1.address)).to.equal(stake);
+        expect(await rockPaperArena.pendingRewards(player2.address)).to.equal(stake);
+      });
+
+      it("Should let players withdraw credited stakes", async function () {
+        await rockPaperArena.connect(player1).cancelMatch(1);
+
+        const claim = rockPaperArena.connect(player1).claimRewards();
+        await expect(claim)
+          .to.emit(rockPaperArena, "RewardsClaimed")
+          .withArgs(player1.address, ethers.ZeroAddress, stake);
+        await expect(claim).to.changeEtherBalances([player1, rockPaperArena], [stake, -stake]);
+
+        expect(await rockPaperArena.pendingRewards(player1.address)).to.equal(0n);
+      });
+    });
+
+    describe("2.5 Token stakes", function () {
+      const stake = ethers.parseEther("10");
+      let token: MockWagerToken;
+      let arenaAddress: string;
+
+      /**
+       * Sign an EIP-2612 permit letting the arena pull `value` tokens
+       */
+      async function signPermit(signer: HardhatEthersSigner, value: bigint, deadline: bigint) {
+        const { name, version, chainId, verifyingContract } = await token.eip712Domain();
+        const signature = await signer.signTypedData(
+          { name, version, chainId, verifyingContract },
+          {
+            Permit: [
+              { name: "owner", type: "address" },
+              { name: "spender", type: "address" },
+              { name: "value", type: "uint256" },
+              { name: "nonce", type: "uint256" },
+              { name: "deadline", type: "uint256" },
+            ],
+          },
+          {
+            owner: signer.address,
+            spender: arenaAddress,
+            value,
+            nonce: await token.nonces(signer.address),
+            deadline,
+          }
         );
-        input.add8(Gesture.Rock);
-        const encryptedMove = await input.encrypt();
+        return ethers.Signature.from(signature);
+      }
 
+      beforeEach(async function () {
+        token = await new MockWagerToken__factory(owner).deploy();
+        await token.waitForDeployment();
+        arenaAddress = await rockPaperArena.getAddress();
+
+        await token.mint(player1.address, stake);
+        await token.mint(player2.address, stake);
+        await token.connect(player1).approve(arenaAddress, stake);
+        await rockPaperArena.connect(player1).createTokenChallenge(await token.getAddress(), stake);
+      });
+
+      it("Should escrow the creator's token stake", async function () {
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.stake).to.equal(stake);
+        expect(match.stakeToken).to.equal(await token.getAddress());
+        expect(await token.balanceOf(arenaAddress)).to.equal(stake);
+      });
+
+      it("Should revert for a zero stake or token", async function () {
         await expect(
-          rockPaperArena
-            .connect(player3)
-            .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof)
-        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+          rockPaperArena.connect(player3).createTokenChallenge(await token.getAddress(), 0)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidStake");
+
+        await expect(
+          rockPaperArena.connect(player3).createTokenChallenge(ethers.ZeroAddress, stake)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidStake");
+      });
+
+      it("Should pull the joiner's stake after approval", async function () {
+        await token.connect(player2).approve(arenaAddress, stake);
+        await rockPaperArena.connect(player2).acceptChallenge(1);
+
+        expect(await token.balanceOf(arenaAddress)).to.equal(stake * 2n);
+        expect(await token.balanceOf(player2.address)).to.equal(0n);
+      });
+
+      it("Should reject ETH sent to a token match", async function () {
+        await token.connect(player2).approve(arenaAddress, stake);
+
+        await expect(
+          rockPaperArena.connect(player2).acceptChallenge(1, { value: 1n })
+        ).to.be.revertedWithCustomError(rockPaperArena, "StakeMismatch");
+      });
+
+      it("Should join in one transaction with a permit", async function () {
+        const deadline = BigInt(await time.latest()) + 3600n;
+        const { v, r, s } = await signPermit(player2, stake, deadline);
+
+        await expect(rockPaperArena.connect(player2).acceptChallengeWithPermit(1, deadline, v, r, s))
+          .to.emit(rockPaperArena, "MatchJoined")
+          .withArgs(1n, player2.address);
+
+        expect(await token.balanceOf(arenaAddress)).to.equal(stake * 2n);
+      });
+
+      it("Should still join if the permit was already used", async function () {
+        const deadline = BigInt(await time.latest()) + 3600n;
+        const { v, r, s } = await signPermit(player2, stake, deadline);
+
+        // Front-run: someone submits the permit directly
+        await token.permit(player2.address, arenaAddress, stake, deadline, v, r, s);
+
+        await rockPaperArena.connect(player2).acceptChallengeWithPermit(1, deadline, v, r, s);
+        expect((await rockPaperArena.getMatch(1)).player2).to.equal(player2.address);
+      });
+
+      it("Should revert permit joins for ETH matches", async function () {
+        await rockPaperArena.connect(player3).createChallenge();
+        const deadline = BigInt(await time.latest()) + 3600n;
+        const { v, r, s } = await signPermit(player2, stake, deadline);
+
+        await expect(
+          rockPaperArena.connect(player2).acceptChallengeWithPermit(2, deadline, v, r, s)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidStake");
+      });
+
+      it("Should credit and withdraw token refunds", async function () {
+        const tokenAddress = await token.getAddress();
+        await rockPaperArena.connect(player1).cancelMatch(1);
+
+        expect(await rockPaperArena.pendingTokenRewards(player1.address, tokenAddress)).to.equal(stake);
+        expect(await rockPaperArena.pendingRewards(player1.address)).to.equal(0n);
+
+        await expect(rockPaperArena.connect(player1).claimTokenRewards(tokenAddress))
+          .to.emit(rockPaperArena, "RewardsClaimed")
+          .withArgs(player1.address, tokenAddress, stake);
+
+        expect(await token.balanceOf(player1.address)).to.equal(stake);
+        expect(await rockPaperArena.pendingTokenRewards(player1.address, tokenAddress)).to.equal(0n);
       });
     });
 
-    describe("3.2 submitMove() - FHE Integration Tests", function () {
-      it("Should allow player1 to submit encrypted move", async function () {
-        const instance = instances.player1;
-        const input = instance.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player1.address
-        );
-        input.add8(Gesture.Rock);
-        const encryptedMove = await input.encrypt();
+    describe("2.6 Confidential stakes", function () {
+      let token: MockConfidentialToken;
+      let tokenAddress: string;
+      let arenaAddress: string;
+
+      /**
+       * Encrypt a uint64 stake amount for the arena
+       */
+      async function encryptStake(instance: any, signer: HardhatEthersSigner, amount: number) {
+        const input = instance.createEncryptedInput(arenaAddress, signer.address);
+        input.add64(amount);
+        return input.encrypt();
+      }
+
+      /**
+       * User-decrypt an encrypted amount owned by the arena
+       */
+      async function decryptAmount(handle: string, signer: HardhatEthersSigner) {
+        return fhevm.userDecryptEuint(FhevmType.euint64, handle, arenaAddress, signer);
+      }
 
-        const tx = await rockPaperArena
+      beforeEach(async function () {
+        token = await new MockConfidentialToken__factory(owner).deploy();
+        await token.waitForDeployment();
+        tokenAddress = await token.getAddress();
+        arenaAddress = await rockPaperArena.getAddress();
+
+        // Let the arena move both players' confidential balances
+        const until = BigInt(await time.latest()) + 86400n;
+        for (const player of [player1, player2]) {
+          await token.mint(player.address, 1000);
+          await token.connect(player).setOperator(arenaAddress, until);
+        }
+      });
+
+      it("Should revert for a zero token address", async function () {
+        await expect(
+          rockPaperArena.connect(player1).createConfidentialChallenge(ethers.ZeroAddress, ethers.ZeroHash, "0x")
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidStake");
+      });
+
+      it("Should revert confidential joins of public matches", async function () {
+        await rockPaperArena.connect(player1).createChallenge();
+
+        await expect(
+          rockPaperArena.connect(player2).acceptConfidentialChallenge(1, ethers.ZeroHash, "0x")
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidStake");
+      });
+
+      it("Should revert claims without confidential rewards", async function () {
+        await expect(
+          rockPaperArena.connect(player1).claimConfidentialRewards(tokenAddress)
+        ).to.be.revertedWithCustomError(rockPaperArena, "NoRewards");
+      });
+
+      it("Should reject plain joins of confidential matches", async function () {
+        const stake = await encryptStake(instances.player1, player1, 100);
+        await rockPaperArena
           .connect(player1)
-          .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+          .createConfidentialChallenge(tokenAddress, stake.handles[0], stake.inputProof);
 
-        await expect(tx)
-          .to.emit(rockPaperArena, "MoveCommitted")
-          .withArgs(1n, player1.address);
+        await expect(
+          rockPaperArena.connect(player2).acceptChallenge(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidStake");
+      });
+
+      it("Should let player1 decrypt both escrowed stakes and player2 only their own", async function () {
+        const stake = await encryptStake(instances.player1, player1, 100);
+        await rockPaperArena
+          .connect(player1)
+          .createConfidentialChallenge(tokenAddress, stake.handles[0], stake.inputProof);
+
+        const cap = await encryptStake(instances.player2, player2, 150);
+        await rockPaperArena
+          .connect(player2)
+          .acceptConfidentialChallenge(1, cap.handles[0], cap.inputProof);
 
         const match = await rockPaperArena.getMatch(1);
-        expect(match.player1Committed).to.equal(true);
+        expect(match.confidentialToken).to.equal(tokenAddress);
+        expect(await decryptAmount(match.encryptedStake1, player1)).to.equal(100n);
+        expect(await decryptAmount(match.encryptedStake2, player1)).to.equal(100n);
+        expect(await decryptAmount(match.encryptedStake2, player2)).to.equal(100n);
+        await expect(decryptAmount(match.encryptedStake1, player2)).to.be.rejected;
+        await expect(decryptAmount(match.encryptedStake1, player3)).to.be.rejected;
       });
 
-      it("Should allow player2 to submit encrypted move", async function () {
-        const instance = instances.player2;
-        const input = instance.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player2.address
-        );
-        input.add8(Gesture.Paper);
-        const encryptedMove = await input.encrypt();
+      it("Should keep player1's stake from a joiner until they cannot leave", async function () {
+        const stake = await encryptStake(instances.player1, player1, 137);
+        await rockPaperArena
+          .connect(player1)
+          .createConfidentialChallenge(tokenAddress, stake.handles[0], stake.inputProof);
 
-        const tx = await rockPaperArena
+        // A prospective joiner cannot decrypt the stake they are asked to match
+        const listed = await rockPaperArena.getMatch(1);
+        await expect(decryptAmount(listed.encryptedStake1, player2)).to.be.rejected;
+
+        const cap = await encryptStake(instances.player2, player2, 1000);
+        await rockPaperArena
           .connect(player2)
-          .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+          .acceptConfidentialChallenge(1, cap.handles[0], cap.inputProof);
 
-        await expect(tx)
-          .to.emit(rockPaperArena, "MoveCommitted")
-          .withArgs(1n, player2.address);
+        // Joining bound them to the match: their stake equals player1's, so they cannot leave with it
+        await expect(
+          rockPaperArena.connect(player2).leaveMatch(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
 
         const match = await rockPaperArena.getMatch(1);
-        expect(match.player2Committed).to.equal(true);
+        expect(match.player2).to.equal(player2.address);
+        expect(await decryptAmount(match.encryptedStake2, player2)).to.equal(137n);
+        expect(await rockPaperArena.getPendingMatches()).to.deep.equal([]);
       });
 
-      it("Should change state to BothCommitted when both players submit", async function () {
-        // Player1 submits
-        const instance1 = instances.player1;
-        const input1 = instance1.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player1.address
-        );
+      it("Should credit the encrypted pot to the winner at reveal", async function () {
+        const stake = await encryptStake(instances.player1, player1, 100);
+        await rockPaperArena
+          .connect(player1)
+          .createConfidentialChallenge(tokenAddress, stake.handles[0], stake.inputProof);
+
+        const cap = await encryptStake(instances.player2, player2, 100);
+        await rockPaperArena
+          .connect(player2)
+          .acceptConfidentialChallenge(1, cap.handles[0], cap.inputProof);
+
+        // Player1: Rock, Player2: Scissors
+        const input1 = instances.player1.createEncryptedInput(arenaAddress, player1.address);
         input1.add8(Gesture.Rock);
         const encryptedMove1 = await input1.encrypt();
-
         await rockPaperArena
           .connect(player1)
           .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
 
-        // Player2 submits
-        const instance2 = instances.player2;
-        const input2 = instance2.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player2.address
-        );
+        const input2 = instances.player2.createEncryptedInput(arenaAddress, player2.address);
         input2.add8(Gesture.Scissors);
         const encryptedMove2 = await input2.encrypt();
-
         await rockPaperArena
           .connect(player2)
           .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
 
-        const match = await rockPaperArena.getMatch(1);
-        expect(match.state).to.equal(MatchState.BothCommitted);
-      });
+        await expect(rockPaperArena.connect(player1).requestReveal(1))
+          .to.emit(rockPaperArena, "ConfidentialRewardsCredited")
+          .withArgs(1n, player1.address, tokenAddress);
 
-      it("Should revert if player tries to submit move twice", async function () {
-        const instance = instances.player1;
-        const input = instance.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player1.address
-        );
-        input.add8(Gesture.Rock);
-        const encryptedMove = await input.encrypt();
+        const reward1 = await rockPaperArena.confidentialRewards(player1.address, tokenAddress);
+        const reward2 = await rockPaperArena.confidentialRewards(player2.address, tokenAddress);
+        expect(await decryptAmount(reward1, player1)).to.equal(200n);
+        expect(await decryptAmount(reward2, player2)).to.equal(0n);
+
+        await expect(rockPaperArena.connect(player1).claimConfidentialRewards(tokenAddress))
+          .to.emit(rockPaperArena, "ConfidentialRewardsClaimed")
+          .withArgs(player1.address, tokenAddress);
+
+        const balance1 = await token.confidentialBalanceOf(player1.address);
+        expect(
+          await fhevm.userDecryptEuint(FhevmType.euint64, balance1, tokenAddress, player1)
+        ).to.equal(1100n);
+      });
 
+      it("Should return both stakes when player2's cap is too low", async function () {
+        const stake = await encryptStake(instances.player1, player1, 300);
         await rockPaperArena
           .connect(player1)
-          .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+          .createConfidentialChallenge(tokenAddress, stake.handles[0], stake.inputProof);
 
-        // Try to submit again
-        const input2 = instance.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player1.address
-        );
+        const cap = await encryptStake(instances.player2, player2, 50);
+        await rockPaperArena
+          .connect(player2)
+          .acceptConfidentialChallenge(1, cap.handles[0], cap.inputProof);
+
+        // Player2 committed alone and wins by forfeit, but nothing was at stake
+        const input2 = instances.player2.createEncryptedInput(arenaAddress, player2.address);
         input2.add8(Gesture.Paper);
         const encryptedMove2 = await input2.encrypt();
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
 
-        await expect(
-          rockPaperArena
-            .connect(player1)
-            .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof)
-        ).to.be.revertedWithCustomError(rockPaperArena, "MoveAlreadyCommitted");
-      });
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+        await rockPaperArena.connect(player2).claimTimeout(1);
 
-      it("Should accept all valid gestures (Rock, Paper, Scissors)", async function () {
-        const moves = [Gesture.Rock, Gesture.Paper, Gesture.Scissors];
+        const reward1 = await rockPaperArena.confidentialRewards(player1.address, tokenAddress);
+        const reward2 = await rockPaperArena.confidentialRewards(player2.address, tokenAddress);
+        expect(await decryptAmount(reward1, player1)).to.equal(300n);
+        expect(await decryptAmount(reward2, player2)).to.equal(0n);
+      });
 
-        for (let i = 0; i < moves.length; i++) {
-          // Create new match for each test
-          await rockPaperArena.connect(player1).createChallenge();
-          await rockPaperArena.connect(player2).acceptChallenge(i + 2);
+      it("Should refund the encrypted stake when player1 cancels", async function () {
+        const stake = await encryptStake(instances.player1, player1, 40);
+        await rockPaperArena
+          .connect(player1)
+          .createConfidentialChallenge(tokenAddress, stake.handles[0], stake.inputProof);
 
-          const instance = instances.player1;
-          const input = instance.createEncryptedInput(
-            await rockPaperArena.getAddress(),
-            player1.address
-          );
-          input.add8(moves[i]);
-          const encryptedMove = await input.encrypt();
+        await rockPaperArena.connect(player1).cancelMatch(1);
 
-          await expect(
-            rockPaperArena
-              .connect(player1)
-              .submitMove(i + 2, encryptedMove.handles[0], encryptedMove.inputProof)
-          ).to.not.be.reverted;
-        }
+        const reward1 = await rockPaperArena.confidentialRewards(player1.address, tokenAddress);
+        expect(await decryptAmount(reward1, player1)).to.equal(40n);
       });
     });
 
-    describe("3.3 lockMove()", function () {
-      it("Should return false before both moves submitted", async function () {
-        const locked = await rockPaperArena.lockMove(1);
-        expect(locked).to.equal(false);
-      });
+    describe("2.7 Series", function () {
+      /**
+       * Commit both moves, reveal and finalize one round of match 1
+       */
+      async function playRound(move1: Gesture, move2: Gesture) {
+        const contractAddress = await rockPaperArena.getAddress();
 
-      it("Should return true after both moves submitted", async function () {
-        // Player1 submits
-        const instance1 = instances.player1;
-        const input1 = instance1.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player1.address
-        );
-        input1.add8(Gesture.Rock);
+        const input1 = instances.player1.createEncryptedInput(contractAddress, player1.address);
+        input1.add8(move1);
         const encryptedMove1 = await input1.encrypt();
-
         await rockPaperArena
           .connect(player1)
           .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
 
-        // Player2 submits
-        const instance2 = instances.player2;
-        const input2 = instance2.createEncryptedInput(
-          await rockPaperArena.getAddress(),
-          player2.address
-        );
-        input2.add8(Gesture.Paper);
+        const input2 = instances.player2.createEncryptedInput(contractAddress, player2.address);
+        input2.add8(move2);
         const encryptedMove2 = await input2.encrypt();
-
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        await rockPaperArena.connect(player1).requestReveal(1);
+        return finalizeReveal(1);
+      }
+
+      it("Should create a best-of-3 series", async function () {
+        await rockPaperArena.connect(player1).createSeriesChallenge(3);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.bestOf).to.equal(3);
+        expect(match.roundsPlayed).to.equal(0);
+      });
+
+      it("Should default single matches to one round", async function () {
+        await rockPaperArena.connect(player1).createChallenge();
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.bestOf).to.equal(1);
+      });
+
+      it("Should revert for unsupported series lengths", async function () {
+        for (const bestOf of [0, 1, 4, 9]) {
+          await expect(
+            rockPaperArena.connect(player1).createSeriesChallenge(bestOf)
+          ).to.be.revertedWithCustomError(rockPaperArena, "InvalidSeriesLength");
+        }
+      });
+
+      it("Should start the next round until a player wins the majority", async function () {
+        await rockPaperArena.connect(player1).createSeriesChallenge(3);
+        await rockPaperArena.connect(player2).acceptChallenge(1);
+
+        // Round 1: Rock beats Scissors
+        await expect(playRound(Gesture.Rock, Gesture.Scissors))
+          .to.emit(rockPaperArena, "RoundCompleted")
+          .withArgs(1n, 1, 1, 1, 0);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Waiting);
+        expect(match.roundsPlayed).to.equal(1);
+        expect(match.score1).to.equal(1);
+        expect(match.score2).to.equal(0);
+        expect(match.player1Committed).to.be.false;
+        expect(match.player2Committed).to.be.false;
+        expect(match.winner).to.equal(ethers.ZeroAddress);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([1n]);
+
+        const round = await rockPaperArena.getRound(1, 1);
+        expect(round.outcome).to.equal(1);
+      });
+
+      it("Should not count drawn rounds towards either score", async function () {
+        await rockPaperArena.connect(player1).createSeriesChallenge(3);
+        await rockPaperArena.connect(player2).acceptChallenge(1);
+
+        await playRound(Gesture.Paper, Gesture.Paper);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Waiting);
+        expect(match.roundsPlayed).to.equal(1);
+        expect(match.score1).to.equal(0);
+        expect(match.score2).to.equal(0);
+      });
+
+      it("Should settle the series once a player wins the majority", async function () {
+        const stake = ethers.parseEther("1");
+        await rockPaperArena.connect(player1).createSeriesChallenge(3, { value: stake });
+        await rockPaperArena.connect(player2).acceptChallenge(1, { value: stake });
+
+        await playRound(Gesture.Scissors, Gesture.Rock);
+        await playRound(Gesture.Rock, Gesture.Paper);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Revealed);
+        expect(match.winner).to.equal(player2.address);
+        expect(match.roundsPlayed).to.equal(2);
+        expect(match.score2).to.equal(2);
+
+        // The series counts as a single match and pays the pot once
+        const stats2 = await rockPaperArena.getPlayerStats(player2.address);
+        expect(stats2.wins).to.equal(1n);
+        expect(stats2.totalMatches).to.equal(1n);
+        expect(await rockPaperArena.pendingRewards(player2.address)).to.equal(stake * 2n);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([]);
+      });
+    });
+
+    describe("2.8 Invites", function () {
+      beforeEach(async function () {
+        await rockPaperArena.connect(player1).createChallengeFor(player2.address);
+      });
+
+      it("Should emit MatchInvited for the opponent", async function () {
+        await expect(rockPaperArena.connect(player3).createChallengeFor(player1.address))
+          .to.emit(rockPaperArena, "MatchInvited")
+          .withArgs(2n, player3.address, player1.address);
+      });
+
+      it("Should keep invites out of the public pending list", async function () {
+        expect(await rockPaperArena.getPendingMatches()).to.deep.equal([]);
+        expect(await rockPaperArena.getInvites(player2.address)).to.deep.equal([1n]);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.invitedOpponent).to.equal(player2.address);
+      });
+
+      it("Should revert for a zero or self opponent", async function () {
+        await expect(
+          rockPaperArena.connect(player3).createChallengeFor(ethers.ZeroAddress)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidOpponent");
+
+        await expect(
+          rockPaperArena.connect(player3).createChallengeFor(player3.address)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidOpponent");
+      });
+
+      it("Should reject players who were not invited", async function () {
+        await expect(
+          rockPaperArena.connect(player3).acceptChallenge(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "NotInvited");
+      });
+
+      it("Should let the invited opponent join", async function () {
+        await expect(rockPaperArena.connect(player2).acceptChallenge(1))
+          .to.emit(rockPaperArena, "MatchJoined")
+          .withArgs(1n, player2.address);
+
+        expect(await rockPaperArena.getInvites(player2.address)).to.deep.equal([]);
+      });
+
+      it("Should withdraw the invite when player1 cancels", async function () {
+        await rockPaperArena.connect(player1).cancelMatch(1);
+
+        expect(await rockPaperArena.getInvites(player2.address)).to.deep.equal([]);
+      });
+    });
+
+    describe("2.9 Invite codes", function () {
+      let code: HDNodeWallet;
+
+      /**
+       * Sign the join digest for `joiner` with the secret invite code
+       */
+      async function signCode(wallet: HDNodeWallet, matchId: number, joiner: HardhatEthersSigner) {
+        const digest = await rockPaperArena.getInviteCodeDigest(matchId, joiner.address);
+        return wallet.signMessage(ethers.getBytes(digest));
+      }
+
+      beforeEach(async function () {
+        code = ethers.Wallet.createRandom();
+        await rockPaperArena.connect(player1).createChallengeWithCode(code.address);
+      });
+
+      it("Should keep code matches out of the public pending list", async function () {
+        expect(await rockPaperArena.getPendingMatches()).to.deep.equal([]);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.inviteCodeSigner).to.equal(code.address);
+      });
+
+      it("Should revert for a zero code signer", async function () {
+        await expect(
+          rockPaperArena.connect(player3).createChallengeWithCode(ethers.ZeroAddress)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidInviteCode");
+      });
+
+      it("Should let anyone holding the code join", async function () {
+        const signature = await signCode(code, 1, player3);
+
+        await expect(rockPaperArena.connect(player3).acceptChallengeWithCode(1, signature))
+          .to.emit(rockPaperArena, "MatchJoined")
+          .withArgs(1n, player3.address);
+      });
+
+      it("Should reject joins without the code", async function () {
+        await expect(
+          rockPaperArena.connect(player2).acceptChallenge(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidInviteCode");
+
+        const wrongCode = ethers.Wallet.createRandom();
+        const signature = await signCode(wrongCode, 1, player2);
+        await expect(
+          rockPaperArena.connect(player2).acceptChallengeWithCode(1, signature)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidInviteCode");
+      });
+
+      it("Should reject a code signature replayed by another player", async function () {
+        const signature = await signCode(code, 1, player2);
+
+        await expect(
+          rockPaperArena.connect(player3).acceptChallengeWithCode(1, signature)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidInviteCode");
+      });
+
+      it("Should reject code joins of open matches", async function () {
+        await rockPaperArena.connect(player2).createChallenge();
+        const signature = await signCode(code, 2, player3);
+
+        await expect(
+          rockPaperArena.connect(player3).acceptChallengeWithCode(2, signature)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidInviteCode");
+      });
+    });
+
+    describe("2.10 One-step create and join", function () {
+      /**
+       * Encrypt a gesture for `player` against the arena
+       */
+      async function encryptGesture(instance: any, player: HardhatEthersSigner, gesture: number) {
+        const input = instance.createEncryptedInput(await rockPaperArena.getAddress(), player.address);
+        input.add8(gesture);
+        return input.encrypt();
+      }
+
+      it("Should create a match with player1's move committed", async function () {
+        const encryptedMove = await encryptGesture(instances.player1, player1, Gesture.Rock);
+
+        await expect(
+          rockPaperArena.connect(player1).createChallengeWithMove(encryptedMove.handles[0], encryptedMove.inputProof)
+        )
+          .to.emit(rockPaperArena, "MatchCreated")
+          .and.to.emit(rockPaperArena, "MoveCommitted")
+          .withArgs(1n, player1.address);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(1); // Waiting
+        expect(match.player1Committed).to.be.true;
+        expect(await rockPaperArena.getPendingMatches()).to.deep.equal([1n]);
+      });
+
+      it("Should escrow the stake sent with the move", async function () {
+        const stake = ethers.parseEther("1");
+        const encryptedMove = await encryptGesture(instances.player1, player1, Gesture.Rock);
+
+        await rockPaperArena
+          .connect(player1)
+          .createChallengeWithMove(encryptedMove.handles[0], encryptedMove.inputProof, { value: stake });
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.stake).to.equal(stake);
+      });
+
+      it("Should join and commit both moves in two transactions", async function () {
+        const encryptedMove1 = await encryptGesture(instances.player1, player1, Gesture.Paper);
+        await rockPaperArena
+          .connect(player1)
+          .createChallengeWithMove(encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        const encryptedMove2 = await encryptGesture(instances.player2, player2, Gesture.Rock);
+        await expect(
+          rockPaperArena
+            .connect(player2)
+            .acceptChallengeWithMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof)
+        )
+          .to.emit(rockPaperArena, "MatchJoined")
+          .and.to.emit(rockPaperArena, "MoveCommitted")
+          .withArgs(1n, player2.address);
+
+        let match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(2); // BothCommitted
+
+        await rockPaperArena.connect(player1).requestReveal(1);
+        await finalizeReveal(1);
+
+        match = await rockPaperArena.getMatch(1);
+        expect(match.winner).to.equal(player1.address);
+      });
+
+      it("Should let player1 commit later when only the joiner moved", async function () {
+        await rockPaperArena.connect(player1).createChallenge();
+
+        const encryptedMove2 = await encryptGesture(instances.player2, player2, Gesture.Scissors);
+        await rockPaperArena
+          .connect(player2)
+          .acceptChallengeWithMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        let match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(1); // Waiting
+        expect(match.player2Committed).to.be.true;
+
+        const encryptedMove1 = await encryptGesture(instances.player1, player1, Gesture.Rock);
+        await rockPaperArena.connect(player1).submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(2); // BothCommitted
+      });
+
+      it("Should reject one-step joins of code matches", async function () {
+        await rockPaperArena.connect(player1).createChallengeWithCode(ethers.Wallet.createRandom().address);
+        const encryptedMove = await encryptGesture(instances.player2, player2, Gesture.Rock);
+
+        await expect(
+          rockPaperArena
+            .connect(player2)
+            .acceptChallengeWithMove(1, encryptedMove.handles[0], encryptedMove.inputProof)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidInviteCode");
+      });
+    });
+
+    describe("2.11 Abort and leave", function () {
+      const stake = ethers.parseEther("1");
+
+      beforeEach(async function () {
+        await rockPaperArena.connect(player1).createChallenge({ value: stake });
+        await rockPaperArena.connect(player2).acceptChallenge(1, { value: stake });
+      });
+
+      it("Should record an abort request", async function () {
+        await expect(rockPaperArena.connect(player2).requestAbort(1))
+          .to.emit(rockPaperArena, "AbortRequested")
+          .withArgs(1n, player2.address);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.abortRequestedBy).to.equal(player2.address);
+        expect(match.state).to.equal(MatchState.Waiting);
+      });
+
+      it("Should reject abort requests from non-players or before a join", async function () {
+        await expect(
+          rockPaperArena.connect(player3).requestAbort(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+
+        await rockPaperArena.connect(player3).createChallenge();
+        await expect(
+          rockPaperArena.connect(player3).requestAbort(2)
+        ).to.be.revertedWithCustomError(rockPaperArena, "MatchNotWaiting");
+      });
+
+      it("Should only let the opponent confirm an abort", async function () {
+        await expect(
+          rockPaperArena.connect(player1).confirmAbort(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "NoAbortRequest");
+
+        await rockPaperArena.connect(player1).requestAbort(1);
+
+        await expect(
+          rockPaperArena.connect(player1).confirmAbort(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "NoAbortRequest");
+      });
+
+      it("Should cancel and refund both stakes on a confirmed abort", async function () {
+        await rockPaperArena.connect(player1).requestAbort(1);
+
+        await expect(rockPaperArena.connect(player2).confirmAbort(1))
+          .to.emit(rockPaperArena, "MatchCancelled")
+          .withArgs(1n);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Cancelled);
+        expect(await rockPaperArena.pendingRewards(player1.address)).to.equal(stake);
+        expect(await rockPaperArena.pendingRewards(player2.address)).to.equal(stake);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([]);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([]);
+
+        const stats2 = await rockPaperArena.getPlayerStats(player2.address);
+        expect(stats2.abandoned).to.equal(0n);
+      });
+
+      it("Should not accept moves once a match is aborted", async function () {
+        await rockPaperArena.connect(player1).requestAbort(1);
+        await rockPaperArena.connect(player2).confirmAbort(1);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.commitDeadline).to.equal(0n);
+
+        // Playing on would settle the match and pay the already refunded stakes a second time
+        const input = instances.player1.createEncryptedInput(await rockPaperArena.getAddress(), player1.address);
+        input.add8(Gesture.Rock);
+        const encryptedMove = await input.encrypt();
+        await expect(
+          rockPaperArena.connect(player1).submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof)
+        ).to.be.revertedWithCustomError(rockPaperArena, "MatchNotWaiting");
+      });
+
+      it("Should let player2 leave and return the match to the pending list", async function () {
+        await expect(rockPaperArena.connect(player2).leaveMatch(1))
+          .to.emit(rockPaperArena, "MatchLeft")
+          .withArgs(1n, player2.address);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Waiting);
+        expect(match.player2).to.equal(ethers.ZeroAddress);
+        expect(match.commitDeadline).to.equal(0n);
+        expect(await rockPaperArena.getPendingMatches()).to.deep.equal([1n]);
+        expect(await rockPaperArena.pendingRewards(player2.address)).to.equal(stake);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([]);
+
+        const stats2 = await rockPaperArena.getPlayerStats(player2.address);
+        expect(stats2.abandoned).to.equal(1n);
+
+        await expect(rockPaperArena.connect(player3).acceptChallenge(1, { value: stake }))
+          .to.emit(rockPaperArena, "MatchJoined")
+          .withArgs(1n, player3.address);
+      });
+
+      it("Should only let player2 leave", async function () {
+        await expect(
+          rockPaperArena.connect(player1).leaveMatch(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+      });
+
+      it("Should not let player2 leave once a move is committed", async function () {
+        const input = instances.player1.createEncryptedInput(await rockPaperArena.getAddress(), player1.address);
+        input.add8(Gesture.Rock);
+        const encryptedMove = await input.encrypt();
+        await rockPaperArena.connect(player1).submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+
+        await expect(
+          rockPaperArena.connect(player2).leaveMatch(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "MoveAlreadyCommitted");
+      });
+
+      it("Should return a left invite to the opponent's invites", async function () {
+        await rockPaperArena.connect(player3).createChallengeFor(owner.address);
+        await rockPaperArena.connect(owner).acceptChallenge(2);
+        expect(await rockPaperArena.getInvites(owner.address)).to.deep.equal([]);
+
+        await rockPaperArena.connect(owner).leaveMatch(2);
+
+        expect(await rockPaperArena.getInvites(owner.address)).to.deep.equal([2n]);
+        expect(await rockPaperArena.getPendingMatches()).to.deep.equal([]);
+      });
+    });
+
+    describe("2.12 Managed matches", function () {
+      beforeEach(async function () {
+        // An EOA stands in for the tournament contract
+        await rockPaperArena.connect(owner).setMatchManager(player3.address);
+      });
+
+      it("Should only let the deployer register the manager, once", async function () {
+        expect(await rockPaperArena.matchManager()).to.equal(player3.address);
+
+        await expect(
+          rockPaperArena.connect(owner).setMatchManager(player1.address)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedManager");
+      });
+
+      it("Should open a joined, unlisted match between two players", async function () {
+        await expect(rockPaperArena.connect(player3).createManagedMatch(player1.address, player2.address, 1))
+          .to.emit(rockPaperArena, "MatchJoined")
+          .withArgs(1n, player2.address);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.player1).to.equal(player1.address);
+        expect(match.player2).to.equal(player2.address);
+        expect(match.manager).to.equal(player3.address);
+        expect(match.state).to.equal(MatchState.Waiting);
+        expect(match.commitDeadline).to.be.greaterThan(0n);
+        expect(await rockPaperArena.getPendingMatches()).to.deep.equal([]);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([1n]);
+      });
+
+      it("Should reject managed matches from other callers or with invalid players", async function () {
+        await expect(
+          rockPaperArena.connect(player1).createManagedMatch(player1.address, player2.address, 1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedManager");
+
+        await expect(
+          rockPaperArena.connect(player3).createManagedMatch(player1.address, player1.address, 1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidOpponent");
+
+        await expect(
+          rockPaperArena.connect(player3).createManagedMatch(player1.address, player2.address, 2)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidSeriesLength");
+
+        const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+        for (let i = 0n; i < maxActive; i++) {
+          await rockPaperArena.connect(player1).createChallenge();
+        }
+        await expect(
+          rockPaperArena.connect(player3).createManagedMatch(player1.address, player2.address, 1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "TooManyActiveMatches");
+      });
+
+      it("Should not let player2 leave a managed match", async function () {
+        await rockPaperArena.connect(player3).createManagedMatch(player1.address, player2.address, 1);
+
+        await expect(
+          rockPaperArena.connect(player2).leaveMatch(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+      });
+    });
+
+    describe("2.13 Rule set variants", function () {
+      /**
+       * Create and join an RPSLS match, play one round and return the finalized match
+       */
+      async function playLizardSpock(move1: number, move2: number) {
+        const contractAddress = await rockPaperArena.getAddress();
+        const matchId = await rockPaperArena.matchCounter();
+
+        await rockPaperArena.connect(player1).createVariantChallenge(RuleSet.LizardSpock, 1);
+        await rockPaperArena.connect(player2).acceptChallenge(matchId);
+
+        const input1 = instances.player1.createEncryptedInput(contractAddress, player1.address);
+        input1.add8(move1);
+        const encryptedMove1 = await input1.encrypt();
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(matchId, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        const input2 = instances.player2.createEncryptedInput(contractAddress, player2.address);
+        input2.add8(move2);
+        const encryptedMove2 = await input2.encrypt();
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(matchId, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        await rockPaperArena.connect(player1).requestReveal(matchId);
+        await finalizeReveal(Number(matchId));
+
+        return rockPaperArena.getMatch(matchId);
+      }
+
+      it("Should create a match under the chosen rule set", async function () {
+        await rockPaperArena.connect(player1).createVariantChallenge(RuleSet.LizardSpock, 3);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.ruleSet).to.equal(RuleSet.LizardSpock);
+        expect(match.bestOf).to.equal(3);
+      });
+
+      it("Should default other matches to the classic rule set", async function () {
+        await rockPaperArena.connect(player1).createChallenge();
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.ruleSet).to.equal(RuleSet.Classic);
+      });
+
+      it("Should revert variant challenges with unsupported series lengths", async function () {
+        await expect(
+          rockPaperArena.connect(player1).createVariantChallenge(RuleSet.LizardSpock, 2)
+        ).to.be.revertedWithCustomError(rockPaperArena, "InvalidSeriesLength");
+      });
+
+      it("Should expose the gestures and beats table of each rule set", async function () {
+        const [classicCount] = await rockPaperArena.getRuleSet(RuleSet.Classic);
+        const [spockCount, spockBeats] = await rockPaperArena.getRuleSet(RuleSet.LizardSpock);
+
+        expect(classicCount).to.equal(3);
+        expect(spockCount).to.equal(5);
+
+        // Every distinct pair has exactly one winner
+        for (let a = 0; a < 5; a++) {
+          for (let b = a + 1; b < 5; b++) {
+            const aBeatsB = (spockBeats >> BigInt(a * 5 + b)) & 1n;
+            const bBeatsA = (spockBeats >> BigInt(b * 5 + a)) & 1n;
+            expect(aBeatsB + bBeatsA).to.equal(1n);
+          }
+        }
+      });
+
+      it("Should resolve every RPSLS pairing homomorphically", async function () {
+        // [winner, loser] pairs of Rock Paper Scissors Lizard Spock
+        const beats = [
+          [Gesture.Rock, Gesture.Scissors],
+          [Gesture.Rock, Gesture.Lizard],
+          [Gesture.Paper, Gesture.Rock],
+          [Gesture.Paper, Gesture.Spock],
+          [Gesture.Scissors, Gesture.Paper],
+          [Gesture.Scissors, Gesture.Lizard],
+          [Gesture.Lizard, Gesture.Paper],
+          [Gesture.Lizard, Gesture.Spock],
+          [Gesture.Spock, Gesture.Rock],
+          [Gesture.Spock, Gesture.Scissors],
+        ];
+
+        for (let move1 = 0; move1 < 5; move1++) {
+          for (let move2 = 0; move2 < 5; move2++) {
+            const match = await playLizardSpock(move1, move2);
+
+            const expected =
+              move1 === move2 ? ethers.ZeroAddress :
+              beats.some(([w, l]) => w === move1 && l === move2) ? player1.address :
+              player2.address;
+            expect(match.winner, `${move1} vs ${move2}`).to.equal(expected);
+          }
+        }
+      });
+
+      it("Should count gestures beyond Spock as a loss", async function () {
+        const match = await playLizardSpock(5, Gesture.Lizard);
+
+        expect(match.winner).to.equal(player2.address);
+      });
+    });
+
+    describe("2.14 Concurrent matches", function () {
+      it("Should let a player hold several matches at once", async function () {
+        await rockPaperArena.connect(player1).createChallenge();
+        await rockPaperArena.connect(player1).createChallenge();
+        await rockPaperArena.connect(player2).createChallenge();
+        await rockPaperArena.connect(player1).acceptChallenge(3);
+
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([1n, 2n, 3n]);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([3n]);
+        expect(await rockPaperArena.getPendingMatches()).to.deep.equal([1n, 2n]);
+      });
+
+      it("Should only release the match that ended", async function () {
+        await rockPaperArena.connect(player1).createChallenge();
+        await rockPaperArena.connect(player1).createChallenge();
+        await rockPaperArena.connect(player1).createChallenge();
+        await rockPaperArena.connect(player2).acceptChallenge(2);
+
+        await rockPaperArena.connect(player1).cancelMatch(1);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([3n, 2n]);
+
+        // Neither player commits in match 2, which is voided
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+        await rockPaperArena.connect(player1).claimTimeout(2);
+
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([3n]);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([]);
+      });
+
+      it("Should free a slot once a match is over", async function () {
+        const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+        for (let i = 0n; i < maxActive; i++) {
+          await rockPaperArena.connect(player1).createChallenge();
+        }
+
+        await rockPaperArena.connect(player1).cancelMatch(1);
+        await expect(rockPaperArena.connect(player1).createChallenge())
+          .to.emit(rockPaperArena, "MatchCreated")
+          .withArgs(maxActive + 1n, player1.address);
+      });
+    });
+  });
+
+  /* ========================================
+   * UNIT TESTS - MODULE 2: ENCRYPTED MOVE BOOK
+   * ======================================== */
+
+  describe("3. Module 2: Encrypted Move Book", function () {
+    beforeEach(async function () {
+      // Setup: Create and join a match
+      await rockPaperArena.connect(player1).createChallenge();
+      await rockPaperArena.connect(player2).acceptChallenge(1);
+    });
+
+    describe("3.1 submitMove() - Structure Tests", function () {
+      it("Should have submitMove function", async function () {
+        expect(rockPaperArena.submitMove).to.be.a("function");
+      });
+
+      it("Should track player1 commitment state", async function () {
+        let match = await rockPaperArena.getMatch(1);
+        expect(match.player1Committed).to.equal(false);
+      });
+
+      it("Should track player2 commitment state", async function () {
+        let match = await rockPaperArena.getMatch(1);
+        expect(match.player2Committed).to.equal(false);
+      });
+
+      it("Should revert if unauthorized player tries to submit move", async function () {
+        const instance = instances.player3;
+        const input = instance.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player3.address
+        );
+        input.add8(Gesture.Rock);
+        const encryptedMove = await input.encrypt();
+
+        await expect(
+          rockPaperArena
+            .connect(player3)
+            .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+      });
+    });
+
+    describe("3.2 submitMove() - FHE Integration Tests", function () {
+      it("Should allow player1 to submit encrypted move", async function () {
+        const instance = instances.player1;
+        const input = instance.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input.add8(Gesture.Rock);
+        const encryptedMove = await input.encrypt();
+
+        const tx = await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+
+        await expect(tx)
+          .to.emit(rockPaperArena, "MoveCommitted")
+          .withArgs(1n, player1.address);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.player1Committed).to.equal(true);
+      });
+
+      it("Should allow player2 to submit encrypted move", async function () {
+        const instance = instances.player2;
+        const input = instance.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player2.address
+        );
+        input.add8(Gesture.Paper);
+        const encryptedMove = await input.encrypt();
+
+        const tx = await rockPaperArena
+          .connect(player2)
+          .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+
+        await expect(tx)
+          .to.emit(rockPaperArena, "MoveCommitted")
+          .withArgs(1n, player2.address);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.player2Committed).to.equal(true);
+      });
+
+      it("Should let only the submitter decrypt their committed move", async function () {
+        const contractAddress = await rockPaperArena.getAddress();
+        const input = instances.player1.createEncryptedInput(contractAddress, player1.address);
+        input.add8(Gesture.Scissors);
+        const encryptedMove = await input.encrypt();
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(
+          await fhevm.userDecryptEuint(FhevmType.euint8, match.move1, contractAddress, player1)
+        ).to.equal(BigInt(Gesture.Scissors));
+        await expect(
+          fhevm.userDecryptEuint(FhevmType.euint8, match.move1, contractAddress, player2)
+        ).to.be.rejected;
+      });
+
+      it("Should change state to BothCommitted when both players submit", async function () {
+        // Player1 submits
+        const instance1 = instances.player1;
+        const input1 = instance1.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input1.add8(Gesture.Rock);
+        const encryptedMove1 = await input1.encrypt();
+
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        // Player2 submits
+        const instance2 = instances.player2;
+        const input2 = instance2.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player2.address
+        );
+        input2.add8(Gesture.Scissors);
+        const encryptedMove2 = await input2.encrypt();
+
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.BothCommitted);
+      });
+
+      it("Should revert if player tries to submit move twice", async function () {
+        const instance = instances.player1;
+        const input = instance.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input.add8(Gesture.Rock);
+        const encryptedMove = await input.encrypt();
+
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+
+        // Try to submit again
+        const input2 = instance.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input2.add8(Gesture.Paper);
+        const encryptedMove2 = await input2.encrypt();
+
+        await expect(
+          rockPaperArena
+            .connect(player1)
+            .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof)
+        ).to.be.revertedWithCustomError(rockPaperArena, "MoveAlreadyCommitted");
+      });
+
+      it("Should accept all valid gestures (Rock, Paper, Scissors)", async function () {
+        const moves = [Gesture.Rock, Gesture.Paper, Gesture.Scissors];
+
+        for (let i = 0; i < moves.length; i++) {
+          // Create new match for each test
+          await rockPaperArena.connect(player1).createChallenge();
+          await rockPaperArena.connect(player2).acceptChallenge(i + 2);
+
+          const instance = instances.player1;
+          const input = instance.createEncryptedInput(
+            await rockPaperArena.getAddress(),
+            player1.address
+          );
+          input.add8(moves[i]);
+          const encryptedMove = await input.encrypt();
+
+          await expect(
+            rockPaperArena
+              .connect(player1)
+              .submitMove(i + 2, encryptedMove.handles[0], encryptedMove.inputProof)
+          ).to.not.be.reverted;
+        }
+      });
+    });
+
+    describe("3.3 lockMove()", function () {
+      it("Should return false before both moves submitted", async function () {
+        const locked = await rockPaperArena.lockMove(1);
+        expect(locked).to.equal(false);
+      });
+
+      it("Should return true after both moves submitted", async function () {
+        // Player1 submits
+        const instance1 = instances.player1;
+        const input1 = instance1.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input1.add8(Gesture.Rock);
+        const encryptedMove1 = await input1.encrypt();
+
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        // Player2 submits
+        const instance2 = instances.player2;
+        const input2 = instance2.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player2.address
+        );
+        input2.add8(Gesture.Paper);
+        const encryptedMove2 = await input2.encrypt();
+
         await rockPaperArena
           .connect(player2)
           .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
@@ -548,6 +1628,163 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
         expect(locked).to.equal(true);
       });
     });
+
+    describe("3.4 claimTimeout()", function () {
+      it("Should set commit deadline when player2 joins", async function () {
+        const match = await rockPaperArena.getMatch(1);
+        const commitWindow = await rockPaperArena.COMMIT_WINDOW();
+        const joinedAt = BigInt(await time.latest());
+
+        expect(match.commitDeadline).to.equal(joinedAt + commitWindow);
+      });
+
+      it("Should revert before the commit deadline", async function () {
+        await expect(
+          rockPaperArena.connect(player1).claimTimeout(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "DeadlineNotReached");
+      });
+
+      it("Should revert if match has no opponent yet", async function () {
+        await rockPaperArena.connect(player3).createChallenge();
+
+        await expect(
+          rockPaperArena.connect(player3).claimTimeout(2)
+        ).to.be.revertedWithCustomError(rockPaperArena, "MatchNotWaiting");
+      });
+
+      it("Should revert if non-player tries to claim", async function () {
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+
+        await expect(
+          rockPaperArena.connect(player3).claimTimeout(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+      });
+
+      it("Should void the match if neither player committed", async function () {
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+
+        await expect(rockPaperArena.connect(player2).claimTimeout(1))
+          .to.emit(rockPaperArena, "MatchCancelled")
+          .withArgs(1n);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Cancelled);
+        expect(match.winner).to.equal(ethers.ZeroAddress);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([]);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([]);
+        expect((await rockPaperArena.getPlayerStats(player1.address)).abandoned).to.equal(1n);
+        expect((await rockPaperArena.getPlayerStats(player2.address)).abandoned).to.equal(1n);
+      });
+
+      it("Should reject moves submitted after the deadline", async function () {
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+
+        const instance1 = instances.player1;
+        const input1 = instance1.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input1.add8(Gesture.Rock);
+        const encryptedMove1 = await input1.encrypt();
+
+        await expect(
+          rockPaperArena
+            .connect(player1)
+            .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof)
+        ).to.be.revertedWithCustomError(rockPaperArena, "DeadlinePassed");
+      });
+
+      it("Should award the win to the only player who committed", async function () {
+        const instance1 = instances.player1;
+        const input1 = instance1.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input1.add8(Gesture.Rock);
+        const encryptedMove1 = await input1.encrypt();
+
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+
+        await expect(rockPaperArena.connect(player1).claimTimeout(1))
+          .to.emit(rockPaperArena, "MatchForfeited")
+          .withArgs(1n, player1.address);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Revealed);
+        expect(match.winner).to.equal(player1.address);
+
+        const stats1 = await rockPaperArena.getPlayerStats(player1.address);
+        const stats2 = await rockPaperArena.getPlayerStats(player2.address);
+        expect(stats1.wins).to.equal(1n);
+        expect(stats2.losses).to.equal(1n);
+        expect(stats1.abandoned).to.equal(0n);
+        expect(stats2.abandoned).to.equal(1n);
+      });
+    });
+
+    describe("3.5 Gesture validation", function () {
+      /**
+       * Commit raw uint8 moves for both players, reveal and return the decrypted result
+       */
+      async function playRawMoves(move1: number, move2: number) {
+        const contractAddress = await rockPaperArena.getAddress();
+
+        const input1 = instances.player1.createEncryptedInput(contractAddress, player1.address);
+        input1.add8(move1);
+        const encryptedMove1 = await input1.encrypt();
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        const input2 = instances.player2.createEncryptedInput(contractAddress, player2.address);
+        input2.add8(move2);
+        const encryptedMove2 = await input2.encrypt();
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        await rockPaperArena.connect(player1).requestReveal(1);
+        await finalizeReveal(1);
+
+        return rockPaperArena.getMatch(1);
+      }
+
+      it("Should accept out-of-range moves without revealing them", async function () {
+        const contractAddress = await rockPaperArena.getAddress();
+        const input = instances.player1.createEncryptedInput(contractAddress, player1.address);
+        input.add8(255);
+        const encryptedMove = await input.encrypt();
+
+        await expect(
+          rockPaperArena.connect(player1).submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof)
+        ).to.emit(rockPaperArena, "MoveCommitted");
+      });
+
+      it("Should count a move of 3 as a loss for player2", async function () {
+        // 3 would fall through the truth table as a player2 win
+        const match = await playRawMoves(Gesture.Paper, 3);
+
+        expect(match.winner).to.equal(player1.address);
+      });
+
+      it("Should count a move of 255 as a loss for player1", async function () {
+        const match = await playRawMoves(255, Gesture.Rock);
+
+        expect(match.winner).to.equal(player2.address);
+      });
+
+      it("Should draw when both moves are out of range", async function () {
+        const match = await playRawMoves(3, 255);
+
+        expect(match.winner).to.equal(ethers.ZeroAddress);
+        const stats1 = await rockPaperArena.getPlayerStats(player1.address);
+        expect(stats1.draws).to.equal(1n);
+      });
+    });
   });
 
   /* ========================================
@@ -561,14 +1798,75 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
       await rockPaperArena.connect(player2).acceptChallenge(1);
     });
 
-    describe("4.1 requestReveal()", function () {
-      it("Should revert if match not ready (moves not committed)", async function () {
-        await expect(
-          rockPaperArena.connect(player1).requestReveal(1)
-        ).to.be.revertedWithCustomError(rockPaperArena, "MatchNotReady");
+    describe("4.1 requestReveal()", function () {
+      it("Should revert if match not ready (moves not committed)", async function () {
+        await expect(
+          rockPaperArena.connect(player1).requestReveal(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "MatchNotReady");
+      });
+
+      it("Should revert if non-player tries to reveal", async function () {
+        // Submit both moves
+        const instance1 = instances.player1;
+        const input1 = instance1.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input1.add8(Gesture.Rock);
+        const encryptedMove1 = await input1.encrypt();
+
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        const instance2 = instances.player2;
+        const input2 = instance2.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player2.address
+        );
+        input2.add8(Gesture.Paper);
+        const encryptedMove2 = await input2.encrypt();
+
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        // Try to reveal from non-player
+        await expect(
+          rockPaperArena.connect(player3).requestReveal(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+      });
+
+      it("Should allow player1 to request reveal", async function () {
+        // Submit both moves
+        const instance1 = instances.player1;
+        const input1 = instance1.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player1.address
+        );
+        input1.add8(Gesture.Rock);
+        const encryptedMove1 = await input1.encrypt();
+
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        const instance2 = instances.player2;
+        const input2 = instance2.createEncryptedInput(
+          await rockPaperArena.getAddress(),
+          player2.address
+        );
+        input2.add8(Gesture.Paper);
+        const encryptedMove2 = await input2.encrypt();
+
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        await expect(rockPaperArena.connect(player1).requestReveal(1)).to.not.be.reverted;
       });
 
-      it("Should revert if non-player tries to reveal", async function () {
+      it("Should allow player2 to request reveal", async function () {
         // Submit both moves
         const instance1 = instances.player1;
         const input1 = instance1.createEncryptedInput(
@@ -594,13 +1892,10 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
           .connect(player2)
           .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
 
-        // Try to reveal from non-player
-        await expect(
-          rockPaperArena.connect(player3).requestReveal(1)
-        ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+        await expect(rockPaperArena.connect(player2).requestReveal(1)).to.not.be.reverted;
       });
 
-      it("Should allow player1 to request reveal", async function () {
+      it("Should emit MatchDecryptionRequested event", async function () {
         // Submit both moves
         const instance1 = instances.player1;
         const input1 = instance1.createEncryptedInput(
@@ -626,10 +1921,13 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
           .connect(player2)
           .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
 
-        await expect(rockPaperArena.connect(player1).requestReveal(1)).to.not.be.reverted;
+        await expect(rockPaperArena.connect(player1).requestReveal(1)).to.emit(
+          rockPaperArena,
+          "MatchDecryptionRequested"
+        );
       });
 
-      it("Should allow player2 to request reveal", async function () {
+      it("Should change match state to Decrypting", async function () {
         // Submit both moves
         const instance1 = instances.player1;
         const input1 = instance1.createEncryptedInput(
@@ -655,10 +1953,14 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
           .connect(player2)
           .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
 
-        await expect(rockPaperArena.connect(player2).requestReveal(1)).to.not.be.reverted;
+        await rockPaperArena.connect(player1).requestReveal(1);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Decrypting);
+        expect(match.winner).to.equal(ethers.ZeroAddress);
       });
 
-      it("Should emit MatchRevealed event", async function () {
+      it("Should clear active matches for both players", async function () {
         // Submit both moves
         const instance1 = instances.player1;
         const input1 = instance1.createEncryptedInput(
@@ -684,13 +1986,14 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
           .connect(player2)
           .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
 
-        await expect(rockPaperArena.connect(player1).requestReveal(1)).to.emit(
-          rockPaperArena,
-          "MatchRevealed"
-        );
+        await rockPaperArena.connect(player1).requestReveal(1);
+        await finalizeReveal(1);
+
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([]);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([]);
       });
 
-      it("Should change match state to Revealed", async function () {
+      it("Should update player total matches", async function () {
         // Submit both moves
         const instance1 = instances.player1;
         const input1 = instance1.createEncryptedInput(
@@ -717,13 +2020,17 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
           .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
 
         await rockPaperArena.connect(player1).requestReveal(1);
+        await finalizeReveal(1);
 
-        const match = await rockPaperArena.getMatch(1);
-        expect(match.state).to.equal(MatchState.Revealed);
+        const stats1 = await rockPaperArena.getPlayerStats(player1.address);
+        const stats2 = await rockPaperArena.getPlayerStats(player2.address);
+
+        expect(stats1.totalMatches).to.equal(1n);
+        expect(stats2.totalMatches).to.equal(1n);
       });
 
-      it("Should clear active matches for both players", async function () {
-        // Submit both moves
+      it("Should record win, loss and streaks after decryption", async function () {
+        // Player1: Rock, Player2: Paper -> Player2 wins
         const instance1 = instances.player1;
         const input1 = instance1.createEncryptedInput(
           await rockPaperArena.getAddress(),
@@ -750,12 +2057,25 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
 
         await rockPaperArena.connect(player1).requestReveal(1);
 
-        expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(0n);
-        expect(await rockPaperArena.playerActiveMatch(player2.address)).to.equal(0n);
+        await expect(finalizeReveal(1))
+          .to.emit(rockPaperArena, "StatsUpdated")
+          .withArgs(player2.address, 1n, 0n, 0n, 1n, 1n);
+
+        const stats1 = await rockPaperArena.getPlayerStats(player1.address);
+        const stats2 = await rockPaperArena.getPlayerStats(player2.address);
+
+        expect(stats1.wins).to.equal(0n);
+        expect(stats1.losses).to.equal(1n);
+        expect(stats1.currentStreak).to.equal(0n);
+        expect(stats2.wins).to.equal(1n);
+        expect(stats2.losses).to.equal(0n);
+        expect(stats2.currentStreak).to.equal(1n);
+        expect(stats2.bestStreak).to.equal(1n);
       });
+    });
 
-      it("Should update player total matches", async function () {
-        // Submit both moves
+    describe("4.2 finalizeReveal()", function () {
+      async function commitRockVsPaper() {
         const instance1 = instances.player1;
         const input1 = instance1.createEncryptedInput(
           await rockPaperArena.getAddress(),
@@ -779,28 +2099,272 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
         await rockPaperArena
           .connect(player2)
           .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+      }
+
+      it("Should revert if result is not awaiting decryption", async function () {
+        await expect(
+          rockPaperArena.finalizeReveal(1, "0x", "0x")
+        ).to.be.revertedWithCustomError(rockPaperArena, "MatchNotReady");
+      });
 
+      it("Should keep players in the match until the proof arrives", async function () {
+        await commitRockVsPaper();
         await rockPaperArena.connect(player1).requestReveal(1);
 
-        const stats1 = await rockPaperArena.getPlayerStats(player1.address);
-        const stats2 = await rockPaperArena.getPlayerStats(player2.address);
+        expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([1n]);
+        expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([1n]);
+      });
 
-        expect(stats1.totalMatches).to.equal(1n);
-        expect(stats2.totalMatches).to.equal(1n);
+      it("Should record the winner and emit MatchRevealed", async function () {
+        await commitRockVsPaper();
+        await rockPaperArena.connect(player1).requestReveal(1);
+
+        await expect(finalizeReveal(1))
+          .to.emit(rockPaperArena, "MatchRevealed")
+          .withArgs(1n, player2.address, 2);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Revealed);
+        expect(match.winner).to.equal(player2.address);
       });
-    });
 
-    describe("4.2 claimRewards() & updateStreak()", function () {
-      it("Should have claimRewards function (placeholder)", async function () {
-        await expect(rockPaperArena.connect(player1).claimRewards()).to.be.revertedWith(
-          "Not implemented"
+      it("Should reject a cleartext that does not match the proof", async function () {
+        await commitRockVsPaper();
+        await rockPaperArena.connect(player1).requestReveal(1);
+
+        const match = await rockPaperArena.getMatch(1);
+        const decrypted = await fhevm.publicDecrypt([match.result]);
+        const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint8"], [1]);
+
+        await expect(
+          rockPaperArena.finalizeReveal(1, forged, decrypted.decryptionProof)
+        ).to.be.reverted;
+      });
+
+      it("Should not allow finalizing twice", async function () {
+        await commitRockVsPaper();
+        await rockPaperArena.connect(player1).requestReveal(1);
+        await finalizeReveal(1);
+
+        await expect(finalizeReveal(1)).to.be.revertedWithCustomError(
+          rockPaperArena,
+          "MatchNotReady"
         );
       });
+    });
+
+    describe("4.3 claimRewards()", function () {
+      it("Should revert if player has nothing to claim", async function () {
+        await expect(
+          rockPaperArena.connect(player1).claimRewards()
+        ).to.be.revertedWithCustomError(rockPaperArena, "NoRewards");
+      });
+
+      it("Should not credit anything for an unstaked match", async function () {
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+        await rockPaperArena.connect(player1).claimTimeout(1);
+
+        expect(await rockPaperArena.pendingRewards(player1.address)).to.equal(0n);
+        expect(await rockPaperArena.pendingRewards(player2.address)).to.equal(0n);
+      });
+    });
+
+    describe("4.4 Auto-settle", function () {
+      beforeEach(async function () {
+        // Redeploy with auto-settle enabled and set up a joined match
+        rockPaperArena = (await deployRockPaperArenaFixture(true)).rockPaperArena;
+        await rockPaperArena.connect(player1).createChallenge();
+        await rockPaperArena.connect(player2).acceptChallenge(1);
+      });
+
+      /**
+       * Commit an encrypted move for a player in match 1
+       */
+      async function commit(signer: HardhatEthersSigner, instance: any, gesture: Gesture) {
+        const input = instance.createEncryptedInput(await rockPaperArena.getAddress(), signer.address);
+        input.add8(gesture);
+        const encryptedMove = await input.encrypt();
+        return rockPaperArena
+          .connect(signer)
+          .submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+      }
+
+      it("Should expose the auto-settle option", async function () {
+        expect(await rockPaperArena.autoSettle()).to.be.true;
+
+        const manual = (await deployRockPaperArenaFixture()).rockPaperArena;
+        expect(await manual.autoSettle()).to.be.false;
+      });
+
+      it("Should request decryption when the second move lands", async function () {
+        await commit(player1, instances.player1, Gesture.Paper);
+
+        await expect(commit(player2, instances.player2, Gesture.Rock))
+          .to.emit(rockPaperArena, "MatchDecryptionRequested");
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Decrypting);
+      });
+
+      it("Should finalize without a requestReveal transaction", async function () {
+        await commit(player1, instances.player1, Gesture.Paper);
+        await commit(player2, instances.player2, Gesture.Rock);
+
+        await expect(
+          rockPaperArena.connect(player1).requestReveal(1)
+        ).to.be.revertedWithCustomError(rockPaperArena, "MatchNotReady");
+
+        await finalizeReveal(1);
+
+        const match = await rockPaperArena.getMatch(1);
+        expect(match.state).to.equal(MatchState.Revealed);
+        expect(match.winner).to.equal(player1.address);
+      });
+    });
+
+    describe("4.5 Ratings", function () {
+      /**
+       * Commit both moves, reveal and finalize a joined single-round match
+       */
+      async function playMatch(matchId: number, move1: Gesture, move2: Gesture) {
+        const contractAddress = await rockPaperArena.getAddress();
+
+        const input1 = instances.player1.createEncryptedInput(contractAddress, player1.address);
+        input1.add8(move1);
+        const encryptedMove1 = await input1.encrypt();
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(matchId, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        const input2 = instances.player2.createEncryptedInput(contractAddress, player2.address);
+        input2.add8(move2);
+        const encryptedMove2 = await input2.encrypt();
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(matchId, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        await rockPaperArena.connect(player1).requestReveal(matchId);
+        return finalizeReveal(matchId);
+      }
+
+      it("Should start unrated players at the initial rating", async function () {
+        const initialRating = await rockPaperArena.INITIAL_RATING();
+
+        expect(await rockPaperArena.ratingOf(player1.address)).to.equal(initialRating);
+        const stats = await rockPaperArena.getPlayerStats(player1.address);
+        expect(stats.rating).to.equal(initialRating);
+      });
+
+      it("Should move equal ratings by half the provisional K-factor", async function () {
+        await expect(playMatch(1, Gesture.Paper, Gesture.Rock))
+          .to.emit(rockPaperArena, "RatingsUpdated")
+          .withArgs(1n, player1.address, player2.address, 1220n, 1180n, 20n, -20n);
+
+        const change = await rockPaperArena.ratingChanges(1);
+        expect(change.delta1).to.equal(20n);
+        expect(change.delta2).to.equal(-20n);
+      });
+
+      it("Should leave equal ratings unchanged on a draw", async function () {
+        await playMatch(1, Gesture.Rock, Gesture.Rock);
+
+        expect(await rockPaperArena.ratingOf(player1.address)).to.equal(1200n);
+        expect(await rockPaperArena.ratingOf(player2.address)).to.equal(1200n);
+      });
+
+      it("Should reward an upset more than an expected win", async function () {
+        await playMatch(1, Gesture.Paper, Gesture.Rock);
+
+        // 1220 vs 1180: the lower-rated player2 was expected to score 0.444
+        await rockPaperArena.connect(player1).createChallenge();
+        await rockPaperArena.connect(player2).acceptChallenge(2);
+        await playMatch(2, Gesture.Rock, Gesture.Paper);
+
+        const change = await rockPaperArena.ratingChanges(2);
+        expect(change.delta2).to.equal(22n);
+        expect(change.delta1).to.equal(-22n);
+        expect(await rockPaperArena.ratingOf(player2.address)).to.equal(1202n);
+      });
+
+      it("Should rate forfeited matches", async function () {
+        const contractAddress = await rockPaperArena.getAddress();
+        const input = instances.player1.createEncryptedInput(contractAddress, player1.address);
+        input.add8(Gesture.Rock);
+        const encryptedMove = await input.encrypt();
+        await rockPaperArena.connect(player1).submitMove(1, encryptedMove.handles[0], encryptedMove.inputProof);
+
+        await time.increase(await rockPaperArena.COMMIT_WINDOW());
+        await rockPaperArena.connect(player1).claimTimeout(1);
+
+        expect(await rockPaperArena.ratingOf(player1.address)).to.equal(1220n);
+        expect(await rockPaperArena.ratingOf(player2.address)).to.equal(1180n);
+      });
+    });
+
+    describe("4.6 Seasons", function () {
+      /**
+       * Commit both moves, reveal and finalize match 1
+       */
+      async function playMatch(move1: Gesture, move2: Gesture) {
+        const contractAddress = await rockPaperArena.getAddress();
+
+        const input1 = instances.player1.createEncryptedInput(contractAddress, player1.address);
+        input1.add8(move1);
+        const encryptedMove1 = await input1.encrypt();
+        await rockPaperArena
+          .connect(player1)
+          .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+        const input2 = instances.player2.createEncryptedInput(contractAddress, player2.address);
+        input2.add8(move2);
+        const encryptedMove2 = await input2.encrypt();
+        await rockPaperArena
+          .connect(player2)
+          .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+        await rockPaperArena.connect(player1).requestReveal(1);
+        return finalizeReveal(1);
+      }
+
+      it("Should only let the owner start a new season", async function () {
+        expect(await rockPaperArena.currentSeason()).to.equal(1n);
+        expect(await rockPaperArena.owner()).to.equal(owner.address);
 
-      it("Should have updateStreak function (placeholder)", async function () {
         await expect(
-          rockPaperArena.connect(player1).updateStreak(player1.address, true)
-        ).to.be.revertedWith("Not implemented");
+          rockPaperArena.connect(player1).startNewSeason()
+        ).to.be.revertedWithCustomError(rockPaperArena, "NotOwner");
+
+        await expect(rockPaperArena.connect(owner).startNewSeason())
+          .to.emit(rockPaperArena, "SeasonStarted")
+          .withArgs(2n);
+        expect(await rockPaperArena.currentSeason()).to.equal(2n);
+      });
+
+      it("Should archive standings and start fresh counters", async function () {
+        await playMatch(Gesture.Paper, Gesture.Rock);
+        expect(await rockPaperArena.getSeasonPlayers(1)).to.deep.equal([player1.address, player2.address]);
+
+        await rockPaperArena.connect(owner).startNewSeason();
+
+        const archived = await rockPaperArena.getSeasonStats(1, player1.address);
+        expect(archived.wins).to.equal(1n);
+        expect(archived.rating).to.equal(1220n);
+
+        const fresh = await rockPaperArena.getPlayerStats(player1.address);
+        expect(fresh.wins).to.equal(0n);
+        expect(fresh.totalMatches).to.equal(0n);
+        expect(fresh.rating).to.equal(await rockPaperArena.INITIAL_RATING());
+        expect(await rockPaperArena.getSeasonPlayers(2)).to.deep.equal([]);
+      });
+
+      it("Should record a match in the season in which it completes", async function () {
+        // Match 1 was joined in season 1
+        await rockPaperArena.connect(owner).startNewSeason();
+        await playMatch(Gesture.Rock, Gesture.Paper);
+
+        expect((await rockPaperArena.getSeasonStats(1, player2.address)).wins).to.equal(0n);
+        expect((await rockPaperArena.getSeasonStats(2, player2.address)).wins).to.equal(1n);
+        expect(await rockPaperArena.getSeasonPlayers(2)).to.deep.equal([player1.address, player2.address]);
       });
     });
   });
@@ -845,12 +2409,14 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
 
       // 5. Request reveal
       await rockPaperArena.connect(player1).requestReveal(1);
+      await finalizeReveal(1);
 
       // 6. Verify final state
       const match = await rockPaperArena.getMatch(1);
       expect(match.state).to.equal(MatchState.Revealed);
-      expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(0n);
-      expect(await rockPaperArena.playerActiveMatch(player2.address)).to.equal(0n);
+      expect(match.winner).to.equal(player1.address);
+      expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([]);
+      expect(await rockPaperArena.getActiveMatches(player2.address)).to.deep.equal([]);
     });
 
     it("Should complete full game: Paper vs Rock", async function () {
@@ -885,8 +2451,11 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
 
       await rockPaperArena.connect(player2).requestReveal(1);
 
+      await finalizeReveal(1);
+
       const match = await rockPaperArena.getMatch(1);
       expect(match.state).to.equal(MatchState.Revealed);
+      expect(match.winner).to.equal(player1.address);
     });
 
     it("Should complete full game: Scissors vs Paper", async function () {
@@ -921,8 +2490,11 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
 
       await rockPaperArena.connect(player1).requestReveal(1);
 
+      await finalizeReveal(1);
+
       const match = await rockPaperArena.getMatch(1);
       expect(match.state).to.equal(MatchState.Revealed);
+      expect(match.winner).to.equal(player1.address);
     });
 
     it("Should complete full game: Draw (Rock vs Rock)", async function () {
@@ -956,8 +2528,16 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
 
       await rockPaperArena.connect(player1).requestReveal(1);
 
+      await finalizeReveal(1);
+
       const match = await rockPaperArena.getMatch(1);
       expect(match.state).to.equal(MatchState.Revealed);
+      expect(match.winner).to.equal(ethers.ZeroAddress);
+
+      const stats1 = await rockPaperArena.getPlayerStats(player1.address);
+      const stats2 = await rockPaperArena.getPlayerStats(player2.address);
+      expect(stats1.draws).to.equal(1n);
+      expect(stats2.draws).to.equal(1n);
     });
 
     it("Should allow players to start new match after completing one", async function () {
@@ -991,6 +2571,8 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
 
       await rockPaperArena.connect(player1).requestReveal(1);
 
+      await finalizeReveal(1);
+
       // Start new match
       await rockPaperArena.connect(player1).createChallenge();
       await rockPaperArena.connect(player2).acceptChallenge(2);
@@ -1000,6 +2582,86 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
       expect(match2.player2).to.equal(player2.address);
     });
 
+    it("Should pay the pot to the winner of a staked match", async function () {
+      const stake = ethers.parseEther("1");
+      await rockPaperArena.connect(player1).createChallenge({ value: stake });
+      await rockPaperArena.connect(player2).acceptChallenge(1, { value: stake });
+
+      // Player1: Paper, Player2: Rock
+      const instance1 = instances.player1;
+      const input1 = instance1.createEncryptedInput(
+        await rockPaperArena.getAddress(),
+        player1.address
+      );
+      input1.add8(Gesture.Paper);
+      const encryptedMove1 = await input1.encrypt();
+
+      await rockPaperArena
+        .connect(player1)
+        .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+      const instance2 = instances.player2;
+      const input2 = instance2.createEncryptedInput(
+        await rockPaperArena.getAddress(),
+        player2.address
+      );
+      input2.add8(Gesture.Rock);
+      const encryptedMove2 = await input2.encrypt();
+
+      await rockPaperArena
+        .connect(player2)
+        .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+      await rockPaperArena.connect(player1).requestReveal(1);
+
+      await expect(finalizeReveal(1))
+        .to.emit(rockPaperArena, "RewardsCredited")
+        .withArgs(1n, player1.address, ethers.ZeroAddress, stake * 2n);
+
+      expect(await rockPaperArena.pendingRewards(player2.address)).to.equal(0n);
+      await expect(rockPaperArena.connect(player1).claimRewards()).to.changeEtherBalances(
+        [player1, rockPaperArena],
+        [stake * 2n, -stake * 2n]
+      );
+    });
+
+    it("Should split the pot on a staked draw", async function () {
+      const stake = ethers.parseEther("1");
+      await rockPaperArena.connect(player1).createChallenge({ value: stake });
+      await rockPaperArena.connect(player2).acceptChallenge(1, { value: stake });
+
+      // Both players: Scissors
+      const instance1 = instances.player1;
+      const input1 = instance1.createEncryptedInput(
+        await rockPaperArena.getAddress(),
+        player1.address
+      );
+      input1.add8(Gesture.Scissors);
+      const encryptedMove1 = await input1.encrypt();
+
+      await rockPaperArena
+        .connect(player1)
+        .submitMove(1, encryptedMove1.handles[0], encryptedMove1.inputProof);
+
+      const instance2 = instances.player2;
+      const input2 = instance2.createEncryptedInput(
+        await rockPaperArena.getAddress(),
+        player2.address
+      );
+      input2.add8(Gesture.Scissors);
+      const encryptedMove2 = await input2.encrypt();
+
+      await rockPaperArena
+        .connect(player2)
+        .submitMove(1, encryptedMove2.handles[0], encryptedMove2.inputProof);
+
+      await rockPaperArena.connect(player1).requestReveal(1);
+      await finalizeReveal(1);
+
+      expect(await rockPaperArena.pendingRewards(player1.address)).to.equal(stake);
+      expect(await rockPaperArena.pendingRewards(player2.address)).to.equal(stake);
+    });
+
     it("Should handle multiple concurrent matches", async function () {
       // Match 1: Player1 vs Player2
       await rockPaperArena.connect(player1).createChallenge();
@@ -1118,15 +2780,47 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
       });
 
       it("Should handle large number of pending matches", async function () {
-        const signers = await ethers.getSigners();
-        const numMatches = Math.min(signers.length, 10);
+        this.timeout(600000);
+
+        const [, , , , joiner] = await ethers.getSigners();
 
-        for (let i = 0; i < numMatches; i++) {
-          await rockPaperArena.connect(signers[i]).createChallenge();
+        // Removal gas with a short list: join the middle match, cancel the last one
+        await rockPaperArena.connect(player1).createChallenge();
+        await rockPaperArena.connect(player2).createChallenge();
+        await rockPaperArena.connect(player3).createChallenge();
+        const smallAccept = await (await rockPaperArena.connect(joiner).acceptChallenge(2)).wait();
+        const smallCancel = await (await rockPaperArena.connect(player3).cancelMatch(3)).wait();
+
+        // Fill the lobby up to 1,000 pending matches from fresh funded wallets
+        const numMatches = 1000;
+        const wallets: HDNodeWallet[] = [];
+        for (let i = 1; i < numMatches; i++) {
+          const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+          await setBalance(wallet.address, ethers.parseEther("1"));
+          await rockPaperArena.connect(wallet).createChallenge();
+          wallets.push(wallet);
         }
 
-        const pendingMatches = await rockPaperArena.getPendingMatches();
+        let pendingMatches = await rockPaperArena.getPendingMatches();
         expect(pendingMatches.length).to.equal(numMatches);
+
+        const middleMatchId = pendingMatches[numMatches / 2];
+        const lastMatchId = pendingMatches[numMatches - 1];
+        const lateJoiner = ethers.Wallet.createRandom().connect(ethers.provider);
+        await setBalance(lateJoiner.address, ethers.parseEther("1"));
+
+        const largeAccept = await (await rockPaperArena.connect(lateJoiner).acceptChallenge(middleMatchId)).wait();
+        const largeCancel = await (await rockPaperArena.connect(wallets[wallets.length - 1]).cancelMatch(lastMatchId)).wait();
+
+        pendingMatches = await rockPaperArena.getPendingMatches();
+        expect(pendingMatches.length).to.equal(numMatches - 2);
+        expect(pendingMatches).to.not.include(middleMatchId);
+        expect(pendingMatches).to.not.include(lastMatchId);
+
+        // Removal is a constant-time swap-and-pop: a linear scan would add a storage
+        // read per listed match (over 1M gas here), fresh wallets only add cold slots
+        expect(largeAccept!.gasUsed).to.be.lte(smallAccept!.gasUsed + 10000n);
+        expect(largeCancel!.gasUsed).to.be.lte(smallCancel!.gasUsed + 10000n);
       });
     });
 
@@ -1201,11 +2895,51 @@ describe("RockPaperArena - Comprehensive Test Suite", function () {
       expect(stats.losses).to.equal(0n);
       expect(stats.draws).to.equal(0n);
       expect(stats.currentStreak).to.equal(0n);
+      expect(stats.bestStreak).to.equal(0n);
     });
 
-    it("Should return correct active match for player", async function () {
+    it("Should return correct active matches for player", async function () {
       await rockPaperArena.connect(player1).createChallenge();
-      expect(await rockPaperArena.playerActiveMatch(player1.address)).to.equal(1n);
+      expect(await rockPaperArena.getActiveMatches(player1.address)).to.deep.equal([1n]);
+    });
+
+    it("Should page through pending matches", async function () {
+      await rockPaperArena.connect(player1).createChallenge();
+      await rockPaperArena.connect(player2).createChallenge();
+      await rockPaperArena.connect(player3).createChallenge();
+
+      let [page, total] = await rockPaperArena.getPendingMatchesPage(0, 2);
+      expect(page).to.deep.equal([1n, 2n]);
+      expect(total).to.equal(3n);
+
+      [page, total] = await rockPaperArena.getPendingMatchesPage(2, 2);
+      expect(page).to.deep.equal([3n]);
+      expect(total).to.equal(3n);
+
+      [page] = await rockPaperArena.getPendingMatchesPage(3, 2);
+      expect(page).to.deep.equal([]);
+    });
+
+    it("Should index every match a player created or joined", async function () {
+      await rockPaperArena.connect(player1).createChallenge();
+      await rockPaperArena.connect(player1).cancelMatch(1);
+      await rockPaperArena.connect(player2).createChallenge();
+      await rockPaperArena.connect(player1).acceptChallenge(2);
+
+      let [page, total] = await rockPaperArena.getPlayerMatches(player1.address, 0, 10);
+      expect(page).to.deep.equal([1n, 2n]);
+      expect(total).to.equal(2n);
+
+      [page, total] = await rockPaperArena.getPlayerMatches(player1.address, 1, 1);
+      expect(page).to.deep.equal([2n]);
+
+      [page, total] = await rockPaperArena.getPlayerMatches(player2.address, 0, 10);
+      expect(page).to.deep.equal([2n]);
+      expect(total).to.equal(1n);
+
+      [page, total] = await rockPaperArena.getPlayerMatches(player3.address, 0, 10);
+      expect(page).to.deep.equal([]);
+      expect(total).to.equal(0n);
     });
   });
 });
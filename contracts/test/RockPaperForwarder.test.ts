@@ -0,0 +1,261 @@
+/**
+ * RockPaperForwarder Test Suite
+ *
+ * Tests cover:
+ * 1. Submitting EIP-712 signed moves through a relayer
+ * 2. Signature checks: nonces, deadlines, signers and copied encrypted moves
+ */
+
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { RockPaperArena, RockPaperForwarder, RockPaperMoveProxy__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { createInstances } from "../test-utils/instance";
+import { Gesture } from "../test-utils/moves";
+import { getSigners, initSigners } from "../test-utils/signers";
+import { deployRockPaperForwarderFixture } from "./fixtures/RockPaperForwarder.fixture";
+
+describe("RockPaperForwarder - Gasless Move Test Suite", function () {
+  let rockPaperArena: RockPaperArena;
+  let rockPaperForwarder: RockPaperForwarder;
+  let owner: HardhatEthersSigner;
+  let players: HardhatEthersSigner[];
+  let relayer: HardhatEthersSigner;
+  let instances: any;
+
+  type SignedMove = {
+    player: string;
+    matchId: bigint;
+    handle: string;
+    inputProof: string;
+    deadline: bigint;
+    signature: string;
+  };
+
+  const SUBMIT_MOVE_TYPES = {
+    SubmitMove: [
+      { name: "matchId", type: "uint256" },
+      { name: "handle", type: "bytes32" },
+      { name: "inputProof", type: "bytes" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  };
+
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    const deployment = await deployRockPaperForwarderFixture();
+    rockPaperArena = deployment.rockPaperArena;
+    rockPaperForwarder = deployment.rockPaperForwarder;
+    owner = deployment.owner;
+    players = deployment.players;
+    relayer = deployment.relayer;
+
+    instances = await createInstances(await rockPaperArena.getAddress(), ethers, this.signers);
+
+    // Match 1: both players joined a free match
+    await rockPaperArena.connect(players[0]).createChallenge();
+    await rockPaperArena.connect(players[1]).acceptChallenge(1);
+  });
+
+  /**
+   * Encrypt a gesture for the player at `seat` (0-based), with their move proxy as the importing user,
+   * and sign it for the relayer (`copyOf` signs another move's handle and proof instead)
+   */
+  async function signMove(
+    seat: number,
+    matchId: bigint,
+    gesture: Gesture,
+    options: { deadline?: bigint; signer?: HardhatEthersSigner; copyOf?: SignedMove } = {}
+  ): Promise<SignedMove> {
+    const player = players[seat];
+    let handle: string;
+    let inputProof: string;
+    if (options.copyOf) {
+      ({ handle, inputProof } = options.copyOf);
+    } else {
+      const input = instances[`player${seat + 1}`].createEncryptedInput(
+        await rockPaperArena.getAddress(),
+        await rockPaperForwarder.proxyOf(player.address)
+      );
+      input.add8(gesture);
+      const encryptedMove = await input.encrypt();
+      handle = ethers.hexlify(encryptedMove.handles[0]);
+      inputProof = ethers.hexlify(encryptedMove.inputProof);
+    }
+    const deadline = options.deadline ?? BigInt(await time.latest()) + 3600n;
+
+    const domain = {
+      name: "RockPaperForwarder",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await rockPaperForwarder.getAddress(),
+    };
+    const message = {
+      matchId,
+      handle,
+      inputProof,
+      nonce: await rockPaperForwarder.nonces(player.address),
+      deadline,
+    };
+    const signature = await (options.signer ?? player).signTypedData(domain, SUBMIT_MOVE_TYPES, message);
+
+    return { player: player.address, matchId, handle, inputProof, deadline, signature };
+  }
+
+  /**
+   * Submit a signed move as the relayer
+   */
+  function relay(move: SignedMove) {
+    return rockPaperForwarder
+      .connect(relayer)
+      .submitMoveBySig(move.player, move.matchId, move.handle, move.inputProof, move.deadline, move.signature);
+  }
+
+  /* ========================================
+   * 1. RELAYED MOVES
+   * ======================================== */
+
+  describe("1. Relayed Moves", function () {
+    it("Should commit a signed move on behalf of the player", async function () {
+      const move = await signMove(0, 1n, Gesture.Paper);
+
+      await expect(relay(move))
+        .to.emit(rockPaperArena, "MoveCommitted")
+        .withArgs(1n, players[0].address)
+        .and.to.emit(rockPaperForwarder, "MoveRelayed")
+        .withArgs(1n, players[0].address, relayer.address);
+
+      const match = await rockPaperArena.getMatch(1);
+      expect(match.player1Committed).to.equal(true);
+      expect(await rockPaperForwarder.nonces(players[0].address)).to.equal(1n);
+
+      // The move belongs to the player, not to the relayer or the forwarder
+      expect(
+        await fhevm.userDecryptEuint(FhevmType.euint8, match.move1, await rockPaperArena.getAddress(), players[0])
+      ).to.equal(BigInt(Gesture.Paper));
+    });
+
+    it("Should settle a match played with relayed moves", async function () {
+      await relay(await signMove(0, 1n, Gesture.Paper));
+      await relay(await signMove(1, 1n, Gesture.Rock));
+
+      await rockPaperArena.connect(players[0]).requestReveal(1);
+      const match = await rockPaperArena.getMatch(1);
+      const decrypted = await fhevm.publicDecrypt([match.result]);
+      await rockPaperArena.finalizeReveal(1, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+
+      expect((await rockPaperArena.getMatch(1)).winner).to.equal(players[0].address);
+    });
+
+    it("Should deploy a player's move proxy with their first relayed move", async function () {
+      const proxyAddress = await rockPaperForwarder.proxyOf(players[0].address);
+      expect(await ethers.provider.getCode(proxyAddress)).to.equal("0x");
+
+      await relay(await signMove(0, 1n, Gesture.Rock));
+
+      const proxy = RockPaperMoveProxy__factory.connect(proxyAddress, owner);
+      expect(await proxy.player()).to.equal(players[0].address);
+      expect(await proxy.forwarder()).to.equal(await rockPaperForwarder.getAddress());
+    });
+
+    it("Should only let the player's move proxy submit moves for them", async function () {
+      const move = await signMove(0, 1n, Gesture.Rock);
+      await relay(await signMove(1, 1n, Gesture.Paper));
+
+      await expect(
+        rockPaperArena.connect(owner).submitMoveFor(players[0].address, 1, move.handle, move.inputProof)
+      ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedManager");
+
+      // Another player's proxy cannot submit for them, and proxies only take moves from the forwarder
+      const proxy = RockPaperMoveProxy__factory.connect(await rockPaperForwarder.proxyOf(players[1].address), owner);
+      await expect(proxy.submitMove(1, move.handle, move.inputProof)).to.be.revertedWithCustomError(
+        proxy,
+        "NotForwarder"
+      );
+
+      await expect(
+        rockPaperArena.connect(owner).setMoveForwarder(owner.address)
+      ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedManager");
+    });
+  });
+
+  /* ========================================
+   * 2. SIGNATURE CHECKS
+   * ======================================== */
+
+  describe("2. Signature Checks", function () {
+    it("Should reject a replayed signature", async function () {
+      const move = await signMove(0, 1n, Gesture.Rock);
+      await relay(move);
+
+      await expect(relay(move)).to.be.revertedWithCustomError(rockPaperForwarder, "InvalidSignature");
+    });
+
+    it("Should reject an expired signature", async function () {
+      const move = await signMove(0, 1n, Gesture.Rock, { deadline: BigInt(await time.latest()) + 60n });
+      await time.increase(120);
+
+      await expect(relay(move)).to.be.revertedWithCustomError(rockPaperForwarder, "SignatureExpired");
+    });
+
+    it("Should reject a move signed by someone else", async function () {
+      const move = await signMove(0, 1n, Gesture.Rock, { signer: players[1] });
+
+      await expect(relay(move)).to.be.revertedWithCustomError(rockPaperForwarder, "InvalidSignature");
+    });
+
+    it("Should reject a signed move for another match", async function () {
+      const move = await signMove(0, 1n, Gesture.Rock);
+
+      await expect(
+        rockPaperForwarder
+          .connect(relayer)
+          .submitMoveBySig(move.player, 2, move.handle, move.inputProof, move.deadline, move.signature)
+      ).to.be.revertedWithCustomError(rockPaperForwarder, "InvalidSignature");
+    });
+
+    it("Should reject another player's pending move copied and relayed ahead of it", async function () {
+      const move = await signMove(0, 1n, Gesture.Rock);
+
+      // The input proof was made out to players[0]'s proxy, so it does not verify for players[1]'s
+      const copy = await signMove(1, 1n, Gesture.Rock, { copyOf: move });
+      await expect(relay(copy)).to.be.reverted;
+
+      let match = await rockPaperArena.getMatch(1);
+      expect(match.player2Committed).to.equal(false);
+
+      await relay(move);
+      match = await rockPaperArena.getMatch(1);
+      expect(match.player1Committed).to.equal(true);
+    });
+
+    it("Should reject another player's encrypted move signed as their own", async function () {
+      const move = await signMove(0, 1n, Gesture.Rock);
+      await relay(move);
+
+      // The copied handle would otherwise be imported for players[1], letting them decrypt the gesture
+      const copy = await signMove(1, 1n, Gesture.Rock, { copyOf: move });
+      await expect(relay(copy)).to.be.revertedWithCustomError(rockPaperForwarder, "HandleAlreadyUsed");
+
+      const match = await rockPaperArena.getMatch(1);
+      expect(match.player2Committed).to.equal(false);
+      expect(await rockPaperForwarder.nonces(players[1].address)).to.equal(0n);
+    });
+
+    it("Should still enforce the arena's move rules", async function () {
+      await relay(await signMove(0, 1n, Gesture.Rock));
+
+      await expect(relay(await signMove(0, 1n, Gesture.Paper))).to.be.revertedWithCustomError(
+        rockPaperArena,
+        "MoveAlreadyCommitted"
+      );
+    });
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * RockPaperMatchmaker Test Suite
+ *
+ * Tests cover:
+ * 1. Joining and leaving the queue
+ * 2. Pairing waiting players into arena matches
+ * 3. Rating windows and expected waits
+ * 4. Bounded queue lookups
+ */
+
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { MockRatingArena__factory, RockPaperArena, RockPaperMatchmaker, RockPaperMatchmaker__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import { createInstances } from "../test-utils/instance";
+import { Gesture, commit } from "../test-utils/moves";
+import { getSigners, initSigners } from "../test-utils/signers";
+import { deployRockPaperMatchmakerFixture } from "./fixtures/RockPaperMatchmaker.fixture";
+
+describe("RockPaperMatchmaker - Queue Test Suite", function () {
+  let rockPaperArena: RockPaperArena;
+  let rockPaperMatchmaker: RockPaperMatchmaker;
+  let owner: HardhatEthersSigner;
+  let players: HardhatEthersSigner[];
+  let instances: any;
+
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    const deployment = await deployRockPaperMatchmakerFixture();
+    rockPaperArena = deployment.rockPaperArena;
+    rockPaperMatchmaker = deployment.rockPaperMatchmaker;
+    owner = deployment.owner;
+    players = deployment.players;
+
+    instances = await createInstances(await rockPaperArena.getAddress(), ethers, this.signers);
+  });
+
+  /**
+   * Pair two players through the queue and let the first one win the match
+   */
+  async function playQueuedMatch(winnerSeat: number, loserSeat: number) {
+    await rockPaperMatchmaker.connect(players[winnerSeat]).joinQueue();
+    await rockPaperMatchmaker.connect(players[loserSeat]).joinQueue();
+    const matchId = (await rockPaperArena.matchCounter()) - 1n;
+
+    await commit(rockPaperArena, instances, players, winnerSeat, matchId, Gesture.Paper);
+    await commit(rockPaperArena, instances, players, loserSeat, matchId, Gesture.Rock);
+    await rockPaperArena.connect(players[winnerSeat]).requestReveal(matchId);
+
+    const match = await rockPaperArena.getMatch(matchId);
+    const decrypted = await fhevm.publicDecrypt([match.result]);
+    await rockPaperArena.finalizeReveal(matchId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+  }
+
+  /* ========================================
+   * 1. JOIN & LEAVE
+   * ======================================== */
+
+  describe("1. Join & Leave", function () {
+    it("Should queue the first player", async function () {
+      await expect(rockPaperMatchmaker.connect(players[0]).joinQueue())
+        .to.emit(rockPaperMatchmaker, "QueueJoined")
+        .withArgs(players[0].address);
+
+      expect(await rockPaperMatchmaker.getQueuePosition(players[0].address)).to.equal(1n);
+      expect(await rockPaperArena.getActiveMatches(players[0].address)).to.deep.equal([]);
+    });
+
+    it("Should reject joining twice and leaving when not queued", async function () {
+      await rockPaperMatchmaker.connect(players[0]).joinQueue();
+
+      await expect(
+        rockPaperMatchmaker.connect(players[0]).joinQueue()
+      ).to.be.revertedWithCustomError(rockPaperMatchmaker, "AlreadyQueued");
+
+      await expect(
+        rockPaperMatchmaker.connect(players[1]).leaveQueue()
+      ).to.be.revertedWithCustomError(rockPaperMatchmaker, "NotQueued");
+    });
+
+    it("Should let a waiting player leave the queue", async function () {
+      await rockPaperMatchmaker.connect(players[0]).joinQueue();
+
+      await expect(rockPaperMatchmaker.connect(players[0]).leaveQueue())
+        .to.emit(rockPaperMatchmaker, "QueueLeft")
+        .withArgs(players[0].address);
+
+      expect(await rockPaperMatchmaker.getQueuePosition(players[0].address)).to.equal(0n);
+    });
+
+    it("Should refuse players without a free match slot", async function () {
+      const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+      for (let i = 0n; i < maxActive; i++) {
+        await rockPaperArena.connect(players[0]).createChallenge();
+      }
+
+      await expect(
+        rockPaperMatchmaker.connect(players[0]).joinQueue()
+      ).to.be.revertedWithCustomError(rockPaperMatchmaker, "TooManyActiveMatches");
+    });
+  });
+
+  /* ========================================
+   * 2. PAIRING
+   * ======================================== */
+
+  describe("2. Pairing", function () {
+    it("Should pair the next player with the oldest waiting player", async function () {
+      await rockPaperMatchmaker.connect(players[0]).joinQueue();
+
+      await expect(rockPaperMatchmaker.connect(players[1]).joinQueue())
+        .to.emit(rockPaperMatchmaker, "QueueMatched")
+        .withArgs(1n, players[0].address, players[1].address)
+        .and.to.emit(rockPaperArena, "MatchJoined")
+        .withArgs(1n, players[1].address);
+
+      const match = await rockPaperArena.getMatch(1);
+      expect(match.player1).to.equal(players[0].address);
+      expect(match.player2).to.equal(players[1].address);
+      expect(match.manager).to.equal(ethers.ZeroAddress);
+      expect(match.stake).to.equal(0n);
+      expect(match.bestOf).to.equal(1);
+      expect(match.commitDeadline).to.be.greaterThan(0n);
+
+      expect(await rockPaperMatchmaker.getQueuePosition(players[0].address)).to.equal(0n);
+      expect(await rockPaperArena.getActiveMatches(players[0].address)).to.deep.equal([1n]);
+      expect(await rockPaperArena.getPendingMatches()).to.deep.equal([]);
+    });
+
+    it("Should skip players who left the queue", async function () {
+      await rockPaperMatchmaker.connect(players[0]).joinQueue();
+      await rockPaperMatchmaker.connect(players[0]).leaveQueue();
+
+      // The queue is empty again, so the next player waits
+      await expect(rockPaperMatchmaker.connect(players[1]).joinQueue())
+        .to.emit(rockPaperMatchmaker, "QueueJoined")
+        .withArgs(players[1].address);
+
+      await expect(rockPaperMatchmaker.connect(players[2]).joinQueue())
+        .to.emit(rockPaperMatchmaker, "QueueMatched")
+        .withArgs(1n, players[1].address, players[2].address);
+    });
+
+    it("Should drop waiting players who filled their match slots meanwhile", async function () {
+      await rockPaperMatchmaker.connect(players[2]).joinQueue();
+
+      const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+      for (let i = 0n; i < maxActive; i++) {
+        await rockPaperArena.connect(players[2]).createChallenge();
+      }
+
+      await expect(rockPaperMatchmaker.connect(players[3]).joinQueue())
+        .to.emit(rockPaperMatchmaker, "QueueLeft")
+        .withArgs(players[2].address)
+        .and.to.emit(rockPaperMatchmaker, "QueueJoined")
+        .withArgs(players[3].address);
+
+      expect(await rockPaperMatchmaker.getQueuePosition(players[3].address)).to.equal(1n);
+    });
+
+    it("Should not let the paired player leave a queued match", async function () {
+      await rockPaperMatchmaker.connect(players[0]).joinQueue();
+      await rockPaperMatchmaker.connect(players[1]).joinQueue();
+
+      expect(await rockPaperArena.queuedMatches(1)).to.be.true;
+      await expect(rockPaperArena.connect(players[1]).leaveMatch(1)).to.be.revertedWithCustomError(
+        rockPaperArena,
+        "UnauthorizedPlayer"
+      );
+
+      const match = await rockPaperArena.getMatch(1);
+      expect(match.player2).to.equal(players[1].address);
+      expect(await rockPaperArena.getPendingMatches()).to.deep.equal([]);
+    });
+
+    it("Should only let the matchmaker open queued matches", async function () {
+      await expect(
+        rockPaperArena.connect(owner).createQueuedMatch(players[0].address, players[1].address)
+      ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedManager");
+
+      await expect(
+        rockPaperArena.connect(owner).setMatchmaker(players[0].address)
+      ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedManager");
+    });
+  });
+
+  /* ========================================
+   * 3. RATING WINDOW
+   * ======================================== */
+
+  describe("3. Rating Window", function () {
+    it("Should report the base window and no expected wait with an empty queue", async function () {
+      const [window, expectedWait] = await rockPaperMatchmaker.getQueueStatus(players[0].address);
+
+      expect(window).to.equal(await rockPaperMatchmaker.BASE_RATING_WINDOW());
+      expect(expectedWait).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should report a zero expected wait when a waiting player is in range", async function () {
+      await rockPaperMatchmaker.connect(players[0]).joinQueue();
+
+      const [, expectedWait] = await rockPaperMatchmaker.getQueueStatus(players[1].address);
+      expect(expectedWait).to.equal(0n);
+    });
+
+    it("Should reject retrying when not queued", async function () {
+      await expect(
+        rockPaperMatchmaker.connect(players[0]).retryQueue()
+      ).to.be.revertedWithCustomError(rockPaperMatchmaker, "NotQueued");
+    });
+
+    describe("Players out of range", function () {
+      let gap: bigint;
+
+      beforeEach(async function () {
+        // Two wins put the players further apart than the base window
+        await playQueuedMatch(0, 1);
+        await playQueuedMatch(0, 1);
+
+        gap = (await rockPaperArena.ratingOf(players[0].address)) - (await rockPaperArena.ratingOf(players[1].address));
+        expect(gap).to.be.greaterThan(await rockPaperMatchmaker.BASE_RATING_WINDOW());
+
+        await rockPaperMatchmaker.connect(players[1]).joinQueue();
+      });
+
+      it("Should queue a player instead of pairing them out of range", async function () {
+        await expect(rockPaperMatchmaker.connect(players[0]).joinQueue())
+          .to.emit(rockPaperMatchmaker, "QueueJoined")
+          .withArgs(players[0].address)
+          .and.not.to.emit(rockPaperMatchmaker, "QueueMatched");
+
+        expect(await rockPaperMatchmaker.getQueuePosition(players[0].address)).to.equal(2n);
+      });
+
+      it("Should pair a newcomer in range ahead of an older waiting player out of range", async function () {
+        await rockPaperMatchmaker.connect(players[0]).joinQueue();
+
+        // An unrated player is within the base window of both ends
+        await expect(rockPaperMatchmaker.connect(players[2]).joinQueue())
+          .to.emit(rockPaperMatchmaker, "QueueMatched")
+          .withArgs(3n, players[1].address, players[2].address);
+
+        expect(await rockPaperMatchmaker.getQueuePosition(players[0].address)).to.equal(1n);
+      });
+
+      it("Should report the wait until the waiting player's window covers the gap", async function () {
+        const base = await rockPaperMatchmaker.BASE_RATING_WINDOW();
+        const growth = await rockPaperMatchmaker.WINDOW_GROWTH();
+        const interval = await rockPaperMatchmaker.WINDOW_GROWTH_INTERVAL();
+
+        const intervals = (gap - base + growth - 1n) / growth;
+        const inRangeAt = (await rockPaperMatchmaker.queuedAt(players[1].address)) + intervals * interval;
+
+        const [window, expectedWait] = await rockPaperMatchmaker.getQueueStatus(players[0].address);
+        expect(window).to.equal(base);
+        expect(expectedWait).to.equal(inRangeAt - BigInt(await time.latest()));
+      });
+
+      it("Should pair the players once the window has widened", async function () {
+        await rockPaperMatchmaker.connect(players[0]).joinQueue();
+
+        // Still out of range: retrying keeps the player waiting
+        await expect(rockPaperMatchmaker.connect(players[0]).retryQueue()).not.to.emit(
+          rockPaperMatchmaker,
+          "QueueMatched"
+        );
+
+        const [, expectedWait] = await rockPaperMatchmaker.getQueueStatus(players[0].address);
+        await time.increase(expectedWait);
+
+        expect((await rockPaperMatchmaker.getQueueStatus(players[0].address)).expectedWait).to.equal(0n);
+        expect(await rockPaperMatchmaker.ratingWindow(players[1].address)).to.be.at.least(gap);
+
+        await expect(rockPaperMatchmaker.connect(players[0]).retryQueue())
+          .to.emit(rockPaperMatchmaker, "QueueMatched")
+          .withArgs(3n, players[1].address, players[0].address);
+
+        expect(await rockPaperMatchmaker.getQueuePosition(players[0].address)).to.equal(0n);
+        expect(await rockPaperMatchmaker.getQueuePosition(players[1].address)).to.equal(0n);
+        expect(await rockPaperMatchmaker.queuedAt(players[0].address)).to.equal(0n);
+      });
+
+      it("Should pair two waiting players once their windows overlap", async function () {
+        await rockPaperMatchmaker.connect(players[0]).joinQueue();
+
+        // Both wait until their widened windows overlap, which is what the lobby polls for
+        const [, expectedWait] = await rockPaperMatchmaker.getQueueStatus(players[1].address);
+        await time.increase(expectedWait);
+
+        expect((await rockPaperMatchmaker.getQueueStatus(players[0].address)).expectedWait).to.equal(0n);
+        expect((await rockPaperMatchmaker.getQueueStatus(players[1].address)).expectedWait).to.equal(0n);
+        expect(await rockPaperMatchmaker.getQueuePosition(players[0].address)).to.equal(2n);
+
+        // Either lobby retrying pairs them; the older player's lobby gets there first here
+        await expect(rockPaperMatchmaker.connect(players[1]).retryQueue())
+          .to.emit(rockPaperMatchmaker, "QueueMatched")
+          .withArgs(3n, players[0].address, players[1].address);
+
+        expect(await rockPaperMatchmaker.getQueuePosition(players[0].address)).to.equal(0n);
+        expect(await rockPaperMatchmaker.getQueuePosition(players[1].address)).to.equal(0n);
+
+        // The other lobby's retry finds them no longer queued
+        await expect(rockPaperMatchmaker.connect(players[0]).retryQueue()).to.be.revertedWithCustomError(
+          rockPaperMatchmaker,
+          "NotQueued"
+        );
+      });
+    });
+  });
+
+  /* ========================================
+   * 4. QUEUE SCAN
+   * ======================================== */
+
+  describe("4. Queue Scan", function () {
+    it("Should keep joining the queue at constant gas however long it grows", async function () {
+      this.timeout(600000);
+
+      // Ratings far apart, so nobody in the queue is ever in range of anybody else
+      const mockArena = await new MockRatingArena__factory(owner).deploy();
+      const matchmaker = await new RockPaperMatchmaker__factory(owner).deploy(await mockArena.getAddress());
+      let nextRating = 0n;
+
+      const join = async () => {
+        const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+        await setBalance(wallet.address, ethers.parseEther("1"));
+        nextRating += 1_000_000n;
+        await mockArena.setRating(wallet.address, nextRating);
+        return (await (await matchmaker.connect(wallet).joinQueue()).wait())!;
+      };
+
+      const maxScan = await matchmaker.MAX_QUEUE_SCAN();
+      for (let i = 0n; i < maxScan; i++) {
+        await join();
+      }
+      const small = await join();
+
+      for (let i = 0n; i < 3n * maxScan; i++) {
+        await join();
+      }
+      const large = await join();
+
+      expect(await matchmaker.queueHead()).to.equal(0n);
+      expect(await mockArena.matchCount()).to.equal(0n);
+
+      // Each checked entry costs several cold reads and external calls, so an unbounded
+      // scan of the longer queue would cost far more
+      expect(large.gasUsed).to.be.lte(small.gasUsed + 10000n);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * RockPaperPrivateStats Test Suite
+ *
+ * Tests cover:
+ * 1. Privacy mode and registration
+ * 2. Homomorphic win/loss counting
+ * 3. Publishing the encrypted counters
+ */
+
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { RockPaperArena, RockPaperPrivateStats } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { createInstances } from "../test-utils/instance";
+import { Gesture, commit } from "../test-utils/moves";
+import { getSigners, initSigners } from "../test-utils/signers";
+import { deployRockPaperPrivateStatsFixture } from "./fixtures/RockPaperPrivateStats.fixture";
+
+describe("RockPaperPrivateStats - Privacy Test Suite", function () {
+  let rockPaperArena: RockPaperArena;
+  let rockPaperPrivateStats: RockPaperPrivateStats;
+  let statsAddress: string;
+  let owner: HardhatEthersSigner;
+  let players: HardhatEthersSigner[];
+  let instances: any;
+
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    const deployment = await deployRockPaperPrivateStatsFixture();
+    rockPaperArena = deployment.rockPaperArena;
+    rockPaperPrivateStats = deployment.rockPaperPrivateStats;
+    owner = deployment.owner;
+    players = deployment.players;
+    statsAddress = await rockPaperPrivateStats.getAddress();
+
+    instances = await createInstances(await rockPaperArena.getAddress(), ethers, this.signers);
+  });
+
+  /**
+   * Open a free match between both players and return its ID
+   */
+  async function openMatch() {
+    await rockPaperArena.connect(players[0]).createChallenge();
+    const matchId = (await rockPaperArena.matchCounter()) - 1n;
+    await rockPaperArena.connect(players[1]).acceptChallenge(matchId);
+    return matchId;
+  }
+
+  /**
+   * Play a free match to the end, publicly decrypting the result
+   */
+  async function playMatch(gesture1: Gesture, gesture2: Gesture) {
+    const matchId = await openMatch();
+    await commit(rockPaperArena, instances, players, 0, matchId, gesture1);
+    await commit(rockPaperArena, instances, players, 1, matchId, gesture2);
+    await rockPaperArena.connect(players[0]).requestReveal(matchId);
+
+    const match = await rockPaperArena.getMatch(matchId);
+    const decrypted = await fhevm.publicDecrypt([match.result]);
+    await rockPaperArena.finalizeReveal(matchId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+  }
+
+  /**
+   * Decrypt a player's private counters as that player
+   */
+  async function decryptRecord(player: HardhatEthersSigner) {
+    const [wins, losses] = await rockPaperPrivateStats.getPrivateStats(await rockPaperArena.currentSeason(), player.address);
+    return [
+      await fhevm.userDecryptEuint(FhevmType.euint32, wins, statsAddress, player),
+      await fhevm.userDecryptEuint(FhevmType.euint32, losses, statsAddress, player),
+    ];
+  }
+
+  /* ========================================
+   * 1. PRIVACY MODE
+   * ======================================== */
+
+  describe("1. Privacy Mode", function () {
+    it("Should start a player's encrypted record at zero", async function () {
+      await expect(rockPaperPrivateStats.connect(players[0]).setPrivacyMode(true))
+        .to.emit(rockPaperPrivateStats, "PrivacyModeChanged")
+        .withArgs(players[0].address, true);
+
+      expect(await rockPaperPrivateStats.privacyMode(players[0].address)).to.equal(true);
+      expect(await decryptRecord(players[0])).to.deep.equal([0n, 0n]);
+    });
+
+    it("Should only accept results from the arena", async function () {
+      await expect(
+        rockPaperPrivateStats.connect(owner).recordResult(players[0].address, players[1].address, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(rockPaperPrivateStats, "NotArena");
+    });
+
+    it("Should only let the owner register the private stats contract once", async function () {
+      await expect(
+        rockPaperArena.connect(owner).setPrivateStats(players[0].address)
+      ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedManager");
+    });
+  });
+
+  /* ========================================
+   * 2. COUNTING
+   * ======================================== */
+
+  describe("2. Counting", function () {
+    it("Should count a private win homomorphically and keep it out of the public stats", async function () {
+      await rockPaperPrivateStats.connect(players[0]).setPrivacyMode(true);
+
+      await playMatch(Gesture.Paper, Gesture.Rock);
+
+      const stats1 = await rockPaperArena.getPlayerStats(players[0].address);
+      expect(stats1.wins).to.equal(0n);
+      expect(stats1.currentStreak).to.equal(0n);
+      expect(stats1.totalMatches).to.equal(1n);
+
+      // The public opponent's loss is still recorded as usual
+      const stats2 = await rockPaperArena.getPlayerStats(players[1].address);
+      expect(stats2.losses).to.equal(1n);
+
+      expect(await decryptRecord(players[0])).to.deep.equal([1n, 0n]);
+    });
+
+    it("Should keep the counters decryptable by their owner only", async function () {
+      await rockPaperPrivateStats.connect(players[0]).setPrivacyMode(true);
+      await playMatch(Gesture.Paper, Gesture.Rock);
+
+      const [wins] = await rockPaperPrivateStats.getPrivateStats(1, players[0].address);
+      await expect(
+        fhevm.userDecryptEuint(FhevmType.euint32, wins, statsAddress, players[1])
+      ).to.be.rejected;
+    });
+
+    it("Should count losses and leave draws public", async function () {
+      await rockPaperPrivateStats.connect(players[0]).setPrivacyMode(true);
+      await rockPaperPrivateStats.connect(players[1]).setPrivacyMode(true);
+
+      await playMatch(Gesture.Rock, Gesture.Paper);
+      await playMatch(Gesture.Scissors, Gesture.Scissors);
+
+      expect(await decryptRecord(players[0])).to.deep.equal([0n, 1n]);
+      expect(await decryptRecord(players[1])).to.deep.equal([1n, 0n]);
+
+      const stats1 = await rockPaperArena.getPlayerStats(players[0].address);
+      expect(stats1.losses).to.equal(0n);
+      expect(stats1.draws).to.equal(1n);
+    });
+
+    it("Should count forfeits", async function () {
+      await rockPaperPrivateStats.connect(players[0]).setPrivacyMode(true);
+
+      const matchId = await openMatch();
+      await commit(rockPaperArena, instances, players, 0, matchId, Gesture.Rock);
+      await time.increase(await rockPaperArena.COMMIT_WINDOW());
+      await rockPaperArena.connect(players[0]).claimTimeout(matchId);
+
+      expect(await decryptRecord(players[0])).to.deep.equal([1n, 0n]);
+      expect((await rockPaperArena.getPlayerStats(players[0].address)).wins).to.equal(0n);
+    });
+
+    it("Should record wins publicly again once privacy mode is off", async function () {
+      await rockPaperPrivateStats.connect(players[0]).setPrivacyMode(true);
+      await playMatch(Gesture.Paper, Gesture.Rock);
+
+      await rockPaperPrivateStats.connect(players[0]).setPrivacyMode(false);
+      await playMatch(Gesture.Paper, Gesture.Rock);
+
+      expect((await rockPaperArena.getPlayerStats(players[0].address)).wins).to.equal(1n);
+      expect(await decryptRecord(players[0])).to.deep.equal([1n, 0n]);
+    });
+  });
+
+  /* ========================================
+   * 3. PUBLISHING
+   * ======================================== */
+
+  describe("3. Publishing", function () {
+    it("Should reject publishing outside privacy mode", async function () {
+      await expect(
+        rockPaperPrivateStats.connect(players[0]).publishStats()
+      ).to.be.revertedWithCustomError(rockPaperPrivateStats, "PrivacyModeOff");
+    });
+
+    it("Should make the counters publicly decryptable, including later updates", async function () {
+      await rockPaperPrivateStats.connect(players[0]).setPrivacyMode(true);
+      await playMatch(Gesture.Paper, Gesture.Rock);
+
+      await expect(rockPaperPrivateStats.connect(players[0]).publishStats())
+        .to.emit(rockPaperPrivateStats, "StatsPublished")
+        .withArgs(players[0].address);
+
+      let [wins, losses] = await rockPaperPrivateStats.getPrivateStats(1, players[0].address);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, wins)).to.equal(1n);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, losses)).to.equal(0n);
+
+      await playMatch(Gesture.Rock, Gesture.Paper);
+
+      [wins, losses] = await rockPaperPrivateStats.getPrivateStats(1, players[0].address);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, wins)).to.equal(1n);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, losses)).to.equal(1n);
+    });
+  });
+});
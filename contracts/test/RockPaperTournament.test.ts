@@ -0,0 +1,347 @@
+/**
+ * RockPaperTournament Test Suite
+ *
+ * Tests cover:
+ * 1. Bracket creation and registration
+ * 2. Pairing through managed arena matches
+ * 3. Advancement on decrypted results, walkovers and prizes
+ */
+
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { RockPaperArena, RockPaperTournament, RockPaperTournament__factory } from "../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { createInstances } from "../test-utils/instance";
+import { Gesture, commit } from "../test-utils/moves";
+import { getSigners, initSigners } from "../test-utils/signers";
+import { deployRockPaperTournamentFixture } from "./fixtures/RockPaperTournament.fixture";
+
+describe("RockPaperTournament - Bracket Test Suite", function () {
+  let rockPaperArena: RockPaperArena;
+  let rockPaperTournament: RockPaperTournament;
+  let owner: HardhatEthersSigner;
+  let players: HardhatEthersSigner[];
+  let instances: any;
+
+  const entryFee = ethers.parseEther("1");
+  const sponsorPot = ethers.parseEther("2");
+
+  // Tournament states enum
+  enum TournamentState {
+    None = 0,
+    Registration = 1,
+    Running = 2,
+    Completed = 3,
+    Cancelled = 4,
+  }
+
+  before(async function () {
+    await initSigners();
+    this.signers = await getSigners();
+  });
+
+  beforeEach(async function () {
+    const deployment = await deployRockPaperTournamentFixture();
+    rockPaperArena = deployment.rockPaperArena;
+    rockPaperTournament = deployment.rockPaperTournament;
+    owner = deployment.owner;
+    players = deployment.players;
+
+    instances = await createInstances(await rockPaperArena.getAddress(), ethers, this.signers);
+  });
+
+  /**
+   * Play one round of an arena match to the end, publicly decrypting the result
+   */
+  async function playRound(matchId: bigint, seat1: number, gesture1: Gesture, seat2: number, gesture2: Gesture) {
+    await commit(rockPaperArena, instances, players, seat1, matchId, gesture1);
+    await commit(rockPaperArena, instances, players, seat2, matchId, gesture2);
+    await rockPaperArena.connect(players[seat1]).requestReveal(matchId);
+
+    const match = await rockPaperArena.getMatch(matchId);
+    const decrypted = await fhevm.publicDecrypt([match.result]);
+    return rockPaperArena.finalizeReveal(matchId, decrypted.abiEncodedClearValues, decrypted.decryptionProof);
+  }
+
+  /**
+   * Open a 4-player bracket and fill it
+   */
+  async function createFullBracket() {
+    await rockPaperTournament.connect(owner).createTournament(4, entryFee, 1, { value: sponsorPot });
+    for (const player of players) {
+      await rockPaperTournament.connect(player).register(1, { value: entryFee });
+    }
+  }
+
+  /* ========================================
+   * 1. CREATION & REGISTRATION
+   * ======================================== */
+
+  describe("1. Creation & Registration", function () {
+    it("Should create a bracket with a sponsor pot", async function () {
+      await expect(rockPaperTournament.connect(owner).createTournament(4, entryFee, 1, { value: sponsorPot }))
+        .to.emit(rockPaperTournament, "TournamentCreated")
+        .withArgs(1n, owner.address, 4, entryFee, sponsorPot);
+
+      const tournament = await rockPaperTournament.getTournament(1);
+      expect(tournament.state).to.equal(TournamentState.Registration);
+      expect(tournament.prizePool).to.equal(sponsorPot);
+      expect(tournament.size).to.equal(4);
+    });
+
+    it("Should reject unsupported bracket sizes and series lengths", async function () {
+      await expect(
+        rockPaperTournament.createTournament(6, entryFee, 1)
+      ).to.be.revertedWithCustomError(rockPaperTournament, "InvalidBracketSize");
+
+      await expect(
+        rockPaperTournament.createTournament(32, entryFee, 1)
+      ).to.be.revertedWithCustomError(rockPaperTournament, "InvalidBracketSize");
+
+      await expect(
+        rockPaperTournament.createTournament(4, entryFee, 2)
+      ).to.be.revertedWithCustomError(rockPaperTournament, "InvalidSeriesLength");
+    });
+
+    it("Should require the exact entry fee and one seat per player", async function () {
+      await rockPaperTournament.connect(owner).createTournament(4, entryFee, 1);
+
+      await expect(
+        rockPaperTournament.connect(players[0]).register(1)
+      ).to.be.revertedWithCustomError(rockPaperTournament, "EntryFeeMismatch");
+
+      await rockPaperTournament.connect(players[0]).register(1, { value: entryFee });
+
+      await expect(
+        rockPaperTournament.connect(players[0]).register(1, { value: entryFee })
+      ).to.be.revertedWithCustomError(rockPaperTournament, "AlreadyRegistered");
+    });
+
+    it("Should start the bracket and open first-round matches when full", async function () {
+      await createFullBracket();
+
+      const tournament = await rockPaperTournament.getTournament(1);
+      expect(tournament.state).to.equal(TournamentState.Running);
+      expect(tournament.prizePool).to.equal(sponsorPot + entryFee * 4n);
+
+      const bracket = await rockPaperTournament.getBracket(1);
+      expect(bracket.length).to.equal(3);
+      expect(bracket[0].arenaMatchId).to.equal(1n);
+      expect(bracket[1].arenaMatchId).to.equal(2n);
+
+      const match = await rockPaperArena.getMatch(1);
+      expect(match.player1).to.equal(players[0].address);
+      expect(match.player2).to.equal(players[1].address);
+      expect(match.manager).to.equal(await rockPaperTournament.getAddress());
+      expect(match.commitDeadline).to.be.greaterThan(0n);
+
+      await expect(
+        rockPaperTournament.connect(owner).register(1, { value: entryFee })
+      ).to.be.revertedWithCustomError(rockPaperTournament, "RegistrationClosed");
+    });
+
+    it("Should refund everyone when the organizer cancels during registration", async function () {
+      await rockPaperTournament.connect(owner).createTournament(4, entryFee, 1, { value: sponsorPot });
+      await rockPaperTournament.connect(players[0]).register(1, { value: entryFee });
+
+      await expect(
+        rockPaperTournament.connect(players[0]).cancelTournament(1)
+      ).to.be.revertedWithCustomError(rockPaperTournament, "NotOrganizer");
+
+      await expect(rockPaperTournament.connect(owner).cancelTournament(1))
+        .to.emit(rockPaperTournament, "TournamentCancelled")
+        .withArgs(1n);
+
+      expect(await rockPaperTournament.pendingPrizes(players[0].address)).to.equal(entryFee);
+      expect(await rockPaperTournament.pendingPrizes(owner.address)).to.equal(sponsorPot);
+    });
+  });
+
+  /* ========================================
+   * 2. PAIRING
+   * ======================================== */
+
+  describe("2. Pairing", function () {
+    it("Should only accept results from the arena", async function () {
+      await expect(
+        rockPaperTournament.connect(owner).onMatchEnded(1, players[0].address)
+      ).to.be.revertedWithCustomError(rockPaperTournament, "NotArena");
+    });
+
+    it("Should leave a pairing for startMatch while a player has no free match slot", async function () {
+      const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+      for (let i = 0n; i < maxActive; i++) {
+        await rockPaperArena.connect(players[0]).createChallenge();
+      }
+      await createFullBracket();
+
+      let bracket = await rockPaperTournament.getBracket(1);
+      expect(bracket[0].arenaMatchId).to.equal(0n);
+      expect(bracket[1].arenaMatchId).to.equal(maxActive + 1n);
+
+      await expect(rockPaperTournament.startMatch(1, 0)).to.be.revertedWithCustomError(
+        rockPaperArena,
+        "TooManyActiveMatches"
+      );
+
+      await rockPaperArena.connect(players[0]).cancelMatch(1);
+      await expect(rockPaperTournament.startMatch(1, 0))
+        .to.emit(rockPaperTournament, "BracketMatchOpened")
+        .withArgs(1n, 0n, maxActive + 2n);
+
+      bracket = await rockPaperTournament.getBracket(1);
+      expect(bracket[0].arenaMatchId).to.equal(maxActive + 2n);
+    });
+
+    it("Should give a walkover to the player who can play once the start deadline passes", async function () {
+      const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+      for (let i = 0n; i < maxActive; i++) {
+        await rockPaperArena.connect(players[0]).createChallenge();
+      }
+      await createFullBracket();
+
+      const bracket = await rockPaperTournament.getBracket(1);
+      expect(bracket[0].startDeadline).to.equal(
+        BigInt(await time.latest()) + (await rockPaperTournament.START_WINDOW())
+      );
+      expect(bracket[1].startDeadline).to.equal(0n);
+
+      await expect(rockPaperTournament.claimWalkover(1, 0)).to.be.revertedWithCustomError(
+        rockPaperTournament,
+        "DeadlineNotReached"
+      );
+      await expect(rockPaperTournament.claimWalkover(1, 1)).to.be.revertedWithCustomError(
+        rockPaperTournament,
+        "MatchNotReady"
+      );
+
+      await time.increaseTo(bracket[0].startDeadline);
+      await expect(rockPaperTournament.claimWalkover(1, 0))
+        .to.emit(rockPaperTournament, "BracketMatchDecided")
+        .withArgs(1n, 0n, players[1].address);
+
+      const pairing = (await rockPaperTournament.getBracket(1))[0];
+      expect(pairing.decided).to.be.true;
+      expect(pairing.winner).to.equal(players[1].address);
+    });
+
+    it("Should not give a walkover once both players can play", async function () {
+      const maxActive = await rockPaperArena.MAX_ACTIVE_MATCHES();
+      for (let i = 0n; i < maxActive; i++) {
+        await rockPaperArena.connect(players[0]).createChallenge();
+      }
+      await createFullBracket();
+      await rockPaperArena.connect(players[0]).cancelMatch(1);
+
+      await time.increase(await rockPaperTournament.START_WINDOW());
+      await expect(rockPaperTournament.claimWalkover(1, 0)).to.be.revertedWithCustomError(
+        rockPaperTournament,
+        "MatchNotReady"
+      );
+      await expect(rockPaperTournament.startMatch(1, 0)).to.emit(rockPaperTournament, "BracketMatchOpened");
+    });
+
+    it("Should revert registration when the arena rejects the bracket match", async function () {
+      // A tournament the arena does not accept as match manager
+      const unregistered = await new RockPaperTournament__factory(owner).deploy(await rockPaperArena.getAddress());
+
+      await unregistered.connect(owner).createTournament(4, entryFee, 1);
+      for (const player of players.slice(0, 3)) {
+        await unregistered.connect(player).register(1, { value: entryFee });
+      }
+
+      await expect(
+        unregistered.connect(players[3]).register(1, { value: entryFee })
+      ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedManager");
+    });
+
+    it("Should open a pairing while a player has other open challenges", async function () {
+      await rockPaperArena.connect(players[0]).createChallenge();
+      await createFullBracket();
+
+      const bracket = await rockPaperTournament.getBracket(1);
+      expect(bracket[0].arenaMatchId).to.equal(2n);
+      expect(await rockPaperArena.getActiveMatches(players[0].address)).to.deep.equal([1n, 2n]);
+    });
+
+    it("Should replay a drawn bracket round", async function () {
+      await createFullBracket();
+
+      await playRound(1n, 0, Gesture.Rock, 1, Gesture.Rock);
+
+      const match = await rockPaperArena.getMatch(1);
+      expect(match.state).to.equal(1); // Waiting for the replay
+      expect(match.roundsPlayed).to.equal(1);
+    });
+  });
+
+  /* ========================================
+   * 3. ADVANCEMENT & PRIZES
+   * ======================================== */
+
+  describe("3. Advancement & Prizes", function () {
+    beforeEach(async function () {
+      await createFullBracket();
+    });
+
+    it("Should open the final once both semi-finals are decided", async function () {
+      await expect(playRound(1n, 0, Gesture.Paper, 1, Gesture.Rock))
+        .to.emit(rockPaperTournament, "BracketMatchDecided")
+        .withArgs(1n, 0n, players[0].address);
+
+      let bracket = await rockPaperTournament.getBracket(1);
+      expect(bracket[2].player1).to.equal(players[0].address);
+      expect(bracket[2].arenaMatchId).to.equal(0n);
+
+      await playRound(2n, 2, Gesture.Rock, 3, Gesture.Scissors);
+
+      bracket = await rockPaperTournament.getBracket(1);
+      expect(bracket[2].player2).to.equal(players[2].address);
+      expect(bracket[2].arenaMatchId).to.equal(3n);
+    });
+
+    it("Should crown the champion and split the prize pool", async function () {
+      await playRound(1n, 0, Gesture.Paper, 1, Gesture.Rock);
+      await playRound(2n, 2, Gesture.Rock, 3, Gesture.Scissors);
+
+      await expect(playRound(3n, 0, Gesture.Rock, 2, Gesture.Paper))
+        .to.emit(rockPaperTournament, "TournamentCompleted")
+        .withArgs(1n, players[2].address, players[0].address);
+
+      const tournament = await rockPaperTournament.getTournament(1);
+      expect(tournament.state).to.equal(TournamentState.Completed);
+      expect(tournament.champion).to.equal(players[2].address);
+
+      const pool = sponsorPot + entryFee * 4n;
+      const championPrize = (pool * 7000n) / 10000n;
+      expect(await rockPaperTournament.pendingPrizes(players[2].address)).to.equal(championPrize);
+      expect(await rockPaperTournament.pendingPrizes(players[0].address)).to.equal(pool - championPrize);
+
+      await expect(rockPaperTournament.connect(players[2]).claimPrizes())
+        .to.emit(rockPaperTournament, "PrizesClaimed")
+        .withArgs(players[2].address, championPrize);
+      expect(await rockPaperTournament.pendingPrizes(players[2].address)).to.equal(0n);
+    });
+
+    it("Should advance the opponent on a walkover when a match is voided", async function () {
+      await playRound(2n, 2, Gesture.Rock, 3, Gesture.Scissors);
+
+      // Neither semi-finalist of match 1 commits
+      await time.increase(await rockPaperArena.COMMIT_WINDOW());
+      await rockPaperArena.connect(players[0]).claimTimeout(1);
+
+      const tournament = await rockPaperTournament.getTournament(1);
+      expect(tournament.state).to.equal(TournamentState.Completed);
+      expect(tournament.champion).to.equal(players[2].address);
+      expect(tournament.runnerUp).to.equal(ethers.ZeroAddress);
+      expect(await rockPaperTournament.pendingPrizes(players[2].address)).to.equal(sponsorPot + entryFee * 4n);
+    });
+
+    it("Should not let a bracket player leave the arena match", async function () {
+      await expect(
+        rockPaperArena.connect(players[1]).leaveMatch(1)
+      ).to.be.revertedWithCustomError(rockPaperArena, "UnauthorizedPlayer");
+    });
+  });
+});
@@ -8,7 +8,8 @@
  */
 
 import { ethers } from "hardhat";
-import { RockPaperArena } from "../../types";
+import { BaseContract, ContractTransactionResponse } from "ethers";
+import { RockPaperArena, RockPaperArena__factory } from "../../types";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
 /**
@@ -22,19 +23,67 @@ export interface RockPaperArenaFixture {
   player3: HardhatEthersSigner;
 }
 
+/**
+ * Deploy a RockPaperArena contract
+ *
+ * Shared by the fixtures of contracts built on the arena, which add their own
+ * contract and register it with the arena.
+ *
+ * @param owner - Deployer, who becomes the arena owner
+ * @param autoSettle - Settle rounds inside submitMove (defaults to manual requestReveal)
+ * @returns The deployed arena
+ */
+export async function deployArena(owner: HardhatEthersSigner, autoSettle: boolean = false): Promise<RockPaperArena> {
+  const rockPaperArena = await new RockPaperArena__factory(owner).deploy(autoSettle);
+  await rockPaperArena.waitForDeployment();
+
+  return rockPaperArena;
+}
+
+/**
+ * Deploy an arena together with a contract built on it
+ *
+ * Shared wiring of the fixtures of those contracts: the owner deploys the arena,
+ * then the contract, and registers the contract with the arena.
+ *
+ * @param deploy - Deploys the contract from the owner, given the arena address
+ * @param register - Registers the deployed contract's address with the arena
+ * @param playerCount - Number of signers after the owner to return as players
+ * @returns The arena, the deployed contract, the owner and the players
+ */
+export async function deployOnArena<T extends BaseContract>(
+  deploy: (owner: HardhatEthersSigner, arenaAddress: string) => Promise<T>,
+  register: (arena: RockPaperArena, address: string) => Promise<ContractTransactionResponse>,
+  playerCount: number
+): Promise<{ rockPaperArena: RockPaperArena; contract: T; owner: HardhatEthersSigner; players: HardhatEthersSigner[] }> {
+  const [owner, ...signers] = await ethers.getSigners();
+
+  const rockPaperArena = await deployArena(owner);
+  const contract = await deploy(owner, await rockPaperArena.getAddress());
+  await contract.waitForDeployment();
+
+  await register(rockPaperArena, await contract.getAddress());
+
+  return {
+    rockPaperArena,
+    contract,
+    owner,
+    players: signers.slice(0, playerCount),
+  };
+}
+
 /**
  * Deploy RockPaperArena contract with default configuration
  *
+ * @param autoSettle - Settle rounds inside submitMove (defaults to manual requestReveal)
  * @returns Deployment fixture with contract and signers
  */
-export async function deployRockPaperArenaFixture(): Promise<RockPaperArenaFixture> {
+export async function deployRockPaperArenaFixture(autoSettle: boolean = false): Promise<RockPaperArenaFixture> {
   // Get signers
   const [owner, player1, player2, player3] = await ethers.getSigners();
 
   // Deploy contract
-  const RockPaperArenaFactory = await ethers.getContractFactory("RockPaperArena");
-  const rockPaperArena = (await RockPaperArenaFactory.deploy()) as any as RockPaperArena;
-  await rockPaperArena.waitForDeployment();
+  const rockPaperArena = await deployArena(owner, autoSettle);
 
   return {
     rockPaperArena,
@@ -0,0 +1,40 @@
+/**
+ * Test Fixtures for RockPaperForwarder
+ *
+ * Deploys an arena together with the move forwarder registered
+ * to submit signed moves on the players' behalf.
+ *
+ * @module test/fixtures
+ */
+
+import { RockPaperArena, RockPaperForwarder, RockPaperForwarder__factory } from "../../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { deployOnArena } from "./RockPaperArena.fixture";
+
+/**
+ * Deployment fixture return type
+ */
+export interface RockPaperForwarderFixture {
+  rockPaperArena: RockPaperArena;
+  rockPaperForwarder: RockPaperForwarder;
+  owner: HardhatEthersSigner;
+  players: HardhatEthersSigner[];
+  relayer: HardhatEthersSigner;
+}
+
+/**
+ * Deploy RockPaperArena and RockPaperForwarder, and register the forwarder with the arena
+ *
+ * @returns Deployment fixture with both contracts, the owner, two players and a relayer
+ */
+export async function deployRockPaperForwarderFixture(): Promise<RockPaperForwarderFixture> {
+  // The relayer is the signer after the two players
+  const { rockPaperArena, contract, owner, players } = await deployOnArena(
+    (owner, arenaAddress) => new RockPaperForwarder__factory(owner).deploy(arenaAddress),
+    (arena, forwarderAddress) => arena.setMoveForwarder(forwarderAddress),
+    3
+  );
+  const [player1, player2, relayer] = players;
+
+  return { rockPaperArena, rockPaperForwarder: contract, owner, players: [player1, player2], relayer };
+}
@@ -0,0 +1,37 @@
+/**
+ * Test Fixtures for RockPaperMatchmaker
+ *
+ * Deploys an arena together with the matchmaking queue registered
+ * as its matchmaker.
+ *
+ * @module test/fixtures
+ */
+
+import { RockPaperArena, RockPaperMatchmaker, RockPaperMatchmaker__factory } from "../../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { deployOnArena } from "./RockPaperArena.fixture";
+
+/**
+ * Deployment fixture return type
+ */
+export interface RockPaperMatchmakerFixture {
+  rockPaperArena: RockPaperArena;
+  rockPaperMatchmaker: RockPaperMatchmaker;
+  owner: HardhatEthersSigner;
+  players: HardhatEthersSigner[];
+}
+
+/**
+ * Deploy RockPaperArena and RockPaperMatchmaker, and register the matchmaker with the arena
+ *
+ * @returns Deployment fixture with both contracts, the owner and four players
+ */
+export async function deployRockPaperMatchmakerFixture(): Promise<RockPaperMatchmakerFixture> {
+  const { rockPaperArena, contract, owner, players } = await deployOnArena(
+    (owner, arenaAddress) => new RockPaperMatchmaker__factory(owner).deploy(arenaAddress),
+    (arena, matchmakerAddress) => arena.setMatchmaker(matchmakerAddress),
+    4
+  );
+
+  return { rockPaperArena, rockPaperMatchmaker: contract, owner, players };
+}
@@ -0,0 +1,37 @@
+/**
+ * Test Fixtures for RockPaperPrivateStats
+ *
+ * Deploys an arena together with the private stats contract registered
+ * to count the records of players in privacy mode.
+ *
+ * @module test/fixtures
+ */
+
+import { RockPaperArena, RockPaperPrivateStats, RockPaperPrivateStats__factory } from "../../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { deployOnArena } from "./RockPaperArena.fixture";
+
+/**
+ * Deployment fixture return type
+ */
+export interface RockPaperPrivateStatsFixture {
+  rockPaperArena: RockPaperArena;
+  rockPaperPrivateStats: RockPaperPrivateStats;
+  owner: HardhatEthersSigner;
+  players: HardhatEthersSigner[];
+}
+
+/**
+ * Deploy RockPaperArena and RockPaperPrivateStats, and register the stats contract with the arena
+ *
+ * @returns Deployment fixture with both contracts, the owner and two players
+ */
+export async function deployRockPaperPrivateStatsFixture(): Promise<RockPaperPrivateStatsFixture> {
+  const { rockPaperArena, contract, owner, players } = await deployOnArena(
+    (owner, arenaAddress) => new RockPaperPrivateStats__factory(owner).deploy(arenaAddress),
+    (arena, privateStatsAddress) => arena.setPrivateStats(privateStatsAddress),
+    2
+  );
+
+  return { rockPaperArena, rockPaperPrivateStats: contract, owner, players };
+}
@@ -0,0 +1,37 @@
+/**
+ * Test Fixtures for RockPaperTournament
+ *
+ * Deploys an arena together with the tournament contract registered
+ * as its match manager.
+ *
+ * @module test/fixtures
+ */
+
+import { RockPaperArena, RockPaperTournament, RockPaperTournament__factory } from "../../types";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { deployOnArena } from "./RockPaperArena.fixture";
+
+/**
+ * Deployment fixture return type
+ */
+export interface RockPaperTournamentFixture {
+  rockPaperArena: RockPaperArena;
+  rockPaperTournament: RockPaperTournament;
+  owner: HardhatEthersSigner;
+  players: HardhatEthersSigner[];
+}
+
+/**
+ * Deploy RockPaperArena and RockPaperTournament, and register the tournament as match manager
+ *
+ * @returns Deployment fixture with both contracts, the organizer and four players
+ */
+export async function deployRockPaperTournamentFixture(): Promise<RockPaperTournamentFixture> {
+  const { rockPaperArena, contract, owner, players } = await deployOnArena(
+    (owner, arenaAddress) => new RockPaperTournament__factory(owner).deploy(arenaAddress),
+    (arena, tournamentAddress) => arena.setMatchManager(tournamentAddress),
+    4
+  );
+
+  return { rockPaperArena, rockPaperTournament: contract, owner, players };
+}
@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IERC7984 } from "./IERC7984";
+export type { IERC7984Receiver } from "./IERC7984Receiver";
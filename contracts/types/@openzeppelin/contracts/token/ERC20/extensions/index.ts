@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ERC20Permit } from "./ERC20Permit";
+export type { IERC20Metadata } from "./IERC20Metadata";
+export type { IERC20Permit } from "./IERC20Permit";
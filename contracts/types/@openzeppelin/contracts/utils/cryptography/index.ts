@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { ECDSA } from "./ECDSA";
+export type { EIP712 } from "./EIP712";
+export type { MessageHashUtils } from "./MessageHashUtils";
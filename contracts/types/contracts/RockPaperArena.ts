@@ -30,11 +30,27 @@ export declare namespace RockPaperArena {
     player2: AddressLike;
     move1: BytesLike;
     move2: BytesLike;
+    result: BytesLike;
     player1Committed: boolean;
     player2Committed: boolean;
     createdAt: BigNumberish;
+    commitDeadline: BigNumberish;
     state: BigNumberish;
     winner: AddressLike;
+    stake: BigNumberish;
+    stakeToken: AddressLike;
+    confidentialToken: AddressLike;
+    encryptedStake1: BytesLike;
+    encryptedStake2: BytesLike;
+    bestOf: BigNumberish;
+    roundsPlayed: BigNumberish;
+    score1: BigNumberish;
+    score2: BigNumberish;
+    invitedOpponent: AddressLike;
+    inviteCodeSigner: AddressLike;
+    abortRequestedBy: AddressLike;
+    manager: AddressLike;
+    ruleSet: BigNumberish;
   };
 
   export type MatchStructOutput = [
@@ -43,22 +59,54 @@ export declare namespace RockPaperArena {
     player2: string,
     move1: string,
     move2: string,
+    result: string,
     player1Committed: boolean,
     player2Committed: boolean,
     createdAt: bigint,
+    commitDeadline: bigint,
     state: bigint,
-    winner: string
+    winner: string,
+    stake: bigint,
+    stakeToken: string,
+    confidentialToken: string,
+    encryptedStake1: string,
+    encryptedStake2: string,
+    bestOf: bigint,
+    roundsPlayed: bigint,
+    score1: bigint,
+    score2: bigint,
+    invitedOpponent: string,
+    inviteCodeSigner: string,
+    abortRequestedBy: string,
+    manager: string,
+    ruleSet: bigint
   ] & {
     matchId: bigint;
     player1: string;
     player2: string;
     move1: string;
     move2: string;
+    result: string;
     player1Committed: boolean;
     player2Committed: boolean;
     createdAt: bigint;
+    commitDeadline: bigint;
     state: bigint;
     winner: string;
+    stake: bigint;
+    stakeToken: string;
+    confidentialToken: string;
+    encryptedStake1: string;
+    encryptedStake2: string;
+    bestOf: bigint;
+    roundsPlayed: bigint;
+    score1: bigint;
+    score2: bigint;
+    invitedOpponent: string;
+    inviteCodeSigner: string;
+    abortRequestedBy: string;
+    manager: string;
+    ruleSet: bigint;
   };
 
   export type PlayerStatsStruct = {
@@ -67,6 +115,9 @@ export declare namespace RockPaperArena {
     draws: BigNumberish;
     totalMatches: BigNumberish;
     currentStreak: BigNumberish;
+    bestStreak: BigNumberish;
+    abandoned: BigNumberish;
+    rating: BigNumberish;
   };
 
   export type PlayerStatsStructOutput = [
@@ -74,67 +125,278 @@ export declare namespace RockPaperArena {
     losses: bigint,
     draws: bigint,
     totalMatches: bigint,
-    currentStreak: bigint
+    currentStreak: bigint,
+    bestStreak: bigint,
+    abandoned: bigint,
+    rating: bigint
   ] & {
     wins: bigint;
     losses: bigint;
     draws: bigint;
     totalMatches: bigint;
     currentStreak: bigint;
+    bestStreak: bigint;
+    abandoned: bigint;
+    rating: bigint;
   };
+
+  export type RoundStruct = {
+    move1: BytesLike;
+    move2: BytesLike;
+    result: BytesLike;
+    outcome: BigNumberish;
+  };
+
+  export type RoundStructOutput = [
+    move1: string,
+    move2: string,
+    result: string,
+    outcome: bigint
+  ] & { move1: string; move2: string; result: string; outcome: bigint };
 }
 
 export interface RockPaperArenaInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "COMMIT_WINDOW"
+      | "INITIAL_RATING"
+      | "K_FACTOR"
+      | "MAX_ACTIVE_MATCHES"
+      | "MAX_SERIES_LENGTH"
+      | "PROVISIONAL_K_FACTOR"
+      | "PROVISIONAL_MATCHES"
+      | "RATING_FLOOR"
       | "acceptChallenge"
+      | "acceptChallengeWithCode"
+      | "acceptChallengeWithMove"
+      | "acceptChallengeWithPermit"
+      | "acceptConfidentialChallenge"
+      | "autoSettle"
       | "cancelMatch"
+      | "claimConfidentialRewards"
       | "claimRewards"
+      | "claimTimeout"
+      | "claimTokenRewards"
       | "confidentialProtocolId"
+      | "confidentialRewards"
+      | "confirmAbort"
       | "createChallenge"
+      | "createChallengeFor"
+      | "createChallengeWithCode"
+      | "createChallengeWithMove"
+      | "createConfidentialChallenge"
+      | "createManagedMatch"
+      | "createQueuedMatch"
+      | "createSeriesChallenge"
+      | "createTokenChallenge"
+      | "createVariantChallenge"
+      | "currentSeason"
+      | "finalizeReveal"
+      | "getActiveMatches"
+      | "getInviteCodeDigest"
+      | "getInvites"
       | "getMatch"
       | "getPendingMatches"
+      | "getPendingMatchesPage"
+      | "getPlayerMatches"
       | "getPlayerStats"
+      | "getRound"
+      | "getRuleSet"
+      | "getSeasonPlayers"
+      | "getSeasonStats"
+      | "leaveMatch"
       | "lockMove"
       | "matchCounter"
-      | "matches"
+      | "matchManager"
+      | "matchmaker"
+      | "moveForwarder"
+      | "owner"
       | "pendingMatches"
-      | "playerActiveMatch"
-      | "playerStats"
+      | "pendingRewards"
+      | "pendingTokenRewards"
+      | "privateStats"
+      | "queuedMatches"
+      | "ratingChanges"
+      | "ratingOf"
+      | "requestAbort"
       | "requestReveal"
+      | "setMatchManager"
+      | "setMatchmaker"
+      | "setMoveForwarder"
+      | "setPrivateStats"
+      | "startNewSeason"
       | "submitMove"
-      | "updateStreak"
+      | "submitMoveFor"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "AbortRequested"
+      | "ConfidentialRewardsClaimed"
+      | "ConfidentialRewardsCredited"
       | "MatchCancelled"
       | "MatchCreated"
+      | "MatchDecryptionRequested"
+      | "MatchForfeited"
+      | "MatchInvited"
       | "MatchJoined"
+      | "MatchLeft"
       | "MatchRevealed"
       | "MoveCommitted"
+      | "PublicDecryptionVerified"
+      | "RatingsUpdated"
+      | "RewardsClaimed"
+      | "RewardsCredited"
+      | "RoundCompleted"
+      | "SeasonStarted"
+      | "StatsUpdated"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "COMMIT_WINDOW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "INITIAL_RATING",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "K_FACTOR", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_ACTIVE_MATCHES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_SERIES_LENGTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PROVISIONAL_K_FACTOR",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PROVISIONAL_MATCHES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RATING_FLOOR",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "acceptChallenge",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "acceptChallengeWithCode",
+    values: [BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptChallengeWithMove",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptChallengeWithPermit",
+    values: [BigNumberish, BigNumberish, BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptConfidentialChallenge",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "autoSettle",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "cancelMatch",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "claimConfidentialRewards",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "claimRewards",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "claimTimeout",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimTokenRewards",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "confidentialProtocolId",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "confidentialRewards",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "confirmAbort",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "createChallenge",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "createChallengeFor",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createChallengeWithCode",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createChallengeWithMove",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createConfidentialChallenge",
+    values: [AddressLike, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createManagedMatch",
+    values: [AddressLike, AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createQueuedMatch",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createSeriesChallenge",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createTokenChallenge",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createVariantChallenge",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "currentSeason",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "finalizeReveal",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActiveMatches",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInviteCodeDigest",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getInvites",
+    values: [AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "getMatch",
     values: [BigNumberish]
@@ -143,10 +405,38 @@ export interface RockPaperArenaInterface extends Interface {
     functionFragment: "getPendingMatches",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getPendingMatchesPage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPlayerMatches",
+    values: [AddressLike, BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getPlayerStats",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getRound",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRuleSet",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeasonPlayers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getSeasonStats",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "leaveMatch",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "lockMove",
     values: [BigNumberish]
@@ -156,97 +446,413 @@ export interface RockPaperArenaInterface extends Interface {
     values?: undefined
   ): string;
   encodeFunctionData(
-    functionFragment: "matches",
-    values: [BigNumberish]
+    functionFragment: "matchManager",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "matchmaker",
+    values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "moveForwarder",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "pendingMatches",
     values: [BigNumberish]
   ): string;
   encodeFunctionData(
-    functionFragment: "playerActiveMatch",
+    functionFragment: "pendingRewards",
     values: [AddressLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "playerStats",
+    functionFragment: "pendingTokenRewards",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "privateStats",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "queuedMatches",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingChanges",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingOf",
     values: [AddressLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "requestAbort",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "requestReveal",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setMatchManager",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMatchmaker",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMoveForwarder",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPrivateStats",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startNewSeason",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "submitMove",
     values: [BigNumberish, BytesLike, BytesLike]
   ): string;
   encodeFunctionData(
-    functionFragment: "updateStreak",
-    values: [AddressLike, boolean]
+    functionFragment: "submitMoveFor",
+    values: [AddressLike, BigNumberish, BytesLike, BytesLike]
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "COMMIT_WINDOW",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "INITIAL_RATING",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "K_FACTOR", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_ACTIVE_MATCHES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_SERIES_LENGTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PROVISIONAL_K_FACTOR",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PROVISIONAL_MATCHES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RATING_FLOOR",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "acceptChallenge",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptChallengeWithCode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptChallengeWithMove",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptChallengeWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "acceptConfidentialChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "autoSettle", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "cancelMatch",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimConfidentialRewards",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "claimRewards",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimTimeout",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimTokenRewards",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "confidentialProtocolId",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "confirmAbort",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "createChallenge",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "createChallengeFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createChallengeWithCode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createChallengeWithMove",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createConfidentialChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createManagedMatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createQueuedMatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createSeriesChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createTokenChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createVariantChallenge",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "currentSeason",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "finalizeReveal",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveMatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getInviteCodeDigest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getInvites", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "getMatch", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "getPendingMatches",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPendingMatchesPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPlayerMatches",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getPlayerStats",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "getRound", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "getRuleSet", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getSeasonPlayers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSeasonStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "leaveMatch", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "lockMove", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "matchCounter",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "matches", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "matchManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "matchmaker", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "moveForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "pendingMatches",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "playerActiveMatch",
+    functionFragment: "pendingRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingTokenRewards",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "privateStats",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "playerStats",
+    functionFragment: "queuedMatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "ratingChanges",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "ratingOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestAbort",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
     functionFragment: "requestReveal",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMatchManager",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMatchmaker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMoveForwarder",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPrivateStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "startNewSeason",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "submitMove", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "updateStreak",
+    functionFragment: "submitMoveFor",
     data: BytesLike
   ): Result;
 }
 
-export namespace MatchCancelledEvent {
-  export type InputTuple = [matchId: BigNumberish];
-  export type OutputTuple = [matchId: bigint];
+export namespace AbortRequestedEvent {
+  export type InputTuple = [matchId: BigNumberish, player: AddressLike];
+  export type OutputTuple = [matchId: bigint, player: string];
+  export interface OutputObject {
+    matchId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialRewardsClaimedEvent {
+  export type InputTuple = [player: AddressLike, token: AddressLike];
+  export type OutputTuple = [player: string, token: string];
+  export interface OutputObject {
+    player: string;
+    token: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConfidentialRewardsCreditedEvent {
+  export type InputTuple = [
+    matchId: BigNumberish,
+    player: AddressLike,
+    token: AddressLike
+  ];
+  export type OutputTuple = [matchId: bigint, player: string, token: string];
+  export interface OutputObject {
+    matchId: bigint;
+    player: string;
+    token: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchCancelledEvent {
+  export type InputTuple = [matchId: BigNumberish];
+  export type OutputTuple = [matchId: bigint];
+  export interface OutputObject {
+    matchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchCreatedEvent {
+  export type InputTuple = [matchId: BigNumberish, player1: AddressLike];
+  export type OutputTuple = [matchId: bigint, player1: string];
+  export interface OutputObject {
+    matchId: bigint;
+    player1: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchDecryptionRequestedEvent {
+  export type InputTuple = [matchId: BigNumberish, resultHandle: BytesLike];
+  export type OutputTuple = [matchId: bigint, resultHandle: string];
+  export interface OutputObject {
+    matchId: bigint;
+    resultHandle: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace MatchForfeitedEvent {
+  export type InputTuple = [matchId: BigNumberish, winner: AddressLike];
+  export type OutputTuple = [matchId: bigint, winner: string];
   export interface OutputObject {
     matchId: bigint;
+    winner: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -254,12 +860,21 @@ export namespace MatchCancelledEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
-export namespace MatchCreatedEvent {
-  export type InputTuple = [matchId: BigNumberish, player1: AddressLike];
-  export type OutputTuple = [matchId: bigint, player1: string];
+export namespace MatchInvitedEvent {
+  export type InputTuple = [
+    matchId: BigNumberish,
+    player1: AddressLike,
+    opponent: AddressLike
+  ];
+  export type OutputTuple = [
+    matchId: bigint,
+    player1: string,
+    opponent: string
+  ];
   export interface OutputObject {
     matchId: bigint;
     player1: string;
+    opponent: string;
   }
   export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
   export type Filter = TypedDeferredTopicFilter<Event>;
@@ -280,6 +895,19 @@ export namespace MatchJoinedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace MatchLeftEvent {
+  export type InputTuple = [matchId: BigNumberish, player2: AddressLike];
+  export type OutputTuple = [matchId: bigint, player2: string];
+  export interface OutputObject {
+    matchId: bigint;
+    player2: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace MatchRevealedEvent {
   export type InputTuple = [
     matchId: BigNumberish,
@@ -311,6 +939,173 @@ export namespace MoveCommittedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace PublicDecryptionVerifiedEvent {
+  export type InputTuple = [
+    handlesList: BytesLike[],
+    abiEncodedCleartexts: BytesLike
+  ];
+  export type OutputTuple = [
+    handlesList: string[],
+    abiEncodedCleartexts: string
+  ];
+  export interface OutputObject {
+    handlesList: string[];
+    abiEncodedCleartexts: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RatingsUpdatedEvent {
+  export type InputTuple = [
+    matchId: BigNumberish,
+    player1: AddressLike,
+    player2: AddressLike,
+    rating1: BigNumberish,
+    rating2: BigNumberish,
+    delta1: BigNumberish,
+    delta2: BigNumberish
+  ];
+  export type OutputTuple = [
+    matchId: bigint,
+    player1: string,
+    player2: string,
+    rating1: bigint,
+    rating2: bigint,
+    delta1: bigint,
+    delta2: bigint
+  ];
+  export interface OutputObject {
+    matchId: bigint;
+    player1: string;
+    player2: string;
+    rating1: bigint;
+    rating2: bigint;
+    delta1: bigint;
+    delta2: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardsClaimedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [player: string, token: string, amount: bigint];
+  export interface OutputObject {
+    player: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RewardsCreditedEvent {
+  export type InputTuple = [
+    matchId: BigNumberish,
+    player: AddressLike,
+    token: AddressLike,
+    amount: BigNumberish
+  ];
+  export type OutputTuple = [
+    matchId: bigint,
+    player: string,
+    token: string,
+    amount: bigint
+  ];
+  export interface OutputObject {
+    matchId: bigint;
+    player: string;
+    token: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoundCompletedEvent {
+  export type InputTuple = [
+    matchId: BigNumberish,
+    round: BigNumberish,
+    result: BigNumberish,
+    score1: BigNumberish,
+    score2: BigNumberish
+  ];
+  export type OutputTuple = [
+    matchId: bigint,
+    round: bigint,
+    result: bigint,
+    score1: bigint,
+    score2: bigint
+  ];
+  export interface OutputObject {
+    matchId: bigint;
+    round: bigint;
+    result: bigint;
+    score1: bigint;
+    score2: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace SeasonStartedEvent {
+  export type InputTuple = [season: BigNumberish];
+  export type OutputTuple = [season: bigint];
+  export interface OutputObject {
+    season: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatsUpdatedEvent {
+  export type InputTuple = [
+    player: AddressLike,
+    wins: BigNumberish,
+    losses: BigNumberish,
+    draws: BigNumberish,
+    currentStreak: BigNumberish,
+    bestStreak: BigNumberish
+  ];
+  export type OutputTuple = [
+    player: string,
+    wins: bigint,
+    losses: bigint,
+    draws: bigint,
+    currentStreak: bigint,
+    bestStreak: bigint
+  ];
+  export interface OutputObject {
+    player: string;
+    wins: bigint;
+    losses: bigint;
+    draws: bigint;
+    currentStreak: bigint;
+    bestStreak: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface RockPaperArena extends BaseContract {
   connect(runner?: ContractRunner | null): RockPaperArena;
   waitForDeployment(): Promise<this>;
@@ -354,23 +1149,185 @@ export interface RockPaperArena extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  COMMIT_WINDOW: TypedContractMethod<[], [bigint], "view">;
+
+  INITIAL_RATING: TypedContractMethod<[], [bigint], "view">;
+
+  K_FACTOR: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_ACTIVE_MATCHES: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_SERIES_LENGTH: TypedContractMethod<[], [bigint], "view">;
+
+  PROVISIONAL_K_FACTOR: TypedContractMethod<[], [bigint], "view">;
+
+  PROVISIONAL_MATCHES: TypedContractMethod<[], [bigint], "view">;
+
+  RATING_FLOOR: TypedContractMethod<[], [bigint], "view">;
+
   acceptChallenge: TypedContractMethod<
     [matchId: BigNumberish],
     [void],
+    "payable"
+  >;
+
+  acceptChallengeWithCode: TypedContractMethod<
+    [matchId: BigNumberish, codeSignature: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  acceptChallengeWithMove: TypedContractMethod<
+    [matchId: BigNumberish, encryptedMove: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+
+  acceptChallengeWithPermit: TypedContractMethod<
+    [
+      matchId: BigNumberish,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  acceptConfidentialChallenge: TypedContractMethod<
+    [
+      matchId: BigNumberish,
+      encryptedMaxStake: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
     "nonpayable"
   >;
 
+  autoSettle: TypedContractMethod<[], [boolean], "view">;
+
   cancelMatch: TypedContractMethod<
     [matchId: BigNumberish],
     [void],
     "nonpayable"
   >;
 
-  claimRewards: TypedContractMethod<[], [void], "view">;
+  claimConfidentialRewards: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  claimRewards: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimTimeout: TypedContractMethod<
+    [matchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimTokenRewards: TypedContractMethod<
+    [token: AddressLike],
+    [void],
+    "nonpayable"
+  >;
 
   confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
 
-  createChallenge: TypedContractMethod<[], [bigint], "nonpayable">;
+  confidentialRewards: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+
+  confirmAbort: TypedContractMethod<
+    [matchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createChallenge: TypedContractMethod<[], [bigint], "payable">;
+
+  createChallengeFor: TypedContractMethod<
+    [opponent: AddressLike],
+    [bigint],
+    "payable"
+  >;
+
+  createChallengeWithCode: TypedContractMethod<
+    [codeSigner: AddressLike],
+    [bigint],
+    "payable"
+  >;
+
+  createChallengeWithMove: TypedContractMethod<
+    [encryptedMove: BytesLike, inputProof: BytesLike],
+    [bigint],
+    "payable"
+  >;
+
+  createConfidentialChallenge: TypedContractMethod<
+    [token: AddressLike, encryptedStake: BytesLike, inputProof: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createManagedMatch: TypedContractMethod<
+    [player1: AddressLike, player2: AddressLike, bestOf: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createQueuedMatch: TypedContractMethod<
+    [player1: AddressLike, player2: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createSeriesChallenge: TypedContractMethod<
+    [bestOf: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+
+  createTokenChallenge: TypedContractMethod<
+    [token: AddressLike, stake: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+
+  createVariantChallenge: TypedContractMethod<
+    [ruleSet: BigNumberish, bestOf: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+
+  currentSeason: TypedContractMethod<[], [bigint], "view">;
+
+  finalizeReveal: TypedContractMethod<
+    [
+      matchId: BigNumberish,
+      abiEncodedResult: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getActiveMatches: TypedContractMethod<
+    [player: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  getInviteCodeDigest: TypedContractMethod<
+    [matchId: BigNumberish, joiner: AddressLike],
+    [string],
+    "view"
+  >;
+
+  getInvites: TypedContractMethod<[player: AddressLike], [bigint[]], "view">;
 
   getMatch: TypedContractMethod<
     [matchId: BigNumberish],
@@ -380,101 +1337,324 @@ export interface RockPaperArena extends BaseContract {
 
   getPendingMatches: TypedContractMethod<[], [bigint[]], "view">;
 
+  getPendingMatchesPage: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { page: bigint[]; total: bigint }],
+    "view"
+  >;
+
+  getPlayerMatches: TypedContractMethod<
+    [player: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { page: bigint[]; total: bigint }],
+    "view"
+  >;
+
   getPlayerStats: TypedContractMethod<
     [player: AddressLike],
     [RockPaperArena.PlayerStatsStructOutput],
     "view"
   >;
 
+  getRound: TypedContractMethod<
+    [matchId: BigNumberish, round: BigNumberish],
+    [RockPaperArena.RoundStructOutput],
+    "view"
+  >;
+
+  getRuleSet: TypedContractMethod<
+    [ruleSet: BigNumberish],
+    [[bigint, bigint] & { gestureCount: bigint; beats: bigint }],
+    "view"
+  >;
+
+  getSeasonPlayers: TypedContractMethod<
+    [season: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getSeasonStats: TypedContractMethod<
+    [season: BigNumberish, player: AddressLike],
+    [RockPaperArena.PlayerStatsStructOutput],
+    "view"
+  >;
+
+  leaveMatch: TypedContractMethod<
+    [matchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
   lockMove: TypedContractMethod<[matchId: BigNumberish], [boolean], "view">;
 
   matchCounter: TypedContractMethod<[], [bigint], "view">;
 
-  matches: TypedContractMethod<
+  matchManager: TypedContractMethod<[], [string], "view">;
+
+  matchmaker: TypedContractMethod<[], [string], "view">;
+
+  moveForwarder: TypedContractMethod<[], [string], "view">;
+
+  owner: TypedContractMethod<[], [string], "view">;
+
+  pendingMatches: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+
+  pendingRewards: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  pendingTokenRewards: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  privateStats: TypedContractMethod<[], [string], "view">;
+
+  queuedMatches: TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+
+  ratingChanges: TypedContractMethod<
     [arg0: BigNumberish],
-    [
-      [
-        bigint,
-        string,
-        string,
-        string,
-        string,
-        boolean,
-        boolean,
-        bigint,
-        bigint,
-        string
-      ] & {
-        matchId: bigint;
-        player1: string;
-        player2: string;
-        move1: string;
-        move2: string;
-        player1Committed: boolean;
-        player2Committed: boolean;
-        createdAt: bigint;
-        state: bigint;
-        winner: string;
-      }
-    ],
+    [[bigint, bigint] & { delta1: bigint; delta2: bigint }],
     "view"
   >;
 
-  pendingMatches: TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
+  ratingOf: TypedContractMethod<[player: AddressLike], [bigint], "view">;
+
+  requestAbort: TypedContractMethod<
+    [matchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  requestReveal: TypedContractMethod<
+    [matchId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
 
-  playerActiveMatch: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  setMatchManager: TypedContractMethod<
+    [manager: AddressLike],
+    [void],
+    "nonpayable"
+  >;
 
-  playerStats: TypedContractMethod<
-    [arg0: AddressLike],
-    [
-      [bigint, bigint, bigint, bigint, bigint] & {
-        wins: bigint;
-        losses: bigint;
-        draws: bigint;
-        totalMatches: bigint;
-        currentStreak: bigint;
-      }
-    ],
-    "view"
+  setMatchmaker: TypedContractMethod<
+    [matchmaker_: AddressLike],
+    [void],
+    "nonpayable"
   >;
 
-  requestReveal: TypedContractMethod<
-    [matchId: BigNumberish],
+  setMoveForwarder: TypedContractMethod<
+    [moveForwarder_: AddressLike],
     [void],
     "nonpayable"
   >;
 
+  setPrivateStats: TypedContractMethod<
+    [privateStats_: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  startNewSeason: TypedContractMethod<[], [void], "nonpayable">;
+
   submitMove: TypedContractMethod<
     [matchId: BigNumberish, encryptedMove: BytesLike, inputProof: BytesLike],
     [void],
     "nonpayable"
   >;
 
-  updateStreak: TypedContractMethod<
-    [arg0: AddressLike, arg1: boolean],
+  submitMoveFor: TypedContractMethod<
+    [
+      player: AddressLike,
+      matchId: BigNumberish,
+      encryptedMove: BytesLike,
+      inputProof: BytesLike
+    ],
     [void],
-    "view"
+    "nonpayable"
   >;
 
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "COMMIT_WINDOW"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "INITIAL_RATING"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "K_FACTOR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_ACTIVE_MATCHES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_SERIES_LENGTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PROVISIONAL_K_FACTOR"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PROVISIONAL_MATCHES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "RATING_FLOOR"
+  ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
     nameOrSignature: "acceptChallenge"
-  ): TypedContractMethod<[matchId: BigNumberish], [void], "nonpayable">;
+  ): TypedContractMethod<[matchId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "acceptChallengeWithCode"
+  ): TypedContractMethod<
+    [matchId: BigNumberish, codeSignature: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "acceptChallengeWithMove"
+  ): TypedContractMethod<
+    [matchId: BigNumberish, encryptedMove: BytesLike, inputProof: BytesLike],
+    [void],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "acceptChallengeWithPermit"
+  ): TypedContractMethod<
+    [
+      matchId: BigNumberish,
+      deadline: BigNumberish,
+      v: BigNumberish,
+      r: BytesLike,
+      s: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "acceptConfidentialChallenge"
+  ): TypedContractMethod<
+    [
+      matchId: BigNumberish,
+      encryptedMaxStake: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "autoSettle"
+  ): TypedContractMethod<[], [boolean], "view">;
   getFunction(
     nameOrSignature: "cancelMatch"
   ): TypedContractMethod<[matchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimConfidentialRewards"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "claimRewards"
-  ): TypedContractMethod<[], [void], "view">;
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimTimeout"
+  ): TypedContractMethod<[matchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimTokenRewards"
+  ): TypedContractMethod<[token: AddressLike], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "confidentialProtocolId"
   ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "confidentialRewards"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "confirmAbort"
+  ): TypedContractMethod<[matchId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "createChallenge"
-  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  ): TypedContractMethod<[], [bigint], "payable">;
+  getFunction(
+    nameOrSignature: "createChallengeFor"
+  ): TypedContractMethod<[opponent: AddressLike], [bigint], "payable">;
+  getFunction(
+    nameOrSignature: "createChallengeWithCode"
+  ): TypedContractMethod<[codeSigner: AddressLike], [bigint], "payable">;
+  getFunction(
+    nameOrSignature: "createChallengeWithMove"
+  ): TypedContractMethod<
+    [encryptedMove: BytesLike, inputProof: BytesLike],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "createConfidentialChallenge"
+  ): TypedContractMethod<
+    [token: AddressLike, encryptedStake: BytesLike, inputProof: BytesLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createManagedMatch"
+  ): TypedContractMethod<
+    [player1: AddressLike, player2: AddressLike, bestOf: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createQueuedMatch"
+  ): TypedContractMethod<
+    [player1: AddressLike, player2: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createSeriesChallenge"
+  ): TypedContractMethod<[bestOf: BigNumberish], [bigint], "payable">;
+  getFunction(
+    nameOrSignature: "createTokenChallenge"
+  ): TypedContractMethod<
+    [token: AddressLike, stake: BigNumberish],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createVariantChallenge"
+  ): TypedContractMethod<
+    [ruleSet: BigNumberish, bestOf: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "currentSeason"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "finalizeReveal"
+  ): TypedContractMethod<
+    [
+      matchId: BigNumberish,
+      abiEncodedResult: BytesLike,
+      decryptionProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getActiveMatches"
+  ): TypedContractMethod<[player: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getInviteCodeDigest"
+  ): TypedContractMethod<
+    [matchId: BigNumberish, joiner: AddressLike],
+    [string],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getInvites"
+  ): TypedContractMethod<[player: AddressLike], [bigint[]], "view">;
   getFunction(
     nameOrSignature: "getMatch"
   ): TypedContractMethod<
@@ -485,6 +1665,20 @@ export interface RockPaperArena extends BaseContract {
   getFunction(
     nameOrSignature: "getPendingMatches"
   ): TypedContractMethod<[], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getPendingMatchesPage"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { page: bigint[]; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getPlayerMatches"
+  ): TypedContractMethod<
+    [player: AddressLike, offset: BigNumberish, limit: BigNumberish],
+    [[bigint[], bigint] & { page: bigint[]; total: bigint }],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getPlayerStats"
   ): TypedContractMethod<
@@ -492,6 +1686,33 @@ export interface RockPaperArena extends BaseContract {
     [RockPaperArena.PlayerStatsStructOutput],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getRound"
+  ): TypedContractMethod<
+    [matchId: BigNumberish, round: BigNumberish],
+    [RockPaperArena.RoundStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getRuleSet"
+  ): TypedContractMethod<
+    [ruleSet: BigNumberish],
+    [[bigint, bigint] & { gestureCount: bigint; beats: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getSeasonPlayers"
+  ): TypedContractMethod<[season: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getSeasonStats"
+  ): TypedContractMethod<
+    [season: BigNumberish, player: AddressLike],
+    [RockPaperArena.PlayerStatsStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "leaveMatch"
+  ): TypedContractMethod<[matchId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "lockMove"
   ): TypedContractMethod<[matchId: BigNumberish], [boolean], "view">;
@@ -499,60 +1720,67 @@ export interface RockPaperArena extends BaseContract {
     nameOrSignature: "matchCounter"
   ): TypedContractMethod<[], [bigint], "view">;
   getFunction(
-    nameOrSignature: "matches"
-  ): TypedContractMethod<
-    [arg0: BigNumberish],
-    [
-      [
-        bigint,
-        string,
-        string,
-        string,
-        string,
-        boolean,
-        boolean,
-        bigint,
-        bigint,
-        string
-      ] & {
-        matchId: bigint;
-        player1: string;
-        player2: string;
-        move1: string;
-        move2: string;
-        player1Committed: boolean;
-        player2Committed: boolean;
-        createdAt: bigint;
-        state: bigint;
-        winner: string;
-      }
-    ],
-    "view"
-  >;
+    nameOrSignature: "matchManager"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "matchmaker"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "moveForwarder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "owner"
+  ): TypedContractMethod<[], [string], "view">;
   getFunction(
     nameOrSignature: "pendingMatches"
   ): TypedContractMethod<[arg0: BigNumberish], [bigint], "view">;
   getFunction(
-    nameOrSignature: "playerActiveMatch"
+    nameOrSignature: "pendingRewards"
   ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
   getFunction(
-    nameOrSignature: "playerStats"
+    nameOrSignature: "pendingTokenRewards"
   ): TypedContractMethod<
-    [arg0: AddressLike],
-    [
-      [bigint, bigint, bigint, bigint, bigint] & {
-        wins: bigint;
-        losses: bigint;
-        draws: bigint;
-        totalMatches: bigint;
-        currentStreak: bigint;
-      }
-    ],
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "privateStats"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "queuedMatches"
+  ): TypedContractMethod<[arg0: BigNumberish], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "ratingChanges"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { delta1: bigint; delta2: bigint }],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "ratingOf"
+  ): TypedContractMethod<[player: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestAbort"
+  ): TypedContractMethod<[matchId: BigNumberish], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "requestReveal"
   ): TypedContractMethod<[matchId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMatchManager"
+  ): TypedContractMethod<[manager: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMatchmaker"
+  ): TypedContractMethod<[matchmaker_: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setMoveForwarder"
+  ): TypedContractMethod<[moveForwarder_: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPrivateStats"
+  ): TypedContractMethod<[privateStats_: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "startNewSeason"
+  ): TypedContractMethod<[], [void], "nonpayable">;
   getFunction(
     nameOrSignature: "submitMove"
   ): TypedContractMethod<
@@ -561,9 +1789,39 @@ export interface RockPaperArena extends BaseContract {
     "nonpayable"
   >;
   getFunction(
-    nameOrSignature: "updateStreak"
-  ): TypedContractMethod<[arg0: AddressLike, arg1: boolean], [void], "view">;
+    nameOrSignature: "submitMoveFor"
+  ): TypedContractMethod<
+    [
+      player: AddressLike,
+      matchId: BigNumberish,
+      encryptedMove: BytesLike,
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
 
+  getEvent(
+    key: "AbortRequested"
+  ): TypedContractEvent<
+    AbortRequestedEvent.InputTuple,
+    AbortRequestedEvent.OutputTuple,
+    AbortRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialRewardsClaimed"
+  ): TypedContractEvent<
+    ConfidentialRewardsClaimedEvent.InputTuple,
+    ConfidentialRewardsClaimedEvent.OutputTuple,
+    ConfidentialRewardsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConfidentialRewardsCredited"
+  ): TypedContractEvent<
+    ConfidentialRewardsCreditedEvent.InputTuple,
+    ConfidentialRewardsCreditedEvent.OutputTuple,
+    ConfidentialRewardsCreditedEvent.OutputObject
+  >;
   getEvent(
     key: "MatchCancelled"
   ): TypedContractEvent<
@@ -578,6 +1836,27 @@ export interface RockPaperArena extends BaseContract {
     MatchCreatedEvent.OutputTuple,
     MatchCreatedEvent.OutputObject
   >;
+  getEvent(
+    key: "MatchDecryptionRequested"
+  ): TypedContractEvent<
+    MatchDecryptionRequestedEvent.InputTuple,
+    MatchDecryptionRequestedEvent.OutputTuple,
+    MatchDecryptionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MatchForfeited"
+  ): TypedContractEvent<
+    MatchForfeitedEvent.InputTuple,
+    MatchForfeitedEvent.OutputTuple,
+    MatchForfeitedEvent.OutputObject
+  >;
+  getEvent(
+    key: "MatchInvited"
+  ): TypedContractEvent<
+    MatchInvitedEvent.InputTuple,
+    MatchInvitedEvent.OutputTuple,
+    MatchInvitedEvent.OutputObject
+  >;
   getEvent(
     key: "MatchJoined"
   ): TypedContractEvent<
@@ -585,6 +1864,13 @@ export interface RockPaperArena extends BaseContract {
     MatchJoinedEvent.OutputTuple,
     MatchJoinedEvent.OutputObject
   >;
+  getEvent(
+    key: "MatchLeft"
+  ): TypedContractEvent<
+    MatchLeftEvent.InputTuple,
+    MatchLeftEvent.OutputTuple,
+    MatchLeftEvent.OutputObject
+  >;
   getEvent(
     key: "MatchRevealed"
   ): TypedContractEvent<
@@ -599,8 +1885,90 @@ export interface RockPaperArena extends BaseContract {
     MoveCommittedEvent.OutputTuple,
     MoveCommittedEvent.OutputObject
   >;
+  getEvent(
+    key: "PublicDecryptionVerified"
+  ): TypedContractEvent<
+    PublicDecryptionVerifiedEvent.InputTuple,
+    PublicDecryptionVerifiedEvent.OutputTuple,
+    PublicDecryptionVerifiedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RatingsUpdated"
+  ): TypedContractEvent<
+    RatingsUpdatedEvent.InputTuple,
+    RatingsUpdatedEvent.OutputTuple,
+    RatingsUpdatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardsClaimed"
+  ): TypedContractEvent<
+    RewardsClaimedEvent.InputTuple,
+    RewardsClaimedEvent.OutputTuple,
+    RewardsClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RewardsCredited"
+  ): TypedContractEvent<
+    RewardsCreditedEvent.InputTuple,
+    RewardsCreditedEvent.OutputTuple,
+    RewardsCreditedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoundCompleted"
+  ): TypedContractEvent<
+    RoundCompletedEvent.InputTuple,
+    RoundCompletedEvent.OutputTuple,
+    RoundCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "SeasonStarted"
+  ): TypedContractEvent<
+    SeasonStartedEvent.InputTuple,
+    SeasonStartedEvent.OutputTuple,
+    SeasonStartedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatsUpdated"
+  ): TypedContractEvent<
+    StatsUpdatedEvent.InputTuple,
+    StatsUpdatedEvent.OutputTuple,
+    StatsUpdatedEvent.OutputObject
+  >;
 
   filters: {
+    "AbortRequested(uint256,address)": TypedContractEvent<
+      AbortRequestedEvent.InputTuple,
+      AbortRequestedEvent.OutputTuple,
+      AbortRequestedEvent.OutputObject
+    >;
+    AbortRequested: TypedContractEvent<
+      AbortRequestedEvent.InputTuple,
+      AbortRequestedEvent.OutputTuple,
+      AbortRequestedEvent.OutputObject
+    >;
+
+    "ConfidentialRewardsClaimed(address,address)": TypedContractEvent<
+      ConfidentialRewardsClaimedEvent.InputTuple,
+      ConfidentialRewardsClaimedEvent.OutputTuple,
+      ConfidentialRewardsClaimedEvent.OutputObject
+    >;
+    ConfidentialRewardsClaimed: TypedContractEvent<
+      ConfidentialRewardsClaimedEvent.InputTuple,
+      ConfidentialRewardsClaimedEvent.OutputTuple,
+      ConfidentialRewardsClaimedEvent.OutputObject
+    >;
+
+    "ConfidentialRewardsCredited(uint256,address,address)": TypedContractEvent<
+      ConfidentialRewardsCreditedEvent.InputTuple,
+      ConfidentialRewardsCreditedEvent.OutputTuple,
+      ConfidentialRewardsCreditedEvent.OutputObject
+    >;
+    ConfidentialRewardsCredited: TypedContractEvent<
+      ConfidentialRewardsCreditedEvent.InputTuple,
+      ConfidentialRewardsCreditedEvent.OutputTuple,
+      ConfidentialRewardsCreditedEvent.OutputObject
+    >;
+
     "MatchCancelled(uint256)": TypedContractEvent<
       MatchCancelledEvent.InputTuple,
       MatchCancelledEvent.OutputTuple,
@@ -623,6 +1991,39 @@ export interface RockPaperArena extends BaseContract {
       MatchCreatedEvent.OutputObject
     >;
 
+    "MatchDecryptionRequested(uint256,bytes32)": TypedContractEvent<
+      MatchDecryptionRequestedEvent.InputTuple,
+      MatchDecryptionRequestedEvent.OutputTuple,
+      MatchDecryptionRequestedEvent.OutputObject
+    >;
+    MatchDecryptionRequested: TypedContractEvent<
+      MatchDecryptionRequestedEvent.InputTuple,
+      MatchDecryptionRequestedEvent.OutputTuple,
+      MatchDecryptionRequestedEvent.OutputObject
+    >;
+
+    "MatchForfeited(uint256,address)": TypedContractEvent<
+      MatchForfeitedEvent.InputTuple,
+      MatchForfeitedEvent.OutputTuple,
+      MatchForfeitedEvent.OutputObject
+    >;
+    MatchForfeited: TypedContractEvent<
+      MatchForfeitedEvent.InputTuple,
+      MatchForfeitedEvent.OutputTuple,
+      MatchForfeitedEvent.OutputObject
+    >;
+
+    "MatchInvited(uint256,address,address)": TypedContractEvent<
+      MatchInvitedEvent.InputTuple,
+      MatchInvitedEvent.OutputTuple,
+      MatchInvitedEvent.OutputObject
+    >;
+    MatchInvited: TypedContractEvent<
+      MatchInvitedEvent.InputTuple,
+      MatchInvitedEvent.OutputTuple,
+      MatchInvitedEvent.OutputObject
+    >;
+
     "MatchJoined(uint256,address)": TypedContractEvent<
       MatchJoinedEvent.InputTuple,
       MatchJoinedEvent.OutputTuple,
@@ -634,6 +2035,17 @@ export interface RockPaperArena extends BaseContract {
       MatchJoinedEvent.OutputObject
     >;
 
+    "MatchLeft(uint256,address)": TypedContractEvent<
+      MatchLeftEvent.InputTuple,
+      MatchLeftEvent.OutputTuple,
+      MatchLeftEvent.OutputObject
+    >;
+    MatchLeft: TypedContractEvent<
+      MatchLeftEvent.InputTuple,
+      MatchLeftEvent.OutputTuple,
+      MatchLeftEvent.OutputObject
+    >;
+
     "MatchRevealed(uint256,address,uint8)": TypedContractEvent<
       MatchRevealedEvent.InputTuple,
       MatchRevealedEvent.OutputTuple,
@@ -655,5 +2067,82 @@ export interface RockPaperArena extends BaseContract {
       MoveCommittedEvent.OutputTuple,
       MoveCommittedEvent.OutputObject
     >;
+
+    "PublicDecryptionVerified(bytes32[],bytes)": TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+    PublicDecryptionVerified: TypedContractEvent<
+      PublicDecryptionVerifiedEvent.InputTuple,
+      PublicDecryptionVerifiedEvent.OutputTuple,
+      PublicDecryptionVerifiedEvent.OutputObject
+    >;
+
+    "RatingsUpdated(uint256,address,address,uint256,uint256,int256,int256)": TypedContractEvent<
+      RatingsUpdatedEvent.InputTuple,
+      RatingsUpdatedEvent.OutputTuple,
+      RatingsUpdatedEvent.OutputObject
+    >;
+    RatingsUpdated: TypedContractEvent<
+      RatingsUpdatedEvent.InputTuple,
+      RatingsUpdatedEvent.OutputTuple,
+      RatingsUpdatedEvent.OutputObject
+    >;
+
+    "RewardsClaimed(address,address,uint256)": TypedContractEvent<
+      RewardsClaimedEvent.InputTuple,
+      RewardsClaimedEvent.OutputTuple,
+      RewardsClaimedEvent.OutputObject
+    >;
+    RewardsClaimed: TypedContractEvent<
+      RewardsClaimedEvent.InputTuple,
+      RewardsClaimedEvent.OutputTuple,
+      RewardsClaimedEvent.OutputObject
+    >;
+
+    "RewardsCredited(uint256,address,address,uint256)": TypedContractEvent<
+      RewardsCreditedEvent.InputTuple,
+      RewardsCreditedEvent.OutputTuple,
+      RewardsCreditedEvent.OutputObject
+    >;
+    RewardsCredited: TypedContractEvent<
+      RewardsCreditedEvent.InputTuple,
+      RewardsCreditedEvent.OutputTuple,
+      RewardsCreditedEvent.OutputObject
+    >;
+
+    "RoundCompleted(uint256,uint8,uint8,uint8,uint8)": TypedContractEvent<
+      RoundCompletedEvent.InputTuple,
+      RoundCompletedEvent.OutputTuple,
+      RoundCompletedEvent.OutputObject
+    >;
+    RoundCompleted: TypedContractEvent<
+      RoundCompletedEvent.InputTuple,
+      RoundCompletedEvent.OutputTuple,
+      RoundCompletedEvent.OutputObject
+    >;
+
+    "SeasonStarted(uint256)": TypedContractEvent<
+      SeasonStartedEvent.InputTuple,
+      SeasonStartedEvent.OutputTuple,
+      SeasonStartedEvent.OutputObject
+    >;
+    SeasonStarted: TypedContractEvent<
+      SeasonStartedEvent.InputTuple,
+      SeasonStartedEvent.OutputTuple,
+      SeasonStartedEvent.OutputObject
+    >;
+
+    "StatsUpdated(address,uint256,uint256,uint256,uint256,uint256)": TypedContractEvent<
+      StatsUpdatedEvent.InputTuple,
+      StatsUpdatedEvent.OutputTuple,
+      StatsUpdatedEvent.OutputObject
+    >;
+    StatsUpdated: TypedContractEvent<
+      StatsUpdatedEvent.InputTuple,
+      StatsUpdatedEvent.OutputTuple,
+      StatsUpdatedEvent.OutputObject
+    >;
   };
 }
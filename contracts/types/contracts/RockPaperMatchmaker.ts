@@ -0,0 +1,351 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface RockPaperMatchmakerInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "BASE_RATING_WINDOW"
+      | "MAX_QUEUE_SCAN"
+      | "WINDOW_GROWTH"
+      | "WINDOW_GROWTH_INTERVAL"
+      | "arena"
+      | "getQueuePosition"
+      | "getQueueStatus"
+      | "joinQueue"
+      | "leaveQueue"
+      | "queueHead"
+      | "queuedAt"
+      | "ratingWindow"
+      | "retryQueue"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "QueueJoined" | "QueueLeft" | "QueueMatched"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "BASE_RATING_WINDOW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_QUEUE_SCAN",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "WINDOW_GROWTH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "WINDOW_GROWTH_INTERVAL",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "arena", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getQueuePosition",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getQueueStatus",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(functionFragment: "joinQueue", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "leaveQueue",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "queueHead", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "queuedAt",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingWindow",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "retryQueue",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "BASE_RATING_WINDOW",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_QUEUE_SCAN",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "WINDOW_GROWTH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "WINDOW_GROWTH_INTERVAL",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "arena", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getQueuePosition",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getQueueStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "joinQueue", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "leaveQueue", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "queueHead", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "queuedAt", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "ratingWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "retryQueue", data: BytesLike): Result;
+}
+
+export namespace QueueJoinedEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueueLeftEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace QueueMatchedEvent {
+  export type InputTuple = [
+    matchId: BigNumberish,
+    player1: AddressLike,
+    player2: AddressLike
+  ];
+  export type OutputTuple = [matchId: bigint, player1: string, player2: string];
+  export interface OutputObject {
+    matchId: bigint;
+    player1: string;
+    player2: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RockPaperMatchmaker extends BaseContract {
+  connect(runner?: ContractRunner | null): RockPaperMatchmaker;
+  waitForDeployment(): Promise<this>;
+
+  interface: RockPaperMatchmakerInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  BASE_RATING_WINDOW: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_QUEUE_SCAN: TypedContractMethod<[], [bigint], "view">;
+
+  WINDOW_GROWTH: TypedContractMethod<[], [bigint], "view">;
+
+  WINDOW_GROWTH_INTERVAL: TypedContractMethod<[], [bigint], "view">;
+
+  arena: TypedContractMethod<[], [string], "view">;
+
+  getQueuePosition: TypedContractMethod<
+    [player: AddressLike],
+    [bigint],
+    "view"
+  >;
+
+  getQueueStatus: TypedContractMethod<
+    [player: AddressLike],
+    [[bigint, bigint] & { window: bigint; expectedWait: bigint }],
+    "view"
+  >;
+
+  joinQueue: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  leaveQueue: TypedContractMethod<[], [void], "nonpayable">;
+
+  queueHead: TypedContractMethod<[], [bigint], "view">;
+
+  queuedAt: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  ratingWindow: TypedContractMethod<[player: AddressLike], [bigint], "view">;
+
+  retryQueue: TypedContractMethod<[], [bigint], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "BASE_RATING_WINDOW"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_QUEUE_SCAN"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "WINDOW_GROWTH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "WINDOW_GROWTH_INTERVAL"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "arena"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "getQueuePosition"
+  ): TypedContractMethod<[player: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getQueueStatus"
+  ): TypedContractMethod<
+    [player: AddressLike],
+    [[bigint, bigint] & { window: bigint; expectedWait: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "joinQueue"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+  getFunction(
+    nameOrSignature: "leaveQueue"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "queueHead"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "queuedAt"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ratingWindow"
+  ): TypedContractMethod<[player: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "retryQueue"
+  ): TypedContractMethod<[], [bigint], "nonpayable">;
+
+  getEvent(
+    key: "QueueJoined"
+  ): TypedContractEvent<
+    QueueJoinedEvent.InputTuple,
+    QueueJoinedEvent.OutputTuple,
+    QueueJoinedEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueueLeft"
+  ): TypedContractEvent<
+    QueueLeftEvent.InputTuple,
+    QueueLeftEvent.OutputTuple,
+    QueueLeftEvent.OutputObject
+  >;
+  getEvent(
+    key: "QueueMatched"
+  ): TypedContractEvent<
+    QueueMatchedEvent.InputTuple,
+    QueueMatchedEvent.OutputTuple,
+    QueueMatchedEvent.OutputObject
+  >;
+
+  filters: {
+    "QueueJoined(address)": TypedContractEvent<
+      QueueJoinedEvent.InputTuple,
+      QueueJoinedEvent.OutputTuple,
+      QueueJoinedEvent.OutputObject
+    >;
+    QueueJoined: TypedContractEvent<
+      QueueJoinedEvent.InputTuple,
+      QueueJoinedEvent.OutputTuple,
+      QueueJoinedEvent.OutputObject
+    >;
+
+    "QueueLeft(address)": TypedContractEvent<
+      QueueLeftEvent.InputTuple,
+      QueueLeftEvent.OutputTuple,
+      QueueLeftEvent.OutputObject
+    >;
+    QueueLeft: TypedContractEvent<
+      QueueLeftEvent.InputTuple,
+      QueueLeftEvent.OutputTuple,
+      QueueLeftEvent.OutputObject
+    >;
+
+    "QueueMatched(uint256,address,address)": TypedContractEvent<
+      QueueMatchedEvent.InputTuple,
+      QueueMatchedEvent.OutputTuple,
+      QueueMatchedEvent.OutputObject
+    >;
+    QueueMatched: TypedContractEvent<
+      QueueMatchedEvent.InputTuple,
+      QueueMatchedEvent.OutputTuple,
+      QueueMatchedEvent.OutputObject
+    >;
+  };
+}
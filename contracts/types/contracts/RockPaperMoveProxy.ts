@@ -0,0 +1,119 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface RockPaperMoveProxyInterface extends Interface {
+  getFunction(
+    nameOrSignature: "arena" | "forwarder" | "player" | "submitMove"
+  ): FunctionFragment;
+
+  encodeFunctionData(functionFragment: "arena", values?: undefined): string;
+  encodeFunctionData(functionFragment: "forwarder", values?: undefined): string;
+  encodeFunctionData(functionFragment: "player", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "submitMove",
+    values: [BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "arena", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "forwarder", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "player", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "submitMove", data: BytesLike): Result;
+}
+
+export interface RockPaperMoveProxy extends BaseContract {
+  connect(runner?: ContractRunner | null): RockPaperMoveProxy;
+  waitForDeployment(): Promise<this>;
+
+  interface: RockPaperMoveProxyInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  arena: TypedContractMethod<[], [string], "view">;
+
+  forwarder: TypedContractMethod<[], [string], "view">;
+
+  player: TypedContractMethod<[], [string], "view">;
+
+  submitMove: TypedContractMethod<
+    [matchId: BigNumberish, encryptedMove: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "arena"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "forwarder"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "player"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "submitMove"
+  ): TypedContractMethod<
+    [matchId: BigNumberish, encryptedMove: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
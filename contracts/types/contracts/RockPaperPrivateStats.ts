@@ -0,0 +1,268 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export interface RockPaperPrivateStatsInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "arena"
+      | "confidentialProtocolId"
+      | "getPrivateStats"
+      | "privacyMode"
+      | "publishStats"
+      | "published"
+      | "recordResult"
+      | "setPrivacyMode"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic: "PrivacyModeChanged" | "StatsPublished"
+  ): EventFragment;
+
+  encodeFunctionData(functionFragment: "arena", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "confidentialProtocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPrivateStats",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "privacyMode",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishStats",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "published",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordResult",
+    values: [AddressLike, AddressLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPrivacyMode",
+    values: [boolean]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "arena", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "confidentialProtocolId",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPrivateStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "privacyMode",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishStats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "published", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "recordResult",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPrivacyMode",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace PrivacyModeChangedEvent {
+  export type InputTuple = [player: AddressLike, enabled: boolean];
+  export type OutputTuple = [player: string, enabled: boolean];
+  export interface OutputObject {
+    player: string;
+    enabled: boolean;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace StatsPublishedEvent {
+  export type InputTuple = [player: AddressLike];
+  export type OutputTuple = [player: string];
+  export interface OutputObject {
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RockPaperPrivateStats extends BaseContract {
+  connect(runner?: ContractRunner | null): RockPaperPrivateStats;
+  waitForDeployment(): Promise<this>;
+
+  interface: RockPaperPrivateStatsInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  arena: TypedContractMethod<[], [string], "view">;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  getPrivateStats: TypedContractMethod<
+    [season: BigNumberish, player: AddressLike],
+    [[string, string] & { wins: string; losses: string }],
+    "view"
+  >;
+
+  privacyMode: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  publishStats: TypedContractMethod<[], [void], "nonpayable">;
+
+  published: TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+
+  recordResult: TypedContractMethod<
+    [player1: AddressLike, player2: AddressLike, result: BytesLike],
+    [[boolean, boolean] & { private1: boolean; private2: boolean }],
+    "nonpayable"
+  >;
+
+  setPrivacyMode: TypedContractMethod<[enabled: boolean], [void], "nonpayable">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "arena"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "confidentialProtocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPrivateStats"
+  ): TypedContractMethod<
+    [season: BigNumberish, player: AddressLike],
+    [[string, string] & { wins: string; losses: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "privacyMode"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "publishStats"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "published"
+  ): TypedContractMethod<[arg0: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "recordResult"
+  ): TypedContractMethod<
+    [player1: AddressLike, player2: AddressLike, result: BytesLike],
+    [[boolean, boolean] & { private1: boolean; private2: boolean }],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setPrivacyMode"
+  ): TypedContractMethod<[enabled: boolean], [void], "nonpayable">;
+
+  getEvent(
+    key: "PrivacyModeChanged"
+  ): TypedContractEvent<
+    PrivacyModeChangedEvent.InputTuple,
+    PrivacyModeChangedEvent.OutputTuple,
+    PrivacyModeChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "StatsPublished"
+  ): TypedContractEvent<
+    StatsPublishedEvent.InputTuple,
+    StatsPublishedEvent.OutputTuple,
+    StatsPublishedEvent.OutputObject
+  >;
+
+  filters: {
+    "PrivacyModeChanged(address,bool)": TypedContractEvent<
+      PrivacyModeChangedEvent.InputTuple,
+      PrivacyModeChangedEvent.OutputTuple,
+      PrivacyModeChangedEvent.OutputObject
+    >;
+    PrivacyModeChanged: TypedContractEvent<
+      PrivacyModeChangedEvent.InputTuple,
+      PrivacyModeChangedEvent.OutputTuple,
+      PrivacyModeChangedEvent.OutputObject
+    >;
+
+    "StatsPublished(address)": TypedContractEvent<
+      StatsPublishedEvent.InputTuple,
+      StatsPublishedEvent.OutputTuple,
+      StatsPublishedEvent.OutputObject
+    >;
+    StatsPublished: TypedContractEvent<
+      StatsPublishedEvent.InputTuple,
+      StatsPublishedEvent.OutputTuple,
+      StatsPublishedEvent.OutputObject
+    >;
+  };
+}
@@ -0,0 +1,761 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace RockPaperTournament {
+  export type BracketMatchStruct = {
+    player1: AddressLike;
+    player2: AddressLike;
+    arenaMatchId: BigNumberish;
+    winner: AddressLike;
+    decided: boolean;
+    startDeadline: BigNumberish;
+  };
+
+  export type BracketMatchStructOutput = [
+    player1: string,
+    player2: string,
+    arenaMatchId: bigint,
+    winner: string,
+    decided: boolean,
+    startDeadline: bigint
+  ] & {
+    player1: string;
+    player2: string;
+    arenaMatchId: bigint;
+    winner: string;
+    decided: boolean;
+    startDeadline: bigint;
+  };
+
+  export type TournamentStruct = {
+    tournamentId: BigNumberish;
+    organizer: AddressLike;
+    size: BigNumberish;
+    bestOf: BigNumberish;
+    entryFee: BigNumberish;
+    prizePool: BigNumberish;
+    state: BigNumberish;
+    createdAt: BigNumberish;
+    champion: AddressLike;
+    runnerUp: AddressLike;
+  };
+
+  export type TournamentStructOutput = [
+    tournamentId: bigint,
+    organizer: string,
+    size: bigint,
+    bestOf: bigint,
+    entryFee: bigint,
+    prizePool: bigint,
+    state: bigint,
+    createdAt: bigint,
+    champion: string,
+    runnerUp: string
+  ] & {
+    tournamentId: bigint;
+    organizer: string;
+    size: bigint;
+    bestOf: bigint;
+    entryFee: bigint;
+    prizePool: bigint;
+    state: bigint;
+    createdAt: bigint;
+    champion: string;
+    runnerUp: string;
+  };
+}
+
+export interface RockPaperTournamentInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "CHAMPION_SHARE_BPS"
+      | "MAX_BRACKET_SIZE"
+      | "START_WINDOW"
+      | "arena"
+      | "bracketRefs"
+      | "cancelTournament"
+      | "claimPrizes"
+      | "claimWalkover"
+      | "createTournament"
+      | "getBracket"
+      | "getEntrants"
+      | "getTournament"
+      | "isRegistered"
+      | "onMatchEnded"
+      | "pendingPrizes"
+      | "register"
+      | "startMatch"
+      | "tournamentCounter"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "BracketMatchDecided"
+      | "BracketMatchOpened"
+      | "PlayerRegistered"
+      | "PrizesClaimed"
+      | "TournamentCancelled"
+      | "TournamentCompleted"
+      | "TournamentCreated"
+      | "TournamentStarted"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "CHAMPION_SHARE_BPS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_BRACKET_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "START_WINDOW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "arena", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "bracketRefs",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelTournament",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimPrizes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimWalkover",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createTournament",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBracket",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEntrants",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTournament",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isRegistered",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onMatchEnded",
+    values: [BigNumberish, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "pendingPrizes",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "register",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "startMatch",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tournamentCounter",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "CHAMPION_SHARE_BPS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_BRACKET_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "START_WINDOW",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "arena", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "bracketRefs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelTournament",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimPrizes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "claimWalkover",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createTournament",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBracket", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getEntrants",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTournament",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isRegistered",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onMatchEnded",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "pendingPrizes",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "register", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "startMatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tournamentCounter",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace BracketMatchDecidedEvent {
+  export type InputTuple = [
+    tournamentId: BigNumberish,
+    index: BigNumberish,
+    winner: AddressLike
+  ];
+  export type OutputTuple = [
+    tournamentId: bigint,
+    index: bigint,
+    winner: string
+  ];
+  export interface OutputObject {
+    tournamentId: bigint;
+    index: bigint;
+    winner: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BracketMatchOpenedEvent {
+  export type InputTuple = [
+    tournamentId: BigNumberish,
+    index: BigNumberish,
+    arenaMatchId: BigNumberish
+  ];
+  export type OutputTuple = [
+    tournamentId: bigint,
+    index: bigint,
+    arenaMatchId: bigint
+  ];
+  export interface OutputObject {
+    tournamentId: bigint;
+    index: bigint;
+    arenaMatchId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PlayerRegisteredEvent {
+  export type InputTuple = [tournamentId: BigNumberish, player: AddressLike];
+  export type OutputTuple = [tournamentId: bigint, player: string];
+  export interface OutputObject {
+    tournamentId: bigint;
+    player: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PrizesClaimedEvent {
+  export type InputTuple = [account: AddressLike, amount: BigNumberish];
+  export type OutputTuple = [account: string, amount: bigint];
+  export interface OutputObject {
+    account: string;
+    amount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TournamentCancelledEvent {
+  export type InputTuple = [tournamentId: BigNumberish];
+  export type OutputTuple = [tournamentId: bigint];
+  export interface OutputObject {
+    tournamentId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TournamentCompletedEvent {
+  export type InputTuple = [
+    tournamentId: BigNumberish,
+    champion: AddressLike,
+    runnerUp: AddressLike
+  ];
+  export type OutputTuple = [
+    tournamentId: bigint,
+    champion: string,
+    runnerUp: string
+  ];
+  export interface OutputObject {
+    tournamentId: bigint;
+    champion: string;
+    runnerUp: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TournamentCreatedEvent {
+  export type InputTuple = [
+    tournamentId: BigNumberish,
+    organizer: AddressLike,
+    size: BigNumberish,
+    entryFee: BigNumberish,
+    sponsorPot: BigNumberish
+  ];
+  export type OutputTuple = [
+    tournamentId: bigint,
+    organizer: string,
+    size: bigint,
+    entryFee: bigint,
+    sponsorPot: bigint
+  ];
+  export interface OutputObject {
+    tournamentId: bigint;
+    organizer: string;
+    size: bigint;
+    entryFee: bigint;
+    sponsorPot: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TournamentStartedEvent {
+  export type InputTuple = [tournamentId: BigNumberish];
+  export type OutputTuple = [tournamentId: bigint];
+  export interface OutputObject {
+    tournamentId: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface RockPaperTournament extends BaseContract {
+  connect(runner?: ContractRunner | null): RockPaperTournament;
+  waitForDeployment(): Promise<this>;
+
+  interface: RockPaperTournamentInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  CHAMPION_SHARE_BPS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_BRACKET_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  START_WINDOW: TypedContractMethod<[], [bigint], "view">;
+
+  arena: TypedContractMethod<[], [string], "view">;
+
+  bracketRefs: TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { tournamentId: bigint; index: bigint }],
+    "view"
+  >;
+
+  cancelTournament: TypedContractMethod<
+    [tournamentId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  claimPrizes: TypedContractMethod<[], [void], "nonpayable">;
+
+  claimWalkover: TypedContractMethod<
+    [tournamentId: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  createTournament: TypedContractMethod<
+    [size: BigNumberish, entryFee: BigNumberish, bestOf: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+
+  getBracket: TypedContractMethod<
+    [tournamentId: BigNumberish],
+    [RockPaperTournament.BracketMatchStructOutput[]],
+    "view"
+  >;
+
+  getEntrants: TypedContractMethod<
+    [tournamentId: BigNumberish],
+    [string[]],
+    "view"
+  >;
+
+  getTournament: TypedContractMethod<
+    [tournamentId: BigNumberish],
+    [RockPaperTournament.TournamentStructOutput],
+    "view"
+  >;
+
+  isRegistered: TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  onMatchEnded: TypedContractMethod<
+    [matchId: BigNumberish, winner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  pendingPrizes: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  register: TypedContractMethod<
+    [tournamentId: BigNumberish],
+    [void],
+    "payable"
+  >;
+
+  startMatch: TypedContractMethod<
+    [tournamentId: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  tournamentCounter: TypedContractMethod<[], [bigint], "view">;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "CHAMPION_SHARE_BPS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_BRACKET_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "START_WINDOW"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "arena"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "bracketRefs"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [[bigint, bigint] & { tournamentId: bigint; index: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "cancelTournament"
+  ): TypedContractMethod<[tournamentId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimPrizes"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "claimWalkover"
+  ): TypedContractMethod<
+    [tournamentId: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "createTournament"
+  ): TypedContractMethod<
+    [size: BigNumberish, entryFee: BigNumberish, bestOf: BigNumberish],
+    [bigint],
+    "payable"
+  >;
+  getFunction(
+    nameOrSignature: "getBracket"
+  ): TypedContractMethod<
+    [tournamentId: BigNumberish],
+    [RockPaperTournament.BracketMatchStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEntrants"
+  ): TypedContractMethod<[tournamentId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getTournament"
+  ): TypedContractMethod<
+    [tournamentId: BigNumberish],
+    [RockPaperTournament.TournamentStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "isRegistered"
+  ): TypedContractMethod<
+    [arg0: BigNumberish, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "onMatchEnded"
+  ): TypedContractMethod<
+    [matchId: BigNumberish, winner: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "pendingPrizes"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "register"
+  ): TypedContractMethod<[tournamentId: BigNumberish], [void], "payable">;
+  getFunction(
+    nameOrSignature: "startMatch"
+  ): TypedContractMethod<
+    [tournamentId: BigNumberish, index: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "tournamentCounter"
+  ): TypedContractMethod<[], [bigint], "view">;
+
+  getEvent(
+    key: "BracketMatchDecided"
+  ): TypedContractEvent<
+    BracketMatchDecidedEvent.InputTuple,
+    BracketMatchDecidedEvent.OutputTuple,
+    BracketMatchDecidedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BracketMatchOpened"
+  ): TypedContractEvent<
+    BracketMatchOpenedEvent.InputTuple,
+    BracketMatchOpenedEvent.OutputTuple,
+    BracketMatchOpenedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PlayerRegistered"
+  ): TypedContractEvent<
+    PlayerRegisteredEvent.InputTuple,
+    PlayerRegisteredEvent.OutputTuple,
+    PlayerRegisteredEvent.OutputObject
+  >;
+  getEvent(
+    key: "PrizesClaimed"
+  ): TypedContractEvent<
+    PrizesClaimedEvent.InputTuple,
+    PrizesClaimedEvent.OutputTuple,
+    PrizesClaimedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TournamentCancelled"
+  ): TypedContractEvent<
+    TournamentCancelledEvent.InputTuple,
+    TournamentCancelledEvent.OutputTuple,
+    TournamentCancelledEvent.OutputObject
+  >;
+  getEvent(
+    key: "TournamentCompleted"
+  ): TypedContractEvent<
+    TournamentCompletedEvent.InputTuple,
+    TournamentCompletedEvent.OutputTuple,
+    TournamentCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TournamentCreated"
+  ): TypedContractEvent<
+    TournamentCreatedEvent.InputTuple,
+    TournamentCreatedEvent.OutputTuple,
+    TournamentCreatedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TournamentStarted"
+  ): TypedContractEvent<
+    TournamentStartedEvent.InputTuple,
+    TournamentStartedEvent.OutputTuple,
+    TournamentStartedEvent.OutputObject
+  >;
+
+  filters: {
+    "BracketMatchDecided(uint256,uint256,address)": TypedContractEvent<
+      BracketMatchDecidedEvent.InputTuple,
+      BracketMatchDecidedEvent.OutputTuple,
+      BracketMatchDecidedEvent.OutputObject
+    >;
+    BracketMatchDecided: TypedContractEvent<
+      BracketMatchDecidedEvent.InputTuple,
+      BracketMatchDecidedEvent.OutputTuple,
+      BracketMatchDecidedEvent.OutputObject
+    >;
+
+    "BracketMatchOpened(uint256,uint256,uint256)": TypedContractEvent<
+      BracketMatchOpenedEvent.InputTuple,
+      BracketMatchOpenedEvent.OutputTuple,
+      BracketMatchOpenedEvent.OutputObject
+    >;
+    BracketMatchOpened: TypedContractEvent<
+      BracketMatchOpenedEvent.InputTuple,
+      BracketMatchOpenedEvent.OutputTuple,
+      BracketMatchOpenedEvent.OutputObject
+    >;
+
+    "PlayerRegistered(uint256,address)": TypedContractEvent<
+      PlayerRegisteredEvent.InputTuple,
+      PlayerRegisteredEvent.OutputTuple,
+      PlayerRegisteredEvent.OutputObject
+    >;
+    PlayerRegistered: TypedContractEvent<
+      PlayerRegisteredEvent.InputTuple,
+      PlayerRegisteredEvent.OutputTuple,
+      PlayerRegisteredEvent.OutputObject
+    >;
+
+    "PrizesClaimed(address,uint256)": TypedContractEvent<
+      PrizesClaimedEvent.InputTuple,
+      PrizesClaimedEvent.OutputTuple,
+      PrizesClaimedEvent.OutputObject
+    >;
+    PrizesClaimed: TypedContractEvent<
+      PrizesClaimedEvent.InputTuple,
+      PrizesClaimedEvent.OutputTuple,
+      PrizesClaimedEvent.OutputObject
+    >;
+
+    "TournamentCancelled(uint256)": TypedContractEvent<
+      TournamentCancelledEvent.InputTuple,
+      TournamentCancelledEvent.OutputTuple,
+      TournamentCancelledEvent.OutputObject
+    >;
+    TournamentCancelled: TypedContractEvent<
+      TournamentCancelledEvent.InputTuple,
+      TournamentCancelledEvent.OutputTuple,
+      TournamentCancelledEvent.OutputObject
+    >;
+
+    "TournamentCompleted(uint256,address,address)": TypedContractEvent<
+      TournamentCompletedEvent.InputTuple,
+      TournamentCompletedEvent.OutputTuple,
+      TournamentCompletedEvent.OutputObject
+    >;
+    TournamentCompleted: TypedContractEvent<
+      TournamentCompletedEvent.InputTuple,
+      TournamentCompletedEvent.OutputTuple,
+      TournamentCompletedEvent.OutputObject
+    >;
+
+    "TournamentCreated(uint256,address,uint8,uint256,uint256)": TypedContractEvent<
+      TournamentCreatedEvent.InputTuple,
+      TournamentCreatedEvent.OutputTuple,
+      TournamentCreatedEvent.OutputObject
+    >;
+    TournamentCreated: TypedContractEvent<
+      TournamentCreatedEvent.InputTuple,
+      TournamentCreatedEvent.OutputTuple,
+      TournamentCreatedEvent.OutputObject
+    >;
+
+    "TournamentStarted(uint256)": TypedContractEvent<
+      TournamentStartedEvent.InputTuple,
+      TournamentStartedEvent.OutputTuple,
+      TournamentStartedEvent.OutputObject
+    >;
+    TournamentStarted: TypedContractEvent<
+      TournamentStartedEvent.InputTuple,
+      TournamentStartedEvent.OutputTuple,
+      TournamentStartedEvent.OutputObject
+    >;
+  };
+}
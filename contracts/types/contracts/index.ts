@@ -1,4 +1,13 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+import type * as interfaces from "./interfaces";
+export type { interfaces };
+import type * as mocks from "./mocks";
+export type { mocks };
 export type { RockPaperArena } from "./RockPaperArena";
+export type { RockPaperForwarder } from "./RockPaperForwarder";
+export type { RockPaperMatchmaker } from "./RockPaperMatchmaker";
+export type { RockPaperMoveProxy } from "./RockPaperMoveProxy";
+export type { RockPaperPrivateStats } from "./RockPaperPrivateStats";
+export type { RockPaperTournament } from "./RockPaperTournament";
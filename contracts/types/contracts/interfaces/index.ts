@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { IMatchManager } from "./IMatchManager";
+export type { IMoveForwarder } from "./IMoveForwarder";
+export type { IPrivateStats } from "./IPrivateStats";
@@ -0,0 +1,176 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedListener,
+  TypedContractMethod,
+} from "../../common";
+
+export interface MockRatingArenaInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "MAX_ACTIVE_MATCHES"
+      | "createQueuedMatch"
+      | "getActiveMatches"
+      | "matchCount"
+      | "ratingOf"
+      | "setRating"
+  ): FunctionFragment;
+
+  encodeFunctionData(
+    functionFragment: "MAX_ACTIVE_MATCHES",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createQueuedMatch",
+    values: [AddressLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getActiveMatches",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "matchCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "ratingOf",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRating",
+    values: [AddressLike, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "MAX_ACTIVE_MATCHES",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createQueuedMatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getActiveMatches",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "matchCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ratingOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "setRating", data: BytesLike): Result;
+}
+
+export interface MockRatingArena extends BaseContract {
+  connect(runner?: ContractRunner | null): MockRatingArena;
+  waitForDeployment(): Promise<this>;
+
+  interface: MockRatingArenaInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  MAX_ACTIVE_MATCHES: TypedContractMethod<[], [bigint], "view">;
+
+  createQueuedMatch: TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+
+  getActiveMatches: TypedContractMethod<
+    [arg0: AddressLike],
+    [bigint[]],
+    "view"
+  >;
+
+  matchCount: TypedContractMethod<[], [bigint], "view">;
+
+  ratingOf: TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+
+  setRating: TypedContractMethod<
+    [player: AddressLike, rating: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "MAX_ACTIVE_MATCHES"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "createQueuedMatch"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: AddressLike],
+    [bigint],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "getActiveMatches"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "matchCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "ratingOf"
+  ): TypedContractMethod<[arg0: AddressLike], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "setRating"
+  ): TypedContractMethod<
+    [player: AddressLike, rating: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  filters: {};
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export type { MockConfidentialToken } from "./MockConfidentialToken";
+export type { MockRatingArena } from "./MockRatingArena";
+export type { MockWagerToken } from "./MockWagerToken";
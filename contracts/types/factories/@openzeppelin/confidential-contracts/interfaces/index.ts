@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IERC7984__factory } from "./IERC7984__factory";
+export { IERC7984Receiver__factory } from "./IERC7984Receiver__factory";
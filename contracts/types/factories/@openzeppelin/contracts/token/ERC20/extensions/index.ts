@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { ERC20Permit__factory } from "./ERC20Permit__factory";
+export { IERC20Metadata__factory } from "./IERC20Metadata__factory";
+export { IERC20Permit__factory } from "./IERC20Permit__factory";
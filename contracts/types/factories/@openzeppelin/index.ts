@@ -0,0 +1,5 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export * as confidentialContracts from "./confidential-contracts";
+export * as contracts from "./contracts";
@@ -0,0 +1,161 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RockPaperMoveProxy,
+  RockPaperMoveProxyInterface,
+} from "../../contracts/RockPaperMoveProxy";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract RockPaperArena",
+        name: "arena_",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "player_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "NotForwarder",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "arena",
+    outputs: [
+      {
+        internalType: "contract RockPaperArena",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "forwarder",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "player",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "matchId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedMove",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "submitMove",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60e060405234801561000f575f5ffd5b5060405161038c38038061038c83398101604081905261002e91610060565b336080526001600160a01b0391821660a0521660c052610098565b6001600160a01b038116811461005d575f5ffd5b50565b5f5f60408385031215610071575f5ffd5b825161007c81610049565b602084015190925061008d81610049565b809150509250929050565b60805160a05160c0516102b96100d35f395f81816053015261018101525f818160d2015261015401525f818160ab015260ff01526102b95ff3fe608060405234801561000f575f5ffd5b506004361061004a575f3560e01c806348db5f891461004e57806373b07f8914610091578063f645d4f9146100a6578063fd3705f9146100cd575b5f5ffd5b6100757f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200160405180910390f35b6100a461009f3660046101e4565b6100f4565b005b6100757f000000000000000000000000000000000000000000000000000000000000000081565b6100757f000000000000000000000000000000000000000000000000000000000000000081565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461013d5760405163183d164560e21b815260040160405180910390fd5b6040516303bc7a7760e31b81526001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001690631de3d3b8906101b1907f0000000000000000000000000000000000000000000000000000000000000000908890889088908890600401610260565b5f604051808303815f87803b1580156101c8575f5ffd5b505af11580156101da573d5f5f3e3d5ffd5b5050505050505050565b5f5f5f5f606085870312156101f7575f5ffd5b8435935060208501359250604085013567ffffffffffffffff81111561021b575f5ffd5b8501601f8101871361022b575f5ffd5b803567ffffffffffffffff811115610241575f5ffd5b876020828401011115610252575f5ffd5b949793965060200194505050565b6001600160a01b038616815284602082015283604082015260806060820152816080820152818360a08301375f81830160a090810191909152601f909201601f1916010194935050505056fea164736f6c634300081b000a";
+
+type RockPaperMoveProxyConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RockPaperMoveProxyConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RockPaperMoveProxy__factory extends ContractFactory {
+  constructor(...args: RockPaperMoveProxyConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    arena_: AddressLike,
+    player_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(arena_, player_, overrides || {});
+  }
+  override deploy(
+    arena_: AddressLike,
+    player_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(arena_, player_, overrides || {}) as Promise<
+      RockPaperMoveProxy & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): RockPaperMoveProxy__factory {
+    return super.connect(runner) as RockPaperMoveProxy__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RockPaperMoveProxyInterface {
+    return new Interface(_abi) as RockPaperMoveProxyInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RockPaperMoveProxy {
+    return new Contract(address, _abi, runner) as unknown as RockPaperMoveProxy;
+  }
+}
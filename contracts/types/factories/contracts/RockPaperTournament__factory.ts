@@ -0,0 +1,718 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type {
+  Signer,
+  AddressLike,
+  ContractDeployTransaction,
+  ContractRunner,
+} from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  RockPaperTournament,
+  RockPaperTournamentInterface,
+} from "../../contracts/RockPaperTournament";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "contract RockPaperArena",
+        name: "arena_",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [],
+    name: "AlreadyRegistered",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "DeadlineNotReached",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "EntryFeeMismatch",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidBracketSize",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidSeriesLength",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidTournamentId",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "MatchNotReady",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NoRewards",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotArena",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "NotOrganizer",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "RegistrationClosed",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "TransferFailed",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+    ],
+    name: "BracketMatchDecided",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "arenaMatchId",
+        type: "uint256",
+      },
+    ],
+    name: "BracketMatchOpened",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "PlayerRegistered",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "PrizesClaimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+    ],
+    name: "TournamentCancelled",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "champion",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "runnerUp",
+        type: "address",
+      },
+    ],
+    name: "TournamentCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "organizer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint8",
+        name: "size",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "entryFee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "sponsorPot",
+        type: "uint256",
+      },
+    ],
+    name: "TournamentCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+    ],
+    name: "TournamentStarted",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "CHAMPION_SHARE_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_BRACKET_SIZE",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "START_WINDOW",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "arena",
+    outputs: [
+      {
+        internalType: "contract RockPaperArena",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "bracketRefs",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelTournament",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "claimPrizes",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "claimWalkover",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint8",
+        name: "size",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "entryFee",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "bestOf",
+        type: "uint8",
+      },
+    ],
+    name: "createTournament",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+    ],
+    name: "getBracket",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "player1",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "player2",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "arenaMatchId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "winner",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "decided",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "startDeadline",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct RockPaperTournament.BracketMatch[]",
+        name: "pairings",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+    ],
+    name: "getEntrants",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+    ],
+    name: "getTournament",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "tournamentId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "organizer",
+            type: "address",
+          },
+          {
+            internalType: "uint8",
+            name: "size",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "bestOf",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "entryFee",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "prizePool",
+            type: "uint256",
+          },
+          {
+            internalType: "enum RockPaperTournament.TournamentState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "uint256",
+            name: "createdAt",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "champion",
+            type: "address",
+          },
+          {
+            internalType: "address",
+            name: "runnerUp",
+            type: "address",
+          },
+        ],
+        internalType: "struct RockPaperTournament.Tournament",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isRegistered",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "matchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+    ],
+    name: "onMatchEnded",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "pendingPrizes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+    ],
+    name: "register",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tournamentId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "startMatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tournamentCounter",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60a060405234801561000f575f5ffd5b50604051611df8380380611df883398101604081905261002e9161003f565b6001600160a01b031660805261006c565b5f6020828403121561004f575f5ffd5b81516001600160a01b0381168114610065575f5ffd5b9392505050565b608051611d4a6100ae5f395f81816103a6015281816103eb01528181610a8b01528181610b63015281816112dc0152818161137901526117640152611d4a5ff3fe608060405260043610610123575f3560e01c806370654eff116100a1578063862bbaa511610071578063b81f6e1811610057578063b81f6e1814610339578063f207564e14610382578063fd3705f914610395575f5ffd5b8063862bbaa5146102ee578063abc00bb41461030d575f5ffd5b806370654eff146102875780637357730d1461029a57806373ed5c1c146102af578063788f5352146102c3575f5ffd5b80633c85788e116100f657806346a6d43c116100dc57806346a6d43c146101fe57806352d6e11214610245578063594799c214610268575f5ffd5b80633c85788e146101be5780633d6ad962146101ea575f5ffd5b8063104ac2f514610127578063162efad1146101485780631a5bd7fc14610173578063324322331461019f575b5f5ffd5b348015610132575f5ffd5b50610146610141366004611860565b6103e0565b005b348015610153575f5ffd5b5061015c601081565b60405160ff90911681526020015b60405180910390f35b34801561017e575f5ffd5b5061019261018d36600461188a565b610489565b60405161016a91906118d5565b3480156101aa575f5ffd5b506101466101b936600461188a565b6105a8565b3480156101c9575f5ffd5b506101dd6101d836600461188a565b61071a565b60405161016a9190611995565b3480156101f5575f5ffd5b5061014661087d565b348015610209575f5ffd5b5061023061021836600461188a565b60056020525f90815260409020805460019091015482565b6040805192835260208301919091520161016a565b348015610250575f5ffd5b5061025a611b5881565b60405190815260200161016a565b348015610273575f5ffd5b50610146610282366004611a2e565b61095b565b61025a610295366004611a5f565b610b08565b3480156102a5575f5ffd5b5061025a610e1081565b3480156102ba575f5ffd5b5061025a5f5481565b3480156102ce575f5ffd5b5061025a6102dd366004611a9e565b60066020525f908152604090205481565b3480156102f9575f5ffd5b50610146610308366004611a2e565b610d41565b348015610318575f5ffd5b5061032c61032736600461188a565b610e61565b60405161016a9190611abe565b348015610344575f5ffd5b50610372610353366004611860565b600360209081525f928352604080842090915290825290205460ff1681565b604051901515815260200161016a565b61014661039036600461188a565b610eca565b3480156103a0575f5ffd5b506103c87f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161016a565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461042957604051634e8e6b8f60e11b815260040160405180910390fd5b5f828152600560209081526040808320815180830190925280548083526001909101549282019290925291036104725760405163ce35edbb60e01b815260040160405180910390fd5b610484815f0151826020015184611034565b505050565b60408051610140810182525f80825260208201819052918101829052606081018290526080810182905260a0810182905260c0810182905260e0810182905261010081018290526101208101919091525f8281526001602081815260409283902083516101408101855281548152928101546001600160a01b0381169284019290925260ff600160a01b8304811694840194909452600160a81b9091048316606083015260028101546080830152600381015460a08301526004808201549293919260c08501921690811115610561576105616118a1565b6004811115610572576105726118a1565b81526005820154602082015260068201546001600160a01b03908116604083015260079092015490911660609091015292915050565b5f818152600160208190526040909120908101546001600160a01b031633146105e4576040516323d03a7160e21b815260040160405180910390fd5b600160048083015460ff16908111156105ff576105ff6118a1565b1461061d57604051632fc209f360e01b815260040160405180910390fd5b6004818101805460ff191690911790555f828152600260205260408120805490915b818110156106a157836002015460065f85848154811061066157610661611afe565b5f9182526020808320909101546001600160a01b0316835282019290925260400181208054909190610694908490611b26565b909155505060010161063f565b508083600201546106b29190611b3f565b83600301546106c19190611b56565b335f90815260066020526040812080549091906106df908490611b26565b90915550505f6003840181905560405185917ffa61ec8d7e5a58ceba17772b10ba0c6caa65b40b200302be35f00efc264c789591a250505050565b5f81815260016020819052604082200154606091600160a01b90910460ff16908190036107475750919050565b610752600182611b56565b67ffffffffffffffff81111561076a5761076a611b69565b6040519080825280602002602001820160405280156107c857816020015b6040805160c0810182525f8082526020808301829052928201819052606082018190526080820181905260a082015282525f199092019101816107885790505b5091505f5b6107d8600183611b56565b811015610876575f848152600460208181526040808420858552825292839020835160c08101855281546001600160a01b039081168252600183015481169382019390935260028201549481019490945260038101549182166060850152600160a01b90910460ff1615156080840152015460a0820152835184908390811061086357610863611afe565b60209081029190910101526001016107cd565b5050919050565b335f90815260066020526040812054908190036108ad57604051630fec21fd60e21b815260040160405180910390fd5b335f818152600660205260408082208290555190919083908381818185875af1925050503d805f81146108fb576040519150601f19603f3d011682016040523d82523d5f602084013e610900565b606091505b5050905080610922576040516312171d8360e31b815260040160405180910390fd5b60405182815233907f2ba0f09c5981638c28ab2c6ffad3986b84cf071c22daa8a06415e1a0aee7aea19060200160405180910390a25050565b5f828152600460209081526040808320848452909152902060025f84815260016020526040902060049081015460ff169081111561099b5761099b6118a1565b1415806109ce57505f8381526001602081905260409091208101546109ca9190600160a01b900460ff16611b56565b8210155b806109e457506003810154600160a01b900460ff165b806109f25750600281015415155b80610a05575080546001600160a01b0316155b80610a1b575060018101546001600160a01b0316155b15610a3957604051633cd1363960e01b815260040160405180910390fd5b80546001808301545f86815260208390526040808220909301549251638c8d68c360e01b81526001600160a01b0394851660048201529184166024830152600160a81b90920460ff16604482015290917f00000000000000000000000000000000000000000000000000000000000000001690638c8d68c3906064016020604051808303815f875af1158015610ad1573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610af59190611b7d565b9050610b02848483611258565b50505050565b5f60048460ff161080610b1e5750601060ff8516115b80610b385750610b2f600185611b94565b841660ff165f14155b15610b565760405163b4e9674360e01b815260040160405180910390fd5b60ff82161580610bea57507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316639615833e6040518163ffffffff1660e01b8152600401602060405180830381865afa158015610bbd573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610be19190611bad565b60ff168260ff16115b80610c005750610bfb600283611bdc565b60ff16155b15610c1e576040516323f774b560e11b815260040160405180910390fd5b5f5f8154610c2b90611bfd565b91829055505f818152600160208190526040909120828155808201805460ff878116600160a81b027fffffffffffffffffffff00ffffffffffffffffffffffffffffffffffffffffff918b16600160a01b027fffffffffffffffffffffff00ffffffffffffffffffffffffffffffffffffffff331674ffffffffffffffffffffffffffffffffffffffffff1990941693909317929092171617905560028101869055346003820155600481018054939450909260ff1916828002179055504260058201556040805160ff87168152602081018690523491810191909152339083907fe077746f8df9ffe2c497f775c58cbceea2366cb9f5d257f15c91dd47ec026aa89060600160405180910390a3509392505050565b5f828152600460208181526040808420858552909152909120908101541580610d7557506003810154600160a01b900460ff165b80610d835750600281015415155b15610da157604051633cd1363960e01b815260040160405180910390fd5b8060040154421015610dc657604051633376277360e11b815260040160405180910390fd5b80545f90610ddc906001600160a01b03166112d9565b60018301549091505f90610df8906001600160a01b03166112d9565b9050818015610e045750805b15610e2257604051633cd1363960e01b815260040160405180910390fd5b610e5a858584610e4a5783610e37575f611034565b60018601546001600160a01b0316611034565b85546001600160a01b0316611034565b5050505050565b5f81815260026020908152604091829020805483518184028101840190945280845260609392830182828015610ebe57602002820191905f5260205f20905b81546001600160a01b03168152600190910190602001808311610ea0575b50505050509050919050565b5f8181526001602081905260409091209060048083015460ff1690811115610ef457610ef46118a1565b14610f1257604051632fc209f360e01b815260040160405180910390fd5b5f82815260036020908152604080832033845290915290205460ff1615610f4c57604051630ea075bf60e21b815260040160405180910390fd5b80600201543414610f705760405163b482ad1360e01b815260040160405180910390fd5b5f82815260036020818152604080842033808652908352818520805460ff19166001908117909155878652600284529185208054928301815585529184200180546001600160a01b031916909117905582018054349290610fd2908490611b26565b9091555050604051339083907fc18c35a89038d83bd7af8c744ff689d68f772adf84d7774f8e415f151246694e905f90a360018101545f83815260026020526040902054600160a01b90910460ff16900361103057611030826113ec565b5050565b5f83815260046020908152604080832085845282529182902060038101805474ffffffffffffffffffffffffffffffffffffffffff19166001600160a01b038616908117600160a01b179091558351868152928301529185917f604c387496fed5e2af9cc370dcc9ca2b2108bb049c205ca0b213e5491134c18a910160405180910390a25f8481526001602081905260409091200154600160a01b900460ff166110df600282611b56565b84036110ef57610e5a8583611516565b5f6110fb600286611c15565b611106600284611c15565b6111109190611b26565b905061111d600286611c28565b5f03611159575f868152600460209081526040808320848452909152902080546001600160a01b0319166001600160a01b03861617905561118e565b5f868152600460209081526040808320848452909152902060010180546001600160a01b0319166001600160a01b0386161790555b5f86815260046020908152604080832060018918845290915290206003810154600160a01b900460ff166111c55750505050505050565b5f878152600460209081526040808320858452909152902080546001600160a01b031615806111ff575060018101546001600160a01b0316155b1561124457805461123f90899085906001600160a01b03161561122c5783546001600160a01b0316611034565b60018401546001600160a01b0316611034565b61124e565b61124e88846116fd565b5050505050505050565b5f83815260046020908152604080832085845282528083206002018490558051808201825286815280830186815285855260058452938290209051815592516001909301929092559051838152829185917f29028ea6ceff16fe703f1f8b58dde9017f4aec81180750cc093bc9aae2cf3cbd910160405180910390a3505050565b5f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316634af6183c6040518163ffffffff1660e01b8152600401602060405180830381865afa158015611336573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061135a9190611b7d565b60405163cc3e3d4360e01b81526001600160a01b0384811660048301527f0000000000000000000000000000000000000000000000000000000000000000169063cc3e3d43906024015f60405180830381865afa1580156113bd573d5f5f3e3d5ffd5b505050506040513d5f823e601f3d908101601f191682016040526113e49190810190611c3b565b511092915050565b5f81815260016020526040808220600401805460ff191660021790555182917f6092323421a4a860e7644d69619f90504d467bc4d0ef357c6c17e786217500c591a25f8181526002602081905260408220805490929161144b91611c15565b90505f5b81811015610b02575f84815260046020908152604080832084845290915290208361147b836002611b3f565b8154811061148b5761148b611afe565b5f9182526020909120015481546001600160a01b0319166001600160a01b03909116178155836114bc836002611b3f565b6114c7906001611b26565b815481106114d7576114d7611afe565b5f918252602090912001546001820180546001600160a01b0319166001600160a01b0390921691909117905561150d85836116fd565b5060010161144f565b5f828152600160205260408120600383015490916001600160a01b039091169081156115725783546001600160a01b038381169116146115605783546001600160a01b031661156f565b60018401546001600160a01b03165b90505b6004830180546003919060ff191660018302179055506006830180546001600160a01b038085166001600160a01b03199283168117909355600786018054918516919092161790556003840154906115fa5760018401546001600160a01b03165f90815260066020526040812080548392906115ef908490611b26565b909155506116b39050565b6001600160a01b03821661162f576001600160a01b0383165f90815260066020526040812080548392906115ef908490611b26565b5f61271061163f611b5884611b3f565b6116499190611c15565b6001600160a01b0385165f90815260066020526040812080549293508392909190611675908490611b26565b9091555061168590508183611b56565b6001600160a01b0384165f90815260066020526040812080549091906116ac908490611b26565b9091555050505b6040516001600160a01b03838116825284169087907ff95b80ca29c7f66225098a5b773230802766da5046cb13d02035a7a98a2b53909060200160405180910390a3505050505050565b5f828152600460208181526040808420858552825280842080546001808301548988529481905295839020909501549151638c8d68c360e01b81526001600160a01b03958616948101949094529184166024840152600160a81b900460ff166044830152917f00000000000000000000000000000000000000000000000000000000000000001690638c8d68c3906064016020604051808303815f875af19250505080156117c8575060408051601f3d908101601f191682019092526117c591810190611b7d565b60015b61183a573d8080156117f5576040519150601f19603f3d011682016040523d82523d5f602084013e6117fa565b606091505b50635f8e093960e01b61180c82611d03565b6001600160e01b0319161461182357805160208201fd5b61182f610e1042611b26565b600483015550505050565b610b02848483611258565b80356001600160a01b038116811461185b575f5ffd5b919050565b5f5f60408385031215611871575f5ffd5b8235915061188160208401611845565b90509250929050565b5f6020828403121561189a575f5ffd5b5035919050565b634e487b7160e01b5f52602160045260245ffd5b600581106118d157634e487b7160e01b5f52602160045260245ffd5b9052565b815181526020808301516101408301916118f9908401826001600160a01b03169052565b50604083015161190e604084018260ff169052565b506060830151611923606084018260ff169052565b506080830151608083015260a083015160a083015260c083015161194a60c08401826118b5565b5060e083015160e08301526101008301516119716101008401826001600160a01b03169052565b5061012083015161198e6101208401826001600160a01b03169052565b5092915050565b602080825282518282018190525f918401906040840190835b81811015611a235783516001600160a01b0381511684526001600160a01b036020820151166020850152604081015160408501526001600160a01b03606082015116606085015260808101511515608085015260a081015160a08501525060c0830192506020840193506001810190506119ae565b509095945050505050565b5f5f60408385031215611a3f575f5ffd5b50508035926020909101359150565b60ff81168114611a5c575f5ffd5b50565b5f5f5f60608486031215611a71575f5ffd5b8335611a7c81611a4e565b9250602084013591506040840135611a9381611a4e565b809150509250925092565b5f60208284031215611aae575f5ffd5b611ab782611845565b9392505050565b602080825282518282018190525f918401906040840190835b81811015611a235783516001600160a01b0316835260209384019390920191600101611ad7565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b80820180821115611b3957611b39611b12565b92915050565b8082028115828204841417611b3957611b39611b12565b81810381811115611b3957611b39611b12565b634e487b7160e01b5f52604160045260245ffd5b5f60208284031215611b8d575f5ffd5b5051919050565b60ff8281168282160390811115611b3957611b39611b12565b5f60208284031215611bbd575f5ffd5b8151611ab781611a4e565b634e487b7160e01b5f52601260045260245ffd5b5f60ff831680611bee57611bee611bc8565b8060ff84160691505092915050565b5f60018201611c0e57611c0e611b12565b5060010190565b5f82611c2357611c23611bc8565b500490565b5f82611c3657611c36611bc8565b500690565b5f60208284031215611c4b575f5ffd5b815167ffffffffffffffff811115611c61575f5ffd5b8201601f81018413611c71575f5ffd5b805167ffffffffffffffff811115611c8b57611c8b611b69565b8060051b604051601f19603f830116810181811067ffffffffffffffff82111715611cb857611cb8611b69565b604052918252602081840181019290810187841115611cd5575f5ffd5b6020850194505b83851015611cf857845180825260209586019590935001611cdc565b509695505050505050565b805160208201516001600160e01b0319811691906004821015610876576001600160e01b031960049290920360031b82901b16169291505056fea164736f6c634300081b000a";
+
+type RockPaperTournamentConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: RockPaperTournamentConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class RockPaperTournament__factory extends ContractFactory {
+  constructor(...args: RockPaperTournamentConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    arena_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(arena_, overrides || {});
+  }
+  override deploy(
+    arena_: AddressLike,
+    overrides?: NonPayableOverrides & { from?: string }
+  ) {
+    return super.deploy(arena_, overrides || {}) as Promise<
+      RockPaperTournament & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): RockPaperTournament__factory {
+    return super.connect(runner) as RockPaperTournament__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): RockPaperTournamentInterface {
+    return new Interface(_abi) as RockPaperTournamentInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): RockPaperTournament {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as RockPaperTournament;
+  }
+}
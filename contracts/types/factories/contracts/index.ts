@@ -1,4 +1,11 @@
 /* Autogenerated file. Do not edit manually. */
 /* tslint:disable */
 /* eslint-disable */
+export * as interfaces from "./interfaces";
+export * as mocks from "./mocks";
 export { RockPaperArena__factory } from "./RockPaperArena__factory";
+export { RockPaperForwarder__factory } from "./RockPaperForwarder__factory";
+export { RockPaperMatchmaker__factory } from "./RockPaperMatchmaker__factory";
+export { RockPaperMoveProxy__factory } from "./RockPaperMoveProxy__factory";
+export { RockPaperPrivateStats__factory } from "./RockPaperPrivateStats__factory";
+export { RockPaperTournament__factory } from "./RockPaperTournament__factory";
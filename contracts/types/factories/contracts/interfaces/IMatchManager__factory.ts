@@ -0,0 +1,43 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IMatchManager,
+  IMatchManagerInterface,
+} from "../../../contracts/interfaces/IMatchManager";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "matchId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "winner",
+        type: "address",
+      },
+    ],
+    name: "onMatchEnded",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IMatchManager__factory {
+  static readonly abi = _abi;
+  static createInterface(): IMatchManagerInterface {
+    return new Interface(_abi) as IMatchManagerInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IMatchManager {
+    return new Contract(address, _abi, runner) as unknown as IMatchManager;
+  }
+}
@@ -0,0 +1,44 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IMoveForwarder,
+  IMoveForwarderInterface,
+} from "../../../contracts/interfaces/IMoveForwarder";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+    ],
+    name: "proxyOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+export class IMoveForwarder__factory {
+  static readonly abi = _abi;
+  static createInterface(): IMoveForwarderInterface {
+    return new Interface(_abi) as IMoveForwarderInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IMoveForwarder {
+    return new Contract(address, _abi, runner) as unknown as IMoveForwarder;
+  }
+}
@@ -0,0 +1,59 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Interface, type ContractRunner } from "ethers";
+import type {
+  IPrivateStats,
+  IPrivateStatsInterface,
+} from "../../../contracts/interfaces/IPrivateStats";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player1",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "player2",
+        type: "address",
+      },
+      {
+        internalType: "euint8",
+        name: "result",
+        type: "bytes32",
+      },
+    ],
+    name: "recordResult",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "private1",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "private2",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+export class IPrivateStats__factory {
+  static readonly abi = _abi;
+  static createInterface(): IPrivateStatsInterface {
+    return new Interface(_abi) as IPrivateStatsInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): IPrivateStats {
+    return new Contract(address, _abi, runner) as unknown as IPrivateStats;
+  }
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { IMatchManager__factory } from "./IMatchManager__factory";
+export { IMoveForwarder__factory } from "./IMoveForwarder__factory";
+export { IPrivateStats__factory } from "./IPrivateStats__factory";
@@ -0,0 +1,746 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockConfidentialToken,
+  MockConfidentialTokenInterface,
+} from "../../../contracts/mocks/MockConfidentialToken";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "requestId",
+        type: "uint256",
+      },
+    ],
+    name: "ERC7984InvalidGatewayRequest",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "receiver",
+        type: "address",
+      },
+    ],
+    name: "ERC7984InvalidReceiver",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "ERC7984InvalidSender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "caller",
+        type: "address",
+      },
+    ],
+    name: "ERC7984UnauthorizedCaller",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "ERC7984UnauthorizedSpender",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "ERC7984UnauthorizedUseOfEncryptedAmount",
+    type: "error",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+    ],
+    name: "ERC7984ZeroBalance",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "InvalidKMSSignatures",
+    type: "error",
+  },
+  {
+    inputs: [],
+    name: "ZamaProtocolUnsupported",
+    type: "error",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "requester",
+        type: "address",
+      },
+    ],
+    name: "AmountDiscloseRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "AmountDisclosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "ConfidentialTransfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "OperatorSet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32[]",
+        name: "handlesList",
+        type: "bytes32[]",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "confidentialBalanceOf",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialTotalSupply",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransfer",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransferAndCall",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransferAndCall",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+    ],
+    name: "confidentialTransferFrom",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "externalEuint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransferFromAndCall",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "euint64",
+        name: "amount",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "confidentialTransferFromAndCall",
+    outputs: [
+      {
+        internalType: "euint64",
+        name: "transferred",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "contractURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint64",
+        name: "cleartextAmount",
+        type: "uint64",
+      },
+      {
+        internalType: "bytes",
+        name: "decryptionProof",
+        type: "bytes",
+      },
+    ],
+    name: "discloseEncryptedAmount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "isOperator",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint64",
+        name: "amount",
+        type: "uint64",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "euint64",
+        name: "encryptedAmount",
+        type: "bytes32",
+      },
+    ],
+    name: "requestDiscloseEncryptedAmount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "uint48",
+        name: "until",
+        type: "uint48",
+      },
+    ],
+    name: "setOperator",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x608060405234801561000f575f5ffd5b506040518060400160405280601781526020017f4d6f636b20436f6e666964656e7469616c20546f6b656e000000000000000000815250604051806040016040528060038152602001621350d560ea1b81525060405180602001604052805f81525061012b61008261015a60201b60201c565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054909216921691909117905550565b60036101378482610361565b5060046101448382610361565b5060056101518282610361565b5050505061041b565b604080516060810182525f8082526020820181905291810191909152466001036101b3575060408051606080820183525f8083526020808401829052928401819052835191820184528082529181018290529182015290565b4662aa36a703610232575060408051606080820183525f8083526020808401829052928401528251908101835273f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c1279181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b46617a69036102b0575060408051606080820183525f808352602080840182905292840152825190810183527350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd249181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b6040516373cac13b60e01b815260040160405180910390fd5b634e487b7160e01b5f52604160045260245ffd5b600181811c908216806102f157607f821691505b60208210810361030f57634e487b7160e01b5f52602260045260245ffd5b50919050565b601f82111561035c57805f5260205f20601f840160051c8101602085101561033a5750805b601f840160051c820191505b81811015610359575f8155600101610346565b50505b505050565b81516001600160401b0381111561037a5761037a6102c9565b61038e8161038884546102dd565b84610315565b6020601f8211600181146103c0575f83156103a95750848201515b5f19600385901b1c1916600184901b178455610359565b5f84815260208120601f198516915b828110156103ef57878501518255602094850194600190920191016103cf565b508482101561040c57868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b611e11806104285f395ff3fe608060405234801561000f575f5ffd5b506004361061016e575f3560e01c80638927b030116100d2578063d4febb9611610088578063e064b9bb11610063578063e064b9bb146102df578063e8a3d485146102f2578063eb3155b5146102fa575f5ffd5b8063d4febb96146102a6578063d8061806146102b9578063de642119146102cc575f5ffd5b8063b1af281e116100b8578063b1af281e1461026d578063b6363cf214610280578063c7b8a75e14610293575f5ffd5b80638927b0301461025d57806395d89b4114610265575f5ffd5b8063344ff10111610127578063537d3c501161010d578063537d3c501461022f57806354095227146102425780635bebed7e1461024a575f5ffd5b8063344ff101146101f457806334c457431461021c575f5ffd5b80632893c5b0116101575780632893c5b0146101af5780632fb74e62146101c4578063313ce567146101e5575f5ffd5b806301ffc9a71461017257806306fdde031461019a575b5f5ffd5b6101856101803660046117e3565b61030d565b60405190151581526020015b60405180910390f35b6101a2610343565b6040516101919190611838565b6101c26101bd36600461187c565b6103d3565b005b6101d76101d23660046118e2565b6103ea565b604051908152602001610191565b60405160068152602001610191565b6101d7610202366004611938565b6001600160a01b03165f9081526020819052604090205490565b6101d761022a366004611951565b61043d565b6101d761023d3660046118e2565b6104e6565b6002546101d7565b6101d76102583660046119ea565b610548565b6101d761059a565b6101a26105a8565b6101c261027b366004611a12565b6105b7565b61018561028e366004611a50565b6106ac565b6101d76102a1366004611a78565b6106fe565b6101c26102b4366004611ae2565b6107a1565b6101c26102c7366004611b21565b6107b0565b6101d76102da366004611b38565b610828565b6101d76102ed366004611a78565b610884565b6101a2610909565b6101d7610308366004611bc1565b610918565b5f6001600160e01b031982166312563ca960e21b148061033d57506301ffc9a760e01b6001600160e01b03198316145b92915050565b60606003805461035290611bfb565b80601f016020809104026020016040519081016040528092919081815260200182805461037e90611bfb565b80156103c95780601f106103a0576101008083540402835291602001916103c9565b820191905f5260205f20905b8154815290600101906020018083116103ac57829003601f168201915b5050505050905090565b6103e5826103e0836109b7565b6109cd565b505050565b5f610434338661042f8787878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250610a0e92505050565b610a1b565b95945050505050565b5f61044888336106ac565b8833909161048157604051630f3e596760e31b81526001600160a01b039283166004820152911660248201526044015b60405180910390fd5b50506104ce88886104c78989898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250610a0e92505050565b8686610a99565b90506104da8133610af0565b50979650505050505050565b5f6104f18433610b02565b84339091610524576040516367cfe80560e01b815260048101929092526001600160a01b03166024820152604401610478565b50506105333386868686610a99565b905061053f8133610af0565b50949350505050565b5f6105538233610b02565b82339091610586576040516367cfe80560e01b815260048101929092526001600160a01b03166024820152604401610478565b5050610593338484610a1b565b9392505050565b5f6105a3610b0d565b905090565b60606004805461035290611bfb565b6040805160018082528183019092525f916020808301908036833701905050905084815f815181106105eb576105eb611c33565b6020026020010181815250505f84604051602001610619919067ffffffffffffffff91909116815260200190565b60408051601f198184030181526020601f8701819004810284018101909252858352925061066591849184919088908890819084018382808284375f92019190915250610b4192505050565b60405167ffffffffffffffff8616815286907f83bbbc07896439e5d950a6cead04cbc676180af7a61cecf43f5296475057f5719060200160405180910390a2505050505050565b5f816001600160a01b0316836001600160a01b031614806105935750506001600160a01b039182165f90815260016020908152604080832093909416825291909152205465ffffffffffff1642111590565b5f6107098433610b02565b8433909161073c576040516367cfe80560e01b815260048101929092526001600160a01b03166024820152604401610478565b505061074886336106ac565b8633909161077c57604051630f3e596760e31b81526001600160a01b03928316600482015291166024820152604401610478565b505061078b8686868686610a99565b90506107978133610af0565b5095945050505050565b6107ac338383610bac565b5050565b6107ba8133610b02565b813390916107ed576040516367cfe80560e01b815260048101929092526001600160a01b03166024820152604401610478565b50506107f881610c23565b50604051339082907f189c3bfae2e5ce7726b29d57bb6ed0f1a7ebcd153a863ff5ecb6cd998064c98c905f90a350565b5f61086d33886104c78989898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250610a0e92505050565b90506108798133610af0565b509695505050505050565b5f61088f86336106ac565b863390916108c357604051630f3e596760e31b81526001600160a01b03928316600482015291166024820152604401610478565b505061078b868661042f8787878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250610a0e92505050565b60606005805461035290611bfb565b5f6109238233610b02565b82339091610956576040516367cfe80560e01b815260048101929092526001600160a01b03166024820152604401610478565b505061096284336106ac565b8433909161099657604051630f3e596760e31b81526001600160a01b03928316600482015291166024820152604401610478565b50506109a3848484610a1b565b90506109af8133610af0565b509392505050565b5f61033d8267ffffffffffffffff166005610c31565b5f806001600160a01b038416610a0257604051638d51880160e01b81526001600160a01b039091166004820152602401610478565b506105935f8484610cd3565b5f61059383836005610eb0565b5f806001600160a01b038516610a505760405163ee457ebf60e01b81526001600160a01b039091166004820152602401610478565b505f6001600160a01b038416610a8557604051638d51880160e01b81526001600160a01b039091166004820152602401610478565b50610a91848484610cd3565b949350505050565b5f5f610aa6878787610a1b565b90505f610ab7338989858989610fbd565b90505f610ad7888a610ad285610acc5f6109b7565b886110c1565b610cd3565b9050610ae38382611100565b9998505050505050505050565b5f610afb838361112e565b5090919050565b5f61059383836111a2565b5f46600103610b1c5750600190565b4662aa36a703610b2d575061271190565b46617a6903610b3c57505f1990565b505f90565b5f610b4d848484611226565b905080610b6d5760405163cf6c44e960e01b815260040160405180910390fd5b7fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a08484604051610b9e929190611c81565b60405180910390a150505050565b6001600160a01b038381165f81815260016020908152604080832094871680845294825291829020805465ffffffffffff191665ffffffffffff871690811790915591519182527f921a218a75d18e8ec5704851e6b234a85725b21a2521ce889622c35dedc1fa12910160405180910390a3505050565b5f610c2d826112ca565b5090565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f915f516020611de55f395f51905f52916001600160a01b0390911690639cd07acb90610c939087908790600401611cc5565b6020604051808303815f875af1158015610caf573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610a919190611cd9565b5f80806001600160a01b038616610d0957610cf060025485611348565b9092509050610cfe81611392565b506002819055610d8d565b6001600160a01b0386165f908152602081905260409020548681610d4c576040516317fe473760e21b81526001600160a01b039091166004820152602401610478565b50610d57818661139d565b9093509150610d6582611392565b50610d708288611402565b50506001600160a01b0386165f9081526020819052604090208190555b610da08285610d9b5f6109b7565b6110c1565b92506001600160a01b038516610dd257610dbc60025484611100565b9050610dc781611392565b506002819055610e26565b6001600160a01b0385165f90815260208190526040902054610df4908461140d565b9050610dff81611392565b50610e0a8186611402565b506001600160a01b0385165f9081526020819052604090208190555b6001600160a01b03861615610e4157610e3f8387611402565b505b6001600160a01b03851615610e5c57610e5a8386611402565b505b610e6583611392565b5082856001600160a01b0316876001600160a01b03167f67500e8d0ed826d2194f514dd0d8124f35648ab6e3fb5e6ed867134cffe661e960405160405180910390a450509392505050565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163045fc19560e11b81525f915f516020611de55f395f51905f52916001600160a01b03909116906308bf832a90610f16908890339089908990600401611cf0565b6020604051808303815f875af1158015610f32573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610f569190611cd9565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015610f9f575f5ffd5b505af1158015610fb1573d5f5f3e3d5ffd5b50505050509392505050565b5f6001600160a01b0385163b156110aa576040516346083bfd60e01b81526001600160a01b038616906346083bfd90611002908a908a90899089908990600401611d26565b6020604051808303815f875af192505050801561103c575060408051601f3d908101601f1916820190925261103991810190611cd9565b60015b6110a3573d808015611069576040519150601f19603f3d011682016040523d82523d5f602084013e61106e565b606091505b5080515f0361109b57604051638d51880160e01b81526001600160a01b0387166004820152602401610478565b805181602001fd5b90506110b7565b6110b4600161143b565b90505b9695505050505050565b5f836110d3576110d05f61143b565b93505b826110e4576110e15f6109b7565b92505b816110f5576110f25f6109b7565b91505b610a91848484611456565b5f826111125761110f5f6109b7565b92505b81611123576111205f6109b7565b91505b61059383835f6114e3565b5f516020611de55f395f51905f528054604051630f8e573b60e21b8152600481018590526001600160a01b03848116602483015290911690633e395cec906044015b5f604051808303815f87803b158015611187575f5ffd5b505af1158015611199573d5f5f3e3d5ffd5b50505050505050565b5f805f516020611de55f395f51905f5280546040516382027b6d60e01b8152600481018790526001600160a01b0386811660248301529293509116906382027b6d90604401602060405180830381865afa158015611202573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610a919190611d7b565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546040516378542ead60e01b81525f915f516020611de55f395f51905f52916001600160a01b03909116906378542ead9061128a90889088908890600401611d9a565b6020604051808303815f875af11580156112a6573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906104349190611d7b565b6040805160018082528183019092525f516020611de55f395f51905f52915f91906020808301908036833701905050905082815f8151811061130e5761130e611c33565b60209081029190910101528154604051637d6e912360e11b81526001600160a01b039091169063fadd224690611170908490600401611dd2565b5f808361136357611359600161143b565b839150915061138b565b5f61136e858561140d565b905061137a81866115a9565b92506113878382876110c1565b9150505b9250929050565b5f610c2d82306115d7565b5f80836113d957826113bd576113b3600161143b565b849150915061138b565b6113c7835f61161d565b6113d05f6109b7565b9150915061138b565b6113e384846115a9565b91506113f9826113f38686611100565b866110c1565b90509250929050565b5f610afb83836115d7565b5f8261141f5761141c5f6109b7565b92505b816114305761142d5f6109b7565b91505b61059383835f611645565b5f61033d8261144a575f61144d565b60015b60ff165f610c31565b5f805f516020611de55f395f51905f526001810154604051637702dcff60e01b81526004810188905260248101879052604481018690529192506001600160a01b031690637702dcff906064016020604051808303815f875af11580156114bf573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906104349190611cd9565b5f5f82156114f65750600160f81b6114f9565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701546040516303056db360e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020611de55f395f51905f52916001600160a01b03169063182b6d98906064015b6020604051808303815f875af1158015611585573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906110b79190611cd9565b5f826115bb576115b85f6109b7565b92505b816115cc576115c95f6109b7565b91505b61059383835f6116cf565b5f516020611de55f395f51905f528054604051635ca4b5b160e11b8152600481018590526001600160a01b0384811660248301529091169063b9496b6290604401611170565b5f8261162f5761162c5f6109b7565b92505b6105938367ffffffffffffffff84166001611759565b5f5f82156116585750600160f81b61165b565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163022f65e760e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020611de55f395f51905f52916001600160a01b03169063117b2f3890606401611569565b5f5f82156116e25750600160f81b6116e5565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051631391547f60e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020611de55f395f51905f52916001600160a01b031690631391547f90606401611569565b5f5f821561176c5750600160f81b61176f565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163f77f3f1d60e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020611de55f395f51905f52916001600160a01b03169063f77f3f1d90606401611569565b5f602082840312156117f3575f5ffd5b81356001600160e01b031981168114610593575f5ffd5b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b602081525f610593602083018461180a565b80356001600160a01b0381168114611860575f5ffd5b919050565b803567ffffffffffffffff81168114611860575f5ffd5b5f5f6040838503121561188d575f5ffd5b6118968361184a565b91506113f960208401611865565b5f5f83601f8401126118b4575f5ffd5b50813567ffffffffffffffff8111156118cb575f5ffd5b60208301915083602082850101111561138b575f5ffd5b5f5f5f5f606085870312156118f5575f5ffd5b6118fe8561184a565b935060208501359250604085013567ffffffffffffffff811115611920575f5ffd5b61192c878288016118a4565b95989497509550505050565b5f60208284031215611948575f5ffd5b6105938261184a565b5f5f5f5f5f5f5f60a0888a031215611967575f5ffd5b6119708861184a565b965061197e6020890161184a565b955060408801359450606088013567ffffffffffffffff8111156119a0575f5ffd5b6119ac8a828b016118a4565b909550935050608088013567ffffffffffffffff8111156119cb575f5ffd5b6119d78a828b016118a4565b989b979a50959850939692959293505050565b5f5f604083850312156119fb575f5ffd5b611a048361184a565b946020939093013593505050565b5f5f5f5f60608587031215611a25575f5ffd5b84359350611a3560208601611865565b9250604085013567ffffffffffffffff811115611920575f5ffd5b5f5f60408385031215611a61575f5ffd5b611a6a8361184a565b91506113f96020840161184a565b5f5f5f5f5f60808688031215611a8c575f5ffd5b611a958661184a565b9450611aa36020870161184a565b935060408601359250606086013567ffffffffffffffff811115611ac5575f5ffd5b611ad1888289016118a4565b969995985093965092949392505050565b5f5f60408385031215611af3575f5ffd5b611afc8361184a565b9150602083013565ffffffffffff81168114611b16575f5ffd5b809150509250929050565b5f60208284031215611b31575f5ffd5b5035919050565b5f5f5f5f5f5f60808789031215611b4d575f5ffd5b611b568761184a565b955060208701359450604087013567ffffffffffffffff811115611b78575f5ffd5b611b8489828a016118a4565b909550935050606087013567ffffffffffffffff811115611ba3575f5ffd5b611baf89828a016118a4565b979a9699509497509295939492505050565b5f5f5f60608486031215611bd3575f5ffd5b611bdc8461184a565b9250611bea6020850161184a565b929592945050506040919091013590565b600181811c90821680611c0f57607f821691505b602082108103611c2d57634e487b7160e01b5f52602260045260245ffd5b50919050565b634e487b7160e01b5f52603260045260245ffd5b5f8151808452602084019350602083015f5b82811015611c77578151865260209586019590910190600101611c59565b5093949350505050565b604081525f611c936040830185611c47565b8281036020840152610434818561180a565b60548110611cc157634e487b7160e01b5f52602160045260245ffd5b9052565b828152604081016105936020830184611ca5565b5f60208284031215611ce9575f5ffd5b5051919050565b8481526001600160a01b0384166020820152608060408201525f611d17608083018561180a565b90506104346060830184611ca5565b6001600160a01b03861681526001600160a01b038516602082015283604082015260806060820152816080820152818360a08301375f81830160a090810191909152601f909201601f19160101949350505050565b5f60208284031215611d8b575f5ffd5b81518015158114610593575f5ffd5b606081525f611dac6060830186611c47565b8281036020840152611dbe818661180a565b905082810360408401526110b7818561180a565b602081525f6105936020830184611c4756fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081b000a";
+
+type MockConfidentialTokenConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockConfidentialTokenConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockConfidentialToken__factory extends ContractFactory {
+  constructor(...args: MockConfidentialTokenConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockConfidentialToken & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(
+    runner: ContractRunner | null
+  ): MockConfidentialToken__factory {
+    return super.connect(runner) as MockConfidentialToken__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockConfidentialTokenInterface {
+    return new Interface(_abi) as MockConfidentialTokenInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockConfidentialToken {
+    return new Contract(
+      address,
+      _abi,
+      runner
+    ) as unknown as MockConfidentialToken;
+  }
+}
@@ -0,0 +1,173 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../../common";
+import type {
+  MockRatingArena,
+  MockRatingArenaInterface,
+} from "../../../contracts/mocks/MockRatingArena";
+
+const _abi = [
+  {
+    inputs: [],
+    name: "MAX_ACTIVE_MATCHES",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "createQueuedMatch",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "getActiveMatches",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "matchCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "ratingOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "player",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "rating",
+        type: "uint256",
+      },
+    ],
+    name: "setRating",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x6080604052348015600e575f5ffd5b5061025d8061001c5f395ff3fe608060405234801561000f575f5ffd5b506004361061006f575f3560e01c806379c4264b1161004d57806379c4264b146100c057806380a24631146100c9578063cc3e3d4314610101575f5ffd5b80633476b53f146100735780634af6183c146100995780636205f4c5146100a1575b5f5ffd5b610086610081366004610171565b61012e565b6040519081526020015b60405180910390f35b610086600581565b6100866100af3660046101a2565b5f6020819052908152604090205481565b61008660015481565b6100ff6100d73660046101c2565b73ffffffffffffffffffffffffffffffffffffffff9091165f90815260208190526040902055565b005b61012161010f3660046101a2565b50604080515f81526020810190915290565b60405161009091906101ea565b5f60015f815461013d9061022c565b91829055509392505050565b803573ffffffffffffffffffffffffffffffffffffffff8116811461016c575f5ffd5b919050565b5f5f60408385031215610182575f5ffd5b61018b83610149565b915061019960208401610149565b90509250929050565b5f602082840312156101b2575f5ffd5b6101bb82610149565b9392505050565b5f5f604083850312156101d3575f5ffd5b6101dc83610149565b946020939093013593505050565b602080825282518282018190525f918401906040840190835b81811015610221578351835260209384019390920191600101610203565b509095945050505050565b5f6001820161024957634e487b7160e01b5f52601160045260245ffd5b506001019056fea164736f6c634300081b000a";
+
+type MockRatingArenaConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: MockRatingArenaConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class MockRatingArena__factory extends ContractFactory {
+  constructor(...args: MockRatingArenaConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      MockRatingArena & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): MockRatingArena__factory {
+    return super.connect(runner) as MockRatingArena__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): MockRatingArenaInterface {
+    return new Interface(_abi) as MockRatingArenaInterface;
+  }
+  static connect(
+    address: string,
+    runner?: ContractRunner | null
+  ): MockRatingArena {
+    return new Contract(address, _abi, runner) as unknown as MockRatingArena;
+  }
+}
@@ -0,0 +1,6 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+export { MockConfidentialToken__factory } from "./MockConfidentialToken__factory";
+export { MockRatingArena__factory } from "./MockRatingArena__factory";
+export { MockWagerToken__factory } from "./MockWagerToken__factory";
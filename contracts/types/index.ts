@@ -3,6 +3,8 @@
 /* eslint-disable */
 import type * as fhevm from "./@fhevm";
 export type { fhevm };
+import type * as openzeppelin from "./@openzeppelin";
+export type { openzeppelin };
 import type * as contracts from "./contracts";
 export type { contracts };
 export * as factories from "./factories";
@@ -20,5 +22,73 @@ export type { IFHEVMExecutor } from "./@fhevm/solidity/lib/Impl.sol/IFHEVMExecut
 export { IFHEVMExecutor__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IFHEVMExecutor__factory";
 export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifier";
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
+export type { IERC7984 } from "./@openzeppelin/confidential-contracts/interfaces/IERC7984";
+export { IERC7984__factory } from "./factories/@openzeppelin/confidential-contracts/interfaces/IERC7984__factory";
+export type { IERC7984Receiver } from "./@openzeppelin/confidential-contracts/interfaces/IERC7984Receiver";
+export { IERC7984Receiver__factory } from "./factories/@openzeppelin/confidential-contracts/interfaces/IERC7984Receiver__factory";
+export type { ERC7984 } from "./@openzeppelin/confidential-contracts/token/ERC7984/ERC7984";
+export { ERC7984__factory } from "./factories/@openzeppelin/confidential-contracts/token/ERC7984/ERC7984__factory";
+export type { IERC1155Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors";
+export { IERC1155Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC1155Errors__factory";
+export type { IERC20Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors";
+export { IERC20Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC20Errors__factory";
+export type { IERC721Errors } from "./@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors";
+export { IERC721Errors__factory } from "./factories/@openzeppelin/contracts/interfaces/draft-IERC6093.sol/IERC721Errors__factory";
+export type { IERC1363 } from "./@openzeppelin/contracts/interfaces/IERC1363";
+export { IERC1363__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC1363__factory";
+export type { IERC5267 } from "./@openzeppelin/contracts/interfaces/IERC5267";
+export { IERC5267__factory } from "./factories/@openzeppelin/contracts/interfaces/IERC5267__factory";
+export type { ERC20 } from "./@openzeppelin/contracts/token/ERC20/ERC20";
+export { ERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/ERC20__factory";
+export type { ERC20Permit } from "./@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit";
+export { ERC20Permit__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit__factory";
+export type { IERC20Metadata } from "./@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata";
+export { IERC20Metadata__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata__factory";
+export type { IERC20Permit } from "./@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit";
+export { IERC20Permit__factory } from "./factories/@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit__factory";
+export type { IERC20 } from "./@openzeppelin/contracts/token/ERC20/IERC20";
+export { IERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/IERC20__factory";
+export type { SafeERC20 } from "./@openzeppelin/contracts/token/ERC20/utils/SafeERC20";
+export { SafeERC20__factory } from "./factories/@openzeppelin/contracts/token/ERC20/utils/SafeERC20__factory";
+export type { ECDSA } from "./@openzeppelin/contracts/utils/cryptography/ECDSA";
+export { ECDSA__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/ECDSA__factory";
+export type { EIP712 } from "./@openzeppelin/contracts/utils/cryptography/EIP712";
+export { EIP712__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/EIP712__factory";
+export type { MessageHashUtils } from "./@openzeppelin/contracts/utils/cryptography/MessageHashUtils";
+export { MessageHashUtils__factory } from "./factories/@openzeppelin/contracts/utils/cryptography/MessageHashUtils__factory";
+export type { ERC165 } from "./@openzeppelin/contracts/utils/introspection/ERC165";
+export { ERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/ERC165__factory";
+export type { IERC165 } from "./@openzeppelin/contracts/utils/introspection/IERC165";
+export { IERC165__factory } from "./factories/@openzeppelin/contracts/utils/introspection/IERC165__factory";
+export type { SafeCast } from "./@openzeppelin/contracts/utils/math/SafeCast";
+export { SafeCast__factory } from "./factories/@openzeppelin/contracts/utils/math/SafeCast__factory";
+export type { Nonces } from "./@openzeppelin/contracts/utils/Nonces";
+export { Nonces__factory } from "./factories/@openzeppelin/contracts/utils/Nonces__factory";
+export type { ShortStrings } from "./@openzeppelin/contracts/utils/ShortStrings";
+export { ShortStrings__factory } from "./factories/@openzeppelin/contracts/utils/ShortStrings__factory";
+export type { Strings } from "./@openzeppelin/contracts/utils/Strings";
+export { Strings__factory } from "./factories/@openzeppelin/contracts/utils/Strings__factory";
+export type { IMatchManager } from "./contracts/interfaces/IMatchManager";
+export { IMatchManager__factory } from "./factories/contracts/interfaces/IMatchManager__factory";
+export type { IMoveForwarder } from "./contracts/interfaces/IMoveForwarder";
+export { IMoveForwarder__factory } from "./factories/contracts/interfaces/IMoveForwarder__factory";
+export type { IPrivateStats } from "./contracts/interfaces/IPrivateStats";
+export { IPrivateStats__factory } from "./factories/contracts/interfaces/IPrivateStats__factory";
+export type { MockConfidentialToken } from "./contracts/mocks/MockConfidentialToken";
+export { MockConfidentialToken__factory } from "./factories/contracts/mocks/MockConfidentialToken__factory";
+export type { MockRatingArena } from "./contracts/mocks/MockRatingArena";
+export { MockRatingArena__factory } from "./factories/contracts/mocks/MockRatingArena__factory";
+export type { MockWagerToken } from "./contracts/mocks/MockWagerToken";
+export { MockWagerToken__factory } from "./factories/contracts/mocks/MockWagerToken__factory";
 export type { RockPaperArena } from "./contracts/RockPaperArena";
 export { RockPaperArena__factory } from "./factories/contracts/RockPaperArena__factory";
+export type { RockPaperForwarder } from "./contracts/RockPaperForwarder";
+export { RockPaperForwarder__factory } from "./factories/contracts/RockPaperForwarder__factory";
+export type { RockPaperMatchmaker } from "./contracts/RockPaperMatchmaker";
+export { RockPaperMatchmaker__factory } from "./factories/contracts/RockPaperMatchmaker__factory";
+export type { RockPaperMoveProxy } from "./contracts/RockPaperMoveProxy";
+export { RockPaperMoveProxy__factory } from "./factories/contracts/RockPaperMoveProxy__factory";
+export type { RockPaperPrivateStats } from "./contracts/RockPaperPrivateStats";
+export { RockPaperPrivateStats__factory } from "./factories/contracts/RockPaperPrivateStats__factory";
+export type { RockPaperTournament } from "./contracts/RockPaperTournament";
+export { RockPaperTournament__factory } from "./factories/contracts/RockPaperTournament__factory";
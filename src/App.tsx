@@ -15,6 +15,7 @@ import { RainbowKitProvider, darkTheme } from "@rainbow-me/rainbowkit";
 import { wagmiConfig } from "./config/wagmi";
 import Index from "./pages/Index";
 import Match from "./pages/Match";
+import Tournaments from "./pages/Tournaments";
 import NotFound from "./pages/NotFound";
 
 // Import RainbowKit styles
@@ -47,6 +48,7 @@ const App = () => (
             <Routes>
               <Route path="/" element={<Index />} />
               <Route path="/match" element={<Match />} />
+              <Route path="/tournaments" element={<Tournaments />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
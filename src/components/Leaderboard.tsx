@@ -1,21 +1,36 @@
-import { Trophy, Medal, Award } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Trophy, Medal, Award, Lock } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCurrentSeason, useSeasonLeaderboard } from "@/hooks/useRockPaperArena";
+import { useSeasonPrivateRecords } from "@/hooks/usePrivateStats";
 
-interface LeaderEntry {
-  rank: number;
-  address: string;
-  wins: number;
-  streak: number;
-}
+export const Leaderboard = () => {
+  const { currentSeason } = useCurrentSeason();
+  const [season, setSeason] = useState(currentSeason);
+  const { standings, isLoading } = useSeasonLeaderboard(season);
+  const { records: privateRecords } = useSeasonPrivateRecords(season, standings.map((entry) => entry.player));
 
-const mockLeaderboard: LeaderEntry[] = [
-  { rank: 1, address: "0x742d...89Ab", wins: 127, streak: 12 },
-  { rank: 2, address: "0x8f3e...2Cd4", wins: 98, streak: 8 },
-  { rank: 3, address: "0x1a9b...7Ef2", wins: 85, streak: 5 },
-  { rank: 4, address: "0x5c6d...3Gh8", wins: 72, streak: 3 },
-  { rank: 5, address: "0x9e4f...1Jk5", wins: 61, streak: 4 },
-];
+  // Follow the live season once it is known
+  useEffect(() => {
+    setSeason(currentSeason);
+  }, [currentSeason]);
+
+  const seasons = Array.from({ length: currentSeason }, (_, i) => currentSeason - i);
+
+  // Wins counted in privacy mode are added once published, and hidden until then
+  const renderWins = (player: string, publicWins: bigint) => {
+    const record = privateRecords[player.toLowerCase()];
+    if (record === undefined) return publicWins.toString();
+    if (record === null) return <Lock className="w-5 h-5 mx-auto" />;
+    return (publicWins + record.wins).toString();
+  };
 
-export const Leaderboard = () => {
   const getRankIcon = (rank: number) => {
     switch (rank) {
       case 1:
@@ -37,34 +52,60 @@ export const Leaderboard = () => {
           [ LEADERBOARD ]
         </h2>
 
+        {/* Season selector */}
+        <div className="flex justify-center mb-6">
+          <Select value={season.toString()} onValueChange={(value) => setSeason(Number(value))}>
+            <SelectTrigger className="w-56 font-mono">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {seasons.map((s) => (
+                <SelectItem key={s} value={s.toString()} className="font-mono">
+                  SEASON {s}{s === currentSeason ? ' (CURRENT)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Leaderboard entries */}
         <div className="space-y-3">
-          {mockLeaderboard.map((entry, index) => (
+          {isLoading ? (
+            <div className="h-20 bg-muted rounded animate-pulse"></div>
+          ) : standings.length === 0 ? (
+            <p className="text-center text-muted-foreground font-mono">
+              No completed matches this season
+            </p>
+          ) : standings.map((entry, index) => (
             <div
-              key={entry.address}
+              key={entry.player}
               className="flex items-center justify-between p-4 bg-background/50 border-2 border-border hover:border-primary transition-all duration-300 pixel-corners"
               style={{ animationDelay: `${index * 0.1}s` }}
             >
               {/* Rank */}
               <div className="flex items-center gap-4 flex-1">
                 <div className="w-12 flex justify-center">
-                  {getRankIcon(entry.rank)}
+                  {getRankIcon(index + 1)}
                 </div>
                 
                 {/* Address */}
                 <span className="font-mono text-foreground text-sm md:text-base">
-                  {entry.address}
+                  {entry.player.slice(0, 6)}...{entry.player.slice(-4)}
                 </span>
               </div>
 
               {/* Stats */}
               <div className="flex gap-6 text-sm">
                 <div className="text-center">
-                  <div className="text-primary font-bold text-lg">{entry.wins}</div>
+                  <div className="text-primary font-bold text-lg">{entry.stats.rating.toString()}</div>
+                  <div className="text-muted-foreground text-xs">RATING</div>
+                </div>
+                <div className="text-center">
+                  <div className="text-primary font-bold text-lg">{renderWins(entry.player, entry.stats.wins)}</div>
                   <div className="text-muted-foreground text-xs">WINS</div>
                 </div>
                 <div className="text-center">
-                  <div className="text-accent font-bold text-lg">{entry.streak}</div>
+                  <div className="text-accent font-bold text-lg">{entry.stats.bestStreak.toString()}</div>
                   <div className="text-muted-foreground text-xs">STREAK</div>
                 </div>
               </div>
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Eye, Lock, Megaphone } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { usePlayerStats } from "@/hooks/useRockPaperArena";
+import { usePrivateStats, type PrivateRecord } from "@/hooks/usePrivateStats";
+
+export const PlayerProfile = () => {
+  const { stats, refetch: refetchStats } = usePlayerStats();
+  const { privacyMode, published, setPrivacyMode, publishStats, decryptRecord, isPending } = usePrivateStats();
+  const [record, setRecord] = useState<PrivateRecord | null>(null);
+  const [isDecrypting, setIsDecrypting] = useState(false);
+
+  const handleTogglePrivacy = async (enabled: boolean) => {
+    try {
+      await setPrivacyMode(enabled);
+      setRecord(null);
+      refetchStats();
+    } catch (error) {
+      console.error('Privacy mode error:', error);
+    }
+  };
+
+  // Decrypting goes through the relayer and needs the player's EIP-712 signature once
+  const handleDecrypt = async () => {
+    setIsDecrypting(true);
+    try {
+      setRecord(await decryptRecord());
+    } catch (error) {
+      console.error('Decrypt record error:', error);
+    } finally {
+      setIsDecrypting(false);
+    }
+  };
+
+  const handlePublish = async () => {
+    try {
+      await publishStats();
+    } catch (error) {
+      console.error('Publish stats error:', error);
+    }
+  };
+
+  // Wins and losses counted while privacy mode was off stay in the public stats
+  const publicWins = stats?.wins ?? 0n;
+  const publicLosses = stats?.losses ?? 0n;
+
+  return (
+    <div className="w-full max-w-2xl mx-auto">
+      <div className="neon-border-pink pixel-corners bg-card p-6">
+        <h2 className="text-3xl font-bold text-center mb-6 neon-glow-pink">
+          [ MY PROFILE ]
+        </h2>
+
+        <div className="grid grid-cols-4 gap-4 text-center mb-6">
+          <div>
+            <div className="text-primary font-bold text-lg">{stats?.rating.toString() ?? '-'}</div>
+            <div className="text-muted-foreground text-xs">RATING</div>
+          </div>
+          <div>
+            <div className="text-primary font-bold text-lg">
+              {record ? (publicWins + record.wins).toString() : privacyMode ? <Lock className="w-5 h-5 mx-auto" /> : publicWins.toString()}
+            </div>
+            <div className="text-muted-foreground text-xs">WINS</div>
+          </div>
+          <div>
+            <div className="text-accent font-bold text-lg">
+              {record ? (publicLosses + record.losses).toString() : privacyMode ? <Lock className="w-5 h-5 mx-auto" /> : publicLosses.toString()}
+            </div>
+            <div className="text-muted-foreground text-xs">LOSSES</div>
+          </div>
+          <div>
+            <div className="text-foreground font-bold text-lg">{stats?.draws.toString() ?? '-'}</div>
+            <div className="text-muted-foreground text-xs">DRAWS</div>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between p-4 bg-background/50 border-2 border-border pixel-corners">
+          <div>
+            <p className="font-mono text-sm font-bold">HIDE RECORD</p>
+            <p className="font-mono text-xs text-muted-foreground">
+              Keeps your win and loss totals off your profile and the leaderboard
+            </p>
+            <p className="font-mono text-xs text-accent">
+              Not private: every match result and rating change stays public, so anyone can still count your record
+            </p>
+          </div>
+          <Switch checked={privacyMode} disabled={isPending} onCheckedChange={handleTogglePrivacy} />
+        </div>
+
+        {privacyMode && (
+          <div className="flex flex-wrap gap-2 justify-center mt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleDecrypt}
+              disabled={isDecrypting}
+              className="pixel-corners font-mono"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              {isDecrypting ? 'DECRYPTING...' : 'DECRYPT MY RECORD'}
+            </Button>
+            {published ? (
+              <span className="font-mono text-xs text-accent self-center">
+                * RECORD PUBLISHED TO THE LEADERBOARD *
+              </span>
+            ) : (
+              <Button
+                size="sm"
+                onClick={handlePublish}
+                disabled={isPending}
+                className="pixel-corners font-mono bg-accent hover:bg-accent/80 text-accent-foreground"
+              >
+                <Megaphone className="w-4 h-4 mr-2" />
+                PUBLISH STATS
+              </Button>
+            )}
+          </div>
+        )}
+
+        {privacyMode && !published && (
+          <p className="mt-4 text-center text-xs text-muted-foreground font-mono">
+            Publishing lets anyone decrypt your record and cannot be undone
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -75,3 +75,65 @@ export const SEPOLIA_CONFIG = {
  * Contract address (deployed on Sepolia)
  */
 export const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || '0xdb333D6eB967Ae90dEBCF2359E2FA55d3B9A9F26';
+
+/**
+ * Tournament contract address (deployed alongside the arena)
+ * Tournaments are hidden until it is configured
+ */
+export const TOURNAMENT_ADDRESS = import.meta.env.VITE_TOURNAMENT_ADDRESS || '';
+
+/**
+ * Matchmaking queue contract address (deployed alongside the arena)
+ * Quick match is hidden until it is configured
+ */
+export const MATCHMAKER_ADDRESS = import.meta.env.VITE_MATCHMAKER_ADDRESS || '';
+
+/**
+ * Private stats contract address (deployed alongside the arena)
+ * Privacy mode is hidden until it is configured
+ */
+export const PRIVATE_STATS_ADDRESS = import.meta.env.VITE_PRIVATE_STATS_ADDRESS || '';
+
+/**
+ * Move forwarder contract address and the URL of the relayer submitting through it
+ * Gasless moves are offered once both are configured
+ */
+export const FORWARDER_ADDRESS = import.meta.env.VITE_FORWARDER_ADDRESS || '';
+export const MOVE_RELAYER_URL = import.meta.env.VITE_MOVE_RELAYER_URL || '';
+
+/**
+ * Tokens offered in the create-match stake picker
+ * address(0) stands for native ETH; an ERC-20 and an ERC-7984
+ * confidential token can be added via env
+ */
+export type WagerToken = {
+  symbol: string;
+  address: `0x${string}`;
+  decimals: number;
+  confidential?: boolean; // ERC-7984 token staked with encrypted amounts
+};
+
+export const ETH_WAGER_TOKEN: WagerToken = {
+  symbol: 'ETH',
+  address: '0x0000000000000000000000000000000000000000',
+  decimals: 18,
+};
+
+export const WAGER_TOKENS: WagerToken[] = [
+  ETH_WAGER_TOKEN,
+  ...(import.meta.env.VITE_WAGER_TOKEN_ADDRESS
+    ? [{
+        symbol: import.meta.env.VITE_WAGER_TOKEN_SYMBOL || 'TOKEN',
+        address: import.meta.env.VITE_WAGER_TOKEN_ADDRESS as `0x${string}`,
+        decimals: Number(import.meta.env.VITE_WAGER_TOKEN_DECIMALS || 18),
+      }]
+    : []),
+  ...(import.meta.env.VITE_CONFIDENTIAL_TOKEN_ADDRESS
+    ? [{
+        symbol: import.meta.env.VITE_CONFIDENTIAL_TOKEN_SYMBOL || 'cTOKEN',
+        address: import.meta.env.VITE_CONFIDENTIAL_TOKEN_ADDRESS as `0x${string}`,
+        decimals: Number(import.meta.env.VITE_CONFIDENTIAL_TOKEN_DECIMALS || 6),
+        confidential: true,
+      }]
+    : []),
+];
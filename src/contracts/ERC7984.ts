@@ -0,0 +1,27 @@
+/**
+ * ERC-7984 Confidential Token ABI
+ * Minimal fragment used to authorize the arena as an operator
+ */
+
+export const ERC7984ABI = [
+  {
+    inputs: [
+      { name: 'holder', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    name: 'isOperator',
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+    type: 'function',
+  },
+  {
+    inputs: [
+      { name: 'operator', type: 'address' },
+      { name: 'until', type: 'uint48' },
+    ],
+    name: 'setOperator',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const;
@@ -6,18 +6,34 @@
 
 export const RockPaperArenaABI = [
   {
-    "inputs": [],
+    "inputs": [
+      {
+        "internalType": "bool",
+        "name": "autoSettle_",
+        "type": "bool"
+      }
+    ],
     "stateMutability": "nonpayable",
     "type": "constructor"
   },
   {
     "inputs": [],
-    "name": "AlreadyInMatch",
+    "name": "DeadlineNotReached",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "DeadlinePassed",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidInviteCode",
     "type": "error"
   },
   {
     "inputs": [],
-    "name": "InvalidGesture",
+    "name": "InvalidKMSSignatures",
     "type": "error"
   },
   {
@@ -25,6 +41,21 @@ export const RockPaperArenaABI = [
     "name": "InvalidMatchId",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "InvalidOpponent",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidSeriesLength",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidStake",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "MatchNotReady",
@@ -40,11 +71,130 @@ export const RockPaperArenaABI = [
     "name": "MoveAlreadyCommitted",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "NoAbortRequest",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NoRewards",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NotInvited",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NotOwner",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "name": "SafeERC20FailedOperation",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "StakeMismatch",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "TooManyActiveMatches",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "TransferFailed",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "UnauthorizedManager",
+    "type": "error"
+  },
   {
     "inputs": [],
     "name": "UnauthorizedPlayer",
     "type": "error"
   },
+  {
+    "inputs": [],
+    "name": "ZamaProtocolUnsupported",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "AbortRequested",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "name": "ConfidentialRewardsClaimed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "name": "ConfidentialRewardsCredited",
+    "type": "event"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -77,6 +227,25 @@ export const RockPaperArenaABI = [
     "name": "MatchCreated",
     "type": "event"
   },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "bytes32",
+        "name": "resultHandle",
+        "type": "bytes32"
+      }
+    ],
+    "name": "MatchDecryptionRequested",
+    "type": "event"
+  },
   {
     "anonymous": false,
     "inputs": [
@@ -89,11 +258,11 @@ export const RockPaperArenaABI = [
       {
         "indexed": true,
         "internalType": "address",
-        "name": "player2",
+        "name": "winner",
         "type": "address"
       }
     ],
-    "name": "MatchJoined",
+    "name": "MatchForfeited",
     "type": "event"
   },
   {
@@ -106,19 +275,19 @@ export const RockPaperArenaABI = [
         "type": "uint256"
       },
       {
-        "indexed": false,
+        "indexed": true,
         "internalType": "address",
-        "name": "winner",
+        "name": "player1",
         "type": "address"
       },
       {
-        "indexed": false,
-        "internalType": "uint8",
-        "name": "result",
-        "type": "uint8"
+        "indexed": true,
+        "internalType": "address",
+        "name": "opponent",
+        "type": "address"
       }
     ],
-    "name": "MatchRevealed",
+    "name": "MatchInvited",
     "type": "event"
   },
   {
@@ -133,84 +302,976 @@ export const RockPaperArenaABI = [
       {
         "indexed": true,
         "internalType": "address",
-        "name": "player",
+        "name": "player2",
         "type": "address"
       }
     ],
-    "name": "MoveCommitted",
+    "name": "MatchJoined",
     "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "matchId",
         "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player2",
+        "type": "address"
       }
     ],
-    "name": "acceptChallenge",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
+    "name": "MatchLeft",
+    "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "matchId",
         "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "winner",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "result",
+        "type": "uint8"
       }
     ],
-    "name": "cancelMatch",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "claimRewards",
-    "outputs": [],
-    "stateMutability": "pure",
-    "type": "function"
+    "name": "MatchRevealed",
+    "type": "event"
   },
   {
-    "inputs": [],
-    "name": "createChallenge",
-    "outputs": [
+    "anonymous": false,
+    "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "matchId",
         "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
       }
     ],
-    "stateMutability": "nonpayable",
-    "type": "function"
+    "name": "MoveCommitted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": false,
+        "internalType": "bytes32[]",
+        "name": "handlesList",
+        "type": "bytes32[]"
+      },
+      {
+        "indexed": false,
+        "internalType": "bytes",
+        "name": "abiEncodedCleartexts",
+        "type": "bytes"
+      }
+    ],
+    "name": "PublicDecryptionVerified",
+    "type": "event"
   },
   {
+    "anonymous": false,
     "inputs": [
       {
+        "indexed": true,
         "internalType": "uint256",
         "name": "matchId",
         "type": "uint256"
-      }
-    ],
-    "name": "getMatch",
-    "outputs": [
+      },
       {
-        "components": [
-          {
-            "internalType": "uint256",
-            "name": "matchId",
-            "type": "uint256"
-          },
-          {
-            "internalType": "address",
-            "name": "player1",
-            "type": "address"
-          },
-          {
-            "internalType": "address",
-            "name": "player2",
+        "indexed": true,
+        "internalType": "address",
+        "name": "player1",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player2",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "rating1",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "rating2",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "int256",
+        "name": "delta1",
+        "type": "int256"
+      },
+      {
+        "indexed": false,
+        "internalType": "int256",
+        "name": "delta2",
+        "type": "int256"
+      }
+    ],
+    "name": "RatingsUpdated",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "RewardsClaimed",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "RewardsCredited",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "round",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "result",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "score1",
+        "type": "uint8"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint8",
+        "name": "score2",
+        "type": "uint8"
+      }
+    ],
+    "name": "RoundCompleted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "season",
+        "type": "uint256"
+      }
+    ],
+    "name": "SeasonStarted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "wins",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "losses",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "draws",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "currentStreak",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "bestStreak",
+        "type": "uint256"
+      }
+    ],
+    "name": "StatsUpdated",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "COMMIT_WINDOW",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "INITIAL_RATING",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "K_FACTOR",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_ACTIVE_MATCHES",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_SERIES_LENGTH",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "PROVISIONAL_K_FACTOR",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "PROVISIONAL_MATCHES",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "RATING_FLOOR",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "name": "acceptChallenge",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "codeSignature",
+        "type": "bytes"
+      }
+    ],
+    "name": "acceptChallengeWithCode",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint8",
+        "name": "encryptedMove",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "acceptChallengeWithMove",
+    "outputs": [],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "deadline",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint8",
+        "name": "v",
+        "type": "uint8"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "r",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "s",
+        "type": "bytes32"
+      }
+    ],
+    "name": "acceptChallengeWithPermit",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint64",
+        "name": "encryptedMaxStake",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "acceptConfidentialChallenge",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "autoSettle",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "name": "cancelMatch",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "name": "claimConfidentialRewards",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "claimRewards",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "name": "claimTimeout",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "name": "claimTokenRewards",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "confidentialProtocolId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "confidentialRewards",
+    "outputs": [
+      {
+        "internalType": "euint64",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "name": "confirmAbort",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "createChallenge",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "opponent",
+        "type": "address"
+      }
+    ],
+    "name": "createChallengeFor",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "codeSigner",
+        "type": "address"
+      }
+    ],
+    "name": "createChallengeWithCode",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "externalEuint8",
+        "name": "encryptedMove",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "createChallengeWithMove",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      },
+      {
+        "internalType": "externalEuint64",
+        "name": "encryptedStake",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "createConfidentialChallenge",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player1",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "player2",
+        "type": "address"
+      },
+      {
+        "internalType": "uint8",
+        "name": "bestOf",
+        "type": "uint8"
+      }
+    ],
+    "name": "createManagedMatch",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player1",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "player2",
+        "type": "address"
+      }
+    ],
+    "name": "createQueuedMatch",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint8",
+        "name": "bestOf",
+        "type": "uint8"
+      }
+    ],
+    "name": "createSeriesChallenge",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "stake",
+        "type": "uint256"
+      }
+    ],
+    "name": "createTokenChallenge",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "enum RockPaperArena.RuleSet",
+        "name": "ruleSet",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint8",
+        "name": "bestOf",
+        "type": "uint8"
+      }
+    ],
+    "name": "createVariantChallenge",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "payable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "currentSeason",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "abiEncodedResult",
+        "type": "bytes"
+      },
+      {
+        "internalType": "bytes",
+        "name": "decryptionProof",
+        "type": "bytes"
+      }
+    ],
+    "name": "finalizeReveal",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "getActiveMatches",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "joiner",
+        "type": "address"
+      }
+    ],
+    "name": "getInviteCodeDigest",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "getInvites",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getMatch",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "matchId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "player1",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "player2",
             "type": "address"
           },
           {
@@ -223,6 +1284,11 @@ export const RockPaperArenaABI = [
             "name": "move2",
             "type": "bytes32"
           },
+          {
+            "internalType": "euint8",
+            "name": "result",
+            "type": "bytes32"
+          },
           {
             "internalType": "bool",
             "name": "player1Committed",
@@ -238,6 +1304,11 @@ export const RockPaperArenaABI = [
             "name": "createdAt",
             "type": "uint256"
           },
+          {
+            "internalType": "uint256",
+            "name": "commitDeadline",
+            "type": "uint256"
+          },
           {
             "internalType": "enum RockPaperArena.MatchState",
             "name": "state",
@@ -247,6 +1318,76 @@ export const RockPaperArenaABI = [
             "internalType": "address",
             "name": "winner",
             "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "stake",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "stakeToken",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "confidentialToken",
+            "type": "address"
+          },
+          {
+            "internalType": "euint64",
+            "name": "encryptedStake1",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "euint64",
+            "name": "encryptedStake2",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint8",
+            "name": "bestOf",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "roundsPlayed",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "score1",
+            "type": "uint8"
+          },
+          {
+            "internalType": "uint8",
+            "name": "score2",
+            "type": "uint8"
+          },
+          {
+            "internalType": "address",
+            "name": "invitedOpponent",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "inviteCodeSigner",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "abortRequestedBy",
+            "type": "address"
+          },
+          {
+            "internalType": "address",
+            "name": "manager",
+            "type": "address"
+          },
+          {
+            "internalType": "enum RockPaperArena.RuleSet",
+            "name": "ruleSet",
+            "type": "uint8"
           }
         ],
         "internalType": "struct RockPaperArena.Match",
@@ -254,17 +1395,230 @@ export const RockPaperArenaABI = [
         "type": "tuple"
       }
     ],
-    "stateMutability": "view",
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getPendingMatches",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPendingMatchesPage",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "page",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "offset",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "limit",
+        "type": "uint256"
+      }
+    ],
+    "name": "getPlayerMatches",
+    "outputs": [
+      {
+        "internalType": "uint256[]",
+        "name": "page",
+        "type": "uint256[]"
+      },
+      {
+        "internalType": "uint256",
+        "name": "total",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "getPlayerStats",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "uint256",
+            "name": "wins",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "losses",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "draws",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "totalMatches",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "currentStreak",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "bestStreak",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "abandoned",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "rating",
+            "type": "uint256"
+          }
+        ],
+        "internalType": "struct RockPaperArena.PlayerStats",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "round",
+        "type": "uint256"
+      }
+    ],
+    "name": "getRound",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "euint8",
+            "name": "move1",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "euint8",
+            "name": "move2",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "euint8",
+            "name": "result",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint8",
+            "name": "outcome",
+            "type": "uint8"
+          }
+        ],
+        "internalType": "struct RockPaperArena.Round",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "enum RockPaperArena.RuleSet",
+        "name": "ruleSet",
+        "type": "uint8"
+      }
+    ],
+    "name": "getRuleSet",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "gestureCount",
+        "type": "uint8"
+      },
+      {
+        "internalType": "uint32",
+        "name": "beats",
+        "type": "uint32"
+      }
+    ],
+    "stateMutability": "pure",
     "type": "function"
   },
   {
-    "inputs": [],
-    "name": "getPendingMatches",
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "season",
+        "type": "uint256"
+      }
+    ],
+    "name": "getSeasonPlayers",
     "outputs": [
       {
-        "internalType": "uint256[]",
+        "internalType": "address[]",
         "name": "",
-        "type": "uint256[]"
+        "type": "address[]"
       }
     ],
     "stateMutability": "view",
@@ -272,13 +1626,18 @@ export const RockPaperArenaABI = [
   },
   {
     "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "season",
+        "type": "uint256"
+      },
       {
         "internalType": "address",
         "name": "player",
         "type": "address"
       }
     ],
-    "name": "getPlayerStats",
+    "name": "getSeasonStats",
     "outputs": [
       {
         "components": [
@@ -306,16 +1665,44 @@ export const RockPaperArenaABI = [
             "internalType": "uint256",
             "name": "currentStreak",
             "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "bestStreak",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "abandoned",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "rating",
+            "type": "uint256"
           }
         ],
         "internalType": "struct RockPaperArena.PlayerStats",
-        "name": "",
+        "name": "stats",
         "type": "tuple"
       }
     ],
     "stateMutability": "view",
     "type": "function"
   },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "name": "leaveMatch",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "inputs": [
       {
@@ -349,63 +1736,51 @@ export const RockPaperArenaABI = [
     "type": "function"
   },
   {
-    "inputs": [
+    "inputs": [],
+    "name": "matchManager",
+    "outputs": [
       {
-        "internalType": "uint256",
+        "internalType": "address",
         "name": "",
-        "type": "uint256"
+        "type": "address"
       }
     ],
-    "name": "matches",
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "matchmaker",
     "outputs": [
-      {
-        "internalType": "uint256",
-        "name": "matchId",
-        "type": "uint256"
-      },
       {
         "internalType": "address",
-        "name": "player1",
+        "name": "",
         "type": "address"
-      },
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "moveForwarder",
+    "outputs": [
       {
         "internalType": "address",
-        "name": "player2",
+        "name": "",
         "type": "address"
-      },
-      {
-        "internalType": "euint8",
-        "name": "move1",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "euint8",
-        "name": "move2",
-        "type": "bytes32"
-      },
-      {
-        "internalType": "bool",
-        "name": "player1Committed",
-        "type": "bool"
-      },
-      {
-        "internalType": "bool",
-        "name": "player2Committed",
-        "type": "bool"
-      },
-      {
-        "internalType": "uint256",
-        "name": "createdAt",
-        "type": "uint256"
-      },
-      {
-        "internalType": "enum RockPaperArena.MatchState",
-        "name": "state",
-        "type": "uint8"
-      },
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
       {
         "internalType": "address",
-        "name": "winner",
+        "name": "",
         "type": "address"
       }
     ],
@@ -439,7 +1814,7 @@ export const RockPaperArenaABI = [
         "type": "address"
       }
     ],
-    "name": "playerActiveMatch",
+    "name": "pendingRewards",
     "outputs": [
       {
         "internalType": "uint256",
@@ -452,41 +1827,114 @@ export const RockPaperArenaABI = [
   },
   {
     "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      },
       {
         "internalType": "address",
         "name": "",
         "type": "address"
       }
     ],
-    "name": "playerStats",
+    "name": "pendingTokenRewards",
     "outputs": [
       {
         "internalType": "uint256",
-        "name": "wins",
+        "name": "",
         "type": "uint256"
-      },
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "privateStats",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
       {
         "internalType": "uint256",
-        "name": "losses",
+        "name": "",
         "type": "uint256"
-      },
+      }
+    ],
+    "name": "queuedMatches",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
       {
         "internalType": "uint256",
-        "name": "draws",
+        "name": "",
         "type": "uint256"
+      }
+    ],
+    "name": "ratingChanges",
+    "outputs": [
+      {
+        "internalType": "int128",
+        "name": "delta1",
+        "type": "int128"
       },
+      {
+        "internalType": "int128",
+        "name": "delta2",
+        "type": "int128"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "ratingOf",
+    "outputs": [
       {
         "internalType": "uint256",
-        "name": "totalMatches",
+        "name": "",
         "type": "uint256"
-      },
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
       {
         "internalType": "uint256",
-        "name": "currentStreak",
+        "name": "matchId",
         "type": "uint256"
       }
     ],
-    "stateMutability": "view",
+    "name": "requestAbort",
+    "outputs": [],
+    "stateMutability": "nonpayable",
     "type": "function"
   },
   {
@@ -502,6 +1950,65 @@ export const RockPaperArenaABI = [
     "stateMutability": "nonpayable",
     "type": "function"
   },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "manager",
+        "type": "address"
+      }
+    ],
+    "name": "setMatchManager",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "matchmaker_",
+        "type": "address"
+      }
+    ],
+    "name": "setMatchmaker",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "moveForwarder_",
+        "type": "address"
+      }
+    ],
+    "name": "setMoveForwarder",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "privateStats_",
+        "type": "address"
+      }
+    ],
+    "name": "setPrivateStats",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "startNewSeason",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
   {
     "inputs": [
       {
@@ -529,22 +2036,32 @@ export const RockPaperArenaABI = [
     "inputs": [
       {
         "internalType": "address",
-        "name": "",
+        "name": "player",
         "type": "address"
       },
       {
-        "internalType": "bool",
-        "name": "",
-        "type": "bool"
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint8",
+        "name": "encryptedMove",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
       }
     ],
-    "name": "updateStreak",
+    "name": "submitMoveFor",
     "outputs": [],
-    "stateMutability": "pure",
+    "stateMutability": "nonpayable",
     "type": "function"
   }
 ] as const;
 
-export const RockPaperArenaBytecode = '0x608060405234801561000f575f80fd5b5060015f556116e8806100215f395ff3fe608060405234801561000f575f80fd5b50600436106100fb575f3560e01c80634fd66eae116100935780639b1c90ef116100635780639b1c90ef146102ad578063ab9bcfc0146102c0578063cdafbbb6146102df578063d02c8cdf14610343575f80fd5b80634fd66eae1461020e5780635ba357dc146102625780635f29d4b11461028557806373b07f891461029a575f80fd5b8063372500ab116100ce578063372500ab1461014a5780633d092b3d1461015257806340261cdd146101725780634768d4ef14610185575f80fd5b806301fd1951146100ff5780631b0fc1061461011a5780631cd821eb1461012f57806326d8462914610137575b5f80fd5b6101075f5481565b6040519081526020015b60405180910390f35b61012d6101283660046112c0565b610356565b005b610107610486565b61012d6101453660046112f2565b610575565b61012d610575565b6101656101603660046112c0565b6105b3565b6040516101119190611353565b61012d6101803660046112c0565b6106d8565b6101f86101933660046112c0565b600160208190525f9182526040909120805491810154600282015460038301546004840154600585015460068601546007909601546001600160a01b0395861696948616959394929360ff80841694610100948590048216949093918216929104168a565b6040516101119a99989796959493929190611406565b61022161021c366004611473565b610773565b60405161011191905f60a082019050825182526020830151602083015260408301516040830152606083015160608301526080830151608083015292915050565b6102756102703660046112c0565b6107f4565b6040519015158152602001610111565b61028d610824565b604051610111919061148c565b61012d6102a83660046114cf565b61087a565b6101076102bb3660046112c0565b610a4c565b6101076102ce366004611473565b60036020525f908152604090205481565b61031b6102ed366004611473565b600260208190525f918252604090912080546001820154928201546003830154600490930154919392909185565b604080519586526020860194909452928401919091526060830152608082015260a001610111565b61012d6103513660046112c0565b610a6b565b80158061036457505f548110155b15610382576040516324f45c6160e21b815260040160405180910390fd5b5f81815260016020819052604090912090600782015460ff1660048111156103ac576103ac61132b565b146103ca576040516313227f8960e11b815260040160405180910390fd5b335f90815260036020526040902054156103f75760405163372f161d60e11b815260040160405180910390fd5b6001810154336001600160a01b03909116036104265760405163ab61042760e01b815260040160405180910390fd5b6002810180546001600160a01b031916339081179091555f90815260036020526040902082905561045682610b35565b604051339083907f50d6e5d288766a7340b6110b6738cac822c48c128a47399df2fad303041f8d50905f90a35050565b335f90815260036020526040812054156104b35760405163372f161d60e11b815260040160405180910390fd5b5f805490806104c18361155c565b909155505f81815260016020819052604090912082815580820180546001600160a01b03191633179055600781018054939450909260ff191682800217905550426006820155335f81815260036020526040808220859055600480546001810182559083527f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b018590555184917f18a47d8df22f178f89e665cc0fccf4ee175e91434c7b749c4a7607ffa4d33a6791a35090565b60405162461bcd60e51b815260206004820152600f60248201526e139bdd081a5b5c1b195b595b9d1959608a1b604482015260640160405180910390fd5b60408051610140810182525f80825260208201819052918101829052606081018290526080810182905260a0810182905260c0810182905260e0810182905261010081018290526101208101919091525f8281526001602081815260409283902083516101408101855281548152928101546001600160a01b0390811692840192909252600281015490911692820192909252600382015460608201526004808301546080830152600583015460ff808216151560a0850152610100918290048116151560c0850152600685015460e08501526007850154939493918501929116908111156106a4576106a461132b565b60048111156106b5576106b561132b565b81526007919091015461010090046001600160a01b031660209091015292915050565b5f8181526001602052604090206002600782015460ff1660048111156107005761070061132b565b1461071e57604051633cd1363960e01b815260040160405180910390fd5b60018101546001600160a01b03163314801590610748575060028101546001600160a01b03163314155b156107665760405163ab61042760e01b815260040160405180910390fd5b61076f82610bde565b5050565b6107a06040518060a001604052805f81526020015f81526020015f81526020015f81526020015f81525090565b506001600160a01b03165f90815260026020818152604092839020835160a0810185528154815260018201549281019290925291820154928101929092526003810154606083015260040154608082015290565b5f8181526001602052604081206002600782015460ff16600481111561081c5761081c61132b565b149392505050565b6060600480548060200260200160405190810160405280929190818152602001828054801561087057602002820191905f5260205f20905b81548152602001906001019080831161085c575b5050505050905090565b5f848152600160208190526040909120908101546002820154336001600160a01b03928316811492909116148115826108b1575080155b156108cf5760405163ab61042760e01b815260040160405180910390fd5b8180156108e05750600583015460ff165b156108fe5760405163f2f8adeb60e01b815260040160405180910390fd5b80801561091457506005830154610100900460ff165b156109325760405163f2f8adeb60e01b815260040160405180910390fd5b5f6109728787878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f92019190915250610d5092505050565b905061097d81610d66565b5082156109cb576003840181905560058401805460ff19166001179055604051339089907f1d3cf81927da212fdd71794079b5b6a4915c8e82ae6486396a4a635d7b641d72905f90a3610a10565b6004840181905560058401805461ff001916610100179055604051339089907f1d3cf81927da212fdd71794079b5b6a4915c8e82ae6486396a4a635d7b641d72905f90a35b600584015460ff168015610a2d57506005840154610100900460ff165b15610a425760078401805460ff191660021790555b5050505050505050565b60048181548110610a5b575f80fd5b5f91825260209091200154905081565b5f818152600160208190526040909120908101546001600160a01b03163314610aa75760405163ab61042760e01b815260040160405180910390fd5b6001600782015460ff166004811115610ac257610ac261132b565b14610ae0576040516313227f8960e11b815260040160405180910390fd5b60078101805460ff19166004179055335f90815260036020526040812055610b0782610b35565b60405182907f700135b4fe8746e2d2c85a9baa43c62887740aebfeb3a439f71a083fe5d56759905f90a25050565b6004545f5b81811015610bd9578260048281548110610b5657610b56611574565b905f5260205f20015403610bd1576004610b71600184611588565b81548110610b8157610b81611574565b905f5260205f20015460048281548110610b9d57610b9d611574565b5f918252602090912001556004805480610bb957610bb961159b565b600190038181905f5260205f20015f90559055505050565b600101610b3a565b505050565b5f818152600160205260408120600381015460048201549192909190610c048383610d75565b90505f610c2f610c1c85610c175f610da3565b610d75565b610c2a85610c176002610da3565b610db2565b90505f610c50610c4386610c176001610da3565b610c2a86610c175f610da3565b90505f610c72610c6487610c176002610da3565b610c2a87610c176001610da3565b90505f610c88610c828585610de0565b83610de0565b90505f610cb586610c985f610da3565b610cb085610ca66001610da3565b610cb06002610da3565b610e0e565b9050610cc081610d66565b5060078901805460ff1916600390811790915560018a01546001600160a01b039081165f9081526020928352604080822082905560028d015490921681528181208190558151818152928301528b917f42333750226eab4a4a14af5eac7a7debccbfb9e8af4caf79425688a24c22200c910160405180910390a2610d448a82610e24565b50505050505050505050565b5f610d5d83836002610e95565b90505b92915050565b5f610d718230610f8f565b5090565b5f82610d8757610d845f610da3565b92505b81610d9857610d955f610da3565b91505b610d5d83835f611005565b5f610d608260ff1660026110b2565b5f82610dc457610dc15f611149565b92505b81610dd557610dd25f611149565b91505b610d5d83835f611164565b5f82610df257610def5f611149565b92505b81610e0357610e005f611149565b91505b610d5d83835f6111c7565b5f610e1a84848461122a565b90505b9392505050565b5f828152600160208181526040808420928301546001600160a01b031684526002909152822060030180549192610e5a8361155c565b90915550506002818101546001600160a01b03165f90815260209190915260408120600301805491610e8b8361155c565b9190505550505050565b5f805160206116738339815191525460405163196d0b9b60e01b81525f915f80516020611693833981519152916001600160a01b039091169063196d0b9b90610ee89088903390899089906004016115bf565b6020604051808303815f875af1158015610f04573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610f289190611627565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015610f71575f80fd5b505af1158015610f83573d5f803e3d5ffd5b50505050509392505050565b5f5f805160206116938339815191528054604051635ca4b5b160e11b8152600481018690526001600160a01b03858116602483015292935091169063b9496b62906044015f604051808303815f87803b158015610fea575f80fd5b505af1158015610ffc573d5f803e3d5ffd5b50505050505050565b5f8082156110185750600160f81b61101b565b505f5b5f805160206116738339815191525460405163f77f3f1d60e01b81525f80516020611693833981519152916001600160a01b03169063f77f3f1d906110689089908990879060040161163e565b6020604051808303815f875af1158015611084573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906110a89190611627565b9695505050505050565b5f8051602061167383398151915254604051639cd07acb60e01b81525f915f80516020611693833981519152916001600160a01b0390911690639cd07acb90611101908790879060040161165e565b6020604051808303815f875af115801561111d573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906111419190611627565b949350505050565b5f610d6082611158575f61115b565b60015b60ff165f6110b2565b5f8082156111775750600160f81b61117a565b505f5b5f805160206116738339815191525460405163d99882d560e01b81525f80516020611693833981519152916001600160a01b03169063d99882d5906110689089908990879060040161163e565b5f8082156111da5750600160f81b6111dd565b505f5b5f80516020611673833981519152546040516363a2db2960e01b81525f80516020611693833981519152916001600160a01b0316906363a2db29906110689089908990879060040161163e565b5f805f805160206116938339815191526001810154604051637702dcff60e01b81526004810188905260248101879052604481018690529192506001600160a01b031690637702dcff906064016020604051808303815f875af1158015611293573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906112b79190611627565b95945050505050565b5f602082840312156112d0575f80fd5b5035919050565b80356001600160a01b03811681146112ed575f80fd5b919050565b5f8060408385031215611303575f80fd5b61130c836112d7565b915060208301358015158114611320575f80fd5b809150509250929050565b634e487b7160e01b5f52602160045260245ffd5b6005811061134f5761134f61132b565b9052565b81518152602080830151610140830191611377908401826001600160a01b03169052565b50604083015161139260408401826001600160a01b03169052565b50606083015160608301526080830151608083015260a08301516113ba60a084018215159052565b5060c08301516113ce60c084018215159052565b5060e083015160e0830152610100808401516113ec8285018261133f565b5050610120928301516001600160a01b0316919092015290565b8a81526001600160a01b038a811660208301528981166040830152606082018990526080820188905286151560a083015285151560c083015260e0820185905261014082019061145a61010084018661133f565b808416610120840152509b9a5050505050505050505050565b5f60208284031215611483575f80fd5b610d5d826112d7565b602080825282518282018190525f9190848201906040850190845b818110156114c3578351835292840192918401916001016114a7565b50909695505050505050565b5f805f80606085870312156114e2575f80fd5b8435935060208501359250604085013567ffffffffffffffff80821115611507575f80fd5b818701915087601f83011261151a575f80fd5b813581811115611528575f80fd5b886020828501011115611539575f80fd5b95989497505060200194505050565b634e487b7160e01b5f52601160045260245ffd5b5f6001820161156d5761156d611548565b5060010190565b634e487b7160e01b5f52603260045260245ffd5b81810381811115610d6057610d60611548565b634e487b7160e01b5f52603160045260245ffd5b6054811061134f5761134f61132b565b8481525f602060018060a01b03861660208401526080604084015284518060808501525f5b818110156116005786810183015185820160a0015282016115e4565b505f60a0828601015260a0601f19601f830116850101925050506112b760608301846115af565b5f60208284031215611637575f80fd5b5051919050565b92835260208301919091526001600160f81b031916604082015260600190565b82815260408101610e1d60208301846115af56fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a2646970667358221220ad0c18617df7c892d9d1d0b76935230a68344b75d29b5e56e4d6b9a9afaa019c64736f6c63430008180033' as const;
+export const RockPaperArenaBytecode = '0x60c060405234801561000f575f5ffd5b506040516162b03803806162b083398101604081905261002e91610268565b6100e26100396100f9565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054909216921691909117905550565b60015f81905560075515156080523360a05261028e565b604080516060810182525f808252602082018190529181019190915246600103610152575060408051606080820183525f8083526020808401829052928401819052835191820184528082529181018290529182015290565b4662aa36a7036101d1575060408051606080820183525f8083526020808401829052928401528251908101835273f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c1279181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b46617a690361024f575060408051606080820183525f808352602080840182905292840152825190810183527350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd249181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b6040516373cac13b60e01b815260040160405180910390fd5b5f60208284031215610278575f5ffd5b81518015158114610287575f5ffd5b9392505050565b60805160a051615fec6102c45f395f8181610ac5015281816120700152612e3201525f81816105a701526128100152615fec5ff3fe608060405260043610610435575f3560e01c80636621f4cc116102375780639f512e221161013c578063bfccdd43116100b7578063e074848411610087578063e97f6a681161006d578063e97f6a6814610d57578063efcf9eae14610d6c578063f99a8ac414610d8b575f5ffd5b8063e074848414610d25578063e87b2ea214610d38575f5ffd5b8063bfccdd4314610ca9578063cc3e3d4314610cc8578063d02c8cdf14610ce7578063df5bdd4714610d06575f5ffd5b8063b6ceb61f1161010c578063b8e8a1b9116100f2578063b8e8a1b914610c10578063b9fe9fb914610c2f578063bcb3962114610c94575f5ffd5b8063b6ceb61f14610bdd578063b87bf76e14610bf1575f5ffd5b80639f512e2214610b2c578063a48c36cf14610b4b578063b1403b0814610b81578063b26ac3b514610ba0575f5ffd5b80637f3da7ce116101cc578063893d61ea1161019c5780638da5cb5b116101825780638da5cb5b14610ab45780639615833e14610ae75780639b1c90ef14610b0d575f5ffd5b8063893d61ea14610a765780638c8d68c314610a95575f5ffd5b80637f3da7ce14610a0557806386e773f114610a2457806387e889e714610a435780638927b03014610a62575f5ffd5b806377519b731161020757806377519b73146109b557806377b1c8bb146109c95780637a619e5a146109dc5780637c2b86dc146109f0575f5ffd5b80636621f4cc1461095057806368c54c911461096457806373030d721461098357806373b07f8914610996575f5ffd5b80633baee3631161033d5780634fd66eae116102d25780635d0cd6c4116102a25780635f29d4b1116102885780635f29d4b1146108f15780636205f4c51461091257806365dd2ed114610931575f5ffd5b80635d0cd6c4146108a45780635dae8533146108c3575f5ffd5b80634fd66eae146107ff57806350d6d97f1461081e57806358437282146108315780635ba357dc14610885575f5ffd5b806340261cdd1161030d57806340261cdd1461078c5780634033e538146107ab5780634af6183c146107d75780634c41ef28146107eb575f5ffd5b80633baee363146106eb5780633bea06b1146107225780633d092b3d146107415780633e3e7f281461076d575f5ffd5b80631de3d3b8116103cd57806331d7a2621161039d5780633476b53f116103835780633476b53f14610663578063372500ab1461068257806339ec68a314610696575f5ffd5b806331d7a262146106255780633326d29514610650575f5ffd5b80631de3d3b8146105775780631f6a0267146105965780631f92d7a8146105d9578063290f1d0814610606575f5ffd5b80631ab4e875116104085780631ab4e875146105135780631b0fc106146105495780631bb821f81461055c5780631cd821eb1461056f575f5ffd5b806301fd19511461043957806306aa52f91461046057806308a02ff71461048157806310f3769614610500575b5f5ffd5b348015610444575f5ffd5b5061044d5f5481565b6040519081526020015b60405180910390f35b34801561046b575f5ffd5b5061047f61047a366004615520565b610daa565b005b34801561048c575f5ffd5b506104a061049b36600461553b565b610e63565b60405161045791905f61010082019050825182526020830151602083015260408301516040830152606083015160608301526080830151608083015260a083015160a083015260c083015160c083015260e083015160e083015292915050565b61047f61050e3660046155a7565b610f33565b34801561051e575f5ffd5b5061044d61052d3660046155f6565b601260209081525f928352604080842090915290825290205481565b61047f610557366004615622565b610f8b565b61047f61056a366004615639565b610f97565b61044d6110e4565b348015610582575f5ffd5b5061047f610591366004615681565b6110f6565b3480156105a1575f5ffd5b506105c97f000000000000000000000000000000000000000000000000000000000000000081565b6040519015158152602001610457565b3480156105e4575f5ffd5b506105f86105f33660046156e6565b6111bf565b604051610457929190615752565b348015610611575f5ffd5b5061047f610620366004615520565b6111f2565b348015610630575f5ffd5b5061044d61063f366004615520565b60116020525f908152604090205481565b61044d61065e366004615520565b61122a565b34801561066e575f5ffd5b5061044d61067d3660046155f6565b61125e565b34801561068d575f5ffd5b5061047f6112b7565b3480156106a1575f5ffd5b506106b56106b0366004615773565b611390565b604051610457919081518152602080830151908201526040808301519082015260609182015160ff169181019190915260800190565b3480156106f6575f5ffd5b5060025461070a906001600160a01b031681565b6040516001600160a01b039091168152602001610457565b34801561072d575f5ffd5b5061044d61073c366004615793565b611408565b34801561074c575f5ffd5b5061076061075b366004615622565b61145e565b60405161045791906157f5565b348015610778575f5ffd5b5061047f610787366004615622565b61162e565b348015610797575f5ffd5b5061047f6107a6366004615622565b611694565b3480156107b6575f5ffd5b506107ca6107c5366004615622565b6116ec565b6040516104579190615a07565b3480156107e2575f5ffd5b5061044d600581565b3480156107f6575f5ffd5b5061044d601e81565b34801561080a575f5ffd5b506104a0610819366004615520565b611755565b61044d61082c366004615a75565b6117a1565b34801561083c575f5ffd5b5061086b61084b366004615622565b600a6020525f9081526040902054600f81810b91600160801b9004900b82565b60408051600f93840b81529190920b602082015201610457565b348015610890575f5ffd5b506105c961089f366004615622565b611823565b3480156108af575f5ffd5b506105f86108be366004615773565b611853565b3480156108ce575f5ffd5b506105c96108dd366004615622565b600f6020525f908152604090205460ff1681565b3480156108fc575f5ffd5b5061090561186e565b6040516104579190615aa6565b34801561091d575f5ffd5b5061044d61092c366004615520565b6118c4565b34801561093c575f5ffd5b5061047f61094b366004615ab8565b611904565b34801561095b575f5ffd5b5061044d602881565b34801561096f575f5ffd5b5061044d61097e366004615afb565b6119d4565b61044d610991366004615639565b611a91565b3480156109a1575f5ffd5b5061047f6109b03660046155a7565b611ae4565b3480156109c0575f5ffd5b5061044d601481565b61044d6109d7366004615b3b565b611af1565b3480156109e7575f5ffd5b5061044d606481565b3480156109fb575f5ffd5b5061044d6104b081565b348015610a10575f5ffd5b5061047f610a1f3660046155a7565b611b52565b348015610a2f575f5ffd5b5061047f610a3e366004615622565b611c36565b348015610a4e575f5ffd5b5060045461070a906001600160a01b031681565b348015610a6d575f5ffd5b5061044d611d7b565b348015610a81575f5ffd5b5061047f610a90366004615520565b611d84565b348015610aa0575f5ffd5b5061044d610aaf366004615b54565b611dbc565b348015610abf575f5ffd5b5061070a7f000000000000000000000000000000000000000000000000000000000000000081565b348015610af2575f5ffd5b50610afb600781565b60405160ff9091168152602001610457565b348015610b18575f5ffd5b5061044d610b27366004615622565b611e5d565b348015610b37575f5ffd5b5061047f610b46366004615622565b611e7c565b348015610b56575f5ffd5b5061044d610b653660046155f6565b601360209081525f928352604080842090915290825290205481565b348015610b8c575f5ffd5b5060035461070a906001600160a01b031681565b348015610bab575f5ffd5b50610bbf610bba366004615b98565b612030565b6040805160ff909316835263ffffffff909116602083015201610457565b348015610be8575f5ffd5b5061047f612065565b348015610bfc575f5ffd5b50610905610c0b366004615520565b6120f2565b348015610c1b575f5ffd5b5061047f610c2a366004615520565b61215a565b348015610c3a575f5ffd5b5061044d610c4936600461553b565b604080513060208201524691810191909152606081018390526001600160a01b03821660808201525f9060a00160405160208183030381529060405280519060200120905092915050565b348015610c9f575f5ffd5b5061044d60075481565b348015610cb4575f5ffd5b5061047f610cc3366004615bb1565b612271565b348015610cd3575f5ffd5b50610905610ce2366004615520565b612405565b348015610cf2575f5ffd5b5061047f610d01366004615622565b61246c565b348015610d11575f5ffd5b5061047f610d20366004615622565b612560565b61044d610d33366004615520565b6125bb565b348015610d43575f5ffd5b5061047f610d52366004615520565b612604565b348015610d62575f5ffd5b5061044d61025881565b348015610d77575f5ffd5b5061047f610d86366004615520565b61263c565b348015610d96575f5ffd5b5060015461070a906001600160a01b031681565b335f9081526012602090815260408083206001600160a01b038516845290915281205490819003610dee57604051630fec21fd60e21b815260040160405180910390fd5b335f8181526012602090815260408083206001600160a01b0387168085529252822091909155610e1e9183612674565b6040518181526001600160a01b0383169033907f9310ccfcb8de723f578a9e4282ea9f521f05ae40dc08f3068dfad528a65ee3c7906020015b60405180910390a35050565b610ea36040518061010001604052805f81526020015f81526020015f81526020015f81526020015f81526020015f81526020015f81526020015f81525090565b505f8281526008602090815260408083206001600160a01b03851684528252808320815161010081018352815481526001820154938101939093526002810154918301919091526003810154606083015260048101546080830152600581015460a0830152600681015460c08301526007015460e08201819052909103610f2d576104b060e08201525b92915050565b610f3c846126b3565b610f858433610f808686868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061272c92505050565b612739565b50505050565b610f94816126b3565b50565b5f838152600560205260409020601001546001600160a01b031680610fcf57604051633b19367b60e01b815260040160405180910390fd5b6040805130602080830191909152468284015260608201879052336080808401919091528351808403909101815260a090920190925280519101207f19457468657265756d205369676e6564204d6573736167653a0a3332000000005f908152601c91909152603c812090505f5f61107c8387878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061283d92505050565b5090925090505f816003811115611095576110956157bd565b1415806110b45750836001600160a01b0316826001600160a01b031614155b156110d257604051633b19367b60e01b815260040160405180910390fd5b6110db87612886565b50505050505050565b5f6110f15f345f5f612a74565b905090565b6004546001600160a01b0316158061118d57506004805460405163183534a160e31b81526001600160a01b038881169382019390935291169063c1a9a50890602401602060405180830381865afa158015611153573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906111779190615c0d565b6001600160a01b0316336001600160a01b031614155b156111ab5760405163d22434fd60e01b815260040160405180910390fd5b6111b88486858585612bc3565b5050505050565b6001600160a01b0383165f908152601060205260408120606091906111e5908585612d35565b915091505b935093915050565b600154611208906001600160a01b031682612e27565b600180546001600160a01b0319166001600160a01b0392909216919091179055565b5f6001600160a01b03821661125257604051633b19367b60e01b815260040160405180910390fd5b610f2d5f345f85612a74565b6002545f906001600160a01b0316331461128b5760405163d22434fd60e01b815260040160405180910390fd5b611298838360015f612e97565b5f818152600f60205260409020805460ff191660011790559392505050565b335f90815260116020526040812054908190036112e757604051630fec21fd60e21b815260040160405180910390fd5b335f818152601160205260408082208290555190919083908381818185875af1925050503d805f8114611335576040519150601f19603f3d011682016040523d82523d5f602084013e61133a565b606091505b505090508061135c576040516312171d8360e31b815260040160405180910390fd5b6040518281525f9033907f9310ccfcb8de723f578a9e4282ea9f521f05ae40dc08f3068dfad528a65ee3c790602001610e57565b6113ba60405180608001604052805f81526020015f81526020015f81526020015f60ff1681525090565b505f918252600660209081526040808420928452918152918190208151608081018352815481526001820154938101939093526002810154918301919091526003015460ff16606082015290565b5f6001600160a01b038316158061141d575081155b1561143b57604051634eba4d4960e11b815260040160405180910390fd5b61144783835f5f612a74565b9050610f2d6001600160a01b038416333085612fd0565b611466615426565b5f828152600560208181526040928390208351610340810185528154815260018201546001600160a01b039081169382019390935260028201549092169382019390935260038301546060820152600483015460808201528282015460a0820152600683015460ff808216151560c0840152610100918290048116151560e08401526007850154918301919091526008840154610120830152600984015491939261014085019290911690811115611520576115206157bd565b6005811115611531576115316157bd565b815260098201546001600160a01b036101009182900481166020840152600a8401546040840152600b84015481166060840152600c84015481166080840152600d84015460a0840152600e84015460c0840152600f84015460ff80821660e086015283820481169385019390935262010000810483166101208501526301000000810483166101408501526401000000009004811661016084015260108401548116610180840152601184015481166101a084015260128401549081166101c08401526101e090920191600160a01b9004166001811115611614576116146157bd565b6001811115611625576116256157bd565b90525092915050565b5f81815260056020526040902061164481613006565b60118101546001600160a01b0316158061166a575060118101546001600160a01b031633145b15611687576040516204efe160e01b815260040160405180910390fd5b6116908261308a565b5050565b5f8181526005602052604090206002600982015460ff1660058111156116bc576116bc6157bd565b146116da57604051633cd1363960e01b815260040160405180910390fd5b6116e38161315c565b611690826131a4565b5f8181526009602090815260409182902080548351818402810184019094528084526060939283018282801561174957602002820191905f5260205f20905b81546001600160a01b0316815260019091019060200180831161172b575b50505050509050919050565b6117956040518061010001604052805f81526020015f81526020015f81526020015f81526020015f81526020015f81526020015f81526020015f81525090565b610f2d60075483610e63565b5f6117ab826132fa565b6117b75f345f5f612a74565b5f818152600560205260409020600f8101805460ff191660ff8616179055601201805491925084917fffffffffffffffffffffff00ffffffffffffffffffffffffffffffffffffffff16600160a01b836001811115611818576118186157bd565b021790555092915050565b5f8181526005602052604081206002600982015460ff16600581111561184b5761184b6157bd565b149392505050565b60605f611862600c8585612d35565b915091505b9250929050565b6060600c8054806020026020016040519081016040528092919081815260200182805480156118ba57602002820191905f5260205f20905b8154815260200190600101908083116118a6575b5050505050905090565b600780545f9081526008602090815260408083206001600160a01b038616845290915281209091015480156118f957806118fd565b6104b05b9392505050565b5f858152600560205260409020600b8101546001600160a01b031661193c57604051634eba4d4960e11b815260040160405180910390fd5b600b810154600a82015460405163d505accf60e01b815233600482015230602482015260448101919091526064810187905260ff8616608482015260a4810185905260c481018490526001600160a01b039091169063d505accf9060e4015f604051808303815f87803b1580156119b1575f5ffd5b505af19250505080156119c2575060015b506119cc86612886565b505050505050565b5f6001600160a01b0385166119fc57604051634eba4d4960e11b815260040160405180910390fd5b611a085f5f5f5f612a74565b5f818152600560209081526040808320600c810180546001600160a01b0319166001600160a01b038c161790558151601f8801849004840281018401909252868252939450611a739188919088908890819084018382808284375f9201919091525061334192505050565b9050611a7f878261334e565b82600d01819055505050949350505050565b5f611a9e5f345f5f612a74565b90506118fd8133610f808787878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061272c92505050565b610f858433858585612bc3565b5f8160ff16600103611b16576040516323f774b560e11b815260040160405180910390fd5b611b1f826132fa565b611b2b5f345f5f612a74565b5f818152600560205260409020600f01805460ff191660ff94909416939093179092555090565b5f848152600560205260409020600c8101546001600160a01b031680611b8b57604051634eba4d4960e11b815260040160405180910390fd5b611b9486612886565b5f611bd48686868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061334192505050565b600d8401549091505f611bf9611bea83856133eb565b83611bf45f613419565b61342f565b90505f611c06858361334e565b600e87018190556001870154909150611c299082906001600160a01b031661346e565b5050505050505050505050565b5f8181526005602052604090206001600982015460ff166005811115611c5e57611c5e6157bd565b141580611c76575060028101546001600160a01b0316155b15611c94576040516313227f8960e11b815260040160405180910390fd5b611c9d8161315c565b80600801544211611cc157604051633376277360e11b815260040160405180910390fd5b600681015460ff1615611cd957611690826001613480565b6006810154610100900460ff1615611cf657611690826002613480565b60018101546007545f9081526008602090815260408083206001600160a01b039094168352929052206006018054905f611d2f83615c3c565b909155505060028101546007545f9081526008602090815260408083206001600160a01b039094168352929052206006018054905f611d6d83615c3c565b91905055506116908261308a565b5f6110f1613592565b600354611d9a906001600160a01b031682612e27565b600380546001600160a01b0319166001600160a01b0392909216919091179055565b6001545f906001600160a01b03163314611de95760405163d22434fd60e01b815260040160405180910390fd5b6001600160a01b0384161580611e0657506001600160a01b038316155b80611e225750826001600160a01b0316846001600160a01b0316145b15611e405760405163ab02711d60e01b815260040160405180910390fd5b611e49826132fa565b611e5584848433612e97565b949350505050565b600c8181548110611e6c575f80fd5b5f91825260209091200154905081565b5f81815260056020526040902060028101546001600160a01b031633141580611eb1575060128101546001600160a01b031615155b80611ec85750600c8101546001600160a01b031615155b80611ee057505f828152600f602052604090205460ff165b15611efe5760405163ab61042760e01b815260040160405180910390fd5b6001600982015460ff166005811115611f1957611f196157bd565b141580611f315750600f810154610100900460ff1615155b15611f4f576040516313227f8960e11b815260040160405180910390fd5b600681015460ff1680611f6b57506006810154610100900460ff165b15611f895760405163f2f8adeb60e01b815260040160405180910390fd5b611f98823383600a01546135c6565b6002810180546001600160a01b03199081169091555f60088301556011820180549091169055611fc833836136ad565b6007545f9081526008602090815260408083203384529091528120600601805491611ff283615c3c565b919050555061200082613767565b604051339083907f76125b3c5ea8ee080645e58713de9303bc0ab5bd3aee7560b01fc30583e51f5a905f90a35050565b5f806001836001811115612046576120466157bd565b03612059575060059262592a2c92509050565b50600392608c92509050565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146120ae576040516330cd747160e01b815260040160405180910390fd5b5f60075f81546120bd90615c3c565b918290555060405190915081907fe2046d333900871694b2fb421975b907ac5d93052201a0e259fa0664d9dbdf1d905f90a250565b6001600160a01b0381165f908152600d602090815260409182902080548351818402810184019094528084526060939283018282801561174957602002820191905f5260205f20905b81548152602001906001019080831161213b5750505050509050919050565b335f9081526013602090815260408083206001600160a01b03851684529091529020548061219b57604051630fec21fd60e21b815260040160405180910390fd5b335f9081526013602090815260408083206001600160a01b03861684529091528120556121c88183613828565b50604051632df5f6bf60e11b8152336004820152602481018290526001600160a01b03831690635bebed7e906044016020604051808303815f875af1158015612213573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906122379190615c54565b506040516001600160a01b0383169033907f6c35da2312cf6c488c8fef43be05390e344e23aa909503edd99fdec32920df0a905f90a35050565b5f85815260056020819052604090912090600982015460ff16600581111561229b5761229b6157bd565b146122b957604051633cd1363960e01b815260040160405180910390fd5b6040805160018082528183019092525f91602080830190803683375050506005830154909150815f815181106122f1576122f1615c7f565b60200260200101818152505061236f8187878080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525050604080516020601f8b0181900481028201810190925289815292508991508890819084018382808284375f9201919091525061383392505050565b5f61237c86880188615b3b565b90505f612389898361389e565b925090508061239b57505050506111b8565b6123aa89838660050154613b49565b6009840154604080516101009092046001600160a01b0316825260ff841660208301528a917f42333750226eab4a4a14af5eac7a7debccbfb9e8af4caf79425688a24c22200c910160405180910390a2505050505050505050565b6001600160a01b0381165f908152600b602090815260409182902080548351818402810184019094528084526060939283018282801561174957602002820191905f5260205f209081548152602001906001019080831161213b5750505050509050919050565b5f81815260056020526040902060018101546001600160a01b031633146124a65760405163ab61042760e01b815260040160405180910390fd5b6001600982015460ff1660058111156124c1576124c16157bd565b1415806124da575060028101546001600160a01b031615155b156124f8576040516313227f8960e11b815260040160405180910390fd5b60098101805460ff1916600417905561251133836136ad565b612520823383600a01546135c6565b61252982613c42565b61253282613cba565b60405182907f700135b4fe8746e2d2c85a9baa43c62887740aebfeb3a439f71a083fe5d56759905f90a25050565b5f81815260056020526040902061257681613006565b6011810180546001600160a01b0319163390811790915560405183907f6245587bbc5dbdd70faa03b7be0743de24efe673df4c75ec96344a96bf3b6533905f90a35050565b5f6001600160a01b03821615806125da57506001600160a01b03821633145b156125f85760405163ab02711d60e01b815260040160405180910390fd5b610f2d5f34845f612a74565b60045461261a906001600160a01b031682612e27565b600480546001600160a01b0319166001600160a01b0392909216919091179055565b600254612652906001600160a01b031682612e27565b600280546001600160a01b0319166001600160a01b0392909216919091179055565b6126818383836001613dc9565b6126ae57604051635274afe760e01b81526001600160a01b03841660048201526024015b60405180910390fd5b505050565b5f818152600560205260409020600c01546001600160a01b0316156126eb57604051634eba4d4960e11b815260040160405180910390fd5b5f818152600560205260409020601001546001600160a01b03161561272357604051633b19367b60e01b815260040160405180910390fd5b610f9481612886565b5f6118fd83836002613e2b565b5f83815260056020526040902060018101546001600160a01b0384811691161461276283613f25565b5061276d838561346e565b50801561278f576003820183905560068201805460ff191660011790556127a8565b6004820183905560068201805461ff0019166101001790555b6040516001600160a01b0385169086907f1d3cf81927da212fdd71794079b5b6a4915c8e82ae6486396a4a635d7b641d72905f90a3600682015460ff1680156127fa57506006820154610100900460ff165b156111b85760098201805460ff191660021790557f0000000000000000000000000000000000000000000000000000000000000000156111b8576111b8856131a4565b5f5f5f8351604103612874576020840151604085015160608601515f1a61286688828585613f34565b95509550955050505061287f565b505081515f91506002905b9250925092565b80158061289457505f548110155b156128b2576040516324f45c6160e21b815260040160405180910390fd5b5f8181526005602052604090206001600982015460ff1660058111156128da576128da6157bd565b1415806128f3575060028101546001600160a01b031615155b15612911576040516313227f8960e11b815260040160405180910390fd5b6001810154336001600160a01b03909116036129405760405163ab61042760e01b815260040160405180910390fd5b600f81015464010000000090046001600160a01b0316158015906129795750600f81015464010000000090046001600160a01b03163314155b156129975760405163779a6f4160e01b815260040160405180910390fd5b600b8101545f906001600160a01b0316156129b2575f6129b8565b81600a01545b90508034146129da57604051634581e82760e01b815260040160405180910390fd5b6002820180546001600160a01b031916331790556129fa61025842615c93565b6008830155612a093384613ffc565b612a1283613cba565b604051339084907f50d6e5d288766a7340b6110b6738cac822c48c128a47399df2fad303041f8d50905f90a3600b8201546001600160a01b0316156126ae57600a820154600b8301546126ae916001600160a01b039091169033903090612fd0565b5f80548180612a8283615c3c565b909155505f81815260056020526040902081815560018082018054336001600160a01b0319918216811790925560098401805460ff191684179055426007850155600a8401899055600b8401805482166001600160a01b038c811691909117909155600f850180547fffffffffffffffff0000000000000000000000000000000000000000ffffff00166401000000008b841602179094179093556010840180549091169287169290921790915591925090612b3e9083613ffc565b604051339083907f18a47d8df22f178f89e665cc0fccf4ee175e91434c7b749c4a7607ffa4d33a67905f90a3612b7382613767565b6001600160a01b03841615612bba576040516001600160a01b03851690339084907fba30659674873efb6138e6232bd445a967cfff06373b96029106b8a48aecef3d905f90a45b50949350505050565b5f858152600560205260409020600181015460028201546001600160a01b03878116928116831492911614811582612bf9575080155b15612c175760405163ab61042760e01b815260040160405180910390fd5b6001600984015460ff166005811115612c3257612c326157bd565b141580612c4a575060028301546001600160a01b0316155b15612c68576040516313227f8960e11b815260040160405180910390fd5b818015612c795750600683015460ff165b80612c955750808015612c9557506006830154610100900460ff165b15612cb35760405163f2f8adeb60e01b815260040160405180910390fd5b600883015415801590612cc95750826008015442115b15612ce75760405163387b2e5560e11b815260040160405180910390fd5b612d2b8888610f808989898080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061272c92505050565b5050505050505050565b8254606090808410612d5657604080515f81526020810190915291506111ea565b5f81612d628587615c93565b11612d7657612d718486615c93565b612d78565b815b9050612d848582615ca6565b67ffffffffffffffff811115612d9c57612d9c615c6b565b604051908082528060200260200182016040528015612dc5578160200160208202803683370190505b509250845b81811015612e1d57868181548110612de457612de4615c7f565b905f5260205f200154848783612dfa9190615ca6565b81518110612e0a57612e0a615c7f565b6020908102919091010152600101612dca565b5050935093915050565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016141580612e6757506001600160a01b03821615155b80612e7957506001600160a01b038116155b156116905760405163d22434fd60e01b815260040160405180910390fd5b5f80548180612ea583615c3c565b909155505f818152600560205260409020818155600180820180546001600160a01b038a81166001600160a01b031992831617909255600284018054928a169290911691909117905560098201805460ff19169091179055426007820181905591925090612f169061025890615c93565b6008820155600f8101805460ff191660ff86161790556012810180546001600160a01b0319166001600160a01b038516179055612f538683613ffc565b612f5d8583613ffc565b6040516001600160a01b0387169083907f18a47d8df22f178f89e665cc0fccf4ee175e91434c7b749c4a7607ffa4d33a67905f90a36040516001600160a01b0386169083907f50d6e5d288766a7340b6110b6738cac822c48c128a47399df2fad303041f8d50905f90a350949350505050565b612fde84848484600161407a565b610f8557604051635274afe760e01b81526001600160a01b03851660048201526024016126a5565b61300f8161315c565b60028101546001600160a01b031615155f6001600984015460ff16600581111561303b5761303b6157bd565b148061305f57506002600984015460ff16600581111561305d5761305d6157bd565b145b905081158061306c575080155b156126ae576040516313227f8960e11b815260040160405180910390fd5b5f81815260056020526040812060098101805460ff19166004179055600881019190915560018101546130c6906001600160a01b0316836136ad565b60028101546130de906001600160a01b0316836136ad565b6001810154600a8201546130ff9184916001600160a01b03909116906135c6565b6002810154600a8201546131209184916001600160a01b03909116906135c6565b61312982613c42565b60405182907f700135b4fe8746e2d2c85a9baa43c62887740aebfeb3a439f71a083fe5d56759905f90a2611690826140e7565b60018101546001600160a01b03163314801590613186575060028101546001600160a01b03163314155b15610f945760405163ab61042760e01b815260040160405180910390fd5b5f8181526005602052604081206003810154600482015460128301549293919290919081906131dc90600160a01b900460ff16612030565b915091505f6131eb8585614178565b90505f6132016131fb87866141a6565b866141c7565b90505f61322961322361321c613216876141f5565b85614207565b600161423d565b5f614261565b90505f613256846132395f614285565b613251856132476001614285565b6132516002614285565b614294565b90505f61326f828a8a61326a60018c615cb9565b6142c5565b905061327a81613f25565b5061328481614315565b5060058a810182905560098b01805460ff19169091179055600c8a01546001600160a01b0316156132b9576132b98b8261431f565b8a7fd184141bf85f8e535c848ef284351d3f8845d1e7498400d9db2d09026298b7098260405190815260200160405180910390a25050505050505050505050565b60ff8116158061330d5750600760ff8216115b80613323575061331e600282615ce6565b60ff16155b15610f94576040516323f774b560e11b815260040160405180910390fd5b5f6118fd83836005613e2b565b5f6133598284613828565b5060405163eb3155b560e01b8152336004820152306024820152604481018390526001600160a01b0384169063eb3155b5906064016020604051808303815f875af11580156133aa573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906133ce9190615c54565b90506133d981613f25565b506133e4813361346e565b5092915050565b5f826133fd576133fa5f613419565b92505b8161340e5761340b5f613419565b91505b6118fd83835f6143fd565b5f610f2d8267ffffffffffffffff1660056144ba565b5f836134415761343e5f614549565b93505b826134525761344f5f613419565b92505b81613463576134605f613419565b91505b611e55848484614564565b5f61347983836145fa565b5090919050565b5f8160ff166001146134ab575f838152600560205260409020600101546001600160a01b03166134c6565b5f838152600560205260409020600201546001600160a01b03165b6007545f9081526008602090815260408083206001600160a01b038516845290915281206006018054929350906134fc83615c3c565b91905055505f61350b83614285565b5f858152600560205260409020600c01549091506001600160a01b03161561353757613537848261431f565b613542848483613b49565b5f848152600560205260408082206009015490516101009091046001600160a01b03169186917f5e6d44101742585a96649a62d75df02e5e37141eb54bdc0cbd1a945209891e409190a350505050565b5f466001036135a15750600190565b4662aa36a7036135b2575061271190565b46617a69036135c157505f1990565b505f90565b805f036135d257505050565b5f838152600560205260409020600b01546001600160a01b031680613623576001600160a01b0383165f9081526011602052604081208054849290613618908490615c93565b9091555061365f9050565b6001600160a01b038084165f90815260126020908152604080832093851683529290529081208054849290613659908490615c93565b90915550505b604080516001600160a01b0383811682526020820185905285169186917f8a4a03d9e153e3fe5244e1e4c1395ec68c58f559c8b5cd16d2b8d0a70598ae9f910160405180910390a350505050565b6001600160a01b0382165f908152600b60205260408120805490915b818110156111b857838382815481106136e4576136e4615c7f565b905f5260205f2001540361375f57826136fe600184615ca6565b8154811061370e5761370e615c7f565b905f5260205f20015483828154811061372957613729615c7f565b905f5260205f2001819055508280548061374557613745615d07565b600190038181905f5260205f20015f905590555050505050565b6001016136c9565b5f818152600560205260409020600f015464010000000090046001600160a01b031680156137c8576001600160a01b03165f908152600d6020908152604080832080546001810182558185528385200185905554938352600e909152902055565b5f828152600560205260409020601001546001600160a01b031661169057600c80546001810182557fdf6966c971051c3d54ec59162606531493a51404a002842f56009d7e5cf4a8c701839055545f838152600e60205260409020555050565b5f6134798383614665565b5f61383f8484846146ab565b90508061385f5760405163cf6c44e960e01b815260040160405180910390fd5b7fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a08484604051613890929190615d49565b60405180910390a150505050565b5f828152600560205260408120600f8101805483929183916001906138ca90610100900460ff16615d6d565b91906101000a81548160ff021916908360ff1602179055905060405180608001604052808360030154815260200183600401548152602001836005015481526020018660ff1681525060065f8881526020019081526020015f205f8360ff1681526020019081526020015f205f820151815f015560208201518160010155604082015181600201556060820151816003015f6101000a81548160ff021916908360ff1602179055509050508460ff166001036139b957600f8201805462010000900460ff1690600261399b83615d6d565b91906101000a81548160ff021916908360ff160217905550506139fa565b8460ff166002036139fa57600f820180546301000000900460ff169060036139e083615d6d565b91906101000a81548160ff021916908360ff160217905550505b600f8201546040805160ff84811682528881166020830152620100008404811682840152630100000090930490921660608301525187917fcb75d08d20fc59d144e0492eccfff9a0f218469f1e77a2d8abc6812a380fb8ea919081900360800190a2600f820154600160ff90911611801590613a8d575060ff8516151580613a8d575060128201546001600160a01b0316155b15613aa057600185935093505050611867565b600f8201545f90613ab69060029060ff16615d8b565b613ac1906001615dac565b600f84015490915060ff808316620100009092041610613aea5760018094509450505050611867565b600f83015460ff80831663010000009092041610613b12576001600294509450505050611867565b60068301805461ffff19169055613b2b61025842615c93565b60088401555050600901805460ff19166001179055505f9391925050565b5f83815260056020526040902060ff8316600103613ba05760018101546009820180546001600160a01b039092166101000274ffffffffffffffffffffffffffffffffffffffff0019909216919091179055613be6565b8260ff16600203613be65760028101546009820180546001600160a01b039092166101000274ffffffffffffffffffffffffffffffffffffffff00199092169190911790555b60098101805460ff191660031790556001810154613c0d906001600160a01b0316856136ad565b6002810154613c25906001600160a01b0316856136ad565b613c3084848461474f565b613c3984614906565b610f85846140e7565b5f818152600560205260409020600c8101546001600160a01b0316613c65575050565b6001810154600d820154613c869184916001600160a01b039091169061498d565b60028101546001600160a01b031615611690576002810154600e8201546116909184916001600160a01b039091169061498d565b5f818152600e602052604081205490819003613cd4575050565b5f828152600560205260408120600f015464010000000090046001600160a01b0316908115613d19576001600160a01b0382165f908152600d60205260409020613d1c565b600c5b90505f8160018380549050613d319190615ca6565b81548110613d4157613d41615c7f565b905f5260205f20015490508082600186613d5b9190615ca6565b81548110613d6b57613d6b615c7f565b5f918252602080832090910192909255828152600e909152604090208490558154829080613d9b57613d9b615d07565b600190038181905f5260205f20015f90559055600e5f8681526020019081526020015f205f90555050505050565b60405163a9059cbb60e01b5f8181526001600160a01b038616600452602485905291602083604481808b5af1925060015f51148316613e1f578383151615613e13573d5f823e3d81fd5b5f873b113d1516831692505b60405250949350505050565b5f516020615fa05f395f51905f525460405163045fc19560e11b81525f915f516020615fc05f395f51905f52916001600160a01b03909116906308bf832a90613e7e908890339089908990600401615dd5565b6020604051808303815f875af1158015613e9a573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190613ebe9190615c54565b8154604051630f8e573b60e21b8152600481018390523360248201529193506001600160a01b031690633e395cec906044015f604051808303815f87803b158015613f07575f5ffd5b505af1158015613f19573d5f5f3e3d5ffd5b50505050509392505050565b5f613f3082306145fa565b5090565b5f80807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a0841115613f6d57505f91506003905082613ff2565b604080515f808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa158015613fbe573d5f5f3e3d5ffd5b5050604051601f1901519150506001600160a01b038116613fe957505f925060019150829050613ff2565b92505f91508190505b9450945094915050565b6001600160a01b0382165f908152600b602052604090205460051161403457604051635f8e093960e01b815260040160405180910390fd5b6001600160a01b039091165f818152600b602090815260408083208054600181810183559185528385200186905593835260108252822080549384018155825290200155565b6040516323b872dd60e01b5f8181526001600160a01b038781166004528616602452604485905291602083606481808c5af1925060015f511483166140d65783831516156140ca573d5f823e3d81fd5b5f883b113d1516831692505b604052505f60605295945050505050565b5f818152600560205260409020601201546001600160a01b03168015611690575f828152600560205260409081902060090154905163104ac2f560e01b8152600481018490526101009091046001600160a01b03908116602483015282169063104ac2f5906044015f604051808303815f87803b158015614166575f5ffd5b505af11580156119cc573d5f5f3e3d5ffd5b5f8261418a576141875f614285565b92505b8161419b576141985f614285565b91505b6118fd83835f614a49565b5f826141b8576141b55f614285565b92505b6118fd8360ff84166001614ac0565b5f826141d9576141d65f614285565b92505b816141ea576141e75f614285565b91505b6118fd83835f614b37565b5f610f2d8263ffffffff1660046144ba565b5f82614219576142165f6141f5565b92505b8161422a576142275f614285565b91505b6118fd8361423784614bae565b5f614bba565b5f8261424f5761424c5f6141f5565b92505b6118fd8363ffffffff84166001614c31565b5f82614273576142705f6141f5565b92505b6118fd8363ffffffff84166001614ca8565b5f610f2d8260ff1660026144ba565b5f836142a6576142a35f614549565b93505b826142b7576142b45f614285565b92505b81613463576134605f614285565b5f5f6142d18584614d1f565b90505f6142de8585614d1f565b905061430a826142f3838a6132516001614285565b613251846143016002614285565b6132515f614285565b979650505050505050565b5f613f3082614d40565b5f828152600560205260408120600d810154600e82015491929091906143458383614dbe565b90505f6143515f613419565b90505f61435e8585614dde565b90505f61437d826143788a6143736001614285565b614178565b614dfe565b90505f614392836143788b6143736002614285565b90505f6143a58387611bf485898d61342f565b90505f6143b88388611bf4878a8d61342f565b60018b01549091506143d5908d906001600160a01b03168461498d565b60028a01546143ef908d906001600160a01b03168361498d565b505050505050505050505050565b5f5f82156144105750600160f81b614413565b505f5b5f516020615fa05f395f51905f5254604051631d44e90160e21b815260048101879052602481018690526001600160f81b0319831660448201525f516020615fc05f395f51905f52916001600160a01b031690637513a404906064015b6020604051808303815f875af115801561448c573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906144b09190615c54565b9695505050505050565b5f516020615fa05f395f51905f5254604051639cd07acb60e01b81525f915f516020615fc05f395f51905f52916001600160a01b0390911690639cd07acb906145099087908790600401615e0b565b6020604051808303815f875af1158015614525573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611e559190615c54565b5f610f2d82614558575f61455b565b60015b60ff165f6144ba565b5f805f516020615fc05f395f51905f526001810154604051637702dcff60e01b81526004810188905260248101879052604481018690529192506001600160a01b031690637702dcff906064016020604051808303815f875af11580156145cd573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906145f19190615c54565b95945050505050565b5f516020615fc05f395f51905f528054604051635ca4b5b160e11b8152600481018590526001600160a01b0384811660248301529091169063b9496b62906044015b5f604051808303815f87803b158015614653575f5ffd5b505af11580156110db573d5f5f3e3d5ffd5b5f516020615fc05f395f51905f528054604051630f8e573b60e21b8152600481018590526001600160a01b03848116602483015290911690633e395cec9060440161463c565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702546040516378542ead60e01b81525f915f516020615fc05f395f51905f52916001600160a01b03909116906378542ead9061470f90889088908890600401615e1f565b6020604051808303815f875af115801561472b573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906145f19190615e66565b5f838152600560205260409020600181015460028201546001600160a01b03918216911661477d8686614e2c565b6147868261501c565b61478f8161501c565b6003545f9081906001600160a01b03161561483d576003546147bb9087906001600160a01b0316613828565b5060035460405163043e59c360e51b81526001600160a01b038681166004830152858116602483015260448201899052909116906387cb38609060640160408051808303815f875af1158015614813573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906148379190615e7f565b90925090505b8660ff1660010361485957614854848484846150a0565b6148f4565b8660ff1660020361487057614854838583856150a0565b6007545f9081526008602090815260408083206001600160a01b038816845290915281206002018054916148a383615c3c565b90915550506007545f9081526008602090815260408083206001600160a01b038716845290915281206002018054916148db83615c3c565b91905055506148ea845f615128565b6148f4835f615128565b6148fd84615191565b612d2b83615191565b5f818152600560205260409020600a810154600982015461010090046001600160a01b0316156149595760098201546126ae90849061010090046001600160a01b0316614954846002615ea7565b6135c6565b60018201546149739084906001600160a01b0316836135c6565b60028201546126ae9084906001600160a01b0316836135c6565b5f838152600560209081526040808320600c01546001600160a01b03868116855260138452828520911680855292528220549091906149cc9084614dbe565b90506149d781613f25565b506149e2818561346e565b506001600160a01b038481165f818152601360209081526040808320948716808452948252918290208590559051928352909187917f97abf1ecee4552c70bc87ed3d74c11ee7774d0f4c6b599a6729d0313634c9d7d910160405180910390a35050505050565b5f5f8215614a5c5750600160f81b614a5f565b505f5b5f516020615fa05f395f51905f525460405163f77f3f1d60e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020615fc05f395f51905f52916001600160a01b03169063f77f3f1d90606401614470565b5f5f8215614ad35750600160f81b614ad6565b505f5b5f516020615fa05f395f51905f5254604051630afe14ad60e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020615fc05f395f51905f52916001600160a01b0316906357f0a56890606401614470565b5f5f8215614b4a5750600160f81b614b4d565b505f5b5f516020615fa05f395f51905f525460405163022f65e760e31b815260048101879052602481018690526001600160f81b0319831660448201525f516020615fc05f395f51905f52916001600160a01b03169063117b2f3890606401614470565b5f610f2d82600461521f565b5f5f8215614bcd5750600160f81b614bd0565b505f5b5f516020615fa05f395f51905f52546040516348fcc7ff60e11b815260048101879052602481018690526001600160f81b0319831660448201525f516020615fc05f395f51905f52916001600160a01b0316906391f98ffe90606401614470565b5f5f8215614c445750600160f81b614c47565b505f5b5f516020615fa05f395f51905f525460405163d99882d560e01b815260048101879052602481018690526001600160f81b0319831660448201525f516020615fc05f395f51905f52916001600160a01b03169063d99882d590606401614470565b5f5f8215614cbb5750600160f81b614cbe565b505f5b5f516020615fa05f395f51905f52546040516336024b2f60e21b815260048101879052602481018690526001600160f81b0319831660448201525f516020615fc05f395f51905f52916001600160a01b03169063d8092cbc90606401614470565b5f82614d3157614d2e5f614285565b92505b6118fd8360ff841660016143fd565b6040805160018082528183019092525f516020615fc05f395f51905f52915f91906020808301908036833701905050905082815f81518110614d8457614d84615c7f565b60209081029190910101528154604051637d6e912360e11b81526001600160a01b039091169063fadd22469061463c908490600401615aa6565b5f82614dd057614dcd5f613419565b92505b816141ea576141e75f613419565b5f82614df057614ded5f613419565b92505b8161419b576141985f613419565b5f82614e1057614e0d5f614549565b92505b81614e2157614e1e5f614549565b91505b6118fd83835f614c31565b5f8281526005602052604081206001810154909190614e53906001600160a01b03166118c4565b60028301549091505f90614e6f906001600160a01b03166118c4565b90505f8460ff16600114614e96578460ff16600214614e90576101f4614e9a565b5f614e9a565b6103e85b90505f614ea7848461526e565b614eb19083615ebe565b60018601549091505f90614ecf906001600160a01b03168684615375565b60028701549091505f90614ef5906001600160a01b031686614ef086615edd565b615375565b604080518082018252600f85810b825283900b60208083019182525f8e8152600a90915292909220905191516fffffffffffffffffffffffffffffffff908116600160801b029216919091179055600288015460018901549192506001600160a01b0390811691168a7f9a536ba64b8c69475e74df0cf5b33fc2da2b77876371c2611a81b771d4c736f6614faa836007545f9081526008602090815260408083206001600160a01b0390941683529290522090565b6007015460028c0154614fe7906001600160a01b03166007545f9081526008602090815260408083206001600160a01b0390941683529290522090565b6007015460408051928352602083019190915281018790526060810186905260800160405180910390a4505050505050505050565b6007545f9081526008602090815260408083206001600160a01b038516845290915281206003810154909103615086576007545f9081526009602090815260408220805460018101825590835291200180546001600160a01b0319166001600160a01b0384161790555b600381018054905f61509783615c3c565b91905055505050565b816150e5576007545f9081526008602090815260408083206001600160a01b038816845290915281208054916150d583615c3c565b91905055506150e5846001615128565b80610f85576007545f9081526008602090815260408083206001600160a01b0387168452909152812060010180549161511d83615c3c565b9190505550610f85835f5b6007545f9081526008602090815260408083206001600160a01b038616845290915290208161515c575f6004909101555050565b600481018054905f61516d83615c3c565b91905055508060050154816004015411156126ae5760048101546005820155505050565b6007545f9081526008602090815260408083206001600160a01b0385168085529083529281902080546001820154600283015460048401546005850154865194855296840192909252828501526060820152608081019390935290519092917fb8373f7d59a8eecc950efc3756a4ad134dd988e7b187a67eedf5b6935d230171919081900360a00190a25050565b5f516020615fa05f395f51905f52546040516307227b9160e21b81525f915f516020615fc05f395f51905f52916001600160a01b0390911690631c89ee44906145099087908790600401615e0b565b5f5f828411615286576152818484615ca6565b615290565b6152908385615ca6565b90505f6103208210156152ad576152a8603283615ef7565b6152b0565b60105b90505f6152be82600c615ea7565b7903de3db3d73d13c93c03b33a238d3723513282f82bf28023b1f4901c610fff169050601082101561535c575f6152f6836001615c93565b61530190600c615ea7565b7903de3db3d73d13c93c03b33a238d3723513282f82bf28023b1f4901c610fff16905060326153308186615f0a565b61533a8484615ca6565b6153449190615ea7565b61534e9190615ef7565b6153589083615c93565b9150505b848610156145f157615370816103e8615ca6565b6144b0565b6007545f9081526008602090815260408083206001600160a01b038716845290915281208190601e9060030154106153ae5760146153b1565b60285b90506103e86153c08483615f1d565b6153ca9190615f4c565b915060646153d88386615f78565b12156153ec576153e9846064615ebe565b91505b6153f68285615f78565b6007545f9081526008602090815260408083206001600160a01b038a168452909152902060070155509392505050565b6040518061034001604052805f81526020015f6001600160a01b031681526020015f6001600160a01b031681526020015f81526020015f81526020015f81526020015f151581526020015f151581526020015f81526020015f81526020015f6005811115615496576154966157bd565b81525f6020820181905260408201819052606082018190526080820181905260a0820181905260c0820181905260e08201819052610100820181905261012082018190526101408201819052610160820181905261018082018190526101a082018190526101c082018190526101e09091015290565b6001600160a01b0381168114610f94575f5ffd5b5f60208284031215615530575f5ffd5b81356118fd8161550c565b5f5f6040838503121561554c575f5ffd5b82359150602083013561555e8161550c565b809150509250929050565b5f5f83601f840112615579575f5ffd5b50813567ffffffffffffffff811115615590575f5ffd5b602083019150836020828501011115611867575f5ffd5b5f5f5f5f606085870312156155ba575f5ffd5b8435935060208501359250604085013567ffffffffffffffff8111156155de575f5ffd5b6155ea87828801615569565b95989497509550505050565b5f5f60408385031215615607575f5ffd5b82356156128161550c565b9150602083013561555e8161550c565b5f60208284031215615632575f5ffd5b5035919050565b5f5f5f6040848603121561564b575f5ffd5b83359250602084013567ffffffffffffffff811115615668575f5ffd5b61567486828701615569565b9497909650939450505050565b5f5f5f5f5f60808688031215615695575f5ffd5b85356156a08161550c565b94506020860135935060408601359250606086013567ffffffffffffffff8111156156c9575f5ffd5b6156d588828901615569565b969995985093965092949392505050565b5f5f5f606084860312156156f8575f5ffd5b83356157038161550c565b95602085013595506040909401359392505050565b5f8151808452602084019350602083015f5b8281101561574857815186526020958601959091019060010161572a565b5093949350505050565b604081525f6157646040830185615718565b90508260208301529392505050565b5f5f60408385031215615784575f5ffd5b50508035926020909101359150565b5f5f604083850312156157a4575f5ffd5b82356157af8161550c565b946020939093013593505050565b634e487b7160e01b5f52602160045260245ffd5b600681106157e1576157e16157bd565b9052565b600281106157e1576157e16157bd565b81518152602080830151610340830191615819908401826001600160a01b03169052565b50604083015161583460408401826001600160a01b03169052565b50606083015160608301526080830151608083015260a083015160a083015260c083015161586660c084018215159052565b5060e083015161587a60e084018215159052565b506101008301516101008301526101208301516101208301526101408301516158a76101408401826157d1565b506101608301516158c46101608401826001600160a01b03169052565b506101808301516101808301526101a08301516158ed6101a08401826001600160a01b03169052565b506101c083015161590a6101c08401826001600160a01b03169052565b506101e08301516101e083015261020083015161020083015261022083015161593961022084018260ff169052565b5061024083015161595061024084018260ff169052565b5061026083015161596761026084018260ff169052565b5061028083015161597e61028084018260ff169052565b506102a083015161599b6102a08401826001600160a01b03169052565b506102c08301516159b86102c08401826001600160a01b03169052565b506102e08301516159d56102e08401826001600160a01b03169052565b506103008301516159f26103008401826001600160a01b03169052565b506103208301516133e46103208401826157e5565b602080825282518282018190525f918401906040840190835b81811015615a475783516001600160a01b0316835260209384019390920191600101615a20565b509095945050505050565b803560028110615a60575f5ffd5b919050565b803560ff81168114615a60575f5ffd5b5f5f60408385031215615a86575f5ffd5b615a8f83615a52565b9150615a9d60208401615a65565b90509250929050565b602081525f6118fd6020830184615718565b5f5f5f5f5f60a08688031215615acc575f5ffd5b8535945060208601359350615ae360408701615a65565b94979396509394606081013594506080013592915050565b5f5f5f5f60608587031215615b0e575f5ffd5b8435615b198161550c565b935060208501359250604085013567ffffffffffffffff8111156155de575f5ffd5b5f60208284031215615b4b575f5ffd5b6118fd82615a65565b5f5f5f60608486031215615b66575f5ffd5b8335615b718161550c565b92506020840135615b818161550c565b9150615b8f60408501615a65565b90509250925092565b5f60208284031215615ba8575f5ffd5b6118fd82615a52565b5f5f5f5f5f60608688031215615bc5575f5ffd5b85359450602086013567ffffffffffffffff811115615be2575f5ffd5b615bee88828901615569565b909550935050604086013567ffffffffffffffff8111156156c9575f5ffd5b5f60208284031215615c1d575f5ffd5b81516118fd8161550c565b634e487b7160e01b5f52601160045260245ffd5b5f60018201615c4d57615c4d615c28565b5060010190565b5f60208284031215615c64575f5ffd5b5051919050565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f52603260045260245ffd5b80820180821115610f2d57610f2d615c28565b81810381811115610f2d57610f2d615c28565b60ff8281168282160390811115610f2d57610f2d615c28565b634e487b7160e01b5f52601260045260245ffd5b5f60ff831680615cf857615cf8615cd2565b8060ff84160691505092915050565b634e487b7160e01b5f52603160045260245ffd5b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b604081525f615d5b6040830185615718565b82810360208401526145f18185615d1b565b5f60ff821660ff8103615d8257615d82615c28565b60010192915050565b5f60ff831680615d9d57615d9d615cd2565b8060ff84160491505092915050565b60ff8181168382160190811115610f2d57610f2d615c28565b605481106157e1576157e16157bd565b8481526001600160a01b0384166020820152608060408201525f615dfc6080830185615d1b565b90506145f16060830184615dc5565b828152604081016118fd6020830184615dc5565b606081525f615e316060830186615718565b8281036020840152615e438186615d1b565b905082810360408401526144b08185615d1b565b80518015158114615a60575f5ffd5b5f60208284031215615e76575f5ffd5b6118fd82615e57565b5f5f60408385031215615e90575f5ffd5b615e9983615e57565b9150615a9d60208401615e57565b8082028115828204841417610f2d57610f2d615c28565b8181035f8312801583831316838312821617156133e4576133e4615c28565b5f600160ff1b8201615ef157615ef1615c28565b505f0390565b5f82615f0557615f05615cd2565b500490565b5f82615f1857615f18615cd2565b500690565b8082025f8212600160ff1b84141615615f3857615f38615c28565b8181058314821517610f2d57610f2d615c28565b5f82615f5a57615f5a615cd2565b600160ff1b82145f1984141615615f7357615f73615c28565b500590565b8082018281125f831280158216821582161715615f9757615f97615c28565b50509291505056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700a164736f6c634300081b000a' as const;
 
 export type RockPaperArenaABI = typeof RockPaperArenaABI;
@@ -0,0 +1,305 @@
+/**
+ * RockPaperForwarder Contract ABI
+ * Auto-generated from compiled contract
+ * Do not edit manually
+ */
+
+export const RockPaperForwarderABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract RockPaperArena",
+        "name": "arena_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [],
+    "name": "ECDSAInvalidSignature",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "length",
+        "type": "uint256"
+      }
+    ],
+    "name": "ECDSAInvalidSignatureLength",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "s",
+        "type": "bytes32"
+      }
+    ],
+    "name": "ECDSAInvalidSignatureS",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "HandleAlreadyUsed",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "currentNonce",
+        "type": "uint256"
+      }
+    ],
+    "name": "InvalidAccountNonce",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidShortString",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidSignature",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "SignatureExpired",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "str",
+        "type": "string"
+      }
+    ],
+    "name": "StringTooLong",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [],
+    "name": "EIP712DomainChanged",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "relayer",
+        "type": "address"
+      }
+    ],
+    "name": "MoveRelayed",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "DOMAIN_SEPARATOR",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "SUBMIT_MOVE_TYPEHASH",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "arena",
+    "outputs": [
+      {
+        "internalType": "contract RockPaperArena",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "eip712Domain",
+    "outputs": [
+      {
+        "internalType": "bytes1",
+        "name": "fields",
+        "type": "bytes1"
+      },
+      {
+        "internalType": "string",
+        "name": "name",
+        "type": "string"
+      },
+      {
+        "internalType": "string",
+        "name": "version",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "chainId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "verifyingContract",
+        "type": "address"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "salt",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "uint256[]",
+        "name": "extensions",
+        "type": "uint256[]"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      }
+    ],
+    "name": "nonces",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "proxyOf",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "externalEuint8",
+        "name": "encryptedMove",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bytes",
+        "name": "inputProof",
+        "type": "bytes"
+      },
+      {
+        "internalType": "uint256",
+        "name": "deadline",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "signature",
+        "type": "bytes"
+      }
+    ],
+    "name": "submitMoveBySig",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "name": "usedHandles",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+export const RockPaperForwarderBytecode = '0x610180604052348015610010575f5ffd5b5060405161126538038061126583398101604081905261002f9161017d565b604051806040016040528060128152602001712937b1b5a830b832b92337b93bb0b93232b960711b815250604051806040016040528060018152602001603160f81b8152506100838261013760201b60201c565b6101205261009081610137565b61014052815160208084019190912060e052815190820120610100524660a05261011c60e05161010051604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201529081019290925260608201524660808201523060a08201525f9060c00160405160208183030381529060405280519060200120905090565b60805250503060c0526001600160a01b031661016052610205565b5f5f829050601f8151111561016a578260405163305a27a960e01b815260040161016191906101aa565b60405180910390fd5b8051610175826101df565b179392505050565b5f6020828403121561018d575f5ffd5b81516001600160a01b03811681146101a3575f5ffd5b9392505050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b805160208083015191908110156101ff575f198160200360031b1b821691505b50919050565b60805160a05160c05160e05161010051610120516101405161016051610ff761026e5f395f81816101850152818161036901526104da01525f61076f01525f61074401525f61069301525f61066b01525f6105c601525f6105f001525f61061a0152610ff75ff3fe608060405234801561000f575f5ffd5b5060043610610085575f3560e01c80639edb11e1116100585780639edb11e1146100fc578063c1a9a5081461012e578063ebf7581f14610159578063fd3705f914610180575f5ffd5b80633644e51514610089578063515edca0146100a45780637ecebe00146100b957806384b0196e146100e1575b5f5ffd5b6100916101a7565b6040519081526020015b60405180910390f35b6100b76100b2366004610a36565b6101b5565b005b6100916100c7366004610ad1565b6001600160a01b03165f9081526002602052604090205490565b6100e961046f565b60405161009b9796959493929190610b1f565b61011e61010a366004610bb5565b60036020525f908152604090205460ff1681565b604051901515815260200161009b565b61014161013c366004610ad1565b6104b1565b6040516001600160a01b03909116815260200161009b565b6100917fafa7b69acc165ea6e13fc86be2f10d7ae0b5d25145e4fa06cca47e8924b5c90a81565b6101417f000000000000000000000000000000000000000000000000000000000000000081565b5f6101b06105ba565b905090565b824211156101d657604051630819bdcd60e01b815260040160405180910390fd5b5f8690505f7fafa7b69acc165ea6e13fc86be2f10d7ae0b5d25145e4fa06cca47e8924b5c90a8983898960405161020e929190610bcc565b604051809103902061023c8e6001600160a01b03165f90815260026020526040902080546001810190915590565b6040805160208101969096528501939093526060840191909152608083015260a082015260c0810186905260e001604051602081830303815290604052805190602001209050896001600160a01b03166102d3610298836106e3565b86868080601f0160208091040260200160405190810160405280939291908181526020018383808284375f9201919091525061071592505050565b6001600160a01b0316146102fa57604051638baa579f60e01b815260040160405180910390fd5b5f8281526003602052604090205460ff16156103295760405163e29fcfdb60e01b815260040160405180910390fd5b5f828152600360205260408120805460ff1916600117905561034a8b6104b1565b9050806001600160a01b03163b5f036103cc576001600160a01b038b167f00000000000000000000000000000000000000000000000000000000000000008c604051610395906109c9565b6001600160a01b039283168152911660208201526040018190604051809103905ff59050801580156103c9573d5f5f3e3d5ffd5b50505b6040516373b07f8960e01b81526001600160a01b038216906373b07f89906103fe908d908d908d908d90600401610bdb565b5f604051808303815f87803b158015610415575f5ffd5b505af1158015610427573d5f5f3e3d5ffd5b50506040513392506001600160a01b038e1691508c907f835ecb29c94e1b132a3aafa2089c5424a5208d99a86c8b7784899a63c6f4694f905f90a45050505050505050505050565b5f6060805f5f5f606061048061073d565b610488610768565b604080515f80825260208201909252600f60f81b9b939a50919850469750309650945092509050565b5f5f604051806020016104c3906109c9565b601f1982820381018352601f9091011660408181527f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0390811660208401528616818301528051808303820181526060830190915261052c9291608001610c2e565b60408051808303601f1901815282825280516020918201207fff00000000000000000000000000000000000000000000000000000000000000828501526bffffffffffffffffffffffff193060601b1660218501526001600160a01b039690961660358401526055808401969096528151808403909601865260759092019052835193019290922092915050565b5f306001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614801561061257507f000000000000000000000000000000000000000000000000000000000000000046145b1561063c57507f000000000000000000000000000000000000000000000000000000000000000090565b6101b0604080517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f60208201527f0000000000000000000000000000000000000000000000000000000000000000918101919091527f000000000000000000000000000000000000000000000000000000000000000060608201524660808201523060a08201525f9060c00160405160208183030381529060405280519060200120905090565b5f61070f6106ef6105ba565b8360405161190160f01b8152600281019290925260228201526042902090565b92915050565b5f5f5f5f6107238686610793565b92509250925061073382826107dc565b5090949350505050565b60606101b07f000000000000000000000000000000000000000000000000000000000000000061089d565b60606101b07f000000000000000000000000000000000000000000000000000000000000000061089d565b5f5f5f83516041036107ca576020840151604085015160608601515f1a6107bc888285856108da565b9550955095505050506107d5565b505081515f91506002905b9250925092565b5f8260038111156107ef576107ef610c4a565b036107f8575050565b600182600381111561080c5761080c610c4a565b0361082a5760405163f645eedf60e01b815260040160405180910390fd5b600282600381111561083e5761083e610c4a565b036108645760405163fce698f760e01b8152600481018290526024015b60405180910390fd5b600382600381111561087857610878610c4a565b03610899576040516335e2f38360e21b81526004810182905260240161085b565b5050565b60605f6108a9836109a2565b6040805160208082528183019092529192505f91906020820181803683375050509182525060208101929092525090565b5f80807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a084111561091357505f91506003905082610998565b604080515f808252602082018084528a905260ff891692820192909252606081018790526080810186905260019060a0016020604051602081039080840390855afa158015610964573d5f5f3e3d5ffd5b5050604051601f1901519150506001600160a01b03811661098f57505f925060019150829050610998565b92505f91508190505b9450945094915050565b5f60ff8216601f81111561070f57604051632cd44ac360e21b815260040160405180910390fd5b61038c80610c5f83390190565b80356001600160a01b03811681146109ec575f5ffd5b919050565b5f5f83601f840112610a01575f5ffd5b50813567ffffffffffffffff811115610a18575f5ffd5b602083019150836020828501011115610a2f575f5ffd5b9250929050565b5f5f5f5f5f5f5f5f60c0898b031215610a4d575f5ffd5b610a56896109d6565b97506020890135965060408901359550606089013567ffffffffffffffff811115610a7f575f5ffd5b610a8b8b828c016109f1565b9096509450506080890135925060a089013567ffffffffffffffff811115610ab1575f5ffd5b610abd8b828c016109f1565b999c989b5096995094979396929594505050565b5f60208284031215610ae1575f5ffd5b610aea826109d6565b9392505050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b60ff60f81b8816815260e060208201525f610b3d60e0830189610af1565b8281036040840152610b4f8189610af1565b606084018890526001600160a01b038716608085015260a0840186905283810360c0850152845180825260208087019350909101905f5b81811015610ba4578351835260209384019390920191600101610b86565b50909b9a5050505050505050505050565b5f60208284031215610bc5575f5ffd5b5035919050565b818382375f9101908152919050565b84815283602082015260606040820152816060820152818360808301375f818301608090810191909152601f909201601f191601019392505050565b5f81518060208401855e5f93019283525090919050565b5f610c42610c3c8386610c17565b84610c17565b949350505050565b634e487b7160e01b5f52602160045260245ffdfe60e060405234801561000f575f5ffd5b5060405161038c38038061038c83398101604081905261002e91610060565b336080526001600160a01b0391821660a0521660c052610098565b6001600160a01b038116811461005d575f5ffd5b50565b5f5f60408385031215610071575f5ffd5b825161007c81610049565b602084015190925061008d81610049565b809150509250929050565b60805160a05160c0516102b96100d35f395f81816053015261018101525f818160d2015261015401525f818160ab015260ff01526102b95ff3fe608060405234801561000f575f5ffd5b506004361061004a575f3560e01c806348db5f891461004e57806373b07f8914610091578063f645d4f9146100a6578063fd3705f9146100cd575b5f5ffd5b6100757f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200160405180910390f35b6100a461009f3660046101e4565b6100f4565b005b6100757f000000000000000000000000000000000000000000000000000000000000000081565b6100757f000000000000000000000000000000000000000000000000000000000000000081565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461013d5760405163183d164560e21b815260040160405180910390fd5b6040516303bc7a7760e31b81526001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001690631de3d3b8906101b1907f0000000000000000000000000000000000000000000000000000000000000000908890889088908890600401610260565b5f604051808303815f87803b1580156101c8575f5ffd5b505af11580156101da573d5f5f3e3d5ffd5b5050505050505050565b5f5f5f5f606085870312156101f7575f5ffd5b8435935060208501359250604085013567ffffffffffffffff81111561021b575f5ffd5b8501601f8101871361022b575f5ffd5b803567ffffffffffffffff811115610241575f5ffd5b876020828401011115610252575f5ffd5b949793965060200194505050565b6001600160a01b038616815284602082015283604082015260806060820152816080820152818360a08301375f81830160a090810191909152601f909201601f1916010194935050505056fea164736f6c634300081b000aa164736f6c634300081b000a' as const;
+
+export type RockPaperForwarderABI = typeof RockPaperForwarderABI;
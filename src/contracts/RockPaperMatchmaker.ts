@@ -0,0 +1,281 @@
+/**
+ * RockPaperMatchmaker Contract ABI
+ * Auto-generated from compiled contract
+ * Do not edit manually
+ */
+
+export const RockPaperMatchmakerABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract RockPaperArena",
+        "name": "arena_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [],
+    "name": "AlreadyQueued",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NotQueued",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "TooManyActiveMatches",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "QueueJoined",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "QueueLeft",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player1",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player2",
+        "type": "address"
+      }
+    ],
+    "name": "QueueMatched",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "BASE_RATING_WINDOW",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "MAX_QUEUE_SCAN",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "WINDOW_GROWTH",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "WINDOW_GROWTH_INTERVAL",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "arena",
+    "outputs": [
+      {
+        "internalType": "contract RockPaperArena",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "getQueuePosition",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "getQueueStatus",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "window",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "expectedWait",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "joinQueue",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "leaveQueue",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "queueHead",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "queuedAt",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "ratingWindow",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "retryQueue",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "matchId",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export const RockPaperMatchmakerBytecode = '0x60a060405234801561000f575f5ffd5b50604051610ef7380380610ef783398101604081905261002e9161003f565b6001600160a01b031660805261006c565b5f6020828403121561004f575f5ffd5b81516001600160a01b0381168114610065575f5ffd5b9392505050565b608051610e496100ae5f395f818161019e015281816103f801528181610763015281816109e301528181610a9901528181610b360152610bf40152610e495ff3fe608060405234801561000f575f5ffd5b50600436106100da575f3560e01c80639652364411610088578063d43ed76111610063578063d43ed76114610173578063def9c67014610186578063fd3705f914610199578063fe687619146101d8575f5ffd5b8063965236441461013a578063ba06f7c414610143578063c70893ae1461016b575f5ffd5b80635ecac9d4116100b85780635ecac9d4146101205780638465de04146101285780639478c1cc14610132575f5ffd5b806330a63f10146100de5780633a255022146100f957806340c57f5114610101575b5f5ffd5b6100e66101e0565b6040519081526020015b60405180910390f35b6100e6601981565b6100e661010f366004610c87565b60036020525f908152604090205481565b6100e6610251565b610130610362565b005b6100e6601481565b6100e660015481565b610156610151366004610c87565b6103c5565b604080519283526020830191909152016100f0565b6100e6603281565b6100e6610181366004610c87565b610607565b6100e6610194366004610c87565b610663565b6101c07f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100f0565b6100e6603c81565b335f90815260026020526040812054810361020e5760405163ccbc0d7160e01b815260040160405180910390fd5b5f6102213361021c33610607565b610740565b90506001600160a01b038116610238575f91505090565b610241336108d5565b61024b81336109b2565b91505090565b335f908152600260205260408120541561027e57604051632fc2a3e160e11b815260040160405180910390fd5b61028733610a96565b6102a457604051635f8e093960e01b815260040160405180910390fd5b5f6102b0336032610740565b90506001600160a01b038116156102cb5761024b81336109b2565b5f80546001810182557f290decd9548b62a8d60345a988386fc84ba6bc95484008f6362f93160ef3e56301805473ffffffffffffffffffffffffffffffffffffffff191633908117909155815481835260026020908152604080852092909255600390528083204290555190917fa4f09e74d9436e3fd01662c2e2a7ce57a84fd4dcd468a885db01c41f054ba9c691a25f91505090565b335f9081526002602052604081205490036103905760405163ccbc0d7160e01b815260040160405180910390fd5b610399336108d5565b60405133907f0307a9f89ee35af1e63ade1d8411a823c182c39597018b66c3793969811d7b5d905f90a2565b5f5f6103d083610607565b604051636205f4c560e01b81526001600160a01b0385811660048301529193505f1992505f917f00000000000000000000000000000000000000000000000000000000000000001690636205f4c590602401602060405180830381865afa15801561043d573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906104619190610cad565b6001600160a01b0385165f90815260036020526040812054919250901561049f576001600160a01b0385165f908152600360205260409020546104a1565b425b90505f6104ac610ba9565b6001549091505b81811080156104c157508415155b156105fe575f5f82815481106104d9576104d9610cc4565b5f918252602090912001546001600160a01b0316905080158061050d5750876001600160a01b0316816001600160a01b0316145b1561051857506105ec565b5f6105238683610bd1565b90505f603282111561056257601960018161053f603286610cec565b6105499190610cff565b6105539190610cec565b61055d9190610d12565b610564565b5f5b6001600160a01b0384165f9081526003602052604081205491925090871161058c57866105a5565b6001600160a01b0384165f908152600360205260409020545b90505f6105b3603c84610d31565b6105bd9083610cff565b90505f4282116105cd575f6105d7565b6105d74283610cec565b90508a8110156105e557809a505b5050505050505b806105f681610d48565b9150506104b3565b50505050915091565b6001600160a01b0381165f9081526003602052604081205480820361062f5750603292915050565b6019603c61063d8342610cec565b6106479190610d12565b6106519190610d31565b61065c906032610cff565b9392505050565b6001600160a01b0381165f9081526002602052604081205480820361068a57505f92915050565b5f610693610ba9565b90505f6106a1600184610cec565b90505f8282116106b25760016106c7565b6106bc8383610cec565b6106c7906001610cff565b6001549091505b82811080156106dc57508381105b15610736575f6001600160a01b03165f82815481106106fd576106fd610cc4565b5f918252602090912001546001600160a01b031614610724578161072081610d48565b9250505b8061072e81610d48565b9150506106ce565b5095945050505050565b604051636205f4c560e01b81526001600160a01b0383811660048301525f9182917f00000000000000000000000000000000000000000000000000000000000000001690636205f4c590602401602060405180830381865afa1580156107a8573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906107cc9190610cad565b90505f6107d7610ba9565b6001549091505b818110156108c8575f5f82815481106107f9576107f9610cc4565b5f918252602090912001546001600160a01b0316905080158061082d5750866001600160a01b0316816001600160a01b0316145b1561083857506108c0565b61084181610a96565b6108875761084e816108d5565b6040516001600160a01b038216907f0307a9f89ee35af1e63ade1d8411a823c182c39597018b66c3793969811d7b5d905f90a2506108c0565b5f61089182610607565b90508087116108a057806108a2565b865b6108ac8684610bd1565b116108bd575093506108cf92505050565b50505b6001016107de565b505f925050505b92915050565b6001600160a01b0381165f908152600260205260408120546108f990600190610cec565b8154811061090957610909610cc4565b5f9182526020808320909101805473ffffffffffffffffffffffffffffffffffffffff191690556001600160a01b03831682526002815260408083208390556003909152812081905560015490545b808210801561099457505f6001600160a01b03165f838154811061097e5761097e610cc4565b5f918252602090912001546001600160a01b0316145b156109ab57816109a381610d48565b925050610958565b5060015550565b5f6109bc836108d5565b604051633476b53f60e01b81526001600160a01b03848116600483015283811660248301527f00000000000000000000000000000000000000000000000000000000000000001690633476b53f906044016020604051808303815f875af1158015610a29573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610a4d9190610cad565b9050816001600160a01b0316836001600160a01b0316827f4b7b1c4c2fbed2a237cf1487312daf0af971826314630aef0f703d64a90a863f60405160405180910390a492915050565b5f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316634af6183c6040518163ffffffff1660e01b8152600401602060405180830381865afa158015610af3573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610b179190610cad565b60405163cc3e3d4360e01b81526001600160a01b0384811660048301527f0000000000000000000000000000000000000000000000000000000000000000169063cc3e3d43906024015f60405180830381865afa158015610b7a573d5f5f3e3d5ffd5b505050506040513d5f823e601f3d908101601f19168201604052610ba19190810190610d74565b511092915050565b5f5f6014600154610bba9190610cff565b5f549091508110610bcc575f5461024b565b919050565b604051636205f4c560e01b81526001600160a01b0382811660048301525f9182917f00000000000000000000000000000000000000000000000000000000000000001690636205f4c590602401602060405180830381865afa158015610c39573d5f5f3e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610c5d9190610cad565b9050808411610c7557610c708482610cec565b610c7f565b610c7f8185610cec565b949350505050565b5f60208284031215610c97575f5ffd5b81356001600160a01b038116811461065c575f5ffd5b5f60208284031215610cbd575f5ffd5b5051919050565b634e487b7160e01b5f52603260045260245ffd5b634e487b7160e01b5f52601160045260245ffd5b818103818111156108cf576108cf610cd8565b808201808211156108cf576108cf610cd8565b5f82610d2c57634e487b7160e01b5f52601260045260245ffd5b500490565b80820281158282048414176108cf576108cf610cd8565b5f60018201610d5957610d59610cd8565b5060010190565b634e487b7160e01b5f52604160045260245ffd5b5f60208284031215610d84575f5ffd5b815167ffffffffffffffff811115610d9a575f5ffd5b8201601f81018413610daa575f5ffd5b805167ffffffffffffffff811115610dc457610dc4610d60565b8060051b604051601f19603f830116810181811067ffffffffffffffff82111715610df157610df1610d60565b604052918252602081840181019290810187841115610e0e575f5ffd5b6020850194505b83851015610e3157845180825260209586019590935001610e15565b50969550505050505056fea164736f6c634300081b000a' as const;
+
+export type RockPaperMatchmakerABI = typeof RockPaperMatchmakerABI;
@@ -0,0 +1,217 @@
+/**
+ * RockPaperPrivateStats Contract ABI
+ * Auto-generated from compiled contract
+ * Do not edit manually
+ */
+
+export const RockPaperPrivateStatsABI = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract RockPaperArena",
+        "name": "arena_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [],
+    "name": "NotArena",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "PrivacyModeOff",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "ZamaProtocolUnsupported",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "enabled",
+        "type": "bool"
+      }
+    ],
+    "name": "PrivacyModeChanged",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "StatsPublished",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "arena",
+    "outputs": [
+      {
+        "internalType": "contract RockPaperArena",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "confidentialProtocolId",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "season",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "player",
+        "type": "address"
+      }
+    ],
+    "name": "getPrivateStats",
+    "outputs": [
+      {
+        "internalType": "euint32",
+        "name": "wins",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "euint32",
+        "name": "losses",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "privacyMode",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "publishStats",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "name": "published",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "player1",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "player2",
+        "type": "address"
+      },
+      {
+        "internalType": "euint8",
+        "name": "result",
+        "type": "bytes32"
+      }
+    ],
+    "name": "recordResult",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "private1",
+        "type": "bool"
+      },
+      {
+        "internalType": "bool",
+        "name": "private2",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bool",
+        "name": "enabled",
+        "type": "bool"
+      }
+    ],
+    "name": "setPrivacyMode",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export const RockPaperPrivateStatsBytecode = '0x60a060405234801561000f575f5ffd5b50604051610f8a380380610f8a83398101604081905261002e91610262565b6100e26100396100f3565b80517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970080546001600160a01b03199081166001600160a01b039384161790915560208301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497018054831691841691909117905560408301517f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497028054909216921691909117905550565b6001600160a01b031660805261028f565b604080516060810182525f80825260208201819052918101919091524660010361014c575060408051606080820183525f8083526020808401829052928401819052835191820184528082529181018290529182015290565b4662aa36a7036101cb575060408051606080820183525f8083526020808401829052928401528251908101835273f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c1279181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b46617a6903610249575060408051606080820183525f808352602080840182905292840152825190810183527350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd249181019190915273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a9181019190915290565b6040516373cac13b60e01b815260040160405180910390fd5b5f60208284031215610272575f5ffd5b81516001600160a01b0381168114610288575f5ffd5b9392505050565b608051610cc76102c35f395f8181610196015281816101f9015281816103550152818161045401526104950152610cc75ff3fe608060405234801561000f575f5ffd5b5060043610610085575f3560e01c806387cb38601161005857806387cb38601461012f5780638927b03014610159578063c90b77631461016f578063fd3705f914610191575f5ffd5b806309fc0abe146100895780632f6d612a146100e05780634e0bf4f1146100f55780637cb9e4a6146100fd575b5f5ffd5b6100c6610097366004610b7e565b5f9182526002602090815260408084206001600160a01b03939093168452919052902080546001909101549091565b604080519283526020830191909152015b60405180910390f35b6100f36100ee366004610ba8565b6101d0565b005b6100f36102f4565b61011f61010b366004610bc7565b5f6020819052908152604090205460ff1681565b60405190151581526020016100d7565b61014261013d366004610be0565b610447565b6040805192151583529015156020830152016100d7565b6101616105d5565b6040519081526020016100d7565b61011f61017d366004610bc7565b60016020525f908152604090205460ff1681565b6101b87f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016100d7565b335f908152602081905260409020805460ff191682158015919091179091556102ba575f60025f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663bcb396216040518163ffffffff1660e01b8152600401602060405180830381865afa158015610253573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906102779190610c19565b815260208082019290925260409081015f908120338252909252902080549091506102b8576102b881336102aa5f6105e3565b6102b35f6105e3565b6105fb565b505b604051811515815233907fe6de9f8728265dbc48c3d7babb7924b0d7ccfc80f36a3e1fa38bd5859defc65e9060200160405180910390a250565b335f9081526020819052604090205460ff1661032357604051631079d18360e01b815260040160405180910390fd5b335f908152600160208181526040808420805460ff1916909317909255815163bcb3962160e01b8152915160029284927f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03169263bcb396219260048082019392918290030181865afa1580156103a3573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906103c79190610c19565b815260208082019290925260409081015f908120338252909252902080549091501561040c5780546103f89061066a565b50610406816001015461066a565b5061041a565b61041a81336102aa5f6105e3565b60405133907fceebd63612c0212b11821b014931924f344bbec17a29c929e9b3befc340458cb905f90a250565b5f80336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461049257604051634e8e6b8f60e11b815260040160405180910390fd5b5f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b031663bcb396216040518163ffffffff1660e01b8152600401602060405180830381865afa1580156104ef573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906105139190610c19565b6001600160a01b038088165f9081526020819052604080822054928916825290205460ff918216955016925090508215610588575f8181526002602090815260408083206001600160a01b038a16845290915290206105889087610578876001610678565b610583886002610678565b6106a0565b81156105cc575f8181526002602081815260408084206001600160a01b038a1685529091529091206105cc9187906105c1908890610678565b610583886001610678565b50935093915050565b5f6105de6106cb565b905090565b5f6105f58263ffffffff1660046106ff565b92915050565b8184556001840181905561060e826107bc565b50610618816107bc565b5061062382846107c7565b5061062e81846107c7565b506001600160a01b0383165f9081526001602052604090205460ff1615610664576106588261066a565b506106628161066a565b505b50505050565b5f610674826107d9565b5090565b5f8261068a576106875f61089c565b92505b6106998360ff841660016108ab565b9392505050565b61066484846106ba875f01546106b5876109a6565b6109b2565b6102b388600101546106b5876109a6565b5f466001036106da5750600190565b4662aa36a7036106eb575061271190565b46617a69036106fa57505f1990565b505f90565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970154604051639cd07acb60e01b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b0390911690639cd07acb906107749087908790600401610c50565b6020604051808303815f875af1158015610790573d5f5f3e3d5ffd5b505050506040513d601f19601f820116820180604052508101906107b49190610c19565b949350505050565b5f61067482306109e0565b5f6107d283836109e0565b5090919050565b6040805160018082528183019092527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700915f91906020808301908036833701905050905082815f8151811061083057610830610c64565b60209081029190910101528154604051637d6e912360e11b81526001600160a01b039091169063fadd22469061086a908490600401610c78565b5f604051808303815f87803b158015610881575f5ffd5b505af1158015610893573d5f5f3e3d5ffd5b50505050505050565b5f6105f58260ff1660026106ff565b5f5f82156108be5750600160f81b6108c1565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163f77f3f1d60e01b815260048101879052602481018690527fff00000000000000000000000000000000000000000000000000000000000000831660448201527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b03169063f77f3f1d906064015b6020604051808303815f875af1158015610978573d5f5f3e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061099c9190610c19565b9695505050505050565b5f6105f5826004610a39565b5f826109c4576109c15f6105e3565b92505b816109d5576109d25f6105e3565b91505b61069983835f610aae565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008054604051635ca4b5b160e11b8152600481018590526001600160a01b0384811660248301529091169063b9496b629060440161086a565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649701546040516307227b9160e21b81525f917f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b0390911690631c89ee44906107749087908790600401610c50565b5f5f8215610ac15750600160f81b610ac4565b505f5b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015460405163022f65e760e31b815260048101879052602481018690527fff00000000000000000000000000000000000000000000000000000000000000831660448201527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700916001600160a01b03169063117b2f389060640161095c565b80356001600160a01b0381168114610b79575f5ffd5b919050565b5f5f60408385031215610b8f575f5ffd5b82359150610b9f60208401610b63565b90509250929050565b5f60208284031215610bb8575f5ffd5b81358015158114610699575f5ffd5b5f60208284031215610bd7575f5ffd5b61069982610b63565b5f5f5f60608486031215610bf2575f5ffd5b610bfb84610b63565b9250610c0960208501610b63565b9150604084013590509250925092565b5f60208284031215610c29575f5ffd5b5051919050565b60548110610c4c57634e487b7160e01b5f52602160045260245ffd5b9052565b828152604081016106996020830184610c30565b634e487b7160e01b5f52603260045260245ffd5b602080825282518282018190525f918401906040840190835b81811015610caf578351835260209384019390920191600101610c91565b50909594505050505056fea164736f6c634300081b000a' as const;
+
+export type RockPaperPrivateStatsABI = typeof RockPaperPrivateStatsABI;
@@ -0,0 +1,133 @@
+/**
+ * Hook for submitting moves without paying gas
+ *
+ * Instead of sending submitMove, the player signs an EIP-712 SubmitMove message
+ * over the encrypted move and hands it to the move relayer, which submits it
+ * through the RockPaperForwarder contract and pays the gas. The move is encrypted
+ * for the player's own move proxy, so nobody else can submit a copy of it.
+ * Everything else is played through useRockPaperArena.
+ */
+
+import { useAccount, usePublicClient, useSignTypedData } from 'wagmi';
+import { RockPaperForwarderABI } from '@/contracts/RockPaperForwarder';
+import { CONTRACT_ADDRESS, FORWARDER_ADDRESS, MOVE_RELAYER_URL } from '@/config/wagmi';
+import { encryptUint8 } from '@/utils/fheInstance';
+import { toast } from 'sonner';
+import type { Gesture } from '@/hooks/useRockPaperArena';
+
+const forwarderAddress = FORWARDER_ADDRESS as `0x${string}`;
+
+// How long a signed move may wait for the relayer
+const SIGNATURE_VALIDITY_SECONDS = 10 * 60;
+
+/**
+ * Whether gasless moves are configured
+ */
+export const isGaslessAvailable = !!FORWARDER_ADDRESS && !!MOVE_RELAYER_URL;
+
+/**
+ * Hook to submit moves through the move relayer
+ */
+export function useGaslessArena() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { signTypedDataAsync, isPending } = useSignTypedData();
+
+  /**
+   * Encrypt, sign and relay a move, then wait for the relayed transaction
+   * Same shape as useRockPaperArena's submitMove
+   */
+  const submitMove = async (matchId: number, gesture: Gesture) => {
+    if (!address || !publicClient) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Encrypting your move...');
+
+      // The player's move proxy is the caller importing the move into the arena, so the proof is made out to it
+      const proxyAddress = await publicClient.readContract({
+        address: forwarderAddress,
+        abi: RockPaperForwarderABI,
+        functionName: 'proxyOf',
+        args: [address],
+      });
+      const { handle, inputProof } = await encryptUint8(
+        gesture,
+        CONTRACT_ADDRESS,
+        proxyAddress
+      );
+
+      const nonce = await publicClient.readContract({
+        address: forwarderAddress,
+        abi: RockPaperForwarderABI,
+        functionName: 'nonces',
+        args: [address],
+      });
+      const deadline = BigInt(Math.floor(Date.now() / 1000) + SIGNATURE_VALIDITY_SECONDS);
+
+      toast.info('Sign your move...');
+
+      const signature = await signTypedDataAsync({
+        domain: {
+          name: 'RockPaperForwarder',
+          version: '1',
+          chainId: await publicClient.getChainId(),
+          verifyingContract: forwarderAddress,
+        },
+        types: {
+          SubmitMove: [
+            { name: 'matchId', type: 'uint256' },
+            { name: 'handle', type: 'bytes32' },
+            { name: 'inputProof', type: 'bytes' },
+            { name: 'nonce', type: 'uint256' },
+            { name: 'deadline', type: 'uint256' },
+          ],
+        },
+        primaryType: 'SubmitMove',
+        message: {
+          matchId: BigInt(matchId),
+          handle: handle as `0x${string}`,
+          inputProof: inputProof as `0x${string}`,
+          nonce,
+          deadline,
+        },
+      });
+
+      toast.info('Relaying encrypted move...');
+
+      const response = await fetch(`${MOVE_RELAYER_URL}/submit-move`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          player: address,
+          matchId: matchId.toString(),
+          handle,
+          inputProof,
+          deadline: deadline.toString(),
+          signature,
+        }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error ?? `Relayer responded with ${response.status}`);
+      }
+
+      const hash = body.hash as `0x${string}`;
+      await publicClient.waitForTransactionReceipt({ hash });
+
+      toast.success('Move submitted without gas!');
+      return hash;
+    } catch (error) {
+      console.error('Gasless submit move error:', error);
+      toast.error('Failed to relay move');
+      throw error;
+    }
+  };
+
+  return {
+    submitMove,
+    isPending,
+  };
+}
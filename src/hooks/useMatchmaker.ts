@@ -0,0 +1,228 @@
+/**
+ * Hook for interacting with the RockPaperMatchmaker contract
+ *
+ * Provides quick match: joining the queue pairs the player with the oldest
+ * waiting player within their rating window, or leaves them waiting until
+ * somebody in range joins or the window has widened enough to retry.
+ * Paired matches are played through useRockPaperArena.
+ */
+
+import { useAccount, usePublicClient, useReadContract, useWatchContractEvent, useWriteContract } from 'wagmi';
+import { maxUint256, parseEventLogs } from 'viem';
+import { RockPaperMatchmakerABI } from '@/contracts/RockPaperMatchmaker';
+import { RockPaperArenaABI } from '@/contracts/RockPaperArena';
+import { CONTRACT_ADDRESS, MATCHMAKER_ADDRESS } from '@/config/wagmi';
+import { toast } from 'sonner';
+
+const matchmakerAddress = MATCHMAKER_ADDRESS as `0x${string}`;
+
+/**
+ * Hook to interact with RockPaperMatchmaker contract
+ */
+export function useMatchmaker() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { writeContractAsync, isPending } = useWriteContract();
+
+  /**
+   * Send a queue transaction and read the pairing from its receipt
+   * @returns The arena match ID if a waiting player was paired, 0 otherwise
+   */
+  const sendAndWaitForPairing = async (functionName: 'joinQueue' | 'retryQueue') => {
+    const hash = await writeContractAsync({
+      address: matchmakerAddress,
+      abi: RockPaperMatchmakerABI,
+      functionName,
+    });
+
+    const receipt = await publicClient!.waitForTransactionReceipt({ hash });
+    const [matched] = parseEventLogs({
+      abi: RockPaperMatchmakerABI,
+      eventName: 'QueueMatched',
+      logs: receipt.logs,
+    });
+
+    return matched ? Number(matched.args.matchId) : 0;
+  };
+
+  /**
+   * Join the queue and wait for the transaction
+   * @returns The arena match ID if a waiting player was paired right away, 0 if now queued
+   */
+  const joinQueue = async () => {
+    if (!address || !publicClient) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Looking for an opponent...');
+
+      const matchId = await sendAndWaitForPairing('joinQueue');
+      if (matchId) {
+        toast.success('Opponent found!');
+        return matchId;
+      }
+
+      toast.success('Joined the queue');
+      return 0;
+    } catch (error) {
+      console.error('Join queue error:', error);
+      toast.error('Failed to join the queue');
+      throw error;
+    }
+  };
+
+  /**
+   * Look for an opponent again with the widened rating window
+   * The contract never pairs waiting players on its own, so the lobby calls this
+   * once useQueueStatus reports a zero expected wait
+   * @param quiet Skip the still-waiting and failure toasts, for automatic retries that may
+   *              lose the race to the opponent's own retry
+   * @returns The arena match ID if a waiting player was paired, 0 if still waiting
+   */
+  const retryQueue = async (quiet: boolean = false) => {
+    if (!address || !publicClient) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      const matchId = await sendAndWaitForPairing('retryQueue');
+      if (matchId) {
+        toast.success('Opponent found!');
+        return matchId;
+      }
+
+      if (!quiet) toast.info('Nobody in range yet, still waiting');
+      return 0;
+    } catch (error) {
+      console.error('Retry queue error:', error);
+      if (!quiet) toast.error('Failed to look for an opponent');
+      throw error;
+    }
+  };
+
+  /**
+   * Stop waiting in the queue
+   */
+  const leaveQueue = async () => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      const hash = await writeContractAsync({
+        address: matchmakerAddress,
+        abi: RockPaperMatchmakerABI,
+        functionName: 'leaveQueue',
+      });
+
+      toast.success('Left the queue');
+      return hash;
+    } catch (error) {
+      console.error('Leave queue error:', error);
+      toast.error('Failed to leave the queue');
+      throw error;
+    }
+  };
+
+  return {
+    joinQueue,
+    retryQueue,
+    leaveQueue,
+    isPending,
+  };
+}
+
+/**
+ * Hook to get the player's place in the queue (0 if not queued; an upper bound far back in a long queue)
+ */
+export function useQueuePosition(playerAddress?: string) {
+  const { address } = useAccount();
+  const targetAddress = playerAddress || address;
+
+  const { data: position, isLoading, error, refetch } = useReadContract({
+    address: matchmakerAddress,
+    abi: RockPaperMatchmakerABI,
+    functionName: 'getQueuePosition',
+    args: [targetAddress as `0x${string}`],
+    query: {
+      enabled: !!MATCHMAKER_ADDRESS && !!targetAddress,
+    },
+  });
+
+  const queuePosition = position !== undefined ? Number(position) : 0;
+
+  return {
+    queuePosition,
+    isQueued: queuePosition > 0,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the player's rating window and expected wait, polled while enabled
+ * (the wait is estimated as if joining now for players who are not queued)
+ */
+export function useQueueStatus(enablePolling: boolean = false, playerAddress?: string) {
+  const { address } = useAccount();
+  const targetAddress = playerAddress || address;
+
+  const { data: status, isLoading, error, refetch } = useReadContract({
+    address: matchmakerAddress,
+    abi: RockPaperMatchmakerABI,
+    functionName: 'getQueueStatus',
+    args: [targetAddress as `0x${string}`],
+    query: {
+      enabled: !!MATCHMAKER_ADDRESS && !!targetAddress,
+      refetchInterval: enablePolling ? 10000 : false,
+    },
+  });
+
+  const [window, expectedWait] = (status as readonly [bigint, bigint] | undefined) ?? [];
+
+  return {
+    ratingWindow: window !== undefined ? Number(window) : null,
+    // null while nobody else is waiting
+    expectedWait: expectedWait !== undefined && expectedWait !== maxUint256 ? Number(expectedWait) : null,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Watch the arena's MatchJoined events while queued and report the match
+ * another player's joinQueue or retryQueue opened with this wallet as player1
+ */
+export function useQueueMatchWatcher(enabled: boolean, onMatched: (matchId: number) => void) {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+
+  useWatchContractEvent({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    eventName: 'MatchJoined',
+    enabled: enabled && !!address && !!publicClient,
+    onLogs: async (logs) => {
+      for (const log of logs) {
+        const matchId = log.args.matchId as bigint;
+        const match = (await publicClient!.readContract({
+          address: CONTRACT_ADDRESS as `0x${string}`,
+          abi: RockPaperArenaABI,
+          functionName: 'getMatch',
+          args: [matchId],
+        })) as { player1: string };
+
+        if (match.player1.toLowerCase() === address!.toLowerCase()) {
+          onMatched(Number(matchId));
+          return;
+        }
+      }
+    },
+  });
+}
@@ -0,0 +1,238 @@
+/**
+ * Hook for interacting with the RockPaperPrivateStats contract
+ *
+ * Provides privacy mode: while it is on, the arena leaves the player's wins
+ * and losses out of the public stats and the private stats contract counts
+ * them as encrypted values only the player can decrypt (through the relayer).
+ * Publishing makes the counters publicly decryptable for the leaderboard.
+ * This only hides the totals: match results and ratings stay public, so the
+ * UI presents it as a hidden record, not as privacy.
+ */
+
+import { useAccount, usePublicClient, useReadContract, useSignTypedData, useWriteContract } from 'wagmi';
+import { useQuery } from '@tanstack/react-query';
+import { RockPaperPrivateStatsABI } from '@/contracts/RockPaperPrivateStats';
+import { RockPaperArenaABI } from '@/contracts/RockPaperArena';
+import { CONTRACT_ADDRESS, PRIVATE_STATS_ADDRESS } from '@/config/wagmi';
+import { initializeFHE, isFHEInitialized, publicDecrypt, userDecrypt } from '@/utils/fheInstance';
+import { toast } from 'sonner';
+
+const privateStatsAddress = PRIVATE_STATS_ADDRESS as `0x${string}`;
+
+// Handle of counters that were never stored
+const UNSET_HANDLE = `0x${'0'.repeat(64)}`;
+
+export type PrivateRecord = {
+  wins: bigint;
+  losses: bigint;
+};
+
+/**
+ * Hook to interact with RockPaperPrivateStats contract
+ */
+export function usePrivateStats() {
+  const { address } = useAccount();
+  const publicClient = usePublicClient();
+  const { writeContractAsync, isPending } = useWriteContract();
+  const { signTypedDataAsync } = useSignTypedData();
+
+  const { data: privacyMode, refetch: refetchPrivacyMode } = useReadContract({
+    address: privateStatsAddress,
+    abi: RockPaperPrivateStatsABI,
+    functionName: 'privacyMode',
+    args: [address as `0x${string}`],
+    query: {
+      enabled: !!PRIVATE_STATS_ADDRESS && !!address,
+    },
+  });
+
+  const { data: published, refetch: refetchPublished } = useReadContract({
+    address: privateStatsAddress,
+    abi: RockPaperPrivateStatsABI,
+    functionName: 'published',
+    args: [address as `0x${string}`],
+    query: {
+      enabled: !!PRIVATE_STATS_ADDRESS && !!address,
+    },
+  });
+
+  const refetch = () => {
+    refetchPrivacyMode();
+    refetchPublished();
+  };
+
+  /**
+   * Turn privacy mode on or off and wait for the transaction
+   */
+  const setPrivacyMode = async (enabled: boolean) => {
+    if (!address || !publicClient) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      const hash = await writeContractAsync({
+        address: privateStatsAddress,
+        abi: RockPaperPrivateStatsABI,
+        functionName: 'setPrivacyMode',
+        args: [enabled],
+      });
+
+      await publicClient.waitForTransactionReceipt({ hash });
+      toast.success(enabled ? 'Record hidden from your profile and the leaderboard' : 'Record shown again');
+      refetch();
+      return hash;
+    } catch (error) {
+      console.error('Set privacy mode error:', error);
+      toast.error('Failed to change record visibility');
+      throw error;
+    }
+  };
+
+  /**
+   * Make the encrypted counters publicly decryptable (cannot be undone)
+   */
+  const publishStats = async () => {
+    if (!address || !publicClient) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      const hash = await writeContractAsync({
+        address: privateStatsAddress,
+        abi: RockPaperPrivateStatsABI,
+        functionName: 'publishStats',
+      });
+
+      await publicClient.waitForTransactionReceipt({ hash });
+      toast.success('Stats published to the leaderboard');
+      refetch();
+      return hash;
+    } catch (error) {
+      console.error('Publish stats error:', error);
+      toast.error('Failed to publish stats');
+      throw error;
+    }
+  };
+
+  /**
+   * Decrypt the player's encrypted record of the current season
+   * Asks for an EIP-712 signature the first time; later calls reuse the cached authorization
+   */
+  const decryptRecord = async (): Promise<PrivateRecord> => {
+    if (!address || !publicClient) {
+      throw new Error('Wallet not connected');
+    }
+
+    const season = (await publicClient.readContract({
+      address: CONTRACT_ADDRESS as `0x${string}`,
+      abi: RockPaperArenaABI,
+      functionName: 'currentSeason',
+    })) as bigint;
+
+    const [wins, losses] = (await publicClient.readContract({
+      address: privateStatsAddress,
+      abi: RockPaperPrivateStatsABI,
+      functionName: 'getPrivateStats',
+      args: [season, address],
+    })) as readonly [`0x${string}`, `0x${string}`];
+
+    if (wins === UNSET_HANDLE) {
+      return { wins: 0n, losses: 0n };
+    }
+
+    if (!isFHEInitialized()) {
+      await initializeFHE();
+    }
+
+    const results = await userDecrypt(
+      [wins, losses],
+      PRIVATE_STATS_ADDRESS,
+      address,
+      (typedData) => signTypedDataAsync(typedData as Parameters<typeof signTypedDataAsync>[0])
+    );
+
+    return { wins: BigInt(results[wins]), losses: BigInt(results[losses]) };
+  };
+
+  return {
+    privacyMode: privacyMode === true,
+    published: published === true,
+    setPrivacyMode,
+    publishStats,
+    decryptRecord,
+    isPending,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the privately counted records of leaderboard players in a season
+ * Published records are publicly decrypted; unpublished ones are reported as null
+ * (players who never used privacy mode that season are left out)
+ */
+export function useSeasonPrivateRecords(season: number, players: `0x${string}`[]) {
+  const publicClient = usePublicClient();
+
+  const { data: records, isLoading } = useQuery({
+    queryKey: ['seasonPrivateRecords', season, players],
+    queryFn: async () => {
+      const entries = await Promise.all(
+        players.map(async (player) => {
+          const [wins, losses] = (await publicClient!.readContract({
+            address: privateStatsAddress,
+            abi: RockPaperPrivateStatsABI,
+            functionName: 'getPrivateStats',
+            args: [BigInt(season), player],
+          })) as readonly [`0x${string}`, `0x${string}`];
+
+          if (wins === UNSET_HANDLE) {
+            return null;
+          }
+
+          const isPublished = (await publicClient!.readContract({
+            address: privateStatsAddress,
+            abi: RockPaperPrivateStatsABI,
+            functionName: 'published',
+            args: [player],
+          })) as boolean;
+
+          return { player, wins, losses, isPublished };
+        })
+      );
+
+      const used = entries.filter((entry): entry is NonNullable<typeof entry> => entry !== null);
+      if (used.some((entry) => entry.isPublished) && !isFHEInitialized()) {
+        await initializeFHE();
+      }
+
+      // Counters of a season that ended before the player published stay private
+      const decrypted = await Promise.all(
+        used.map(async (entry): Promise<PrivateRecord | null> => {
+          if (!entry.isPublished) {
+            return null;
+          }
+          try {
+            const { clearValues } = await publicDecrypt([entry.wins, entry.losses]);
+            return { wins: BigInt(clearValues[entry.wins]), losses: BigInt(clearValues[entry.losses]) };
+          } catch {
+            return null;
+          }
+        })
+      );
+
+      const byPlayer: Record<string, PrivateRecord | null> = {};
+      used.forEach((entry, i) => {
+        byPlayer[entry.player.toLowerCase()] = decrypted[i];
+      });
+      return byPlayer;
+    },
+    enabled: !!PRIVATE_STATS_ADDRESS && !!publicClient && season > 0 && players.length > 0,
+  });
+
+  return {
+    records: records ?? {},
+    isLoading,
+  };
+}
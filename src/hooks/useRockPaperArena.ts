@@ -2,25 +2,34 @@
  * Hook for interacting with RockPaperArena smart contract
  *
  * Provides methods for creating matches, joining matches,
- * submitting encrypted moves, and revealing results
+ * submitting encrypted moves, revealing results,
+ * finalizing them with the KMS decryption proof (round by round for best-of-N series),
+ * user-decrypting the player's own committed move and
+ * withdrawing escrowed ETH, ERC-20 or confidential ERC-7984 winnings
  */
 
-import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt } from 'wagmi';
+import { useAccount, useReadContract, useWriteContract, useWaitForTransactionReceipt, usePublicClient, useSignTypedData } from 'wagmi';
+import { getAbiItem, parseEventLogs, parseSignature, zeroAddress } from 'viem';
+import { useQuery } from '@tanstack/react-query';
 import { RockPaperArenaABI } from '@/contracts/RockPaperArena';
+import { ERC20PermitABI } from '@/contracts/ERC20Permit';
+import { ERC7984ABI } from '@/contracts/ERC7984';
 import { CONTRACT_ADDRESS } from '@/config/wagmi';
-import { encryptUint8 } from '@/utils/fheInstance';
+import { encryptUint8, encryptUint64, initializeFHE, isFHEInitialized, publicDecrypt, userDecrypt } from '@/utils/fheInstance';
+import { signInviteCode } from '@/utils/inviteCodes';
 import { toast } from 'sonner';
 
-export type Gesture = 0 | 1 | 2; // Rock=0, Paper=1, Scissors=2
+export type Gesture = 0 | 1 | 2 | 3 | 4; // Rock=0, Paper=1, Scissors=2, Lizard=3, Spock=4 (RPSLS only)
+export type RuleSet = 0 | 1; // 0=Classic, 1=Rock Paper Scissors Lizard Spock
 
-export class AlreadyInMatchError extends Error {
-  matchId: bigint;
-  constructor(matchId: bigint) {
-    super(`Already in match ${matchId}`);
-    this.name = 'AlreadyInMatchError';
-    this.matchId = matchId;
-  }
-}
+// How long the arena stays an operator of a confidential token balance
+const OPERATOR_DURATION_SECONDS = 24 * 60 * 60;
+
+// Season players whose stats are read per multicall request when ranking the leaderboard
+const SEASON_STATS_PAGE_SIZE = 100;
+
+// getSeasonStats alone: typing a multicall against the full arena ABI is too deep for the compiler
+const seasonStatsAbi = [getAbiItem({ abi: RockPaperArenaABI, name: 'getSeasonStats' })];
 
 export type MatchState = {
   matchId: bigint;
@@ -29,182 +38,1006 @@ export type MatchState = {
   player1Committed: boolean;
   player2Committed: boolean;
   createdAt: bigint;
-  state: number; // 0=None, 1=Waiting, 2=BothCommitted, 3=Revealed, 4=Cancelled
+  commitDeadline: bigint; // Unix timestamp; 0 until player2 joins
+  state: number; // 0=None, 1=Waiting, 2=BothCommitted, 3=Revealed, 4=Cancelled, 5=Decrypting
   winner: string;
+  move1: `0x${string}`; // Encrypted move handle of player1 (decryptable by player1)
+  move2: `0x${string}`; // Encrypted move handle of player2 (decryptable by player2)
+  result: `0x${string}`; // Encrypted result handle (publicly decryptable once Decrypting)
+  stake: bigint; // Wager escrowed by each player (wei or token units)
+  stakeToken: `0x${string}`; // ERC-20 wager token, zero address for ETH
+  confidentialToken: `0x${string}`; // ERC-7984 token for encrypted stakes, zero address if none
+  encryptedStake1: `0x${string}`; // Encrypted stake handle of player1
+  encryptedStake2: `0x${string}`; // Encrypted stake handle of player2
+  bestOf: number; // Series length (1 for a single round)
+  roundsPlayed: number; // Rounds decrypted so far
+  score1: number; // Rounds won by player1
+  score2: number; // Rounds won by player2
+  invitedOpponent: `0x${string}`; // Only player allowed to join, zero address for open matches
+  inviteCodeSigner: `0x${string}`; // Address of the secret invite code, zero address if none
+  abortRequestedBy: `0x${string}`; // Player waiting for the opponent to confirm an abort, zero address if none
+  manager: `0x${string}`; // Contract that opened the match (the tournament), zero address for player-created matches
+  ruleSet: number; // 0=Classic, 1=Rock Paper Scissors Lizard Spock
+};
+
+export type MatchRound = {
+  move1: `0x${string}`; // Encrypted move handle of player1
+  move2: `0x${string}`; // Encrypted move handle of player2
+  result: `0x${string}`; // Encrypted round result handle
+  outcome: number; // 0=Draw, 1=Player1, 2=Player2
+};
+
+export type PlayerStats = {
+  wins: bigint;
+  losses: bigint;
+  draws: bigint;
+  totalMatches: bigint;
+  currentStreak: bigint;
+  bestStreak: bigint;
+  abandoned: bigint; // Matches left or forfeited by not committing
+  rating: bigint; // Elo rating (1200 before the first completed match)
+};
+
+export type RatingChange = {
+  delta1: bigint; // Rating change of player1
+  delta2: bigint; // Rating change of player2
 };
 
 /**
  * Hook to interact with RockPaperArena contract
  */
 export function useRockPaperArena() {
-  const { address } = useAccount();
+  const { address, chainId } = useAccount();
+  const publicClient = usePublicClient();
   const { writeContractAsync, data: hash, isPending } = useWriteContract();
+  const { signTypedDataAsync } = useSignTypedData();
+  const { autoSettle } = useAutoSettle();
   const { isLoading: isConfirming, isSuccess } = useWaitForTransactionReceipt({
     hash,
   });
 
   /**
-   * Create a new match challenge
-   * Returns transaction hash that can be used with useWaitForTransactionReceipt
+   * Create a new match challenge
+   * The optional stake (wei) is escrowed and must be matched by the joiner
+   * A bestOf of 3, 5 or 7 creates a series that settles once a player wins the majority of rounds
+   * A non-classic rule set creates a variant match with the extra gestures of that rule set
+   * Returns transaction hash that can be used with useWaitForTransactionReceipt
+   */
+  const createChallenge = async (stake: bigint = 0n, bestOf: number = 1, ruleSet: RuleSet = 0) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Creating match...');
+
+      let hash: `0x${string}`;
+      if (ruleSet !== 0) {
+        hash = await writeContractAsync({
+          address: CONTRACT_ADDRESS as `0x${string}`,
+          abi: RockPaperArenaABI,
+          functionName: 'createVariantChallenge',
+          args: [ruleSet, bestOf],
+          value: stake,
+          gas: 500000n,
+        });
+      } else if (bestOf > 1) {
+        hash = await writeContractAsync({
+          address: CONTRACT_ADDRESS as `0x${string}`,
+          abi: RockPaperArenaABI,
+          functionName: 'createSeriesChallenge',
+          args: [bestOf],
+          value: stake,
+          gas: 500000n,
+        });
+      } else {
+        hash = await writeContractAsync({
+          address: CONTRACT_ADDRESS as `0x${string}`,
+          abi: RockPaperArenaABI,
+          functionName: 'createChallenge',
+          args: [],
+          value: stake,
+          gas: 500000n, // Explicitly set gas limit to 500k
+        });
+      }
+
+      return hash;
+    } catch (error) {
+      console.error('Create challenge error:', error);
+      toast.error('Failed to create match');
+      throw error;
+    }
+  };
+
+  /**
+   * Create a private match that only `opponent` can join
+   * The optional stake (wei) is escrowed and must be matched by the opponent
+   */
+  const createChallengeFor = async (opponent: `0x${string}`, stake: bigint = 0n) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Sending invite...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'createChallengeFor',
+        args: [opponent],
+        value: stake,
+        gas: 500000n,
+      });
+
+      return hash;
+    } catch (error) {
+      console.error('Create invite error:', error);
+      toast.error('Failed to create invite');
+      throw error;
+    }
+  };
+
+  /**
+   * Create a private match joinable by whoever holds the secret invite code
+   * Only the code's address is sent on-chain; share the code itself through the match link
+   */
+  const createChallengeWithCode = async (codeSigner: `0x${string}`, stake: bigint = 0n) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Creating invite link match...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'createChallengeWithCode',
+        args: [codeSigner],
+        value: stake,
+        gas: 500000n,
+      });
+
+      return hash;
+    } catch (error) {
+      console.error('Create code challenge error:', error);
+      toast.error('Failed to create match');
+      throw error;
+    }
+  };
+
+  /**
+   * Create a new match with the creator's move committed in the same transaction
+   * Picking a gesture in the lobby is enough; the optional stake (wei) is escrowed as usual
+   */
+  const createChallengeWithMove = async (gesture: Gesture, stake: bigint = 0n) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      if (!isFHEInitialized()) {
+        await initializeFHE();
+      }
+
+      toast.info('Encrypting your move...');
+
+      const { handle, inputProof } = await encryptUint8(gesture, CONTRACT_ADDRESS, address);
+
+      toast.info('Creating match...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'createChallengeWithMove',
+        args: [handle as `0x${string}`, inputProof as `0x${string}`],
+        value: stake,
+      });
+
+      toast.success('Match created with your move committed!');
+      return hash;
+    } catch (error) {
+      console.error('Create challenge with move error:', error);
+      toast.error('Failed to create match');
+      throw error;
+    }
+  };
+
+  /**
+   * Make sure the arena may pull `amount` of an ERC-20 wager token
+   * Sends an approve transaction and waits for it when the allowance is too low
+   */
+  const ensureAllowance = async (token: `0x${string}`, amount: bigint) => {
+    if (!address || !publicClient) {
+      throw new Error('Wallet not ready');
+    }
+
+    const allowance = await publicClient.readContract({
+      address: token,
+      abi: ERC20PermitABI,
+      functionName: 'allowance',
+      args: [address, CONTRACT_ADDRESS as `0x${string}`],
+    });
+
+    if (allowance >= amount) {
+      return;
+    }
+
+    toast.info('Approving token stake...');
+
+    const approveHash = await writeContractAsync({
+      address: token,
+      abi: ERC20PermitABI,
+      functionName: 'approve',
+      args: [CONTRACT_ADDRESS as `0x${string}`, amount],
+    });
+
+    await publicClient.waitForTransactionReceipt({ hash: approveHash });
+  };
+
+  /**
+   * Sign an EIP-2612 permit letting the arena pull `amount` of an ERC-20 wager token
+   */
+  const signPermit = async (token: `0x${string}`, amount: bigint, deadline: bigint) => {
+    if (!address || !publicClient) {
+      throw new Error('Wallet not ready');
+    }
+
+    const nonce = await publicClient.readContract({
+      address: token,
+      abi: ERC20PermitABI,
+      functionName: 'nonces',
+      args: [address],
+    });
+
+    // Prefer the EIP-5267 domain; older permit tokens only expose name() with version "1"
+    let name: string;
+    let version = '1';
+    try {
+      const domain = await publicClient.readContract({
+        address: token,
+        abi: ERC20PermitABI,
+        functionName: 'eip712Domain',
+      });
+      name = domain[1];
+      version = domain[2];
+    } catch {
+      name = await publicClient.readContract({
+        address: token,
+        abi: ERC20PermitABI,
+        functionName: 'name',
+      });
+    }
+
+    const signature = await signTypedDataAsync({
+      domain: {
+        name,
+        version,
+        chainId: await publicClient.getChainId(),
+        verifyingContract: token,
+      },
+      types: {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      primaryType: 'Permit',
+      message: {
+        owner: address,
+        spender: CONTRACT_ADDRESS as `0x${string}`,
+        value: amount,
+        nonce,
+        deadline,
+      },
+    });
+
+    const { r, s, v, yParity } = parseSignature(signature);
+    return { r, s, v: Number(v ?? BigInt(yParity + 27)) };
+  };
+
+  /**
+   * Make sure the arena is an operator of the user's ERC-7984 balance
+   * Sends a setOperator transaction and waits for it when needed
+   */
+  const ensureOperator = async (token: `0x${string}`) => {
+    if (!address || !publicClient) {
+      throw new Error('Wallet not ready');
+    }
+
+    const isOperator = await publicClient.readContract({
+      address: token,
+      abi: ERC7984ABI,
+      functionName: 'isOperator',
+      args: [address, CONTRACT_ADDRESS as `0x${string}`],
+    });
+
+    if (isOperator) {
+      return;
+    }
+
+    toast.info('Authorizing confidential stake...');
+
+    const until = Math.floor(Date.now() / 1000) + OPERATOR_DURATION_SECONDS;
+    const operatorHash = await writeContractAsync({
+      address: token,
+      abi: ERC7984ABI,
+      functionName: 'setOperator',
+      args: [CONTRACT_ADDRESS as `0x${string}`, until],
+    });
+
+    await publicClient.waitForTransactionReceipt({ hash: operatorHash });
+  };
+
+  /**
+   * Create a new match wagering an ERC-20 token
+   * Approves the arena for the stake first if needed
+   */
+  const createTokenChallenge = async (token: `0x${string}`, stake: bigint) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Creating match...');
+
+      await ensureAllowance(token, stake);
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'createTokenChallenge',
+        args: [token, stake],
+        gas: 500000n,
+      });
+
+      return hash;
+    } catch (error) {
+      console.error('Create token challenge error:', error);
+      toast.error('Failed to create match');
+      throw error;
+    }
+  };
+
+  /**
+   * Create a new match wagering an encrypted amount of an ERC-7984 token
+   * The stake is encrypted client-side; only the two players can decrypt it
+   */
+  const createConfidentialChallenge = async (token: `0x${string}`, stake: bigint) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Encrypting your stake...');
+
+      const { handle, inputProof } = await encryptUint64(stake, CONTRACT_ADDRESS, address);
+
+      await ensureOperator(token);
+
+      toast.info('Creating match...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'createConfidentialChallenge',
+        args: [token, handle as `0x${string}`, inputProof as `0x${string}`],
+        gas: 1500000n,
+      });
+
+      return hash;
+    } catch (error) {
+      console.error('Create confidential challenge error:', error);
+      toast.error('Failed to create match');
+      throw error;
+    }
+  };
+
+  /**
+   * Join a confidential match
+   * Player1's encrypted stake is matched only if it does not exceed maxStake;
+   * otherwise the match is played for nothing and both stakes are returned.
+   * The joined match cannot be left, as the joiner's stake reveals player1's
+   */
+  const acceptConfidentialChallenge = async (matchId: number, token: `0x${string}`, maxStake: bigint) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Encrypting your stake cap...');
+
+      const { handle, inputProof } = await encryptUint64(maxStake, CONTRACT_ADDRESS, address);
+
+      await ensureOperator(token);
+
+      toast.info('Joining match...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'acceptConfidentialChallenge',
+        args: [BigInt(matchId), handle as `0x${string}`, inputProof as `0x${string}`],
+      });
+
+      toast.success('Match joined successfully!');
+      return hash;
+    } catch (error) {
+      console.error('Accept confidential challenge error:', error);
+      toast.error('Failed to join match');
+      throw error;
+    }
+  };
+
+  /**
+   * Accept an existing match challenge
+   * The stake must equal the one escrowed by the match creator. ERC-20 stakes
+   * are approved with a permit signature so joining takes one transaction,
+   * falling back to approve + join for tokens without permit support.
+   */
+  const acceptChallenge = async (matchId: number, stake: bigint = 0n, stakeToken: `0x${string}` = zeroAddress) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Joining match...');
+
+      let hash: `0x${string}`;
+
+      if (stakeToken === zeroAddress) {
+        hash = await writeContractAsync({
+          address: CONTRACT_ADDRESS as `0x${string}`,
+          abi: RockPaperArenaABI,
+          functionName: 'acceptChallenge',
+          args: [BigInt(matchId)],
+          value: stake,
+        });
+      } else {
+        let permit: { r: `0x${string}`; s: `0x${string}`; v: number } | null = null;
+        const deadline = BigInt(Math.floor(Date.now() / 1000) + 3600);
+
+        try {
+          toast.info('Sign the token permit...');
+          permit = await signPermit(stakeToken, stake, deadline);
+        } catch (error) {
+          console.warn('[Arena] Permit unavailable, falling back to approve:', error);
+        }
+
+        if (permit) {
+          hash = await writeContractAsync({
+            address: CONTRACT_ADDRESS as `0x${string}`,
+            abi: RockPaperArenaABI,
+            functionName: 'acceptChallengeWithPermit',
+            args: [BigInt(matchId), deadline, permit.v, permit.r, permit.s],
+          });
+        } else {
+          await ensureAllowance(stakeToken, stake);
+          hash = await writeContractAsync({
+            address: CONTRACT_ADDRESS as `0x${string}`,
+            abi: RockPaperArenaABI,
+            functionName: 'acceptChallenge',
+            args: [BigInt(matchId)],
+          });
+        }
+      }
+
+      toast.success('Match joined successfully!');
+      return hash;
+    } catch (error) {
+      console.error('Accept challenge error:', error);
+      toast.error('Failed to join match');
+      throw error;
+    }
+  };
+
+  /**
+   * Accept a code-protected match from an invite link
+   * The code signs the join for this wallet locally, so no extra wallet prompt is needed
+   */
+  const acceptChallengeWithCode = async (matchId: number, code: `0x${string}`, stake: bigint = 0n) => {
+    if (!address || !chainId) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Joining match...');
+
+      const signature = await signInviteCode(code, matchId, address, chainId);
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'acceptChallengeWithCode',
+        args: [BigInt(matchId), signature],
+        value: stake,
+      });
+
+      toast.success('Match joined successfully!');
+      return hash;
+    } catch (error) {
+      console.error('Accept code challenge error:', error);
+      toast.error('Failed to join match');
+      throw error;
+    }
+  };
+
+  /**
+   * Accept an existing match and commit the joiner's move in the same transaction
+   * ERC-20 stakes are approved first when the allowance is too low.
+   * If the creator already committed, the round is ready to reveal (or settles right away with auto-settle)
+   */
+  const acceptChallengeWithMove = async (
+    matchId: number,
+    gesture: Gesture,
+    stake: bigint = 0n,
+    stakeToken: `0x${string}` = zeroAddress
+  ) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      if (!isFHEInitialized()) {
+        await initializeFHE();
+      }
+
+      if (stakeToken !== zeroAddress) {
+        await ensureAllowance(stakeToken, stake);
+      }
+
+      toast.info('Encrypting your move...');
+
+      const { handle, inputProof } = await encryptUint8(gesture, CONTRACT_ADDRESS, address);
+
+      toast.info('Joining match...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'acceptChallengeWithMove',
+        args: [BigInt(matchId), handle as `0x${string}`, inputProof as `0x${string}`],
+        value: stakeToken === zeroAddress ? stake : 0n,
+      });
+
+      toast.success('Match joined with your move committed!');
+      return hash;
+    } catch (error) {
+      console.error('Accept challenge with move error:', error);
+      toast.error('Failed to join match');
+      throw error;
+    }
+  };
+
+  /**
+   * Submit encrypted move for a match
+   * With auto-settle on, the second move also settles the round and requests decryption,
+   * so the next step is finalizeReveal rather than requestReveal
+   */
+  const submitMove = async (matchId: number, gesture: Gesture) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Encrypting your move...');
+
+      // Encrypt the gesture using FHE
+      const { handle, inputProof } = await encryptUint8(
+        gesture,
+        CONTRACT_ADDRESS,
+        address
+      );
+
+      toast.info('Submitting encrypted move...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'submitMove',
+        args: [BigInt(matchId), handle as any, inputProof as `0x${string}`],
+      });
+
+      toast.success(autoSettle
+        ? 'Move submitted! The result is requested as soon as both moves are in'
+        : 'Move submitted successfully!');
+      return hash;
+    } catch (error) {
+      console.error('Submit move error:', error);
+      toast.error('Failed to submit move');
+      throw error;
+    }
+  };
+
+  /**
+   * Request reveal for a match
+   */
+  const requestReveal = async (matchId: number) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Requesting match reveal...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'requestReveal',
+        args: [BigInt(matchId)],
+      });
+
+      toast.success('Match reveal requested!');
+      return hash;
+    } catch (error) {
+      console.error('Request reveal error:', error);
+      toast.error('Failed to request reveal');
+      throw error;
+    }
+  };
+
+  /**
+   * Finalize a match awaiting decryption
+   * Fetches the KMS-signed cleartext from the relayer and submits the proof
+   */
+  const finalizeReveal = async (matchId: number, resultHandle: string) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Decrypting match result...');
+
+      const { abiEncodedClearValues, decryptionProof } = await publicDecrypt([resultHandle]);
+
+      toast.info('Submitting decryption proof...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'finalizeReveal',
+        args: [BigInt(matchId), abiEncodedClearValues as `0x${string}`, decryptionProof as `0x${string}`],
+      });
+
+      toast.success('Match result finalized!');
+      return hash;
+    } catch (error) {
+      console.error('Finalize reveal error:', error);
+      toast.error('Failed to finalize match result');
+      throw error;
+    }
+  };
+
+  /**
+   * Decrypt the player's own committed move
+   * Asks for an EIP-712 signature the first time; later calls reuse the cached authorization
+   */
+  const decryptMove = async (moveHandle: `0x${string}`) => {
+    if (!address) {
+      throw new Error('Wallet not connected');
+    }
+
+    const results = await userDecrypt(
+      [moveHandle],
+      CONTRACT_ADDRESS,
+      address,
+      (typedData) => signTypedDataAsync(typedData as Parameters<typeof signTypedDataAsync>[0])
+    );
+
+    return Number(results[moveHandle]);
+  };
+
+  /**
+   * Claim a stalled match after the commit deadline
+   * Awards a forfeit win to the only committed player, or voids the match
+   */
+  const claimTimeout = async (matchId: number) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Claiming forfeit...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'claimTimeout',
+        args: [BigInt(matchId)],
+      });
+
+      toast.success('Forfeit claimed!');
+      return hash;
+    } catch (error) {
+      console.error('Claim timeout error:', error);
+      toast.error('Failed to claim forfeit');
+      throw error;
+    }
+  };
+
+  /**
+   * Cancel a match (only player1 before player2 joins)
+   */
+  const cancelMatch = async (matchId: number) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Cancelling match...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'cancelMatch',
+        args: [BigInt(matchId)],
+      });
+
+      toast.success('Match cancelled');
+      return hash;
+    } catch (error) {
+      console.error('Cancel match error:', error);
+      toast.error('Failed to cancel match');
+      throw error;
+    }
+  };
+
+  /**
+   * Ask the opponent to abort a joined match
+   */
+  const requestAbort = async (matchId: number) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Requesting abort...');
+
+      const hash = await writeContractAsync({
+        address: CONTRACT_ADDRESS as `0x${string}`,
+        abi: RockPaperArenaABI,
+        functionName: 'requestAbort',
+        args: [BigInt(matchId)],
+      });
+
+      toast.success('Abort requested, waiting for your opponent to confirm');
+      return hash;
+    } catch (error) {
+      console.error('Request abort error:', error);
+      toast.error('Failed to request abort');
+      throw error;
+    }
+  };
+
+  /**
+   * Confirm the opponent's abort request; both stakes are credited back
    */
-  const createChallenge = async () => {
+  const confirmAbort = async (matchId: number) => {
     if (!address) {
       toast.error('Please connect wallet');
       return null;
     }
 
     try {
-      toast.info('Creating match...');
+      toast.info('Aborting match...');
 
       const hash = await writeContractAsync({
         address: CONTRACT_ADDRESS as `0x${string}`,
         abi: RockPaperArenaABI,
-        functionName: 'createChallenge',
-        args: [],
-        gas: 500000n, // Explicitly set gas limit to 500k
+        functionName: 'confirmAbort',
+        args: [BigInt(matchId)],
       });
 
+      toast.success('Match aborted, stakes refunded');
       return hash;
     } catch (error) {
-      console.error('Create challenge error:', error);
-      toast.error('Failed to create match');
+      console.error('Confirm abort error:', error);
+      toast.error('Failed to abort match');
       throw error;
     }
   };
 
   /**
-   * Accept an existing match challenge
+   * Leave a joined match as player2 before any move is committed
+   * The stake is credited back, the match is listed again and the exit counts as an abandonment
    */
-  const acceptChallenge = async (matchId: number) => {
+  const leaveMatch = async (matchId: number) => {
     if (!address) {
       toast.error('Please connect wallet');
       return null;
     }
 
     try {
-      toast.info('Joining match...');
+      toast.info('Leaving match...');
 
       const hash = await writeContractAsync({
         address: CONTRACT_ADDRESS as `0x${string}`,
         abi: RockPaperArenaABI,
-        functionName: 'acceptChallenge',
+        functionName: 'leaveMatch',
         args: [BigInt(matchId)],
       });
 
-      toast.success('Match joined successfully!');
+      toast.success('You left the match');
       return hash;
     } catch (error) {
-      console.error('Accept challenge error:', error);
-      toast.error('Failed to join match');
+      console.error('Leave match error:', error);
+      toast.error('Failed to leave match');
       throw error;
     }
   };
 
   /**
-   * Submit encrypted move for a match
+   * Withdraw all ETH credited from winnings and refunds
    */
-  const submitMove = async (matchId: number, gesture: Gesture) => {
+  const claimRewards = async () => {
     if (!address) {
       toast.error('Please connect wallet');
       return null;
     }
 
     try {
-      toast.info('Encrypting your move...');
-
-      // Encrypt the gesture using FHE
-      const { handle, inputProof } = await encryptUint8(
-        gesture,
-        CONTRACT_ADDRESS,
-        address
-      );
-
-      toast.info('Submitting encrypted move...');
+      toast.info('Claiming rewards...');
 
       const hash = await writeContractAsync({
         address: CONTRACT_ADDRESS as `0x${string}`,
         abi: RockPaperArenaABI,
-        functionName: 'submitMove',
-        args: [BigInt(matchId), handle as any, inputProof as `0x${string}`],
+        functionName: 'claimRewards',
+        args: [],
       });
 
-      toast.success('Move submitted successfully!');
+      toast.success('Rewards claimed!');
       return hash;
     } catch (error) {
-      console.error('Submit move error:', error);
-      toast.error('Failed to submit move');
+      console.error('Claim rewards error:', error);
+      toast.error('Failed to claim rewards');
       throw error;
     }
   };
 
   /**
-   * Request reveal for a match
+   * Withdraw all of an ERC-20 token credited from winnings and refunds
    */
-  const requestReveal = async (matchId: number) => {
+  const claimTokenRewards = async (token: `0x${string}`) => {
     if (!address) {
       toast.error('Please connect wallet');
       return null;
     }
 
     try {
-      toast.info('Requesting match reveal...');
+      toast.info('Claiming token rewards...');
 
       const hash = await writeContractAsync({
         address: CONTRACT_ADDRESS as `0x${string}`,
         abi: RockPaperArenaABI,
-        functionName: 'requestReveal',
-        args: [BigInt(matchId)],
+        functionName: 'claimTokenRewards',
+        args: [token],
       });
 
-      toast.success('Match reveal requested!');
+      toast.success('Token rewards claimed!');
       return hash;
     } catch (error) {
-      console.error('Request reveal error:', error);
-      toast.error('Failed to request reveal');
+      console.error('Claim token rewards error:', error);
+      toast.error('Failed to claim token rewards');
       throw error;
     }
   };
 
   /**
-   * Cancel a match (only player1 before player2 joins)
+   * Withdraw the encrypted balance credited in an ERC-7984 token
    */
-  const cancelMatch = async (matchId: number) => {
+  const claimConfidentialRewards = async (token: `0x${string}`) => {
     if (!address) {
       toast.error('Please connect wallet');
       return null;
     }
 
     try {
-      toast.info('Cancelling match...');
+      toast.info('Claiming confidential rewards...');
 
       const hash = await writeContractAsync({
         address: CONTRACT_ADDRESS as `0x${string}`,
         abi: RockPaperArenaABI,
-        functionName: 'cancelMatch',
-        args: [BigInt(matchId)],
+        functionName: 'claimConfidentialRewards',
+        args: [token],
       });
 
-      toast.success('Match cancelled');
+      toast.success('Confidential rewards claimed!');
       return hash;
     } catch (error) {
-      console.error('Cancel match error:', error);
-      toast.error('Failed to cancel match');
+      console.error('Claim confidential rewards error:', error);
+      toast.error('Failed to claim confidential rewards');
       throw error;
     }
   };
 
+  /**
+   * Wait for a create transaction and read the new match ID from its MatchCreated event
+   * Needed now that a player can hold several matches and the new one is not implied
+   */
+  const waitForCreatedMatch = async (txHash: `0x${string}`) => {
+    if (!publicClient) {
+      throw new Error('Wallet not ready');
+    }
+
+    const receipt = await publicClient.waitForTransactionReceipt({ hash: txHash });
+    const [created] = parseEventLogs({
+      abi: RockPaperArenaABI,
+      eventName: 'MatchCreated',
+      logs: receipt.logs,
+    });
+
+    return created ? Number(created.args.matchId) : null;
+  };
+
   return {
     createChallenge,
+    createChallengeFor,
+    createChallengeWithCode,
+    createChallengeWithMove,
+    createTokenChallenge,
+    createConfidentialChallenge,
     acceptChallenge,
+    acceptChallengeWithCode,
+    acceptChallengeWithMove,
+    acceptConfidentialChallenge,
     submitMove,
     requestReveal,
+    finalizeReveal,
+    decryptMove,
+    claimTimeout,
     cancelMatch,
+    requestAbort,
+    confirmAbort,
+    leaveMatch,
+    claimRewards,
+    claimTokenRewards,
+    claimConfidentialRewards,
+    autoSettle,
+    waitForCreatedMatch,
     isPending,
     isConfirming,
     isSuccess,
   };
 }
 
+/**
+ * Hook to read whether the arena settles rounds inside submitMove
+ * When enabled there is no separate requestReveal step
+ */
+export function useAutoSettle() {
+  const { data: autoSettle, isLoading, error } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'autoSettle',
+  });
+
+  return {
+    autoSettle: autoSettle === true,
+    isLoading,
+    error,
+  };
+}
+
 /**
  * Hook to read match data with optional polling
  */
@@ -229,17 +1062,119 @@ export function useMatchData(matchId: number, enablePolling: boolean = false) {
 }
 
 /**
- * Hook to get pending matches
+ * Hook to check whether a match was opened by the matchmaker (player2 cannot leave it)
+ */
+export function useIsQueuedMatch(matchId: number) {
+  const { data: isQueued, isLoading, error } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'queuedMatches',
+    args: [BigInt(matchId)],
+    query: {
+      enabled: matchId > 0,
+    },
+  });
+
+  return {
+    isQueued: !!isQueued,
+    isLoading,
+    error,
+  };
+}
+
+/**
+ * Hook to read a decrypted round of a series (rounds are numbered from 1)
+ */
+export function useMatchRound(matchId: number, round: number) {
+  const { data: roundData, isLoading, error, refetch } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'getRound',
+    args: [BigInt(matchId), BigInt(round)],
+    query: {
+      enabled: matchId > 0 && round > 0,
+    },
+  });
+
+  return {
+    round: roundData as MatchRound | undefined,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get one page of pending matches, oldest first
+ */
+export function usePendingMatches(page: number = 0, pageSize: number = 5) {
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'getPendingMatchesPage',
+    args: [BigInt(page * pageSize), BigInt(pageSize)],
+  });
+
+  const [pendingMatches, total] = (data as readonly [readonly bigint[], bigint] | undefined) || [[], 0n];
+
+  return {
+    pendingMatches: [...pendingMatches],
+    total: Number(total),
+    pageCount: Math.ceil(Number(total) / pageSize),
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get a page of the matches a player created or joined, oldest first
+ */
+export function usePlayerMatches(playerAddress?: string, page: number = 0, pageSize: number = 10) {
+  const { address } = useAccount();
+  const targetAddress = playerAddress || address;
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'getPlayerMatches',
+    args: [targetAddress as `0x${string}`, BigInt(page * pageSize), BigInt(pageSize)],
+    query: {
+      enabled: !!targetAddress,
+    },
+  });
+
+  const [matches, total] = (data as readonly [readonly bigint[], bigint] | undefined) || [[], 0n];
+
+  return {
+    matches: [...matches],
+    total: Number(total),
+    pageCount: Math.ceil(Number(total) / pageSize),
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the private matches a player has been invited to
  */
-export function usePendingMatches() {
-  const { data: pendingMatches, isLoading, error, refetch } = useReadContract({
+export function useInvites(playerAddress?: string) {
+  const { address } = useAccount();
+  const targetAddress = playerAddress || address;
+
+  const { data: invites, isLoading, error, refetch } = useReadContract({
     address: CONTRACT_ADDRESS as `0x${string}`,
     abi: RockPaperArenaABI,
-    functionName: 'getPendingMatches',
+    functionName: 'getInvites',
+    args: [targetAddress as `0x${string}`],
+    query: {
+      enabled: !!targetAddress,
+    },
   });
 
   return {
-    pendingMatches: (pendingMatches as bigint[]) || [],
+    invites: (invites as bigint[]) || [],
     isLoading,
     error,
     refetch,
@@ -264,7 +1199,141 @@ export function usePlayerStats(playerAddress?: string) {
   });
 
   return {
-    stats,
+    stats: stats as PlayerStats | undefined,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the season completed matches are currently recorded in
+ */
+export function useCurrentSeason() {
+  const { data: currentSeason, isLoading, error, refetch } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'currentSeason',
+  });
+
+  return {
+    currentSeason: currentSeason !== undefined ? Number(currentSeason) : 1,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the standings of a season, highest rating first
+ */
+export function useSeasonLeaderboard(season: number, limit: number = 10) {
+  const publicClient = usePublicClient();
+
+  const { data: players, isLoading: loadingPlayers } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'getSeasonPlayers',
+    args: [BigInt(season)],
+    query: {
+      enabled: season > 0,
+    },
+  });
+
+  const seasonPlayers = (players as `0x${string}`[] | undefined) || [];
+
+  // Ranking needs every player's rating, so read them a page of players per multicall
+  // request, one page at a time, instead of one request per player
+  const { data: stats, isLoading: loadingStats, refetch } = useQuery({
+    queryKey: ['seasonStats', season, seasonPlayers],
+    queryFn: async () => {
+      const results: PlayerStats[] = [];
+      for (let start = 0; start < seasonPlayers.length; start += SEASON_STATS_PAGE_SIZE) {
+        const page = await publicClient!.multicall({
+          contracts: seasonPlayers.slice(start, start + SEASON_STATS_PAGE_SIZE).map((player) => ({
+            address: CONTRACT_ADDRESS as `0x${string}`,
+            abi: seasonStatsAbi,
+            functionName: 'getSeasonStats',
+            args: [BigInt(season), player],
+          })),
+          allowFailure: false,
+          // Send the page as one request rather than viem's default 1 KB chunks
+          batchSize: 0,
+        });
+        results.push(...(page as PlayerStats[]));
+      }
+      return results;
+    },
+    enabled: !!publicClient && seasonPlayers.length > 0,
+  });
+
+  const standings = seasonPlayers
+    .map((player, i) => ({ player, stats: stats?.[i] }))
+    .filter((entry): entry is { player: `0x${string}`; stats: PlayerStats } => !!entry.stats)
+    .sort((a, b) => (b.stats.rating > a.stats.rating ? 1 : b.stats.rating < a.stats.rating ? -1 : 0))
+    .slice(0, limit);
+
+  return {
+    standings,
+    isLoading: loadingPlayers || loadingStats,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the rating changes applied when a match completed
+ */
+export function useRatingChange(matchId: number, enabled: boolean = true) {
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'ratingChanges',
+    args: [BigInt(matchId)],
+    query: {
+      enabled: enabled && matchId > 0,
+    },
+  });
+
+  const change = data as readonly [bigint, bigint] | undefined;
+
+  return {
+    change: change ? ({ delta1: change[0], delta2: change[1] } as RatingChange) : undefined,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the player's unfinished matches, oldest first
+ */
+export function usePlayerActiveMatches(playerAddress?: string) {
+  const { address } = useAccount();
+  const targetAddress = playerAddress || address;
+
+  const { data, isLoading, error, refetch } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'getActiveMatches',
+    args: [targetAddress as `0x${string}`],
+    query: {
+      enabled: !!targetAddress,
+    },
+  });
+
+  const { data: maxActiveMatches } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'MAX_ACTIVE_MATCHES',
+  });
+
+  // The arena keeps the set unordered
+  const activeMatchIds = [...((data as readonly bigint[] | undefined) || [])].sort((a, b) => Number(a - b));
+
+  return {
+    activeMatchIds,
+    hasActiveMatch: activeMatchIds.length > 0,
+    atMatchLimit: maxActiveMatches !== undefined && activeMatchIds.length >= Number(maxActiveMatches),
     isLoading,
     error,
     refetch,
@@ -272,16 +1341,16 @@ export function usePlayerStats(playerAddress?: string) {
 }
 
 /**
- * Hook to get player's active match
+ * Hook to get player's withdrawable ETH rewards
  */
-export function usePlayerActiveMatch(playerAddress?: string) {
+export function usePendingRewards(playerAddress?: string) {
   const { address } = useAccount();
   const targetAddress = playerAddress || address;
 
-  const { data: activeMatchId, isLoading, error, refetch } = useReadContract({
+  const { data: pendingRewards, isLoading, error, refetch } = useReadContract({
     address: CONTRACT_ADDRESS as `0x${string}`,
     abi: RockPaperArenaABI,
-    functionName: 'playerActiveMatch',
+    functionName: 'pendingRewards',
     args: [targetAddress as `0x${string}`],
     query: {
       enabled: !!targetAddress,
@@ -289,8 +1358,59 @@ export function usePlayerActiveMatch(playerAddress?: string) {
   });
 
   return {
-    activeMatchId: (activeMatchId as bigint) || BigInt(0),
-    hasActiveMatch: activeMatchId !== undefined && activeMatchId !== BigInt(0),
+    pendingRewards: (pendingRewards as bigint) || BigInt(0),
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get player's withdrawable rewards in an ERC-20 wager token
+ */
+export function usePendingTokenRewards(token: `0x${string}`, playerAddress?: string) {
+  const { address } = useAccount();
+  const targetAddress = playerAddress || address;
+
+  const { data: pendingRewards, isLoading, error, refetch } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'pendingTokenRewards',
+    args: [targetAddress as `0x${string}`, token],
+    query: {
+      enabled: !!targetAddress && token !== zeroAddress,
+    },
+  });
+
+  return {
+    pendingRewards: (pendingRewards as bigint) || BigInt(0),
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get player's encrypted reward handle in an ERC-7984 token
+ * The zero handle means nothing is waiting to be claimed
+ */
+export function useConfidentialRewards(token: `0x${string}`, playerAddress?: string) {
+  const { address } = useAccount();
+  const targetAddress = playerAddress || address;
+
+  const { data: rewardHandle, isLoading, error, refetch } = useReadContract({
+    address: CONTRACT_ADDRESS as `0x${string}`,
+    abi: RockPaperArenaABI,
+    functionName: 'confidentialRewards',
+    args: [targetAddress as `0x${string}`, token],
+    query: {
+      enabled: !!targetAddress && token !== zeroAddress,
+    },
+  });
+
+  return {
+    rewardHandle: rewardHandle as `0x${string}` | undefined,
+    hasRewards: !!rewardHandle && BigInt(rewardHandle as string) !== 0n,
     isLoading,
     error,
     refetch,
@@ -0,0 +1,343 @@
+/**
+ * Hook for interacting with the RockPaperTournament contract
+ *
+ * Provides methods for opening single-elimination brackets, registering,
+ * retrying bracket matches that could not open and withdrawing prizes.
+ * Bracket matches themselves are played through useRockPaperArena.
+ */
+
+import { useAccount, useReadContract, useWriteContract } from 'wagmi';
+import { RockPaperTournamentABI } from '@/contracts/RockPaperTournament';
+import { TOURNAMENT_ADDRESS } from '@/config/wagmi';
+import { toast } from 'sonner';
+
+export type TournamentData = {
+  tournamentId: bigint;
+  organizer: `0x${string}`;
+  size: number; // Number of players (4, 8 or 16)
+  bestOf: number; // Series length of every bracket match
+  entryFee: bigint; // Wei paid by each player to register
+  prizePool: bigint; // Entry fees plus the sponsor pot
+  state: number; // 0=None, 1=Registration, 2=Running, 3=Completed, 4=Cancelled
+  createdAt: bigint;
+  champion: `0x${string}`; // Zero address until completed
+  runnerUp: `0x${string}`; // Zero address until completed
+};
+
+export type BracketMatch = {
+  player1: `0x${string}`; // Zero address until the feeder match is decided
+  player2: `0x${string}`;
+  arenaMatchId: bigint; // 0 until the arena match is opened
+  winner: `0x${string}`; // Zero address if both players were eliminated
+  decided: boolean;
+  startDeadline: bigint; // When a walkover can be claimed, 0 unless the match could not open
+};
+
+export const BRACKET_SIZES = [4, 8, 16] as const;
+
+const tournamentAddress = TOURNAMENT_ADDRESS as `0x${string}`;
+
+/**
+ * Hook to interact with RockPaperTournament contract
+ */
+export function useTournament() {
+  const { address } = useAccount();
+  const { writeContractAsync, isPending } = useWriteContract();
+
+  /**
+   * Open a bracket for registration
+   * The optional sponsor pot (wei) is added to the prize pool
+   */
+  const createTournament = async (size: number, entryFee: bigint, bestOf: number = 1, sponsorPot: bigint = 0n) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Creating tournament...');
+
+      const hash = await writeContractAsync({
+        address: tournamentAddress,
+        abi: RockPaperTournamentABI,
+        functionName: 'createTournament',
+        args: [size, entryFee, bestOf],
+        value: sponsorPot,
+      });
+
+      toast.success('Tournament created!');
+      return hash;
+    } catch (error) {
+      console.error('Create tournament error:', error);
+      toast.error('Failed to create tournament');
+      throw error;
+    }
+  };
+
+  /**
+   * Take a seat in a bracket by paying the entry fee
+   * Taking the last seat starts the bracket and opens the first-round matches
+   */
+  const register = async (tournamentId: number, entryFee: bigint) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Registering...');
+
+      const hash = await writeContractAsync({
+        address: tournamentAddress,
+        abi: RockPaperTournamentABI,
+        functionName: 'register',
+        args: [BigInt(tournamentId)],
+        value: entryFee,
+      });
+
+      toast.success('Registered for the tournament!');
+      return hash;
+    } catch (error) {
+      console.error('Register error:', error);
+      toast.error('Failed to register');
+      throw error;
+    }
+  };
+
+  /**
+   * Cancel a bracket that has not filled up; entry fees and the sponsor pot are credited back
+   */
+  const cancelTournament = async (tournamentId: number) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Cancelling tournament...');
+
+      const hash = await writeContractAsync({
+        address: tournamentAddress,
+        abi: RockPaperTournamentABI,
+        functionName: 'cancelTournament',
+        args: [BigInt(tournamentId)],
+      });
+
+      toast.success('Tournament cancelled');
+      return hash;
+    } catch (error) {
+      console.error('Cancel tournament error:', error);
+      toast.error('Failed to cancel tournament');
+      throw error;
+    }
+  };
+
+  /**
+   * Open the arena match of a pairing that could not start because a player had no free match slot
+   */
+  const startMatch = async (tournamentId: number, index: number) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Starting bracket match...');
+
+      const hash = await writeContractAsync({
+        address: tournamentAddress,
+        abi: RockPaperTournamentABI,
+        functionName: 'startMatch',
+        args: [BigInt(tournamentId), BigInt(index)],
+      });
+
+      toast.success('Bracket match started!');
+      return hash;
+    } catch (error) {
+      console.error('Start bracket match error:', error);
+      toast.error('Failed to start match (is a player still in another match?)');
+      throw error;
+    }
+  };
+
+  /**
+   * Advance the player who can play in a pairing that could not start before its deadline
+   */
+  const claimWalkover = async (tournamentId: number, index: number) => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Claiming walkover...');
+
+      const hash = await writeContractAsync({
+        address: tournamentAddress,
+        abi: RockPaperTournamentABI,
+        functionName: 'claimWalkover',
+        args: [BigInt(tournamentId), BigInt(index)],
+      });
+
+      toast.success('Walkover claimed!');
+      return hash;
+    } catch (error) {
+      console.error('Claim walkover error:', error);
+      toast.error('Failed to claim walkover (can both players start the match?)');
+      throw error;
+    }
+  };
+
+  /**
+   * Withdraw all prizes and refunds credited by the tournament contract
+   */
+  const claimPrizes = async () => {
+    if (!address) {
+      toast.error('Please connect wallet');
+      return null;
+    }
+
+    try {
+      toast.info('Claiming prizes...');
+
+      const hash = await writeContractAsync({
+        address: tournamentAddress,
+        abi: RockPaperTournamentABI,
+        functionName: 'claimPrizes',
+        args: [],
+      });
+
+      toast.success('Prizes claimed!');
+      return hash;
+    } catch (error) {
+      console.error('Claim prizes error:', error);
+      toast.error('Failed to claim prizes');
+      throw error;
+    }
+  };
+
+  return {
+    createTournament,
+    register,
+    cancelTournament,
+    startMatch,
+    claimWalkover,
+    claimPrizes,
+    isPending,
+  };
+}
+
+/**
+ * Hook to get the number of tournaments created so far (IDs start at 1)
+ */
+export function useTournamentCount() {
+  const { data: count, isLoading, error, refetch } = useReadContract({
+    address: tournamentAddress,
+    abi: RockPaperTournamentABI,
+    functionName: 'tournamentCounter',
+    query: {
+      enabled: !!TOURNAMENT_ADDRESS,
+    },
+  });
+
+  return {
+    count: count !== undefined ? Number(count) : 0,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get tournament details
+ */
+export function useTournamentData(tournamentId: number, enablePolling: boolean = false) {
+  const { data: tournament, isLoading, error, refetch } = useReadContract({
+    address: tournamentAddress,
+    abi: RockPaperTournamentABI,
+    functionName: 'getTournament',
+    args: [BigInt(tournamentId)],
+    query: {
+      enabled: !!TOURNAMENT_ADDRESS && tournamentId > 0,
+      refetchInterval: enablePolling ? 5000 : false,
+    },
+  });
+
+  return {
+    tournament: tournament as TournamentData | undefined,
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the registered players of a tournament in seeding order
+ */
+export function useTournamentEntrants(tournamentId: number) {
+  const { data: entrants, isLoading, error, refetch } = useReadContract({
+    address: tournamentAddress,
+    abi: RockPaperTournamentABI,
+    functionName: 'getEntrants',
+    args: [BigInt(tournamentId)],
+    query: {
+      enabled: !!TOURNAMENT_ADDRESS && tournamentId > 0,
+    },
+  });
+
+  return {
+    entrants: (entrants as `0x${string}`[]) || [],
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get every pairing of a bracket, round by round
+ * The first round uses indices 0..size/2-1 and the final is the last pairing
+ */
+export function useTournamentBracket(tournamentId: number, enablePolling: boolean = false) {
+  const { data: bracket, isLoading, error, refetch } = useReadContract({
+    address: tournamentAddress,
+    abi: RockPaperTournamentABI,
+    functionName: 'getBracket',
+    args: [BigInt(tournamentId)],
+    query: {
+      enabled: !!TOURNAMENT_ADDRESS && tournamentId > 0,
+      refetchInterval: enablePolling ? 5000 : false,
+    },
+  });
+
+  return {
+    bracket: (bracket as BracketMatch[] | undefined) || [],
+    isLoading,
+    error,
+    refetch,
+  };
+}
+
+/**
+ * Hook to get the prizes and refunds a player can withdraw
+ */
+export function usePendingPrizes(playerAddress?: string) {
+  const { address } = useAccount();
+  const targetAddress = playerAddress || address;
+
+  const { data: pendingPrizes, isLoading, error, refetch } = useReadContract({
+    address: tournamentAddress,
+    abi: RockPaperTournamentABI,
+    functionName: 'pendingPrizes',
+    args: [targetAddress as `0x${string}`],
+    query: {
+      enabled: !!TOURNAMENT_ADDRESS && !!targetAddress,
+    },
+  });
+
+  return {
+    pendingPrizes: (pendingPrizes as bigint | undefined) ?? 0n,
+    isLoading,
+    error,
+    refetch,
+  };
+}
@@ -4,25 +4,56 @@
  * Main landing page with game introduction and wallet connection
  */
 
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Leaderboard } from "@/components/Leaderboard";
-import { Gamepad2, Shield, Zap, Lock, Users, Play, XCircle } from "lucide-react";
+import { PlayerProfile } from "@/components/PlayerProfile";
+import { Gamepad2, Shield, Zap, Lock, Users, Play, XCircle, Coins, Mail, Trophy, History, ChevronLeft, ChevronRight } from "lucide-react";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
 import { useAccount } from "wagmi";
+import { formatEther, parseUnits, zeroAddress } from "viem";
+import { ETH_WAGER_TOKEN, MATCHMAKER_ADDRESS, PRIVATE_STATS_ADDRESS, WAGER_TOKENS, type WagerToken } from "@/config/wagmi";
+import { formatStake, getWagerToken } from "@/utils/wagerTokens";
+import { getRuleSet } from "@/utils/ruleSets";
 import heroImage from "@/assets/hero-arcade.jpg";
-import { usePlayerActiveMatch, usePendingMatches, useMatchData, useRockPaperArena } from "@/hooks/useRockPaperArena";
+import {
+  usePlayerActiveMatches,
+  usePendingMatches,
+  usePlayerMatches,
+  useInvites,
+  useMatchData,
+  usePendingRewards,
+  usePlayerStats,
+  usePendingTokenRewards,
+  useConfidentialRewards,
+  useRockPaperArena,
+  type Gesture,
+  type MatchState,
+} from "@/hooks/useRockPaperArena";
+import { useMatchmaker, useQueueMatchWatcher, useQueuePosition, useQueueStatus } from "@/hooks/useMatchmaker";
 import { toast } from "sonner";
 
+// Gestures offered for one-step create from the lobby (classic rules)
+const LOBBY_GESTURES = getRuleSet(0).gestures;
+
+// Matchmaker WINDOW_GROWTH_INTERVAL: automatic queue retries are spaced one window step apart
+const AUTO_RETRY_INTERVAL_MS = 60_000;
+
 // Component to show a single match card
-const MatchCard = ({ matchId, onJoin, onContinue, onCancel, isOwn }: {
+const MatchCard = ({ matchId, onJoin, onJoinWithMove, onContinue, onCancel, isOwn }: {
   matchId: number;
-  onJoin?: () => void;
+  onJoin?: (match: MatchState, maxStake?: bigint) => void;
+  onJoinWithMove?: (match: MatchState, gesture: Gesture) => void;
   onContinue?: () => void;
   onCancel?: () => void;
   isOwn?: boolean;
 }) => {
   const { match, isLoading } = useMatchData(matchId);
+  const { stats: creatorStats } = usePlayerStats(match?.player1 ?? zeroAddress);
+  const { stats: joinerStats } = usePlayerStats(match?.player2 ?? zeroAddress);
+  const [maxStakeInput, setMaxStakeInput] = useState('');
 
   if (isLoading || !match) {
     return (
@@ -37,7 +68,28 @@ const MatchCard = ({ matchId, onJoin, onContinue, onCancel, isOwn }: {
     1: 'WAITING',
     2: 'BOTH COMMITTED',
     3: 'REVEALED',
-    4: 'CANCELLED'
+    4: 'CANCELLED',
+    5: 'DECRYPTING'
+  };
+
+  const isConfidential = match.confidentialToken !== zeroAddress;
+  const rules = getRuleSet(match.ruleSet);
+
+  // Confidential stakes are hidden, so the joiner sets the most they are willing to match
+  const handleJoin = () => {
+    if (!onJoin) return;
+
+    if (!isConfidential) {
+      onJoin(match);
+      return;
+    }
+
+    try {
+      const token = getWagerToken(match.confidentialToken);
+      onJoin(match, parseUnits(maxStakeInput.trim() || '0', token.decimals));
+    } catch {
+      toast.error('Invalid max stake');
+    }
   };
 
   // Determine the primary action for this card
@@ -45,7 +97,7 @@ const MatchCard = ({ matchId, onJoin, onContinue, onCancel, isOwn }: {
     if (onContinue) {
       onContinue();
     } else if (onJoin) {
-      onJoin();
+      handleJoin();
     }
   };
 
@@ -61,7 +113,7 @@ const MatchCard = ({ matchId, onJoin, onContinue, onCancel, isOwn }: {
         </div>
         <span className={`px-2 py-1 text-xs font-mono ${
           match.state === 1 ? 'bg-yellow-500/20 text-yellow-500' :
-          match.state === 2 ? 'bg-blue-500/20 text-blue-500' :
+          match.state === 2 || match.state === 5 ? 'bg-blue-500/20 text-blue-500' :
           match.state === 3 ? 'bg-green-500/20 text-green-500' :
           'bg-muted text-muted-foreground'
         }`}>
@@ -74,14 +126,87 @@ const MatchCard = ({ matchId, onJoin, onContinue, onCancel, isOwn }: {
           <span className="text-muted-foreground">Player 1:</span>
           <span className="text-accent">{match.player1.slice(0, 6)}...{match.player1.slice(-4)}</span>
         </div>
+        {creatorStats && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Rating:</span>
+            <span className="text-accent">{creatorStats.rating.toString()}</span>
+          </div>
+        )}
+        {onJoin && creatorStats && creatorStats.abandoned > 0n && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Abandoned:</span>
+            <span className="text-destructive">{creatorStats.abandoned.toString()}</span>
+          </div>
+        )}
         {match.player2 !== '0x0000000000000000000000000000000000000000' && (
           <div className="flex justify-between">
             <span className="text-muted-foreground">Player 2:</span>
             <span className="text-accent">{match.player2.slice(0, 6)}...{match.player2.slice(-4)}</span>
           </div>
         )}
+        {match.player2 !== '0x0000000000000000000000000000000000000000' && joinerStats && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Rating:</span>
+            <span className="text-accent">{joinerStats.rating.toString()}</span>
+          </div>
+        )}
+        {match.ruleSet !== 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Rules:</span>
+            <span className="text-accent">{rules.name}</span>
+          </div>
+        )}
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Stake:</span>
+          <span className="text-primary">
+            {isConfidential
+              ? `ENCRYPTED ${getWagerToken(match.confidentialToken).symbol}`
+              : match.stake > 0n ? formatStake(match.stake, match.stakeToken) : 'FREE'}
+          </span>
+        </div>
       </div>
 
+      {onJoin && isConfidential && (
+        <div className="mb-4" onClick={(e) => e.stopPropagation()}>
+          <label className="text-xs text-muted-foreground font-mono">
+            MAX STAKE YOU WILL MATCH
+          </label>
+          <Input
+            type="number"
+            min="0"
+            placeholder="0.0"
+            value={maxStakeInput}
+            onChange={(e) => setMaxStakeInput(e.target.value)}
+            className="mt-1 font-mono"
+          />
+          <p className="text-xs text-muted-foreground font-mono mt-1">
+            CONFIDENTIAL MATCHES CANNOT BE LEFT ONCE JOINED
+          </p>
+        </div>
+      )}
+
+      {/* Confidential matches need an encrypted stake cap, so they join without a move */}
+      {onJoinWithMove && !isConfidential && (
+        <div className="mb-4" onClick={(e) => e.stopPropagation()}>
+          <span className="text-xs text-muted-foreground font-mono">
+            JOIN WITH YOUR MOVE
+          </span>
+          <div className={`grid gap-2 mt-1 ${rules.gestures.length > 3 ? 'grid-cols-5' : 'grid-cols-3'}`}>
+            {rules.gestures.map((gesture) => (
+              <Button
+                key={gesture.id}
+                variant="outline"
+                title={gesture.name}
+                onClick={() => onJoinWithMove(match, gesture.id)}
+                className="pixel-corners text-xl"
+              >
+                {gesture.symbol}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="flex gap-2">
         {onContinue && (
           <Button
@@ -99,7 +224,7 @@ const MatchCard = ({ matchId, onJoin, onContinue, onCancel, isOwn }: {
           <Button
             onClick={(e) => {
               e.stopPropagation();
-              onJoin();
+              handleJoin();
             }}
             className="flex-1 neon-border-pink pixel-corners bg-accent hover:bg-accent/80"
           >
@@ -124,27 +249,198 @@ const MatchCard = ({ matchId, onJoin, onContinue, onCancel, isOwn }: {
   );
 };
 
+// Row showing unclaimed rewards in one currency
+const RewardsRow = ({ label, amount, onClaim, disabled }: {
+  label: string;
+  amount: string;
+  onClaim: () => void;
+  disabled?: boolean;
+}) => (
+  <div className="neon-border-purple pixel-corners p-4 bg-card flex justify-between items-center">
+    <div className="flex items-center gap-2 font-mono">
+      <Coins className="w-5 h-5 text-primary" />
+      <span className="text-muted-foreground">UNCLAIMED {label}:</span>
+      <span className="text-primary font-bold">{amount}</span>
+    </div>
+    <Button
+      onClick={onClaim}
+      disabled={disabled}
+      className="neon-border-pink pixel-corners bg-primary hover:bg-primary/80"
+    >
+      CLAIM
+    </Button>
+  </div>
+);
+
+// Unclaimed encrypted rewards for one ERC-7984 token (hidden when empty)
+const ConfidentialRewardsRow = ({ token }: { token: WagerToken }) => {
+  const { hasRewards, refetch } = useConfidentialRewards(token.address);
+  const { claimConfidentialRewards, isPending } = useRockPaperArena();
+
+  if (!hasRewards) {
+    return null;
+  }
+
+  const handleClaim = async () => {
+    try {
+      await claimConfidentialRewards(token.address);
+      setTimeout(() => {
+        refetch();
+      }, 2000);
+    } catch (error) {
+      console.error('Claim confidential rewards error:', error);
+    }
+  };
+
+  return (
+    <RewardsRow
+      label={token.symbol}
+      amount="ENCRYPTED"
+      onClaim={handleClaim}
+      disabled={isPending}
+    />
+  );
+};
+
+// Unclaimed rewards for one ERC-20 wager token (hidden when empty)
+const TokenRewardsRow = ({ token }: { token: WagerToken }) => {
+  const { pendingRewards, refetch } = usePendingTokenRewards(token.address);
+  const { claimTokenRewards, isPending } = useRockPaperArena();
+
+  if (pendingRewards === 0n) {
+    return null;
+  }
+
+  const handleClaim = async () => {
+    try {
+      await claimTokenRewards(token.address);
+      setTimeout(() => {
+        refetch();
+      }, 2000);
+    } catch (error) {
+      console.error('Claim token rewards error:', error);
+    }
+  };
+
+  return (
+    <RewardsRow
+      label={token.symbol}
+      amount={formatStake(pendingRewards, token.address)}
+      onClaim={handleClaim}
+      disabled={isPending}
+    />
+  );
+};
+
+// Describe the expected queue wait (null while nobody else is waiting)
+const formatQueueWait = (seconds: number | null) => {
+  if (seconds === null) return "NO ONE ELSE WAITING";
+  if (seconds === 0) return "OPPONENT IN RANGE";
+  return `~${Math.ceil(seconds / 60)} MIN`;
+};
+
+// Previous / next controls for a paged list
+const Pager = ({ page, pageCount, onChange }: {
+  page: number;
+  pageCount: number;
+  onChange: (page: number) => void;
+}) => {
+  if (pageCount <= 1) return null;
+
+  return (
+    <div className="flex items-center justify-center gap-4 mt-4 font-mono text-sm">
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onChange(page - 1)}
+        disabled={page === 0}
+        className="pixel-corners"
+      >
+        <ChevronLeft className="w-4 h-4" />
+      </Button>
+      <span className="text-muted-foreground">
+        PAGE {page + 1} / {pageCount}
+      </span>
+      <Button
+        size="sm"
+        variant="outline"
+        onClick={() => onChange(page + 1)}
+        disabled={page >= pageCount - 1}
+        className="pixel-corners"
+      >
+        <ChevronRight className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+};
+
 const Index = () => {
   const navigate = useNavigate();
   const { isConnected, address } = useAccount();
-  const { activeMatchId, hasActiveMatch, isLoading: loadingActive } = usePlayerActiveMatch();
-  const { pendingMatches, isLoading: loadingPending, refetch: refetchPending } = usePendingMatches();
-  const { acceptChallenge, cancelMatch, isPending } = useRockPaperArena();
+  const {
+    activeMatchIds,
+    hasActiveMatch,
+    atMatchLimit,
+    isLoading: loadingActive,
+    refetch: refetchActive,
+  } = usePlayerActiveMatches();
+  const [pendingPage, setPendingPage] = useState(0);
+  const [historyPage, setHistoryPage] = useState(0);
+  const {
+    pendingMatches,
+    pageCount: pendingPageCount,
+    isLoading: loadingPending,
+    refetch: refetchPending,
+  } = usePendingMatches(pendingPage);
+  const { matches: myMatches, total: myMatchCount, pageCount: historyPageCount } = usePlayerMatches(undefined, historyPage);
 
-  const handleJoinMatch = async (matchId: number) => {
-    if (hasActiveMatch) {
-      toast.error('You already have an active match. Complete or cancel it first.');
+  // Step back when matches leave the lobby and the current page runs empty
+  useEffect(() => {
+    if (pendingPage > 0 && pendingPage >= pendingPageCount && !loadingPending) {
+      setPendingPage(Math.max(pendingPageCount - 1, 0));
+    }
+  }, [pendingPage, pendingPageCount, loadingPending]);
+  const { invites, refetch: refetchInvites } = useInvites();
+  const { pendingRewards, refetch: refetchRewards } = usePendingRewards();
+  const {
+    acceptChallenge,
+    acceptChallengeWithMove,
+    acceptConfidentialChallenge,
+    createChallengeWithMove,
+    cancelMatch,
+    claimRewards,
+    waitForCreatedMatch,
+    isPending,
+  } = useRockPaperArena();
+  const { joinQueue, retryQueue, leaveQueue, isPending: queuePending } = useMatchmaker();
+  const { queuePosition, isQueued, refetch: refetchQueue } = useQueuePosition();
+  const { ratingWindow, expectedWait, refetch: refetchQueueStatus } = useQueueStatus(true);
+
+  // While queued, follow the arena until another player's joinQueue or retryQueue pairs us
+  useQueueMatchWatcher(isQueued, (matchId) => {
+    toast.success('Opponent found!');
+    refetchQueue();
+    refetchActive();
+    navigate(`/match?id=${matchId}`);
+  });
+
+  const handleJoinMatch = async (matchId: number, match: MatchState, maxStake?: bigint) => {
+    if (atMatchLimit) {
+      toast.error('You have reached the maximum number of active matches. Finish or cancel one first.');
       return;
     }
 
     try {
       console.log('[Index] Joining match:', matchId);
-      const hash = await acceptChallenge(matchId);
+      const hash = match.confidentialToken !== zeroAddress
+        ? await acceptConfidentialChallenge(matchId, match.confidentialToken, maxStake ?? 0n)
+        : await acceptChallenge(matchId, match.stake, match.stakeToken);
       if (hash) {
         toast.success('Match joined! Waiting for transaction confirmation...');
         // Refetch pending matches and active match after joining
         setTimeout(() => {
           refetchPending();
+          refetchInvites();
           navigate(`/match?id=${matchId}`);
         }, 2000);
       }
@@ -154,20 +450,121 @@ const Index = () => {
     }
   };
 
+  // Picking a gesture encrypts it and joins in the same transaction
+  const handleJoinWithMove = async (matchId: number, match: MatchState, gesture: Gesture) => {
+    if (atMatchLimit) {
+      toast.error('You have reached the maximum number of active matches. Finish or cancel one first.');
+      return;
+    }
+
+    try {
+      const hash = await acceptChallengeWithMove(matchId, gesture, match.stake, match.stakeToken);
+      if (hash) {
+        setTimeout(() => {
+          refetchPending();
+          refetchInvites();
+          navigate(`/match?id=${matchId}`);
+        }, 2000);
+      }
+    } catch (error) {
+      console.error('Join with move error:', error);
+    }
+  };
+
+  // Picking a gesture encrypts it and creates a free match in the same transaction
+  const handleCreateWithMove = async (gesture: Gesture) => {
+    try {
+      const hash = await createChallengeWithMove(gesture);
+      if (hash) {
+        const matchId = await waitForCreatedMatch(hash);
+        refetchPending();
+        refetchActive();
+        navigate(matchId ? `/match?id=${matchId}` : "/match");
+      }
+    } catch (error) {
+      console.error('Create with move error:', error);
+    }
+  };
+
+  // Pair with the oldest waiting player in rating range, or wait in the queue for the next one
+  const handleQuickMatch = async () => {
+    try {
+      const matchId = await joinQueue();
+      refetchQueue();
+      refetchQueueStatus();
+      if (matchId) {
+        refetchActive();
+        navigate(`/match?id=${matchId}`);
+      }
+    } catch (error) {
+      console.error('Quick match error:', error);
+    }
+  };
+
+  // Look again once the widened rating window reaches a waiting player
+  const handleRetryQueue = async (quiet: boolean = false) => {
+    try {
+      const matchId = await retryQueue(quiet);
+      refetchQueue();
+      refetchQueueStatus();
+      if (matchId) {
+        refetchActive();
+        navigate(`/match?id=${matchId}`);
+      }
+    } catch (error) {
+      console.error('Retry queue error:', error);
+    }
+  };
+
+  // Nobody is paired in the background, so retry on our own once an opponent is in range.
+  // Checked after every render (the status polls re-render), but fired at most once per window
+  // growth step, so a retry that lost the opponent to somebody else is repeated a step later
+  const lastAutoRetry = useRef(0);
+  useEffect(() => {
+    if (!isQueued || expectedWait !== 0 || queuePending) return;
+    if (Date.now() - lastAutoRetry.current < AUTO_RETRY_INTERVAL_MS) return;
+
+    lastAutoRetry.current = Date.now();
+    handleRetryQueue(true);
+  });
+
+  const handleLeaveQueue = async () => {
+    try {
+      await leaveQueue();
+      setTimeout(() => {
+        refetchQueue();
+      }, 2000);
+    } catch (error) {
+      console.error('Leave queue error:', error);
+    }
+  };
+
   const handleCancelMatch = async (matchId: number) => {
     try {
       await cancelMatch(matchId);
       toast.success('Match cancelled');
       refetchPending();
+      refetchActive();
     } catch (error) {
       console.error('Cancel match error:', error);
     }
   };
 
-  // Filter pending matches to exclude player's own match
+  const handleClaimRewards = async () => {
+    try {
+      await claimRewards();
+      setTimeout(() => {
+        refetchRewards();
+      }, 2000);
+    } catch (error) {
+      console.error('Claim rewards error:', error);
+    }
+  };
+
+  // Filter pending matches to exclude player's own matches
   const availableMatches = (pendingMatches || [])
-    .map(id => Number(id))
-    .filter(id => id !== Number(activeMatchId));
+    .filter(id => !activeMatchIds.includes(id))
+    .map(id => Number(id));
 
   return (
     <div className="min-h-screen bg-background scanlines">
@@ -178,6 +575,14 @@ const Index = () => {
             [ ROCKPAPERFHE ]
           </h1>
           <div className="flex items-center gap-4">
+            <Button
+              variant="outline"
+              onClick={() => navigate("/tournaments")}
+              className="pixel-corners border-2 border-border hover:border-accent font-mono"
+            >
+              <Trophy className="w-4 h-4 mr-2" />
+              TOURNAMENTS
+            </Button>
             <div className="flex items-center gap-2 text-sm">
               <Shield className="w-4 h-4 text-accent" />
               <span className="font-mono text-muted-foreground hidden md:inline">
@@ -272,38 +677,129 @@ const Index = () => {
             </h2>
 
             <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
-              {/* My Active Match */}
+              {/* My Active Matches */}
               <div>
                 <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
                   <Gamepad2 className="w-5 h-5 text-primary" />
-                  MY ACTIVE MATCH
+                  MY ACTIVE MATCHES
                 </h3>
                 {loadingActive ? (
                   <div className="neon-border-purple pixel-corners p-4 bg-card animate-pulse">
                     <div className="h-32 bg-muted rounded"></div>
                   </div>
-                ) : hasActiveMatch ? (
-                  <MatchCard
-                    matchId={Number(activeMatchId)}
-                    onContinue={() => {
-                      console.log('[Index] CONTINUE clicked, navigating to match:', Number(activeMatchId));
-                      navigate(`/match?id=${Number(activeMatchId)}`);
-                    }}
-                    onCancel={() => handleCancelMatch(Number(activeMatchId))}
-                    isOwn={true}
-                  />
                 ) : (
-                  <div className="neon-border-purple pixel-corners p-6 bg-card text-center">
-                    <p className="text-muted-foreground font-mono mb-4">
-                      No active match
-                    </p>
-                    <Button
-                      onClick={() => navigate("/match")}
-                      className="neon-border-pink pixel-corners bg-primary hover:bg-primary/80"
-                    >
-                      <Gamepad2 className="w-4 h-4 mr-2" />
-                      CREATE MATCH
-                    </Button>
+                  <div className="space-y-4">
+                    {hasActiveMatch && (
+                      <div className="space-y-4 max-h-80 overflow-y-auto">
+                        {activeMatchIds.map((id) => (
+                          <MatchCard
+                            key={Number(id)}
+                            matchId={Number(id)}
+                            onContinue={() => {
+                              console.log('[Index] CONTINUE clicked, navigating to match:', Number(id));
+                              navigate(`/match?id=${Number(id)}`);
+                            }}
+                            onCancel={() => handleCancelMatch(Number(id))}
+                            isOwn={true}
+                          />
+                        ))}
+                      </div>
+                    )}
+                    {atMatchLimit ? (
+                      <p className="text-center text-sm text-muted-foreground font-mono">
+                        * Match limit reached: finish or cancel a match to start another *
+                      </p>
+                    ) : (
+                      <div className="neon-border-purple pixel-corners p-6 bg-card text-center">
+                        {!hasActiveMatch && (
+                          <p className="text-muted-foreground font-mono mb-4">
+                            No active match
+                          </p>
+                        )}
+                        <Button
+                          onClick={() => navigate("/match")}
+                          className="neon-border-pink pixel-corners bg-primary hover:bg-primary/80"
+                        >
+                          <Gamepad2 className="w-4 h-4 mr-2" />
+                          {hasActiveMatch ? 'CREATE ANOTHER MATCH' : 'CREATE MATCH'}
+                        </Button>
+                        <p className="text-xs text-muted-foreground font-mono mt-4 mb-2">
+                          OR PICK YOUR MOVE TO CREATE A FREE MATCH IN ONE STEP
+                        </p>
+                        <div className="grid grid-cols-3 gap-2">
+                          {LOBBY_GESTURES.map((gesture) => (
+                            <Button
+                              key={gesture.id}
+                              variant="outline"
+                              title={gesture.name}
+                              disabled={isPending}
+                              onClick={() => handleCreateWithMove(gesture.id)}
+                              className="pixel-corners text-xl"
+                            >
+                              {gesture.symbol}
+                            </Button>
+                          ))}
+                        </div>
+                        {MATCHMAKER_ADDRESS && (
+                          isQueued ? (
+                            <div className="mt-4 space-y-2">
+                              <p className="font-mono text-sm text-accent animate-pulse">
+                                SEARCHING FOR AN OPPONENT... QUEUE POSITION #{queuePosition}
+                              </p>
+                              {ratingWindow !== null && (
+                                <p className="font-mono text-xs text-muted-foreground">
+                                  RATING WINDOW ±{ratingWindow} · EXPECTED WAIT: {formatQueueWait(expectedWait)}
+                                </p>
+                              )}
+                              {expectedWait === 0 && (
+                                <p className="font-mono text-xs text-accent">
+                                  OPPONENT IN RANGE. PAIRING AUTOMATICALLY, OR PRESS PAIR NOW
+                                </p>
+                              )}
+                              <div className="flex gap-2">
+                                {expectedWait === 0 && (
+                                  <Button
+                                    size="sm"
+                                    onClick={() => handleRetryQueue()}
+                                    disabled={queuePending}
+                                    className="pixel-corners font-mono bg-accent hover:bg-accent/80 text-accent-foreground"
+                                  >
+                                    <Zap className="w-4 h-4 mr-2" />
+                                    PAIR NOW
+                                  </Button>
+                                )}
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={handleLeaveQueue}
+                                  disabled={queuePending}
+                                  className="pixel-corners font-mono"
+                                >
+                                  <XCircle className="w-4 h-4 mr-2" />
+                                  LEAVE QUEUE
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            <div className="mt-4 space-y-2">
+                              <Button
+                                onClick={handleQuickMatch}
+                                disabled={queuePending}
+                                className="w-full neon-border-pink pixel-corners bg-accent hover:bg-accent/80 text-accent-foreground font-bold"
+                              >
+                                <Zap className="w-4 h-4 mr-2" />
+                                QUICK MATCH
+                              </Button>
+                              {ratingWindow !== null && (
+                                <p className="font-mono text-xs text-muted-foreground text-center">
+                                  RATING WINDOW ±{ratingWindow} · EXPECTED WAIT: {formatQueueWait(expectedWait)}
+                                </p>
+                              )}
+                            </div>
+                          )
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -320,11 +816,12 @@ const Index = () => {
                   </div>
                 ) : availableMatches.length > 0 ? (
                   <div className="space-y-4 max-h-80 overflow-y-auto">
-                    {availableMatches.slice(0, 5).map((matchId) => (
+                    {availableMatches.map((matchId) => (
                       <MatchCard
                         key={matchId}
                         matchId={matchId}
-                        onJoin={() => handleJoinMatch(matchId)}
+                        onJoin={(match, maxStake) => handleJoinMatch(matchId, match, maxStake)}
+                        onJoinWithMove={(match, gesture) => handleJoinWithMove(matchId, match, gesture)}
                       />
                     ))}
                   </div>
@@ -338,12 +835,73 @@ const Index = () => {
                     </p>
                   </div>
                 )}
+                <Pager page={pendingPage} pageCount={pendingPageCount} onChange={setPendingPage} />
               </div>
             </div>
 
-            {hasActiveMatch && availableMatches.length > 0 && (
+            {/* Private challenges addressed to this wallet */}
+            {invites.length > 0 && (
+              <div className="max-w-4xl mx-auto mt-8">
+                <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                  <Mail className="w-5 h-5 text-primary" />
+                  INVITES FOR ME
+                </h3>
+                <div className="grid md:grid-cols-2 gap-4">
+                  {invites.map((id) => (
+                    <MatchCard
+                      key={Number(id)}
+                      matchId={Number(id)}
+                      onJoin={(match, maxStake) => handleJoinMatch(Number(id), match, maxStake)}
+                      onJoinWithMove={(match, gesture) => handleJoinWithMove(Number(id), match, gesture)}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="max-w-4xl mx-auto mt-8 space-y-4">
+              {pendingRewards > 0n && (
+                <RewardsRow
+                  label="ETH"
+                  amount={`${formatEther(pendingRewards)} ETH`}
+                  onClaim={handleClaimRewards}
+                  disabled={isPending}
+                />
+              )}
+              {WAGER_TOKENS.filter((token) => token !== ETH_WAGER_TOKEN).map((token) => (
+                token.confidential
+                  ? <ConfidentialRewardsRow key={token.address} token={token} />
+                  : <TokenRewardsRow key={token.address} token={token} />
+              ))}
+            </div>
+
+            {/* Every match this wallet created or joined */}
+            {myMatchCount > 0 && (
+              <div className="max-w-4xl mx-auto mt-8">
+                <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                  <History className="w-5 h-5 text-accent" />
+                  MY MATCHES ({myMatchCount})
+                </h3>
+                <div className="flex flex-wrap gap-2">
+                  {myMatches.map((id) => (
+                    <Button
+                      key={Number(id)}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => navigate(`/match?id=${Number(id)}`)}
+                      className="pixel-corners font-mono"
+                    >
+                      #{Number(id)}
+                    </Button>
+                  ))}
+                </div>
+                <Pager page={historyPage} pageCount={historyPageCount} onChange={setHistoryPage} />
+              </div>
+            )}
+
+            {atMatchLimit && availableMatches.length > 0 && (
               <p className="text-center text-sm text-muted-foreground mt-4 font-mono">
-                * Complete or cancel your current match to join another *
+                * Finish or cancel one of your matches to join another *
               </p>
             )}
           </div>
@@ -352,7 +910,8 @@ const Index = () => {
 
       {/* Leaderboard Section */}
       <section className="py-20 bg-surface/50">
-        <div className="container mx-auto px-4">
+        <div className="container mx-auto px-4 space-y-12">
+          {isConnected && PRIVATE_STATS_ADDRESS && <PlayerProfile />}
           <Leaderboard />
         </div>
       </section>
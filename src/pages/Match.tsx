@@ -2,49 +2,290 @@
  * Match Page Component
  *
  * Handles Rock Paper Scissors match gameplay with FHE encryption
- * - Creates/joins matches via smart contract
- * - Encrypts moves with FHE before submission
+ * - Creates/joins matches via smart contract, optionally with an ETH or ERC-20 stake
+ * - Plays best-of-N series round by round, tracking the score
+ * - Sends private challenges that only the invited opponent can join
+ * - Shares code-protected matches by link and QR code, joinable in one click
+ * - Encrypts moves with FHE before submission, optionally signing them for a gas-paying relayer
+ * - Lets players user-decrypt their own committed move
+ * - Skips the reveal step when the arena auto-settles on the second move
+ * - Lets joined players mutually abort, or player2 leave before any move is committed
+ * - Finalizes results with the KMS public decryption proof
  * - Displays match state and opponent info
+ * - Switches between the player's concurrent active matches
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate, useSearchParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { Shield, Lock, Zap, Wallet } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Shield, Lock, Zap, Wallet, Clock, Flag, XCircle, Copy, Link2, LogOut } from "lucide-react";
+import { QRCodeSVG } from "qrcode.react";
 import { toast } from "sonner";
 import { useAccount, useWaitForTransactionReceipt, usePublicClient } from "wagmi";
 import { ConnectButton } from "@rainbow-me/rainbowkit";
-import { useRockPaperArena, useMatchData, usePlayerActiveMatch, type Gesture } from "@/hooks/useRockPaperArena";
-import { initializeFHE, isFHEInitialized } from "@/utils/fheInstance";
-import { decodeEventLog } from "viem";
+import { useRockPaperArena, useMatchData, useIsQueuedMatch, useMatchRound, usePlayerActiveMatches, usePlayerStats, useRatingChange, type Gesture, type MatchState, type RuleSet } from "@/hooks/useRockPaperArena";
+import { isGaslessAvailable, useGaslessArena } from "@/hooks/useGaslessArena";
+import { hasUserDecryptSignature, initializeFHE, isFHEInitialized } from "@/utils/fheInstance";
+import { decodeEventLog, isAddress, parseUnits, zeroAddress } from "viem";
 import { RockPaperArenaABI } from "@/contracts/RockPaperArena";
-import { CONTRACT_ADDRESS } from "@/config/wagmi";
+import { CONTRACT_ADDRESS, ETH_WAGER_TOKEN, WAGER_TOKENS } from "@/config/wagmi";
+import { formatStake, getWagerToken } from "@/utils/wagerTokens";
+import { buildInviteLink, generateInviteCode, isInviteCode, loadInviteCode, saveInviteCode } from "@/utils/inviteCodes";
+import { RULE_SETS, getRuleSet } from "@/utils/ruleSets";
 
 type GestureOrNull = Gesture | null;
 
+// Format remaining seconds as mm:ss
+const formatCountdown = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const remainder = seconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${remainder.toString().padStart(2, '0')}`;
+};
+
+const SERIES_LENGTHS = [1, 3, 5, 7];
+
+// Current Elo rating of a player, with the change from this match once it is known
+const RatingLine = ({ player, delta }: { player?: string; delta?: bigint }) => {
+  const { stats } = usePlayerStats(player && player !== zeroAddress ? player : zeroAddress);
+
+  if (!stats) {
+    return null;
+  }
+
+  return (
+    <div className="font-mono text-sm mt-2">
+      <span className="text-muted-foreground">RATING </span>
+      <span className="text-accent font-bold">{stats.rating.toString()}</span>
+      {delta !== undefined && (
+        <span className={delta > 0n ? 'text-green-500' : delta < 0n ? 'text-destructive' : 'text-muted-foreground'}>
+          {' '}({delta > 0n ? '+' : ''}{delta.toString()})
+        </span>
+      )}
+    </div>
+  );
+};
+
+// Series score and the outcome of the last decrypted round
+const RoundTracker = ({ match, isPlayer1 }: { match: MatchState; isPlayer1: boolean }) => {
+  const matchId = Number(match.matchId);
+  const { round: lastRound } = useMatchRound(matchId, match.roundsPlayed);
+
+  const myScore = isPlayer1 ? match.score1 : match.score2;
+  const opponentScore = isPlayer1 ? match.score2 : match.score1;
+  const currentRound = match.state === 3 ? match.roundsPlayed : match.roundsPlayed + 1;
+
+  let lastRoundText = '';
+  if (lastRound && match.roundsPlayed > 0) {
+    if (lastRound.outcome === 0) {
+      lastRoundText = 'DRAW';
+    } else {
+      lastRoundText = (lastRound.outcome === 1) === isPlayer1 ? 'YOU WON' : 'YOU LOST';
+    }
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto mb-8">
+      <div className="neon-border-purple pixel-corners p-4 bg-card text-center font-mono">
+        <div className="text-xs text-muted-foreground">
+          BEST OF {match.bestOf} | ROUND {currentRound}
+        </div>
+        <div className="text-3xl font-bold neon-glow-purple my-2">
+          {myScore} - {opponentScore}
+        </div>
+        <div className="text-xs text-muted-foreground">
+          FIRST TO {Math.floor(match.bestOf / 2) + 1} WINS
+          {lastRoundText && ` | LAST ROUND: ${lastRoundText}`}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Shareable invite link for a code-protected match
+const InviteLinkPanel = ({ matchId }: { matchId: number }) => {
+  const code = loadInviteCode(matchId);
+
+  if (!code) {
+    return (
+      <p className="text-xs text-muted-foreground font-mono mb-4">
+        Invite link not available on this device
+      </p>
+    );
+  }
+
+  const link = buildInviteLink(matchId, code);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(link);
+      toast.success('Invite link copied!');
+    } catch {
+      toast.error('Failed to copy invite link');
+    }
+  };
+
+  return (
+    <div className="mb-4 space-y-4">
+      <div className="inline-block bg-white p-3 pixel-corners">
+        <QRCodeSVG value={link} size={160} />
+      </div>
+      <div className="flex gap-2 max-w-md mx-auto">
+        <Input readOnly value={link} className="font-mono text-xs" />
+        <Button
+          onClick={handleCopy}
+          variant="outline"
+          className="pixel-corners border-2 border-border hover:border-accent font-mono"
+        >
+          <Copy className="w-4 h-4 mr-2" />
+          COPY
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground font-mono">
+        Anyone with this link can join your match
+      </p>
+    </div>
+  );
+};
+
+// Buttons switching between the player's unfinished matches
+const MatchSwitcher = ({ matchIds, currentId, onSelect }: {
+  matchIds: bigint[];
+  currentId: number;
+  onSelect: (matchId: number) => void;
+}) => {
+  if (matchIds.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 mb-8 font-mono text-sm">
+      <span className="text-muted-foreground">YOUR MATCHES:</span>
+      {matchIds.map((id) => (
+        <Button
+          key={Number(id)}
+          size="sm"
+          variant={Number(id) === currentId ? "default" : "outline"}
+          onClick={() => onSelect(Number(id))}
+          className="pixel-corners font-mono"
+        >
+          #{Number(id)}
+        </Button>
+      ))}
+    </div>
+  );
+};
+
+// Ways out of a joined match: mutual abort for both players, leaving for player2 before any commit
+const AbortPanel = ({ match, isPlayer2, leavable, address, disabled, onRequestAbort, onConfirmAbort, onLeave }: {
+  match: MatchState;
+  isPlayer2: boolean;
+  leavable: boolean; // Published by player1 without a confidential stake, not opened by a tournament or the matchmaker
+  address?: string;
+  disabled: boolean;
+  onRequestAbort: () => void;
+  onConfirmAbort: () => void;
+  onLeave: () => void;
+}) => {
+  const abortRequested = match.abortRequestedBy !== zeroAddress;
+  const requestedByMe = abortRequested && match.abortRequestedBy.toLowerCase() === address?.toLowerCase();
+  const canLeave = isPlayer2 && leavable && match.state === 1 && match.roundsPlayed === 0
+    && !match.player1Committed && !match.player2Committed;
+
+  return (
+    <div className="max-w-4xl mx-auto mt-8">
+      <div className="neon-border-purple pixel-corners p-4 bg-card text-center font-mono space-y-3">
+        {requestedByMe ? (
+          <p className="text-xs text-muted-foreground">
+            ABORT REQUESTED | WAITING FOR YOUR OPPONENT TO CONFIRM
+          </p>
+        ) : abortRequested ? (
+          <>
+            <p className="text-xs text-accent">YOUR OPPONENT WANTS TO ABORT | BOTH STAKES WILL BE REFUNDED</p>
+            <Button
+              onClick={onConfirmAbort}
+              disabled={disabled}
+              variant="outline"
+              className="pixel-corners border-destructive text-destructive hover:bg-destructive/10"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              CONFIRM ABORT
+            </Button>
+          </>
+        ) : (
+          <Button
+            onClick={onRequestAbort}
+            disabled={disabled}
+            variant="outline"
+            className="pixel-corners border-2 border-border hover:border-accent"
+          >
+            <XCircle className="w-4 h-4 mr-2" />
+            REQUEST ABORT
+          </Button>
+        )}
+        {canLeave && (
+          <div>
+            <Button
+              onClick={onLeave}
+              disabled={disabled}
+              variant="outline"
+              className="pixel-corners border-destructive text-destructive hover:bg-destructive/10"
+            >
+              <LogOut className="w-4 h-4 mr-2" />
+              LEAVE MATCH
+            </Button>
+            <p className="text-xs text-muted-foreground mt-2">
+              Leaving refunds your stake but counts as an abandoned match
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export default function Match() {
   const navigate = useNavigate();
   const [searchParams] = useSearchParams();
   const matchIdParam = searchParams.get('id');
+  const inviteCodeParam = searchParams.get('code');
 
   console.log('[Match] Component loaded with URL param:', matchIdParam);
 
   const { address, isConnected } = useAccount();
-  const { createChallenge, submitMove, requestReveal, isPending } = useRockPaperArena();
-  const { activeMatchId, hasActiveMatch, isLoading: loadingActiveMatch } = usePlayerActiveMatch();
+  const { createChallenge, createChallengeFor, createChallengeWithCode, acceptChallengeWithCode, createTokenChallenge, createConfidentialChallenge, submitMove, requestReveal, finalizeReveal, decryptMove, claimTimeout, requestAbort, confirmAbort, leaveMatch, autoSettle, isPending } = useRockPaperArena();
+  const { submitMove: submitGaslessMove } = useGaslessArena();
+  const { activeMatchIds, hasActiveMatch, atMatchLimit } = usePlayerActiveMatches();
 
   const [selectedGesture, setSelectedGesture] = useState<GestureOrNull>(null);
   const [isEncrypting, setIsEncrypting] = useState(false);
+  const [gasless, setGasless] = useState(isGaslessAvailable);
   const [isCreatingMatch, setIsCreatingMatch] = useState(false);
+  const [stakeInput, setStakeInput] = useState('');
+  const [stakeTokenAddress, setStakeTokenAddress] = useState<string>(ETH_WAGER_TOKEN.address);
+  const [bestOf, setBestOf] = useState('1');
+  const [ruleSet, setRuleSet] = useState('0');
+  const [opponentInput, setOpponentInput] = useState('');
+  const [pendingInviteCode, setPendingInviteCode] = useState<`0x${string}` | null>(null);
+  const [isJoining, setIsJoining] = useState(false);
+  const [decryptedMoves, setDecryptedMoves] = useState<Record<string, number>>({});
+  const [isDecryptingMove, setIsDecryptingMove] = useState(false);
+  const attemptedMoveDecrypts = useRef(new Set<string>());
+  const [isFinalizing, setIsFinalizing] = useState(false);
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
   const [fheReady, setFheReady] = useState(false);
   const [createTxHash, setCreateTxHash] = useState<`0x${string}` | undefined>();
 
+  const inviteCode = inviteCodeParam && isInviteCode(inviteCodeParam) ? inviteCodeParam : null;
+
   // Use matchIdParam from URL directly, or fall back to 0
   const matchId = matchIdParam ? parseInt(matchIdParam) : 0;
   console.log('[Match] Computed matchId:', matchId);
 
   // Get match data if matchId exists - enable polling to detect opponent joining
   const { match, refetch: refetchMatch } = useMatchData(matchId, matchId > 0);
+  const { isQueued: isQueuedMatch } = useIsQueuedMatch(matchId);
 
   // Watch for transaction confirmation
   const { data: receipt, isSuccess: txSuccess } = useWaitForTransactionReceipt({
@@ -57,12 +298,19 @@ export default function Match() {
   const hasCommitted = isPlayer1 ? match?.player1Committed : (isPlayer2 ? match?.player2Committed : false);
   const opponentCommitted = isPlayer1 ? match?.player2Committed : match?.player1Committed;
   const opponent = isPlayer1 ? match?.player2 : match?.player1;
+  const myMoveHandle = isPlayer1 ? match?.move1 : (isPlayer2 ? match?.move2 : undefined);
+  const { stats: opponentStats } = usePlayerStats(opponent && opponent !== zeroAddress ? opponent : zeroAddress);
+  const { change: ratingChange } = useRatingChange(matchId, match?.state === 3);
+  const myRatingDelta = ratingChange && (isPlayer1 ? ratingChange.delta1 : ratingChange.delta2);
+  const opponentRatingDelta = ratingChange && (isPlayer1 ? ratingChange.delta2 : ratingChange.delta1);
+
+  // Commit deadline starts once player2 joins
+  const commitDeadline = match ? Number(match.commitDeadline) : 0;
+  const secondsLeft = commitDeadline > 0 ? Math.max(0, commitDeadline - now) : null;
+  const deadlinePassed = commitDeadline > 0 && now > commitDeadline;
 
-  const gestures = [
-    { id: 0 as Gesture, name: "ROCK", symbol: "✊", color: "primary" },
-    { id: 1 as Gesture, name: "PAPER", symbol: "✋", color: "accent" },
-    { id: 2 as Gesture, name: "SCISSORS", symbol: "✌️", color: "muted-foreground" },
-  ];
+  // Gesture buttons follow the match's rule set
+  const gestures = getRuleSet(match?.ruleSet ?? 0).gestures;
 
   // Initialize FHE on mount
   useEffect(() => {
@@ -85,23 +333,29 @@ export default function Match() {
     initFHE();
   }, []);
 
-  // If player has active match and no matchId in URL, redirect to that match
+  // Clear the chosen gesture when a series moves on to its next round
+  const roundsPlayed = match?.roundsPlayed ?? 0;
   useEffect(() => {
-    console.log('[Match] Redirect check:', {
-      loadingActiveMatch,
-      hasActiveMatch,
-      matchIdParam,
-      activeMatchId: activeMatchId?.toString(),
-      matchId
-    });
-
-    if (!loadingActiveMatch && hasActiveMatch && !matchIdParam && activeMatchId && activeMatchId !== BigInt(0)) {
-      const activeId = Number(activeMatchId);
-      console.log('[Match] Player has active match:', activeId, 'redirecting...');
-      toast.info(`Redirecting to your active match #${activeId}...`);
-      navigate(`/match?id=${activeId}`, { replace: true });
-    }
-  }, [loadingActiveMatch, hasActiveMatch, activeMatchId, matchIdParam, navigate, matchId]);
+    setSelectedGesture(null);
+  }, [roundsPlayed]);
+
+  // Decrypt our committed move automatically once this session has a decryption signature (e.g. the next round)
+  useEffect(() => {
+    if (!hasCommitted || !myMoveHandle || !address || !fheReady) return;
+    if (attemptedMoveDecrypts.current.has(myMoveHandle)) return;
+    if (!hasUserDecryptSignature(address, CONTRACT_ADDRESS)) return;
+
+    attemptedMoveDecrypts.current.add(myMoveHandle);
+    decryptMove(myMoveHandle)
+      .then((move) => setDecryptedMoves((moves) => ({ ...moves, [myMoveHandle]: move })))
+      .catch((error) => console.error('[Match] Move decryption failed:', error));
+  }, [hasCommitted, myMoveHandle, address, fheReady, decryptMove]);
+
+  // Tick the commit deadline countdown
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
 
   // Handle transaction success and extract matchId from events
   useEffect(() => {
@@ -131,6 +385,12 @@ export default function Match() {
             const newMatchId = Number(decoded.args.matchId);
             console.log('[Match] Created match ID:', newMatchId);
 
+            // Keep the secret code so the creator can share the link
+            if (pendingInviteCode) {
+              saveInviteCode(newMatchId, pendingInviteCode);
+              setPendingInviteCode(null);
+            }
+
             toast.success('Match created! Redirecting to match page...');
             setIsCreatingMatch(false);
 
@@ -145,28 +405,128 @@ export default function Match() {
         setIsCreatingMatch(false);
       }
     }
-  }, [txSuccess, receipt, navigate]);
+  }, [txSuccess, receipt, navigate, pendingInviteCode]);
 
-  // Handle creating new match
-  const handleCreateMatch = async () => {
+  // Handle creating new match, optionally protected by a shareable invite code
+  const handleCreateMatch = async (withInviteCode: boolean = false) => {
     if (!isConnected) {
       toast.error('Please connect wallet first');
       return;
     }
 
+    const stakeToken = getWagerToken(stakeTokenAddress);
+    let stake: bigint;
+    try {
+      stake = stakeInput.trim() ? parseUnits(stakeInput.trim(), stakeToken.decimals) : 0n;
+    } catch {
+      toast.error('Invalid stake amount');
+      return;
+    }
+
+    if (stakeToken !== ETH_WAGER_TOKEN && stake === 0n) {
+      toast.error('Token matches need a stake');
+      return;
+    }
+
+    const seriesLength = Number(bestOf);
+    if (stakeToken !== ETH_WAGER_TOKEN && seriesLength > 1) {
+      toast.error('Series can only be staked in ETH');
+      return;
+    }
+
+    const invitedOpponent = opponentInput.trim();
+    if (invitedOpponent) {
+      if (!isAddress(invitedOpponent)) {
+        toast.error('Invalid opponent address');
+        return;
+      }
+      if (stakeToken !== ETH_WAGER_TOKEN || seriesLength > 1) {
+        toast.error('Invites are single rounds staked in ETH');
+        return;
+      }
+    }
+
+    if (withInviteCode && (invitedOpponent || stakeToken !== ETH_WAGER_TOKEN || seriesLength > 1)) {
+      toast.error('Invite links are open single rounds staked in ETH');
+      return;
+    }
+
+    const variant = Number(ruleSet) as RuleSet;
+    if (variant !== 0 && (withInviteCode || invitedOpponent || stakeToken !== ETH_WAGER_TOKEN)) {
+      toast.error('Rule variants are open matches staked in ETH');
+      return;
+    }
+
     setIsCreatingMatch(true);
     try {
-      const hash = await createChallenge();
+      let hash: `0x${string}` | null;
+      if (withInviteCode) {
+        const { code, signer } = generateInviteCode();
+        setPendingInviteCode(code);
+        hash = await createChallengeWithCode(signer, stake);
+      } else {
+        hash = invitedOpponent
+          ? await createChallengeFor(invitedOpponent as `0x${string}`, stake)
+          : stakeToken === ETH_WAGER_TOKEN
+            ? await createChallenge(stake, seriesLength, variant)
+            : stakeToken.confidential
+              ? await createConfidentialChallenge(stakeToken.address, stake)
+              : await createTokenChallenge(stakeToken.address, stake);
+      }
+
       if (hash) {
         setCreateTxHash(hash);
         toast.info('Waiting for transaction confirmation...');
       }
     } catch (error) {
       console.error('Create match error:', error);
+      setPendingInviteCode(null);
       setIsCreatingMatch(false);
     }
   };
 
+  // Join a code-protected match straight from its invite link
+  const handleJoinWithCode = async () => {
+    if (!match || !inviteCode) {
+      return;
+    }
+
+    if (atMatchLimit) {
+      toast.error('You have reached the maximum number of active matches. Finish or cancel one first.');
+      return;
+    }
+
+    setIsJoining(true);
+    try {
+      await acceptChallengeWithCode(matchId, inviteCode, match.stake);
+
+      setTimeout(async () => {
+        await refetchMatch();
+      }, 2000);
+    } catch (error) {
+      console.error('Join with code error:', error);
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  const handleDecryptMove = async () => {
+    if (!myMoveHandle) {
+      return;
+    }
+
+    setIsDecryptingMove(true);
+    try {
+      const move = await decryptMove(myMoveHandle);
+      setDecryptedMoves((moves) => ({ ...moves, [myMoveHandle]: move }));
+    } catch (error) {
+      console.error('Decrypt move error:', error);
+      toast.error('Failed to decrypt your move');
+    } finally {
+      setIsDecryptingMove(false);
+    }
+  };
+
   const handleGestureSelect = (gesture: Gesture) => {
     console.log('[Match] Gesture select - Address:', address);
     console.log('[Match] Gesture select - Player1:', match?.player1);
@@ -203,13 +563,21 @@ export default function Match() {
     setIsEncrypting(true);
 
     try {
-      // Submit encrypted move to contract
-      await submitMove(matchId, selectedGesture);
+      // Submit encrypted move to contract, or sign it for the relayer to submit
+      await (gasless ? submitGaslessMove : submitMove)(matchId, selectedGesture);
 
       // Refetch match data
       await refetchMatch();
 
       toast.success("ENCRYPTED GESTURE SUBMITTED!");
+
+      // The second move settles the round on auto-settle arenas; poll for the decryption step
+      if (autoSettle && opponentCommitted) {
+        setTimeout(async () => {
+          await refetchMatch();
+          toast.info('Result submitted for decryption...');
+        }, 2000);
+      }
     } catch (error) {
       console.error('Submit error:', error);
     } finally {
@@ -227,10 +595,10 @@ export default function Match() {
       toast.info('Requesting match reveal...');
       await requestReveal(matchId);
 
-      // Refetch match data to show results
+      // Refetch match data to show the awaiting decryption state
       setTimeout(async () => {
         await refetchMatch();
-        toast.success('Match results revealed!');
+        toast.info('Result submitted for decryption...');
       }, 2000);
     } catch (error) {
       console.error('Reveal error:', error);
@@ -238,6 +606,108 @@ export default function Match() {
     }
   };
 
+  const handleFinalize = async () => {
+    if (matchId === 0 || !match) {
+      toast.error("No active match!");
+      return;
+    }
+
+    if (!fheReady) {
+      toast.error("FHE not initialized yet!");
+      return;
+    }
+
+    setIsFinalizing(true);
+
+    try {
+      await finalizeReveal(matchId, match.result);
+
+      // Refetch match data to show results
+      setTimeout(async () => {
+        await refetchMatch();
+        toast.success(match.bestOf > 1 ? 'Round result revealed!' : 'Match results revealed!');
+      }, 2000);
+    } catch (error) {
+      console.error('Finalize error:', error);
+    } finally {
+      setIsFinalizing(false);
+    }
+  };
+
+  const handleClaimTimeout = async () => {
+    if (matchId === 0) {
+      toast.error("No active match!");
+      return;
+    }
+
+    setIsClaiming(true);
+
+    try {
+      await claimTimeout(matchId);
+
+      // Refetch match data to show the outcome
+      setTimeout(async () => {
+        await refetchMatch();
+      }, 2000);
+    } catch (error) {
+      console.error('Claim timeout error:', error);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const handleRequestAbort = async () => {
+    try {
+      await requestAbort(matchId);
+      setTimeout(() => refetchMatch(), 2000);
+    } catch (error) {
+      console.error('Request abort error:', error);
+    }
+  };
+
+  const handleConfirmAbort = async () => {
+    try {
+      await confirmAbort(matchId);
+      setTimeout(() => refetchMatch(), 2000);
+    } catch (error) {
+      console.error('Confirm abort error:', error);
+    }
+  };
+
+  const handleLeave = async () => {
+    try {
+      const hash = await leaveMatch(matchId);
+      if (hash) {
+        setTimeout(() => navigate("/"), 2000);
+      }
+    } catch (error) {
+      console.error('Leave match error:', error);
+    }
+  };
+
+  // The move we just submitted is known locally; otherwise it has to be decrypted
+  const myMove = myMoveHandle && myMoveHandle in decryptedMoves
+    ? decryptedMoves[myMoveHandle]
+    : (hasCommitted ? selectedGesture : null);
+
+  const committedMove = hasCommitted ? (
+    <div className="mt-2 text-xs font-mono">
+      {myMove !== null ? (
+        <span className="text-accent">
+          You committed: {gestures.find((gesture) => gesture.id === myMove)?.name ?? 'INVALID'}
+        </span>
+      ) : (
+        <button
+          onClick={handleDecryptMove}
+          disabled={isDecryptingMove || !fheReady}
+          className="underline text-muted-foreground hover:text-accent"
+        >
+          {isDecryptingMove ? 'DECRYPTING...' : 'SHOW MY MOVE'}
+        </button>
+      )}
+    </div>
+  ) : null;
+
   // Show wallet connect if not connected
   if (!isConnected) {
     return (
@@ -282,24 +752,152 @@ export default function Match() {
       </header>
 
       <main className="container mx-auto px-4 py-12">
+        <MatchSwitcher
+          matchIds={activeMatchIds}
+          currentId={matchId}
+          onSelect={(id) => navigate(`/match?id=${id}`)}
+        />
+
         {/* Waiting for match or no match */}
         {matchId === 0 || !match ? (
           <div className="text-center py-20">
             <div className="inline-block neon-border-pink pixel-corners p-12 bg-card">
               <Zap className="w-16 h-16 mx-auto mb-4 text-primary" />
               <h2 className="text-3xl font-bold neon-glow-pink mb-4">
-                NO ACTIVE MATCH
+                {hasActiveMatch ? 'NEW MATCH' : 'NO ACTIVE MATCH'}
               </h2>
               <p className="text-muted-foreground mb-6 font-mono">
                 Create a new match to start playing
               </p>
+              <div className="mb-6 text-left">
+                <label className="text-xs text-muted-foreground font-mono">
+                  STAKE (OPTIONAL)
+                </label>
+                <div className="flex gap-2 mt-1">
+                  <Select
+                    value={stakeTokenAddress}
+                    onValueChange={setStakeTokenAddress}
+                    disabled={isCreatingMatch}
+                  >
+                    <SelectTrigger className="w-32 font-mono">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WAGER_TOKENS.map((token) => (
+                        <SelectItem key={token.address} value={token.address} className="font-mono">
+                          {token.symbol}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                    <Input
+                    type="number"
+                    min="0"
+                    step="0.001"
+                    placeholder="0.0"
+                    value={stakeInput}
+                    onChange={(e) => setStakeInput(e.target.value)}
+                    disabled={isCreatingMatch}
+                    className="font-mono"
+                  />
+                </div>
+              </div>
+              <div className="mb-6 text-left">
+                <label className="text-xs text-muted-foreground font-mono">
+                  FORMAT
+                </label>
+                <Select value={bestOf} onValueChange={setBestOf} disabled={isCreatingMatch}>
+                  <SelectTrigger className="mt-1 font-mono">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SERIES_LENGTHS.map((length) => (
+                      <SelectItem key={length} value={length.toString()} className="font-mono">
+                        {length === 1 ? 'SINGLE ROUND' : `BEST OF ${length}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="mb-6 text-left">
+                <label className="text-xs text-muted-foreground font-mono">
+                  RULES
+                </label>
+                <Select value={ruleSet} onValueChange={setRuleSet} disabled={isCreatingMatch}>
+                  <SelectTrigger className="mt-1 font-mono">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RULE_SETS.map((rules) => (
+                      <SelectItem key={rules.id} value={rules.id.toString()} className="font-mono">
+                        {rules.name} ({rules.gestures.length} GESTURES)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="mb-6 text-left">
+                <label className="text-xs text-muted-foreground font-mono">
+                  INVITE OPPONENT (OPTIONAL)
+                </label>
+                <Input
+                  placeholder="0x..."
+                  value={opponentInput}
+                  onChange={(e) => setOpponentInput(e.target.value)}
+                  disabled={isCreatingMatch}
+                  className="mt-1 font-mono"
+                />
+              </div>
               <Button
-                onClick={handleCreateMatch}
+                onClick={() => handleCreateMatch()}
                 disabled={isCreatingMatch || !fheReady}
                 className="neon-border-pink pixel-corners bg-primary hover:bg-primary/80 text-primary-foreground font-bold text-xl px-12 py-6"
               >
                 {isCreatingMatch ? 'CREATING...' : 'CREATE MATCH'}
               </Button>
+              <div className="mt-4">
+                <Button
+                  variant="outline"
+                  onClick={() => handleCreateMatch(true)}
+                  disabled={isCreatingMatch || !fheReady}
+                  className="pixel-corners border-2 border-border hover:border-accent font-mono"
+                >
+                  <Link2 className="w-4 h-4 mr-2" />
+                  CREATE INVITE LINK
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : match.state === 1 && match.player2 === zeroAddress && !isPlayer1 && match.inviteCodeSigner !== zeroAddress ? (
+          // Invite link landing - join a code-protected match in one click
+          <div className="text-center py-20">
+            <div className="inline-block neon-border-pink pixel-corners p-12 bg-card">
+              <Link2 className="w-16 h-16 mx-auto mb-4 text-primary" />
+              <h2 className="text-3xl font-bold neon-glow-pink mb-4">
+                YOU'VE BEEN CHALLENGED
+              </h2>
+              <p className="text-muted-foreground font-mono mb-2">
+                Match ID: {matchId}
+              </p>
+              <p className="text-muted-foreground font-mono mb-4">
+                From: {match.player1.slice(0, 6)}...{match.player1.slice(-4)}
+              </p>
+              <p className="text-primary font-mono mb-6">
+                Stake: {match.stake > 0n ? formatStake(match.stake, match.stakeToken) : 'FREE'}
+              </p>
+              {inviteCode ? (
+                <Button
+                  onClick={handleJoinWithCode}
+                  disabled={isJoining || isPending}
+                  className="neon-border-pink pixel-corners bg-primary hover:bg-primary/80 text-primary-foreground font-bold text-xl px-12 py-6"
+                >
+                  {isJoining ? 'JOINING...' : 'ACCEPT CHALLENGE'}
+                </Button>
+              ) : (
+                <p className="text-destructive font-mono">
+                  This match can only be joined with its invite link
+                </p>
+              )}
             </div>
           </div>
         ) : match.state === 1 && match.player2 === '0x0000000000000000000000000000000000000000' ? (
@@ -313,6 +911,34 @@ export default function Match() {
               <p className="text-muted-foreground font-mono mb-4">
                 Match ID: {matchId}
               </p>
+              {isPlayer1 && match.inviteCodeSigner !== zeroAddress && (
+                <InviteLinkPanel matchId={matchId} />
+              )}
+              {match.invitedOpponent !== zeroAddress && (
+                <p className="text-accent font-mono mb-4">
+                  Invite sent to {match.invitedOpponent.slice(0, 6)}...{match.invitedOpponent.slice(-4)}
+                </p>
+              )}
+              {match.bestOf > 1 && (
+                <p className="text-accent font-mono mb-4">
+                  Best of {match.bestOf}
+                </p>
+              )}
+              {match.ruleSet !== 0 && (
+                <p className="text-accent font-mono mb-4">
+                  Rules: {getRuleSet(match.ruleSet).name}
+                </p>
+              )}
+              {match.stake > 0n && (
+                <p className="text-primary font-mono mb-4">
+                  Stake: {formatStake(match.stake, match.stakeToken)}
+                </p>
+              )}
+              {match.confidentialToken !== zeroAddress && (
+                <p className="text-primary font-mono mb-4">
+                  Stake: encrypted {getWagerToken(match.confidentialToken).symbol}
+                </p>
+              )}
               <p className="text-xs text-muted-foreground font-mono mb-2">
                 State: {match.state} | Player2: {match.player2.slice(0, 10)}...
               </p>
@@ -323,9 +949,31 @@ export default function Match() {
               </div>
             </div>
           </div>
+        ) : match.state === 4 ? (
+          // Match cancelled or voided after the commit deadline
+          <div className="text-center py-20">
+            <div className="inline-block neon-border-pink pixel-corners p-12 bg-card">
+              <XCircle className="w-16 h-16 mx-auto mb-4 text-muted-foreground" />
+              <h2 className="text-3xl font-bold neon-glow-pink mb-4">
+                MATCH CANCELLED
+              </h2>
+              <p className="text-muted-foreground font-mono mb-6">
+                Match ID: {matchId}
+              </p>
+              <Button
+                onClick={() => navigate('/')}
+                className="neon-border-pink pixel-corners bg-primary hover:bg-primary/80 text-primary-foreground font-bold text-xl px-12 py-6"
+              >
+                RETURN TO LOBBY
+              </Button>
+            </div>
+          </div>
         ) : match.state === 3 ? (
           // Match revealed - show results
           <>
+            {/* Series score */}
+            {match.bestOf > 1 && <RoundTracker match={match} isPlayer1={isPlayer1} />}
+
             {/* Versus Layout */}
             <div className="grid md:grid-cols-3 gap-8 mb-12">
               {/* Player */}
@@ -336,6 +984,7 @@ export default function Match() {
                   <div className="font-mono text-sm text-muted-foreground">
                     {address ? `${address.slice(0, 6)}...${address.slice(-4)}` : ''}
                   </div>
+                  <RatingLine player={address} delta={myRatingDelta} />
                 </div>
               </div>
 
@@ -354,6 +1003,7 @@ export default function Match() {
                   <div className="font-mono text-sm text-muted-foreground">
                     {opponent ? `${opponent.slice(0, 6)}...${opponent.slice(-4)}` : 'Waiting...'}
                   </div>
+                  <RatingLine player={opponent} delta={opponentRatingDelta} />
                 </div>
               </div>
             </div>
@@ -402,6 +1052,30 @@ export default function Match() {
                   </div>
                 )}
 
+                {/* Pot info */}
+                {match.stake > 0n && (
+                  <div className="text-center mb-6">
+                    <p className="text-sm text-primary font-mono">
+                      {match.winner === '0x0000000000000000000000000000000000000000'
+                        ? `Stakes of ${formatStake(match.stake, match.stakeToken)} returned to both players`
+                        : `Pot: ${formatStake(match.stake * 2n, match.stakeToken)} credited to the winner`}
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono mt-1">
+                      Claim your rewards from the lobby
+                    </p>
+                  </div>
+                )}
+                {match.confidentialToken !== zeroAddress && (
+                  <div className="text-center mb-6">
+                    <p className="text-sm text-primary font-mono">
+                      Encrypted {getWagerToken(match.confidentialToken).symbol} pot settled privately
+                    </p>
+                    <p className="text-xs text-muted-foreground font-mono mt-1">
+                      Claim your rewards from the lobby
+                    </p>
+                  </div>
+                )}
+
                 {/* Play again button */}
                 <div className="text-center">
                   <Button
@@ -414,9 +1088,101 @@ export default function Match() {
               </div>
             </div>
           </>
+        ) : match.state === 5 ? (
+          // Result computed - awaiting public decryption proof
+          <>
+            {/* Series score */}
+            {match.bestOf > 1 && <RoundTracker match={match} isPlayer1={isPlayer1} />}
+
+            {/* Versus Layout */}
+            <div className="grid md:grid-cols-3 gap-8 mb-12">
+              {/* Player */}
+              <div className="text-center">
+                <div className="neon-border-purple pixel-corners p-6 bg-card">
+                  <h3 className="text-xl font-bold neon-glow-purple mb-2">YOU</h3>
+                  <div className="text-6xl mb-2">🎮</div>
+                  <div className="font-mono text-sm text-muted-foreground">
+                    {address ? `${address.slice(0, 6)}...${address.slice(-4)}` : ''}
+                  </div>
+                  <div className="mt-4 p-2 bg-background border-2 border-primary">
+                    <Lock className="w-6 h-6 mx-auto text-primary" />
+                    <div className="text-xs text-primary mt-1">COMMITTED</div>
+                  </div>
+                  {committedMove}
+                </div>
+              </div>
+
+              {/* VS */}
+              <div className="flex items-center justify-center">
+                <div className="text-6xl font-bold neon-glow-pink flicker">
+                  VS
+                </div>
+              </div>
+
+              {/* Opponent */}
+              <div className="text-center">
+                <div className="neon-border-purple pixel-corners p-6 bg-card">
+                  <h3 className="text-xl font-bold neon-glow-purple mb-2">OPPONENT</h3>
+                  <div className="text-6xl mb-2">👾</div>
+                  <div className="font-mono text-sm text-muted-foreground">
+                    {opponent ? `${opponent.slice(0, 6)}...${opponent.slice(-4)}` : 'Waiting...'}
+                  </div>
+                  <div className="mt-4 p-2 bg-background border-2 border-accent">
+                    <Lock className="w-6 h-6 mx-auto text-accent" />
+                    <div className="text-xs text-accent mt-1">COMMITTED</div>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            {/* Decryption Section */}
+            <div className="max-w-4xl mx-auto">
+              <div className="neon-border-pink pixel-corners p-8 bg-card">
+                <h2 className="text-2xl font-bold text-center mb-6 neon-glow-pink">
+                  [ AWAITING DECRYPTION ]
+                </h2>
+
+                <div className="text-center mb-6">
+                  <p className="text-muted-foreground font-mono mb-4">
+                    The encrypted result is ready for public decryption by the KMS.
+                  </p>
+                  <p className="text-accent font-mono">
+                    Submit the decryption proof to record the winner on-chain
+                  </p>
+                </div>
+
+                <div className="text-center">
+                  <Button
+                    onClick={handleFinalize}
+                    disabled={isFinalizing || isPending || !fheReady}
+                    className="neon-border-pink pixel-corners bg-accent hover:bg-accent/80 text-accent-foreground font-bold text-xl px-12 py-6"
+                  >
+                    {isFinalizing ? (
+                      <>
+                        <Lock className="w-5 h-5 mr-2 animate-pulse" />
+                        DECRYPTING...
+                      </>
+                    ) : (
+                      <>
+                        <Zap className="w-5 h-5 mr-2" />
+                        FINALIZE RESULT
+                      </>
+                    )}
+                  </Button>
+                </div>
+
+                <div className="mt-6 text-center text-xs text-muted-foreground font-mono">
+                  &gt; THE RESULT UPDATES AUTOMATICALLY ONCE EITHER PLAYER SUBMITS THE PROOF &lt;
+                </div>
+              </div>
+            </div>
+          </>
         ) : match.state === 2 ? (
           // Both committed - show reveal button
           <>
+            {/* Series score */}
+            {match.bestOf > 1 && <RoundTracker match={match} isPlayer1={isPlayer1} />}
+
             {/* Versus Layout */}
             <div className="grid md:grid-cols-3 gap-8 mb-12">
               {/* Player */}
@@ -431,6 +1197,7 @@ export default function Match() {
                     <Lock className="w-6 h-6 mx-auto text-primary" />
                     <div className="text-xs text-primary mt-1">COMMITTED</div>
                   </div>
+                  {committedMove}
                 </div>
               </div>
 
@@ -501,6 +1268,9 @@ export default function Match() {
           </>
         ) : (
           <>
+            {/* Series score */}
+            {match.bestOf > 1 && <RoundTracker match={match} isPlayer1={isPlayer1} />}
+
             {/* Versus Layout */}
             <div className="grid md:grid-cols-3 gap-8 mb-12">
               {/* Player */}
@@ -517,6 +1287,7 @@ export default function Match() {
                       <div className="text-xs text-primary mt-1">COMMITTED</div>
                     </div>
                   )}
+                  {committedMove}
                 </div>
               </div>
 
@@ -535,6 +1306,11 @@ export default function Match() {
                   <div className="font-mono text-sm text-muted-foreground">
                     {opponent ? `${opponent.slice(0, 6)}...${opponent.slice(-4)}` : 'Waiting...'}
                   </div>
+                  {opponentStats && opponentStats.abandoned > 0n && (
+                    <div className="text-xs text-destructive font-mono mt-1">
+                      ABANDONED {opponentStats.abandoned.toString()} MATCH{opponentStats.abandoned === 1n ? '' : 'ES'}
+                    </div>
+                  )}
                   {opponentCommitted && (
                     <div className="mt-4 p-2 bg-background border-2 border-accent">
                       <Lock className="w-6 h-6 mx-auto text-accent" />
@@ -551,8 +1327,45 @@ export default function Match() {
                 <h2 className="text-2xl font-bold text-center mb-8 neon-glow-pink">
                   [ SELECT YOUR GESTURE ]
                 </h2>
+                {match.ruleSet !== 0 && (
+                  <p className="text-center text-accent font-mono -mt-6 mb-8">
+                    RULES: {getRuleSet(match.ruleSet).name}
+                  </p>
+                )}
 
-                <div className="grid grid-cols-3 gap-6 mb-8">
+                {/* Commit deadline */}
+                {secondsLeft !== null && (
+                  <div className="text-center mb-8">
+                    {deadlinePassed ? (
+                      <div className="space-y-4">
+                        <p className="text-destructive font-mono font-bold">
+                          COMMIT DEADLINE PASSED
+                        </p>
+                        {!opponentCommitted ? (
+                          <Button
+                            onClick={handleClaimTimeout}
+                            disabled={isClaiming || isPending}
+                            className="neon-border-pink pixel-corners bg-accent hover:bg-accent/80 text-accent-foreground font-bold text-lg px-8 py-4"
+                          >
+                            <Flag className="w-5 h-5 mr-2" />
+                            {isClaiming ? 'CLAIMING...' : hasCommitted ? 'CLAIM FORFEIT' : 'VOID MATCH'}
+                          </Button>
+                        ) : (
+                          <p className="text-xs text-muted-foreground font-mono">
+                            Your opponent committed in time and may claim the win
+                          </p>
+                        )}
+                      </div>
+                    ) : (
+                      <div className="inline-flex items-center gap-2 font-mono text-accent">
+                        <Clock className="w-4 h-4" />
+                        COMMIT DEADLINE: {formatCountdown(secondsLeft)}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className={`grid gap-6 mb-8 ${gestures.length > 3 ? 'grid-cols-3 md:grid-cols-5' : 'grid-cols-3'}`}>
                   {gestures.map((gesture) => (
                     <button
                       key={gesture.id}
@@ -579,7 +1392,7 @@ export default function Match() {
                 <div className="text-center space-y-4">
                   <Button
                     onClick={handleEncryptAndSubmit}
-                    disabled={selectedGesture === null || isEncrypting}
+                    disabled={selectedGesture === null || isEncrypting || deadlinePassed}
                     className="neon-border-pink pixel-corners bg-primary hover:bg-primary/80 text-primary-foreground font-bold text-xl px-12 py-6 w-full md:w-auto"
                   >
                     {isEncrypting ? (
@@ -598,12 +1411,37 @@ export default function Match() {
                   <div className="text-xs text-muted-foreground font-mono">
                     &gt; YOUR MOVE WILL BE ENCRYPTED WITH FHE BEFORE SUBMISSION &lt;
                   </div>
+                  {isGaslessAvailable && (
+                    <label className="flex items-center justify-center gap-2 text-xs text-muted-foreground font-mono">
+                      <Switch checked={gasless} disabled={isEncrypting} onCheckedChange={setGasless} />
+                      GASLESS: SIGN THE MOVE, A RELAYER PAYS THE GAS
+                    </label>
+                  )}
+                  {autoSettle && (
+                    <div className="text-xs text-muted-foreground font-mono">
+                      &gt; THE RESULT IS REQUESTED AS SOON AS BOTH MOVES ARE IN &lt;
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
           </>
         )}
 
+        {/* Abort / leave options for joined matches */}
+        {match && match.player2 !== zeroAddress && (isPlayer1 || isPlayer2) && (match.state === 1 || match.state === 2) && (
+          <AbortPanel
+            match={match}
+            isPlayer2={isPlayer2}
+            leavable={match.manager === zeroAddress && match.confidentialToken === zeroAddress && !isQueuedMatch}
+            address={address}
+            disabled={isPending}
+            onRequestAbort={handleRequestAbort}
+            onConfirmAbort={handleConfirmAbort}
+            onLeave={handleLeave}
+          />
+        )}
+
         {/* Back button */}
         <div className="text-center mt-8">
           <Button
@@ -0,0 +1,587 @@
+/**
+ * Tournaments Page - Single-elimination brackets
+ *
+ * Lets players open brackets, register, follow the bracket round by round
+ * and jump into their bracket matches in the arena
+ */
+
+import { useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Shield, Trophy, Users, Coins, Play, XCircle, Crown, Swords, Flag } from "lucide-react";
+import { ConnectButton } from "@rainbow-me/rainbowkit";
+import { useAccount } from "wagmi";
+import { formatEther, parseEther, zeroAddress } from "viem";
+import { TOURNAMENT_ADDRESS } from "@/config/wagmi";
+import {
+  BRACKET_SIZES,
+  useTournament,
+  useTournamentBracket,
+  useTournamentCount,
+  useTournamentData,
+  useTournamentEntrants,
+  usePendingPrizes,
+  type BracketMatch,
+} from "@/hooks/useTournament";
+import { toast } from "sonner";
+
+const SERIES_LENGTHS = [1, 3, 5, 7];
+
+// Number of most recent tournaments listed
+const RECENT_TOURNAMENTS = 10;
+
+const stateLabels: Record<number, string> = {
+  0: 'NONE',
+  1: 'REGISTRATION',
+  2: 'RUNNING',
+  3: 'COMPLETED',
+  4: 'CANCELLED'
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/**
+ * Split the flat bracket into rounds: round r starts at index size - size / 2^r
+ */
+function splitRounds(bracket: BracketMatch[], size: number) {
+  const rounds: { start: number; pairings: BracketMatch[] }[] = [];
+  let start = 0;
+  for (let count = size / 2; count >= 1; count /= 2) {
+    rounds.push({ start, pairings: bracket.slice(start, start + count) });
+    start += count;
+  }
+  return rounds;
+}
+
+function roundLabel(round: number, totalRounds: number) {
+  const fromEnd = totalRounds - round;
+  if (fromEnd === 1) return 'FINAL';
+  if (fromEnd === 2) return 'SEMI-FINALS';
+  if (fromEnd === 3) return 'QUARTER-FINALS';
+  return `ROUND ${round + 1}`;
+}
+
+// One tournament in the list
+const TournamentCard = ({ tournamentId, selected, onSelect }: {
+  tournamentId: number;
+  selected: boolean;
+  onSelect: () => void;
+}) => {
+  const { address } = useAccount();
+  const { tournament, isLoading, refetch } = useTournamentData(tournamentId);
+  const { entrants, refetch: refetchEntrants } = useTournamentEntrants(tournamentId);
+  const { register, cancelTournament, isPending } = useTournament();
+
+  if (isLoading || !tournament) {
+    return (
+      <div className="neon-border-purple pixel-corners p-4 bg-card animate-pulse">
+        <div className="h-20 bg-muted rounded"></div>
+      </div>
+    );
+  }
+
+  const isRegistered = !!address && entrants.some((entrant) => entrant.toLowerCase() === address.toLowerCase());
+  const isOrganizer = !!address && tournament.organizer.toLowerCase() === address.toLowerCase();
+  const isOpen = tournament.state === 1;
+
+  const handleRegister = async () => {
+    try {
+      await register(tournamentId, tournament.entryFee);
+      setTimeout(() => {
+        refetch();
+        refetchEntrants();
+      }, 2000);
+    } catch (error) {
+      console.error('Register error:', error);
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await cancelTournament(tournamentId);
+      setTimeout(() => refetch(), 2000);
+    } catch (error) {
+      console.error('Cancel tournament error:', error);
+    }
+  };
+
+  return (
+    <div
+      className={`${selected ? 'neon-border-pink' : 'neon-border-purple'} pixel-corners p-4 bg-card cursor-pointer hover:bg-card/80 transition-colors`}
+      onClick={onSelect}
+    >
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <span className="text-xs text-muted-foreground font-mono">TOURNAMENT</span>
+          <h4 className="text-xl font-bold neon-glow-pink">#{tournamentId}</h4>
+        </div>
+        <span className={`px-2 py-1 text-xs font-mono ${
+          tournament.state === 1 ? 'bg-yellow-500/20 text-yellow-500' :
+          tournament.state === 2 ? 'bg-blue-500/20 text-blue-500' :
+          tournament.state === 3 ? 'bg-green-500/20 text-green-500' :
+          'bg-muted text-muted-foreground'
+        }`}>
+          {stateLabels[tournament.state] || 'UNKNOWN'}
+        </span>
+      </div>
+
+      <div className="space-y-2 text-sm font-mono mb-4">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Players:</span>
+          <span className="text-accent">{entrants.length} / {tournament.size}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Format:</span>
+          <span className="text-accent">{tournament.bestOf === 1 ? 'SINGLE ROUND' : `BEST OF ${tournament.bestOf}`}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Entry fee:</span>
+          <span className="text-primary">{tournament.entryFee > 0n ? `${formatEther(tournament.entryFee)} ETH` : 'FREE'}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Prize pool:</span>
+          <span className="text-primary">{formatEther(tournament.prizePool)} ETH</span>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="flex gap-2" onClick={(e) => e.stopPropagation()}>
+          {!isRegistered && (
+            <Button
+              onClick={handleRegister}
+              disabled={isPending}
+              className="flex-1 neon-border-pink pixel-corners bg-primary hover:bg-primary/80"
+            >
+              <Users className="w-4 h-4 mr-2" />
+              REGISTER
+            </Button>
+          )}
+          {isRegistered && (
+            <span className="flex-1 text-center text-sm text-accent font-mono py-2">
+              REGISTERED
+            </span>
+          )}
+          {isOrganizer && (
+            <Button
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isPending}
+              className="pixel-corners border-2 border-destructive text-destructive hover:bg-destructive/10"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              CANCEL
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// One pairing in the bracket view
+const PairingCard = ({ tournamentId, index, pairing, running }: {
+  tournamentId: number;
+  index: number;
+  pairing: BracketMatch;
+  running: boolean;
+}) => {
+  const navigate = useNavigate();
+  const { address } = useAccount();
+  const { startMatch, claimWalkover, isPending } = useTournament();
+
+  const isMe = (player: string) => !!address && player.toLowerCase() === address.toLowerCase();
+  const isPlayer = isMe(pairing.player1) || isMe(pairing.player2);
+  const bothSeated = pairing.player1 !== zeroAddress && pairing.player2 !== zeroAddress;
+  const canStart = running && bothSeated && !pairing.decided && pairing.arenaMatchId === 0n;
+  const canClaimWalkover = canStart && pairing.startDeadline > 0n &&
+    BigInt(Math.floor(Date.now() / 1000)) >= pairing.startDeadline;
+
+  const renderPlayer = (player: `0x${string}`) => {
+    if (player === zeroAddress) {
+      return <span className="text-muted-foreground">{pairing.decided ? 'BYE' : 'TBD'}</span>;
+    }
+
+    const won = pairing.decided && pairing.winner === player;
+    const lost = pairing.decided && pairing.winner !== player;
+    return (
+      <span className={won ? 'text-green-500 font-bold' : lost ? 'text-muted-foreground line-through' : 'text-accent'}>
+        {shortAddress(player)}{isMe(player) && ' (YOU)'}
+      </span>
+    );
+  };
+
+  const handleStart = async () => {
+    try {
+      await startMatch(tournamentId, index);
+    } catch (error) {
+      console.error('Start bracket match error:', error);
+    }
+  };
+
+  const handleWalkover = async () => {
+    try {
+      await claimWalkover(tournamentId, index);
+    } catch (error) {
+      console.error('Claim walkover error:', error);
+    }
+  };
+
+  return (
+    <div className={`${isPlayer ? 'neon-border-pink' : 'neon-border-purple'} pixel-corners p-3 bg-card font-mono text-sm space-y-1`}>
+      <div>{renderPlayer(pairing.player1)}</div>
+      <div className="text-xs text-muted-foreground">VS</div>
+      <div>{renderPlayer(pairing.player2)}</div>
+
+      {pairing.arenaMatchId > 0n && !pairing.decided && (
+        <Button
+          size="sm"
+          onClick={() => navigate(`/match?id=${Number(pairing.arenaMatchId)}`)}
+          className="w-full mt-2 neon-border-pink pixel-corners bg-primary hover:bg-primary/80"
+        >
+          <Play className="w-3 h-3 mr-1" />
+          {isPlayer ? 'PLAY' : 'WATCH'} #{Number(pairing.arenaMatchId)}
+        </Button>
+      )}
+      {canStart && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleStart}
+          disabled={isPending}
+          className="w-full mt-2 pixel-corners border-2 border-border hover:border-accent"
+        >
+          <Swords className="w-3 h-3 mr-1" />
+          START MATCH
+        </Button>
+      )}
+      {canClaimWalkover && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={handleWalkover}
+          disabled={isPending}
+          className="w-full mt-2 pixel-corners border-2 border-border hover:border-accent"
+        >
+          <Flag className="w-3 h-3 mr-1" />
+          CLAIM WALKOVER
+        </Button>
+      )}
+    </div>
+  );
+};
+
+// Bracket of the selected tournament, one column per round
+const BracketView = ({ tournamentId }: { tournamentId: number }) => {
+  const { tournament } = useTournamentData(tournamentId, true);
+  const { bracket } = useTournamentBracket(tournamentId, true);
+
+  if (!tournament) {
+    return null;
+  }
+
+  if (tournament.state === 1 || tournament.state === 4) {
+    return (
+      <div className="neon-border-purple pixel-corners p-6 bg-card text-center">
+        <p className="text-muted-foreground font-mono">
+          {tournament.state === 1
+            ? 'The bracket is drawn once every seat is taken'
+            : 'This tournament was cancelled'}
+        </p>
+      </div>
+    );
+  }
+
+  const rounds = splitRounds(bracket, tournament.size);
+
+  return (
+    <div className="space-y-6">
+      {tournament.state === 3 && (
+        <div className="neon-border-pink pixel-corners p-6 bg-card text-center font-mono">
+          <Crown className="w-10 h-10 mx-auto mb-2 text-primary" />
+          <p className="text-muted-foreground text-sm">CHAMPION</p>
+          <p className="text-2xl font-bold neon-glow-pink">
+            {tournament.champion !== zeroAddress ? shortAddress(tournament.champion) : 'NONE'}
+          </p>
+          {tournament.runnerUp !== zeroAddress && (
+            <p className="text-sm text-accent mt-2">RUNNER-UP: {shortAddress(tournament.runnerUp)}</p>
+          )}
+        </div>
+      )}
+
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {rounds.map((round, r) => (
+          <div key={round.start} className="flex-1 min-w-[180px] flex flex-col">
+            <h4 className="text-sm font-bold text-center mb-3 text-accent font-mono">
+              {roundLabel(r, rounds.length)}
+            </h4>
+            <div className="flex flex-col justify-around gap-4 flex-1">
+              {round.pairings.map((pairing, i) => (
+                <PairingCard
+                  key={round.start + i}
+                  tournamentId={tournamentId}
+                  index={round.start + i}
+                  pairing={pairing}
+                  running={tournament.state === 2}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const Tournaments = () => {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { isConnected } = useAccount();
+  const { count, refetch: refetchCount } = useTournamentCount();
+  const { pendingPrizes, refetch: refetchPrizes } = usePendingPrizes();
+  const { createTournament, claimPrizes, isPending } = useTournament();
+
+  const [size, setSize] = useState('4');
+  const [bestOf, setBestOf] = useState('1');
+  const [entryFeeInput, setEntryFeeInput] = useState('');
+  const [sponsorInput, setSponsorInput] = useState('');
+
+  const selectedId = Number(searchParams.get('id') || 0);
+
+  const recentIds = Array.from(
+    { length: Math.min(count, RECENT_TOURNAMENTS) },
+    (_, i) => count - i
+  );
+
+  const handleCreate = async () => {
+    let entryFee: bigint;
+    let sponsorPot: bigint;
+    try {
+      entryFee = parseEther(entryFeeInput.trim() || '0');
+      sponsorPot = parseEther(sponsorInput.trim() || '0');
+    } catch {
+      toast.error('Invalid amount');
+      return;
+    }
+
+    try {
+      await createTournament(Number(size), entryFee, Number(bestOf), sponsorPot);
+      setEntryFeeInput('');
+      setSponsorInput('');
+      setTimeout(async () => {
+        const { data } = await refetchCount();
+        if (data !== undefined) {
+          setSearchParams({ id: data.toString() });
+        }
+      }, 2000);
+    } catch (error) {
+      console.error('Create tournament error:', error);
+    }
+  };
+
+  const handleClaimPrizes = async () => {
+    try {
+      await claimPrizes();
+      setTimeout(() => refetchPrizes(), 2000);
+    } catch (error) {
+      console.error('Claim prizes error:', error);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background scanlines">
+      {/* Header */}
+      <header className="border-b-4 border-primary p-4 bg-surface">
+        <div className="container mx-auto flex justify-between items-center">
+          <h1
+            className="text-2xl md:text-3xl font-bold neon-glow-pink cursor-pointer"
+            onClick={() => navigate("/")}
+          >
+            [ ROCKPAPERFHE ]
+          </h1>
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <Shield className="w-4 h-4 text-accent" />
+              <span className="font-mono text-muted-foreground hidden md:inline">
+                FHE PROTECTED
+              </span>
+            </div>
+            <ConnectButton />
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-12">
+        <h2 className="text-3xl font-bold text-center mb-8 neon-glow-pink">
+          [ TOURNAMENTS ]
+        </h2>
+
+        {!TOURNAMENT_ADDRESS ? (
+          <div className="max-w-xl mx-auto neon-border-purple pixel-corners p-6 bg-card text-center">
+            <p className="text-muted-foreground font-mono">
+              Tournaments are not deployed on this network
+            </p>
+          </div>
+        ) : (
+          <div className="grid lg:grid-cols-3 gap-8">
+            <div className="space-y-8">
+              {/* Create */}
+              {isConnected && (
+                <div className="neon-border-pink pixel-corners p-6 bg-card">
+                  <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                    <Trophy className="w-5 h-5 text-primary" />
+                    NEW BRACKET
+                  </h3>
+                  <div className="space-y-4">
+                    <div>
+                      <label className="text-xs text-muted-foreground font-mono">PLAYERS</label>
+                      <Select value={size} onValueChange={setSize} disabled={isPending}>
+                        <SelectTrigger className="mt-1 font-mono">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BRACKET_SIZES.map((bracketSize) => (
+                            <SelectItem key={bracketSize} value={bracketSize.toString()} className="font-mono">
+                              {bracketSize} PLAYERS
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground font-mono">FORMAT</label>
+                      <Select value={bestOf} onValueChange={setBestOf} disabled={isPending}>
+                        <SelectTrigger className="mt-1 font-mono">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SERIES_LENGTHS.map((length) => (
+                            <SelectItem key={length} value={length.toString()} className="font-mono">
+                              {length === 1 ? 'SINGLE ROUND' : `BEST OF ${length}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground font-mono">ENTRY FEE (ETH)</label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        placeholder="0.0"
+                        value={entryFeeInput}
+                        onChange={(e) => setEntryFeeInput(e.target.value)}
+                        disabled={isPending}
+                        className="mt-1 font-mono"
+                      />
+                    </div>
+                    <div>
+                      <label className="text-xs text-muted-foreground font-mono">SPONSOR POT (ETH, OPTIONAL)</label>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.001"
+                        placeholder="0.0"
+                        value={sponsorInput}
+                        onChange={(e) => setSponsorInput(e.target.value)}
+                        disabled={isPending}
+                        className="mt-1 font-mono"
+                      />
+                    </div>
+                    <Button
+                      onClick={handleCreate}
+                      disabled={isPending}
+                      className="w-full neon-border-pink pixel-corners bg-primary hover:bg-primary/80 text-primary-foreground font-bold"
+                    >
+                      {isPending ? 'CREATING...' : 'CREATE TOURNAMENT'}
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              {pendingPrizes > 0n && (
+                <div className="neon-border-purple pixel-corners p-4 bg-card flex justify-between items-center">
+                  <div className="flex items-center gap-2 font-mono">
+                    <Coins className="w-5 h-5 text-primary" />
+                    <span className="text-muted-foreground">PRIZES:</span>
+                    <span className="text-primary font-bold">{formatEther(pendingPrizes)} ETH</span>
+                  </div>
+                  <Button
+                    onClick={handleClaimPrizes}
+                    disabled={isPending}
+                    className="neon-border-pink pixel-corners bg-primary hover:bg-primary/80"
+                  >
+                    CLAIM
+                  </Button>
+                </div>
+              )}
+
+              {/* Recent tournaments */}
+              <div>
+                <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                  <Users className="w-5 h-5 text-accent" />
+                  RECENT TOURNAMENTS
+                </h3>
+                {recentIds.length > 0 ? (
+                  <div className="space-y-4">
+                    {recentIds.map((id) => (
+                      <TournamentCard
+                        key={id}
+                        tournamentId={id}
+                        selected={id === selectedId}
+                        onSelect={() => setSearchParams({ id: id.toString() })}
+                      />
+                    ))}
+                  </div>
+                ) : (
+                  <div className="neon-border-purple pixel-corners p-6 bg-card text-center">
+                    <p className="text-muted-foreground font-mono">
+                      No tournaments yet
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+
+            {/* Bracket */}
+            <div className="lg:col-span-2">
+              <h3 className="text-xl font-bold mb-4 flex items-center gap-2">
+                <Swords className="w-5 h-5 text-primary" />
+                {selectedId > 0 ? `BRACKET #${selectedId}` : 'BRACKET'}
+              </h3>
+              {selectedId > 0 ? (
+                <BracketView tournamentId={selectedId} />
+              ) : (
+                <div className="neon-border-purple pixel-corners p-6 bg-card text-center">
+                  <p className="text-muted-foreground font-mono">
+                    Select a tournament to view its bracket
+                  </p>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="text-center mt-12">
+          <Button
+            variant="outline"
+            onClick={() => navigate("/")}
+            className="pixel-corners border-2 border-border hover:border-accent font-mono"
+          >
+            &lt; RETURN TO LOBBY
+          </Button>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Tournaments;
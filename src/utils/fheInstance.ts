@@ -114,6 +114,7 @@ export async function initializeFHE(provider?: any): Promise<any> {
  */
 export function resetFheInstance(): void {
   fheInstance = null;
+  userDecryptCredentials.clear();
   isInitializing = false;
   initializationPromise = null;
 }
@@ -200,6 +201,212 @@ export async function encryptUint8(
   }
 }
 
+/**
+ * Encrypt a uint64 value
+ * Used for confidential stake amounts
+ *
+ * @param value - Value to encrypt (0 to 2^64-1)
+ * @param contractAddress - Target contract address
+ * @param userAddress - User wallet address
+ * @returns Object containing handle and inputProof
+ */
+export async function encryptUint64(
+  value: bigint,
+  contractAddress: string,
+  userAddress: string
+): Promise<{ handle: string; inputProof: string }> {
+  console.log('[FHE] Encrypting uint64 value');
+
+  if (value < 0n || value >= 2n ** 64n) {
+    throw new Error('Value must be between 0 and 2^64-1');
+  }
+
+  if (!fheInstance) {
+    throw new Error('FHE not initialized');
+  }
+
+  try {
+    // Create encrypted input
+    const input = fheInstance.createEncryptedInput(contractAddress, userAddress);
+
+    // Add uint64 value
+    input.add64(value);
+
+    // Encrypt and get handles + proof
+    const encrypted = await input.encrypt();
+
+    console.log('[FHE] Encryption successful');
+
+    return {
+      handle: bytesToHex(encrypted.handles[0]),
+      inputProof: bytesToHex(encrypted.inputProof),
+    };
+  } catch (error) {
+    console.error('[FHE] Encryption failed:', error);
+    throw new Error(`Encryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Publicly decrypt handles through the relayer
+ * Used to obtain the KMS-signed cleartext of a match result
+ *
+ * @param handles - Ciphertext handles marked publicly decryptable on-chain
+ * @returns Object containing ABI-encoded cleartexts and decryption proof
+ */
+export async function publicDecrypt(
+  handles: string[]
+): Promise<{ clearValues: Record<string, bigint | boolean | string>; abiEncodedClearValues: string; decryptionProof: string }> {
+  console.log('[FHE] Public decryption requested for handles:', handles);
+
+  if (!fheInstance) {
+    throw new Error('FHE not initialized');
+  }
+
+  try {
+    const results = await fheInstance.publicDecrypt(handles);
+
+    console.log('[FHE] Public decryption successful');
+    console.log('[FHE] Clear values:', results.clearValues);
+
+    return {
+      clearValues: results.clearValues,
+      abiEncodedClearValues: results.abiEncodedClearValues,
+      decryptionProof: results.decryptionProof,
+    };
+  } catch (error) {
+    console.error('[FHE] Public decryption failed:', error);
+    throw new Error(`Public decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * EIP-712 payload the wallet signs to authorize user decryption
+ */
+export type UserDecryptTypedData = {
+  domain: Record<string, unknown>;
+  types: Record<string, { name: string; type: string }[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+};
+
+type UserDecryptCredentials = {
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  startTimestamp: string;
+  durationDays: string;
+};
+
+// Days a user decryption signature stays valid; the credentials are only kept for this page session
+const USER_DECRYPT_DURATION_DAYS = '1';
+
+// Keypairs and signatures by user and contract. Held in memory only, never in storage, so the
+// private key is gone on reload and the wallet signs again once per session
+const userDecryptCredentials = new Map<string, UserDecryptCredentials>();
+
+const credentialsKey = (userAddress: string, contractAddress: string) =>
+  `fhe-user-decrypt:${userAddress.toLowerCase()}:${contractAddress.toLowerCase()}`;
+
+/**
+ * Load this session's unexpired user decryption keypair and signature
+ */
+function loadUserDecryptCredentials(userAddress: string, contractAddress: string): UserDecryptCredentials | null {
+  const credentials = userDecryptCredentials.get(credentialsKey(userAddress, contractAddress));
+  if (!credentials) {
+    return null;
+  }
+
+  const expiresAt = Number(credentials.startTimestamp) + Number(credentials.durationDays) * 24 * 60 * 60;
+  return expiresAt > Math.floor(Date.now() / 1000) ? credentials : null;
+}
+
+/**
+ * Check if user decryption can run without asking for a new signature
+ *
+ * @param userAddress - User wallet address
+ * @param contractAddress - Contract that owns the handles
+ * @returns boolean
+ */
+export function hasUserDecryptSignature(userAddress: string, contractAddress: string): boolean {
+  return loadUserDecryptCredentials(userAddress, contractAddress) !== null;
+}
+
+/**
+ * Decrypt handles the user has ACL access to through the relayer
+ * Generates a keypair and asks for the EIP-712 authorization once per session;
+ * both stay in memory so later decryptions in the same session need no new signature
+ *
+ * @param handles - Ciphertext handles the user is allowed to decrypt
+ * @param contractAddress - Contract that owns the handles
+ * @param userAddress - User wallet address
+ * @param signTypedData - Wallet callback signing the EIP-712 authorization
+ * @returns Object mapping each handle to its cleartext
+ */
+export async function userDecrypt(
+  handles: string[],
+  contractAddress: string,
+  userAddress: string,
+  signTypedData: (typedData: UserDecryptTypedData) => Promise<string>
+): Promise<Record<string, bigint | boolean | string>> {
+  console.log('[FHE] User decryption requested for handles:', handles);
+
+  if (!fheInstance) {
+    throw new Error('FHE not initialized');
+  }
+
+  try {
+    let credentials = loadUserDecryptCredentials(userAddress, contractAddress);
+
+    if (!credentials) {
+      const keypair = fheInstance.generateKeypair();
+      const startTimestamp = Math.floor(Date.now() / 1000).toString();
+      const eip712 = fheInstance.createEIP712(
+        keypair.publicKey,
+        [contractAddress],
+        startTimestamp,
+        USER_DECRYPT_DURATION_DAYS
+      );
+
+      const signature = await signTypedData({
+        domain: eip712.domain,
+        types: { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+        primaryType: 'UserDecryptRequestVerification',
+        message: eip712.message,
+      });
+
+      credentials = {
+        publicKey: keypair.publicKey,
+        privateKey: keypair.privateKey,
+        signature,
+        startTimestamp,
+        durationDays: USER_DECRYPT_DURATION_DAYS,
+      };
+      userDecryptCredentials.set(credentialsKey(userAddress, contractAddress), credentials);
+      // Drop credentials earlier versions persisted across sessions
+      localStorage.removeItem(credentialsKey(userAddress, contractAddress));
+    }
+
+    const results = await fheInstance.userDecrypt(
+      handles.map((handle) => ({ handle, contractAddress })),
+      credentials.privateKey,
+      credentials.publicKey,
+      credentials.signature.replace('0x', ''),
+      [contractAddress],
+      userAddress,
+      credentials.startTimestamp,
+      credentials.durationDays
+    );
+
+    console.log('[FHE] User decryption successful');
+
+    return results;
+  } catch (error) {
+    console.error('[FHE] User decryption failed:', error);
+    throw new Error(`User decryption failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Check if FHE is initialized
  * @returns boolean
@@ -0,0 +1,69 @@
+/**
+ * Invite Code Helpers
+ *
+ * An invite code is a random private key shared through the match link.
+ * The arena only stores the code's address; joiners prove they hold the code
+ * by signing the join digest locally, without a wallet prompt.
+ */
+
+import { encodeAbiParameters, keccak256, type Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+import { CONTRACT_ADDRESS } from '@/config/wagmi';
+
+const STORAGE_PREFIX = 'rps-invite-code:';
+
+/**
+ * Generate a new secret invite code and the address registered on-chain
+ */
+export function generateInviteCode(): { code: Hex; signer: `0x${string}` } {
+  const code = generatePrivateKey();
+  return { code, signer: privateKeyToAccount(code).address };
+}
+
+/**
+ * Check that a string from a link is a well-formed invite code
+ */
+export function isInviteCode(value: string): value is Hex {
+  return /^0x[0-9a-fA-F]{64}$/.test(value);
+}
+
+/**
+ * Sign the join digest for `joiner`, mirroring RockPaperArena.getInviteCodeDigest
+ */
+export async function signInviteCode(
+  code: Hex,
+  matchId: number,
+  joiner: `0x${string}`,
+  chainId: number
+): Promise<Hex> {
+  const digest = keccak256(
+    encodeAbiParameters(
+      [{ type: 'address' }, { type: 'uint256' }, { type: 'uint256' }, { type: 'address' }],
+      [CONTRACT_ADDRESS as `0x${string}`, BigInt(chainId), BigInt(matchId), joiner]
+    )
+  );
+
+  return privateKeyToAccount(code).signMessage({ message: { raw: digest } });
+}
+
+/**
+ * Build the shareable link that lets the holder join the match in one click
+ */
+export function buildInviteLink(matchId: number, code: Hex): string {
+  return `${window.location.origin}/match?id=${matchId}&code=${code}`;
+}
+
+/**
+ * Remember the code of a created match so the creator can share it again after a reload
+ */
+export function saveInviteCode(matchId: number, code: Hex): void {
+  localStorage.setItem(`${STORAGE_PREFIX}${matchId}`, code);
+}
+
+/**
+ * Load the code saved for a created match
+ */
+export function loadInviteCode(matchId: number): Hex | null {
+  const code = localStorage.getItem(`${STORAGE_PREFIX}${matchId}`);
+  return code && isInviteCode(code) ? code : null;
+}
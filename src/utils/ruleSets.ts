@@ -0,0 +1,46 @@
+/**
+ * Rule Set Helpers
+ *
+ * Gesture metadata for each arena rule set, mirroring RockPaperArena.RuleSet
+ * and the contract's Gesture numbering (Lizard and Spock only exist in RPSLS)
+ */
+
+import type { Gesture, RuleSet } from '@/hooks/useRockPaperArena';
+
+export type GestureOption = {
+  id: Gesture;
+  name: string;
+  symbol: string;
+};
+
+export type RuleSetOption = {
+  id: RuleSet;
+  name: string;
+  gestures: GestureOption[];
+};
+
+const CLASSIC_GESTURES: GestureOption[] = [
+  { id: 0, name: 'ROCK', symbol: '✊' },
+  { id: 1, name: 'PAPER', symbol: '✋' },
+  { id: 2, name: 'SCISSORS', symbol: '✌️' },
+];
+
+export const RULE_SETS: RuleSetOption[] = [
+  { id: 0, name: 'CLASSIC', gestures: CLASSIC_GESTURES },
+  {
+    id: 1,
+    name: 'LIZARD SPOCK',
+    gestures: [
+      ...CLASSIC_GESTURES,
+      { id: 3, name: 'LIZARD', symbol: '🦎' },
+      { id: 4, name: 'SPOCK', symbol: '🖖' },
+    ],
+  },
+];
+
+/**
+ * Look up a rule set by its on-chain ID, falling back to classic
+ */
+export function getRuleSet(ruleSet: number): RuleSetOption {
+  return RULE_SETS.find((r) => r.id === ruleSet) ?? RULE_SETS[0];
+}
@@ -0,0 +1,34 @@
+/**
+ * Wager Token Helpers
+ *
+ * Resolves stake token metadata from the configured wager tokens
+ * and formats match stakes for display
+ */
+
+import { formatUnits } from 'viem';
+import { WAGER_TOKENS, type WagerToken } from '@/config/wagmi';
+
+/**
+ * Look up a wager token by address
+ * Unknown tokens are labelled by address and assumed to use 18 decimals
+ */
+export function getWagerToken(address: string): WagerToken {
+  const token = WAGER_TOKENS.find((t) => t.address.toLowerCase() === address.toLowerCase());
+  if (token) {
+    return token;
+  }
+
+  return {
+    symbol: `${address.slice(0, 6)}...${address.slice(-4)}`,
+    address: address as `0x${string}`,
+    decimals: 18,
+  };
+}
+
+/**
+ * Format a match stake with its token symbol, e.g. "0.5 ETH"
+ */
+export function formatStake(stake: bigint, stakeToken: string): string {
+  const token = getWagerToken(stakeToken);
+  return `${formatUnits(stake, token.decimals)} ${token.symbol}`;
+}